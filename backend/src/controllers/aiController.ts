@@ -6,22 +6,77 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth';
 import { logger } from '../utils/logger';
-import { getAIProvider, isAIEnabled } from '../services/aiProviderAdapter';
-import { findAvailableSlots, scheduleEvent } from '../services/schedulerService';
+import { getAIProvider, getAIProviderChain, getAIProviderHealth, isAIEnabled } from '../services/aiProviderAdapter';
+import {
+    findAvailableSlots,
+    recheckSlot,
+    scheduleEvent,
+    undoScheduleOperation,
+    placeWeeklyFocusTime
+} from '../services/schedulerService';
+import { saveSuggestions, getSuggestion, discardSuggestionSet } from '../services/suggestionService';
+import { findTargetEvents } from '../services/eventMatchService';
+import { saveCommand, applyCommand } from '../services/commandService';
+import { getMemberWorkspace } from '../services/roleService';
+import {
+    startSession,
+    getSession,
+    assertSessionOpen,
+    getSessionPrompt,
+    mergeParsedIntent,
+    recordTurns
+} from '../services/sessionService';
+import { notifyInvitedAttendees } from '../services/attendeeService';
+import { notificationService } from '../services/notificationService';
+import { reminderService } from '../services/reminderService';
+import { getUserTimeZone } from '../services/userSettingsService';
+import { getSchedulingProfile } from '../services/schedulingProfileService';
+import { assertWithinQuota, getUsageReport, recordUsage } from '../services/aiUsageService';
+import { getCachedIntent, cacheIntent } from '../utils/intentCache';
 import {
     ParsedIntent,
+    CommandTarget,
     SchedulingContext,
     ScheduleRequest,
-    AIResponse
+    ScheduleResult,
+    AIResponse,
+    TokenUsage
 } from '../types/ai';
 
+/**
+ * Build the scheduling context for a search window
+ */
+const buildSchedulingContext = async (
+    userId: string,
+    parsedIntent: ParsedIntent,
+    searchWindowStart: string,
+    searchWindowEnd: string,
+    workspaceId?: string,
+    movingEvent?: CommandTarget
+): Promise<SchedulingContext> => ({
+    userId,
+    workspaceId,
+    parsedIntent,
+    searchWindowStart,
+    searchWindowEnd,
+    movingEvent,
+    workingHours: {
+        start: process.env.WORKING_HOURS_START || '09:00',
+        end: process.env.WORKING_HOURS_END || '17:00',
+        timezone: await getUserTimeZone(userId)
+    },
+    profile: await getSchedulingProfile(userId, workspaceId)
+});
+
 /**
  * Parse natural language into structured intent
+ * Each prompt is a turn of a scheduling session: without a sessionId a new session
+ * is started, with one the prompt answers the last clarification and refines the intent
  * @route POST /api/ai/parse
  */
 export const parseIntent = async (req: AuthRequest, res: Response) => {
     try {
-        const { prompt } = req.body;
+        const { prompt, sessionId, workspaceId } = req.body;
 
         // Validation
         if (!prompt || typeof prompt !== 'string') {
@@ -43,36 +98,76 @@ export const parseIntent = async (req: AuthRequest, res: Response) => {
 
         logger.debug('Parsing intent', {
             userId: req.user.uid,
+            sessionId,
             promptLength: prompt.length
         });
 
-        // Get AI provider and parse
+        const session = sessionId
+            ? await getSession(sessionId, req.user.uid)
+            : await startSession(req.user.uid, workspaceId);
+        assertSessionOpen(session);
+
+        // Parse the whole conversation, so answers complete the original request
+        const conversation = getSessionPrompt(session, prompt);
         const provider = getAIProvider();
-        const parsedIntent = await provider.parseIntent(prompt, {
-            userId: req.user.uid,
-            timezone: req.user.timezone || 'UTC'
-        });
+        const timezone = await getUserTimeZone(req.user.uid);
+        const workspace = session.workspaceId || undefined;
+        const usage: TokenUsage[] = [];
+        const onUsage = (call: TokenUsage) => usage.push(call);
+
+        // Quota is checked for cached answers too, since a clarification may still call the model.
+        // A cached parse is counted as a cached request rather than a request; tokens still count.
+        await assertWithinQuota(req.user.uid, workspace);
+
+        // The same user resubmitting the same prompt is answered from the cache
+        const cacheScope = { userId: req.user.uid, workspaceId: workspace };
+        let intent = getCachedIntent(cacheScope, conversation, timezone);
+        const cached = !!intent;
+        if (!intent) {
+            intent = await provider.parseIntent(conversation, { userId: req.user.uid, timezone, onUsage });
+            cacheIntent(cacheScope, conversation, timezone, intent);
+        }
 
-        // Check if clarification is needed
-        if (parsedIntent.ambiguities && parsedIntent.ambiguities.length > 0) {
-            const clarification = await provider.generateClarification(
-                prompt,
-                parsedIntent.ambiguities
-            );
+        const parsedIntent = mergeParsedIntent(session.parsedIntent, intent);
+        const ambiguities = parsedIntent.ambiguities || [];
+
+        const clarification = ambiguities.length > 0
+            ? await provider.generateClarification(conversation, ambiguities, { userId: req.user.uid, onUsage })
+            : undefined;
 
+        await recordUsage(req.user.uid, workspace, usage, cached);
+
+        // Check if clarification is needed
+        if (clarification) {
             logger.info('Clarification needed', {
-                ambiguities: parsedIntent.ambiguities
+                sessionId: session.id,
+                ambiguities
             });
 
+            const updated = await recordTurns(
+                session,
+                [{ role: 'user', text: prompt }, { role: 'assistant', text: clarification }],
+                { parsedIntent, ambiguities, status: 'clarifying' }
+            );
+
             return res.json({
                 success: true,
                 parsedIntent,
+                sessionId: session.id,
+                session: updated,
                 clarificationNeeded: true,
                 clarificationQuestion: clarification
             } as AIResponse);
         }
 
+        const updated = await recordTurns(
+            session,
+            [{ role: 'user', text: prompt }],
+            { parsedIntent, ambiguities, status: 'ready' }
+        );
+
         logger.success('Intent parsed successfully', {
+            sessionId: session.id,
             title: parsedIntent.title,
             confidence: parsedIntent.confidence
         });
@@ -80,6 +175,8 @@ export const parseIntent = async (req: AuthRequest, res: Response) => {
         res.json({
             success: true,
             parsedIntent,
+            sessionId: session.id,
+            session: updated,
             clarificationNeeded: false
         } as AIResponse);
     } catch (error) {
@@ -90,7 +187,15 @@ export const parseIntent = async (req: AuthRequest, res: Response) => {
         let statusCode = 500;
         let userMessage = errorMessage;
 
-        if (errorMessage.includes('429') || errorMessage.includes('quota') || errorMessage.includes('rate limit')) {
+        if (errorMessage.includes('not found')) {
+            statusCode = 404;
+        } else if (errorMessage.includes('Access denied')) {
+            statusCode = 403;
+        } else if (errorMessage.includes('Scheduling session')) {
+            statusCode = 409;
+        } else if (errorMessage.includes('usage quota exceeded')) {
+            statusCode = 429;
+        } else if (errorMessage.includes('429') || errorMessage.includes('quota') || errorMessage.includes('rate limit')) {
             statusCode = 429;
             userMessage = 'AI service is temporarily rate limited. Please try again in a few moments.';
         } else if (errorMessage.includes('GEMINI_API_KEY') || errorMessage.includes('API key')) {
@@ -111,15 +216,16 @@ export const parseIntent = async (req: AuthRequest, res: Response) => {
 
 /**
  * Generate time slot suggestions
+ * Within a session the session's intent and workspace are used unless given.
+ * For a move, the suggestions are new times for the event the request names.
  * @route POST /api/ai/suggest
  */
 export const suggestSlots = async (req: AuthRequest, res: Response) => {
     try {
-        const {
-            parsedIntent,
-            workspaceId,
-            searchWindowDays = 7
-        } = req.body;
+        const { sessionId, searchWindowDays = 7 } = req.body;
+        const session = sessionId ? await getSession(sessionId, req.user.uid) : null;
+        const parsedIntent: ParsedIntent | undefined = req.body.parsedIntent || session?.parsedIntent;
+        const workspaceId: string | undefined = req.body.workspaceId || session?.workspaceId || undefined;
 
         // Validation
         if (!parsedIntent) {
@@ -139,12 +245,39 @@ export const suggestSlots = async (req: AuthRequest, res: Response) => {
             });
         }
 
+        // Cancel and update change events in place, there is no time to suggest
+        if (parsedIntent.action === 'cancel' || parsedIntent.action === 'update') {
+            return res.status(400).json({
+                success: false,
+                error: 'Cancel and update requests are confirmed as commands, not scheduled'
+            });
+        }
+
         logger.debug('Generating slot suggestions', {
             userId: req.user.uid,
             workspaceId,
+            action: parsedIntent.action || 'create',
             searchWindowDays
         });
 
+        // A moved event keeps its title and length unless the request changes them
+        let movingEvent: CommandTarget | undefined;
+        let intent: ParsedIntent = parsedIntent;
+        if (parsedIntent.action === 'move') {
+            [movingEvent] = await findTargetEvents(req.user.uid, parsedIntent.target || {}, workspaceId);
+            if (!movingEvent) {
+                throw new Error('No matching event found to move');
+            }
+
+            intent = {
+                ...parsedIntent,
+                title: movingEvent.title,
+                duration: parsedIntent.duration || Math.round(
+                    (new Date(movingEvent.endDate).getTime() - new Date(movingEvent.startDate).getTime()) / 60000
+                )
+            };
+        }
+
         // Build scheduling context
         const now = new Date();
         const searchWindowStart = parsedIntent.startDate || now.toISOString();
@@ -152,21 +285,33 @@ export const suggestSlots = async (req: AuthRequest, res: Response) => {
             new Date(searchWindowStart).getTime() + searchWindowDays * 24 * 60 * 60 * 1000
         ).toISOString();
 
-        const context: SchedulingContext = {
-            userId: req.user.uid,
-            workspaceId,
-            parsedIntent: parsedIntent as ParsedIntent,
+        const context = await buildSchedulingContext(
+            req.user.uid,
+            intent,
             searchWindowStart,
             searchWindowEnd,
-            workingHours: {
-                start: process.env.WORKING_HOURS_START || '09:00',
-                end: process.env.WORKING_HOURS_END || '17:00',
-                timezone: req.user.timezone || 'UTC'
-            }
-        };
+            workspaceId,
+            movingEvent
+        );
 
-        // Find available slots
+        // Find available slots, stored so they can be booked by id
         const suggestions = await findAvailableSlots(context);
+        const suggestionSetId = await saveSuggestions(context, suggestions);
+
+        if (session) {
+            await recordTurns(
+                session,
+                [{
+                    role: 'assistant',
+                    text: suggestions.length > 0
+                        ? movingEvent
+                            ? `I found ${suggestions.length} possible new time${suggestions.length > 1 ? 's' : ''} for "${movingEvent.title}". Pick one to move it.`
+                            : `I found ${suggestions.length} possible time${suggestions.length > 1 ? 's' : ''}. Pick one to book it.`
+                        : 'I could not find a suitable time. Try changing the request.'
+                }],
+                { status: 'suggested', suggestionSetId }
+            );
+        }
 
         logger.success('Slot suggestions generated', {
             count: suggestions.length
@@ -174,13 +319,19 @@ export const suggestSlots = async (req: AuthRequest, res: Response) => {
 
         res.json({
             success: true,
-            suggestions
+            suggestions,
+            suggestionSetId,
+            sessionId: session?.id,
+            targetEvent: movingEvent
         } as AIResponse);
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Failed to generate suggestions';
         logger.error('Error in suggestSlots controller', error);
 
-        res.status(500).json({
+        const statusCode = errorMessage.includes('not found') ? 404 :
+            errorMessage.includes('Access denied') ? 403 : 500;
+
+        res.status(statusCode).json({
             success: false,
             error: errorMessage
         } as AIResponse);
@@ -188,26 +339,25 @@ export const suggestSlots = async (req: AuthRequest, res: Response) => {
 };
 
 /**
- * Schedule event using selected slot
+ * Schedule event using a stored suggestion (or move the event the suggestion is for)
+ * The slot is re-checked against current data; a stale slot returns fresh suggestions
  * @route POST /api/ai/schedule
  */
 export const scheduleWithAI = async (req: AuthRequest, res: Response) => {
     try {
         const {
             slotId,
-            parsedIntent,
-            selectedSlot,
-            workspaceId,
+            sessionId,
             autoResolveConflicts = false,
             notifyAttendees = false
-        } = req.body as ScheduleRequest & any;
+        } = req.body as ScheduleRequest;
 
         // Validation
-        if (!selectedSlot || !parsedIntent) {
-            logger.warn('Missing required fields in schedule request');
+        if (!slotId || typeof slotId !== 'string') {
+            logger.warn('Missing slotId in schedule request');
             return res.status(400).json({
                 success: false,
-                message: 'selectedSlot and parsedIntent are required'
+                message: 'slotId is required'
             });
         }
 
@@ -226,21 +376,108 @@ export const scheduleWithAI = async (req: AuthRequest, res: Response) => {
             autoResolve: autoResolveConflicts
         });
 
-        // Schedule the event
+        const suggestion = await getSuggestion(slotId, req.user.uid);
+        const session = sessionId ? await getSession(sessionId, req.user.uid) : null;
+        const { parsedIntent, targetEvent } = suggestion;
+        const workspaceId = suggestion.workspaceId || undefined;
+        // The suggestion was made while the user was a member; they may have left since
+        if (workspaceId) {
+            await getMemberWorkspace(workspaceId, req.user.uid);
+        }
+        const context = await buildSchedulingContext(
+            req.user.uid,
+            parsedIntent,
+            suggestion.searchWindowStart,
+            suggestion.searchWindowEnd,
+            workspaceId,
+            targetEvent
+        );
+
+        const { stale, slot } = await recheckSlot(suggestion.slot, context, autoResolveConflicts);
+
+        if (stale) {
+            // Search again from now, over what is left of the original window
+            const freshContext = {
+                ...context,
+                searchWindowStart: new Date(Math.max(Date.now(), new Date(context.searchWindowStart).getTime())).toISOString()
+            };
+            const suggestions = await findAvailableSlots(freshContext);
+            const suggestionSetId = await saveSuggestions(freshContext, suggestions);
+            await discardSuggestionSet(suggestion.suggestionSetId);
+
+            logger.warn('Selected slot went stale', { slotId, fresh: suggestions.length });
+
+            return res.status(409).json({
+                success: false,
+                stale: true,
+                suggestions,
+                suggestionSetId,
+                message: 'The selected time is no longer available. Suggestions have been updated.'
+            } as ScheduleResult);
+        }
+
+        // Schedule the event, with moves planned against current data
         const result = await scheduleEvent(
-            selectedSlot,
-            parsedIntent as ParsedIntent,
+            slot,
+            parsedIntent,
             req.user.uid,
             workspaceId,
-            autoResolveConflicts
+            autoResolveConflicts,
+            targetEvent
         );
 
-        // TODO: Send notifications if requested
-        if (notifyAttendees && parsedIntent.attendees) {
-            logger.info('Attendee notifications requested', {
-                attendees: parsedIntent.attendees.length
-            });
-            // Implement notification service call here
+        // A suggestion set is booked at most once
+        await discardSuggestionSet(suggestion.suggestionSetId);
+
+        if (session) {
+            await recordTurns(
+                session,
+                [{
+                    role: 'assistant',
+                    text: targetEvent
+                        ? `Moved "${targetEvent.title}".`
+                        : `Booked "${parsedIntent.title || 'New Event'}".`
+                }],
+                { status: 'booked', eventId: result.eventId }
+            );
+        }
+
+        // A moved occurrence left its series, so the series reminder for it goes
+        if (targetEvent) {
+            if (targetEvent.occurrenceStart) {
+                await reminderService.cancelRemindersByEvent(
+                    targetEvent.eventId,
+                    'this',
+                    new Date(targetEvent.occurrenceStart)
+                );
+            } else {
+                await reminderService.updateRemindersForEvent(
+                    targetEvent.eventId,
+                    new Date(slot.startTime),
+                    targetEvent.title
+                );
+            }
+
+            await notificationService.notifyEventUpdated(
+                result.eventId,
+                req.user.uid,
+                targetEvent.title,
+                workspaceId
+            );
+        }
+
+        // Invite attendees if requested
+        if (notifyAttendees && result.attendees.length > 0) {
+            await notifyInvitedAttendees(
+                result.eventId,
+                {
+                    title: parsedIntent.title || 'New Event',
+                    startDate: slot.startTime,
+                    workspaceId
+                },
+                result.attendees,
+                req.user.name || req.user.email || 'Someone'
+            );
         }
 
         logger.success('Event scheduled successfully', {
@@ -251,14 +488,229 @@ export const scheduleWithAI = async (req: AuthRequest, res: Response) => {
         res.json({
             success: true,
             eventId: result.eventId,
+            operationId: result.operationId,
             movedEvents: result.movedEvents,
-            message: 'Event scheduled successfully'
+            message: targetEvent ? 'Event moved successfully' : 'Event scheduled successfully'
         });
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Failed to schedule event';
         logger.error('Error in scheduleWithAI controller', error);
 
-        res.status(500).json({
+        // Nothing was changed; a stale suggestion needs new suggestions
+        const statusCode = errorMessage.includes('not found') ? 404 :
+            errorMessage.includes('Access denied') ? 403 :
+                errorMessage.includes('expired') ? 410 :
+                    errorMessage.includes('changed since') || errorMessage.includes('cannot be moved') ? 409 : 500;
+
+        res.status(statusCode).json({
+            success: false,
+            message: errorMessage
+        });
+    }
+};
+
+/**
+ * Undo an AI schedule operation (restore moved events, delete the created event)
+ * @route POST /api/ai/schedule/:operationId/undo
+ */
+export const undoSchedule = async (req: AuthRequest, res: Response) => {
+    try {
+        const operationId = req.params.operationId as string;
+
+        logger.debug('Undoing AI schedule operation', {
+            userId: req.user.uid,
+            operationId
+        });
+
+        const changeSet = await undoScheduleOperation(operationId, req.user.uid);
+
+        // Undoing a move puts the event back rather than deleting it
+        if (changeSet.action === 'move') {
+            await notificationService.notifyEventUpdated(
+                changeSet.excludedOccurrence?.seriesId || changeSet.movedEvents[0]?.eventId,
+                req.user.uid,
+                changeSet.createdEventTitle,
+                changeSet.workspaceId || undefined
+            );
+        } else if (changeSet.createdEventId) {
+            await notificationService.notifyEventDeleted(
+                changeSet.createdEventId,
+                req.user.uid,
+                changeSet.createdEventTitle,
+                changeSet.workspaceId || undefined
+            );
+        }
+
+        res.json({
+            success: true,
+            operationId,
+            restoredEvents: changeSet.movedEvents.length,
+            message: 'Scheduling undone'
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to undo scheduling';
+        logger.error('Error in undoSchedule controller', error);
+
+        const statusCode = errorMessage.includes('not found') ? 404 :
+            errorMessage.includes('Access denied') ? 403 :
+                errorMessage.includes('already been undone') || errorMessage.includes('cannot be restored') ? 409 : 500;
+
+        res.status(statusCode).json({
+            success: false,
+            message: errorMessage
+        });
+    }
+};
+
+/**
+ * Preview a cancel or update command: find the events it refers to and store it
+ * until the user confirms
+ * @route POST /api/ai/commands
+ */
+export const previewCommand = async (req: AuthRequest, res: Response) => {
+    try {
+        const { sessionId } = req.body;
+        const session = sessionId ? await getSession(sessionId, req.user.uid) : null;
+        const parsedIntent: ParsedIntent | undefined = req.body.parsedIntent || session?.parsedIntent;
+        const workspaceId: string | undefined = req.body.workspaceId || session?.workspaceId || undefined;
+
+        // Validation
+        if (!parsedIntent || (parsedIntent.action !== 'cancel' && parsedIntent.action !== 'update')) {
+            logger.warn('Invalid parsedIntent in command request');
+            return res.status(400).json({
+                success: false,
+                error: 'parsedIntent with a cancel or update action is required'
+            });
+        }
+
+        const changes = parsedIntent.changes || {};
+        if (parsedIntent.action === 'update' && Object.values(changes).every(value => value === undefined)) {
+            return res.status(400).json({
+                success: false,
+                error: 'Update requests must say what to change'
+            });
+        }
+
+        // Check if AI is enabled
+        if (!isAIEnabled()) {
+            logger.warn('AI features are disabled');
+            return res.status(403).json({
+                success: false,
+                error: 'AI features are not enabled'
+            });
+        }
+
+        logger.debug('Previewing AI command', {
+            userId: req.user.uid,
+            action: parsedIntent.action,
+            workspaceId
+        });
+
+        const targets = await findTargetEvents(req.user.uid, parsedIntent.target || {}, workspaceId);
+        if (targets.length === 0) {
+            throw new Error('No matching events found');
+        }
+
+        const command = await saveCommand(
+            req.user.uid,
+            parsedIntent.action,
+            targets,
+            parsedIntent.action === 'update' ? changes : undefined,
+            workspaceId
+        );
+
+        if (session) {
+            const verb = command.action === 'cancel' ? 'cancel' : 'update';
+            await recordTurns(
+                session,
+                [{
+                    role: 'assistant',
+                    text: `This will ${verb} ${targets.length} event${targets.length > 1 ? 's' : ''}. Confirm to continue.`
+                }],
+                { status: 'suggested' }
+            );
+        }
+
+        logger.success('AI command previewed', {
+            commandId: command.id,
+            targets: targets.length
+        });
+
+        res.json({
+            success: true,
+            sessionId: session?.id,
+            command
+        } as AIResponse);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to preview command';
+        logger.error('Error in previewCommand controller', error);
+
+        const statusCode = errorMessage.includes('not found') ? 404 :
+            errorMessage.includes('Access denied') ? 403 : 500;
+
+        res.status(statusCode).json({
+            success: false,
+            error: errorMessage
+        } as AIResponse);
+    }
+};
+
+/**
+ * Apply a previewed cancel or update command
+ * @route POST /api/ai/commands/:commandId/apply
+ */
+export const confirmCommand = async (req: AuthRequest, res: Response) => {
+    try {
+        const commandId = req.params.commandId as string;
+        const { sessionId } = req.body;
+
+        logger.debug('Confirming AI command', {
+            userId: req.user.uid,
+            commandId
+        });
+
+        const session = sessionId ? await getSession(sessionId, req.user.uid) : null;
+        const command = await applyCommand(commandId, req.user.uid);
+        const workspaceId = command.workspaceId || undefined;
+
+        for (const target of command.targets) {
+            if (command.action === 'cancel') {
+                await notificationService.notifyEventDeleted(target.eventId, req.user.uid, target.title, workspaceId);
+            } else {
+                await notificationService.notifyEventUpdated(
+                    target.eventId,
+                    req.user.uid,
+                    command.changes?.title || target.title,
+                    workspaceId
+                );
+            }
+        }
+
+        const count = `${command.targets.length} event${command.targets.length > 1 ? 's' : ''}`;
+        const message = command.action === 'cancel' ? `Cancelled ${count}` : `Updated ${count}`;
+
+        if (session) {
+            await recordTurns(session, [{ role: 'assistant', text: `${message}.` }], { status: 'applied' });
+        }
+
+        res.json({
+            success: true,
+            commandId,
+            action: command.action,
+            applied: command.targets.length,
+            message
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to apply command';
+        logger.error('Error in confirmCommand controller', error);
+
+        // Nothing was changed; an outdated command needs a new preview
+        const statusCode = errorMessage.includes('not found') ? 404 :
+            errorMessage.includes('Access denied') ? 403 :
+                errorMessage.includes('expired') ? 410 :
+                    errorMessage.includes('already been applied') || errorMessage.includes('changed since') ? 409 : 500;
+
+        res.status(statusCode).json({
             success: false,
             message: errorMessage
         });
@@ -271,7 +723,12 @@ export const scheduleWithAI = async (req: AuthRequest, res: Response) => {
  */
 export const getClarification = async (req: AuthRequest, res: Response) => {
     try {
-        const { prompt, ambiguities } = req.body;
+        const { sessionId } = req.body;
+        const session = sessionId ? await getSession(sessionId, req.user.uid) : null;
+
+        // Within a session, the question is about the conversation so far
+        const prompt: string | undefined = session ? getSessionPrompt(session) : req.body.prompt;
+        const ambiguities: string[] | undefined = session ? session.ambiguities : req.body.ambiguities;
 
         // Validation
         if (!prompt || !ambiguities) {
@@ -296,30 +753,114 @@ export const getClarification = async (req: AuthRequest, res: Response) => {
             ambiguities: ambiguities.length
         });
 
+        const workspaceId = session?.workspaceId || undefined;
+        await assertWithinQuota(req.user.uid, workspaceId);
+
         // Get AI provider and generate clarification
         const provider = getAIProvider();
+        const usage: TokenUsage[] = [];
         const clarificationQuestion = await provider.generateClarification(
             prompt,
-            ambiguities
+            ambiguities,
+            { userId: req.user.uid, onUsage: (call: TokenUsage) => usage.push(call) }
         );
+        await recordUsage(req.user.uid, workspaceId, usage);
+
+        if (session) {
+            await recordTurns(session, [{ role: 'assistant', text: clarificationQuestion }]);
+        }
 
         logger.success('Clarification generated');
 
         res.json({
             success: true,
+            sessionId: session?.id,
             clarificationQuestion
         } as AIResponse);
     } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Failed to generate clarification';
         logger.error('Error in getClarification controller', error);
 
-        res.status(500).json({
+        const statusCode = errorMessage.includes('not found') ? 404 :
+            errorMessage.includes('Access denied') ? 403 :
+            errorMessage.includes('usage quota exceeded') ? 429 : 500;
+
+        res.status(statusCode).json({
             success: false,
             error: errorMessage
         } as AIResponse);
     }
 };
 
+/**
+ * Get a scheduling session, to resume the conversation
+ * @route GET /api/ai/sessions/:sessionId
+ */
+export const getSchedulingSession = async (req: AuthRequest, res: Response) => {
+    try {
+        const session = await getSession(req.params.sessionId as string, req.user.uid);
+
+        res.json({
+            success: true,
+            sessionId: session.id,
+            session,
+            parsedIntent: session.parsedIntent
+        } as AIResponse);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to get scheduling session';
+        logger.error('Error in getSchedulingSession controller', error);
+
+        const statusCode = errorMessage.includes('not found') ? 404 :
+            errorMessage.includes('Access denied') ? 403 : 500;
+
+        res.status(statusCode).json({
+            success: false,
+            error: errorMessage
+        } as AIResponse);
+    }
+};
+
+/**
+ * Place focus blocks into free time, up to the user's weekly focus target
+ * @route POST /api/ai/focus-time
+ */
+export const placeFocusTime = async (req: AuthRequest, res: Response) => {
+    try {
+        const { weekStart } = req.body;
+
+        if (weekStart && isNaN(Date.parse(weekStart))) {
+            return res.status(400).json({
+                success: false,
+                message: 'weekStart must be a valid date'
+            });
+        }
+
+        logger.debug('Placing focus time', { userId: req.user.uid, weekStart });
+
+        const events = await placeWeeklyFocusTime(
+            req.user.uid,
+            weekStart ? new Date(weekStart) : new Date(),
+            await getSchedulingProfile(req.user.uid)
+        );
+
+        res.json({
+            success: true,
+            events,
+            message: events.length > 0
+                ? `Placed ${events.length} focus block${events.length > 1 ? 's' : ''}`
+                : 'No focus blocks needed or no free time found'
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to place focus time';
+        logger.error('Error in placeFocusTime controller', error);
+
+        res.status(500).json({
+            success: false,
+            message: errorMessage
+        });
+    }
+};
+
 /**
  * Get AI provider status and configuration
  * @route GET /api/ai/status
@@ -327,14 +868,19 @@ export const getClarification = async (req: AuthRequest, res: Response) => {
 export const getAIStatus = async (req: AuthRequest, res: Response) => {
     try {
         const enabled = isAIEnabled();
-        const providerType = process.env.AI_PROVIDER || 'mock';
+        const chain = getAIProviderChain();
+        const providers = getAIProviderHealth();
 
         logger.debug('AI status requested', { userId: req.user.uid });
 
         res.json({
             success: true,
             enabled,
-            provider: providerType,
+            provider: chain[0],
+            chain,
+            providers,
+            // Requests are being served by a fallback while the preferred provider's circuit is not closed
+            degraded: providers[0]?.state !== 'closed',
             features: {
                 parsing: enabled,
                 suggestions: enabled,
@@ -351,3 +897,25 @@ export const getAIStatus = async (req: AuthRequest, res: Response) => {
         });
     }
 };
+
+/**
+ * Get the user's AI usage and quota for the current month
+ * @route GET /api/ai/usage
+ */
+export const getAIUsage = async (req: AuthRequest, res: Response) => {
+    try {
+        logger.debug('AI usage requested', { userId: req.user.uid });
+
+        const report = await getUsageReport('user', req.user.uid);
+
+        res.json({ success: true, ...report });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to get AI usage';
+        logger.error('Error in getAIUsage controller', error);
+
+        res.status(500).json({
+            success: false,
+            error: errorMessage
+        });
+    }
+};
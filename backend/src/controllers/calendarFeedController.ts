@@ -0,0 +1,182 @@
+/**
+ * Calendar Feed Controller
+ * HTTP handlers for iCalendar import, export and subscription feeds
+ */
+
+import { Request, Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import {
+    exportCalendar,
+    createFeed,
+    getUserFeeds,
+    revokeFeed,
+    renderFeed
+} from '../services/calendarFeedService';
+import { importCalendar } from '../services/icsImportService';
+import { CalendarFeed } from '../types/event';
+
+/**
+ * Build the public subscription URL for a feed
+ */
+const getFeedUrl = (req: Request, feed: CalendarFeed): string => {
+    return `${req.protocol}://${req.get('host')}/api/events/feeds/${feed.token}/calendar.ics`;
+};
+
+/**
+ * Map service errors to HTTP status codes
+ */
+const getErrorStatus = (error: Error): number => {
+    if (error.message.includes('not found')) return 404;
+    if (error.message.includes('Access denied')) return 403;
+    return 500;
+};
+
+/**
+ * Download the user's (or a workspace's) events as an .ics file
+ * @route GET /api/events/export.ics?workspaceId=
+ */
+export const exportEvents = async (req: AuthRequest, res: Response) => {
+    try {
+        const workspaceId = req.query.workspaceId as string | undefined;
+
+        logger.debug(`User ${req.user.uid} exporting calendar`, { workspaceId });
+
+        const ics = await exportCalendar(req.user.uid, workspaceId);
+
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Content-Disposition', `attachment; filename="${workspaceId ? `workspace_${workspaceId}` : 'calendar'}.ics"`);
+        res.send(ics);
+    } catch (error) {
+        logger.error('Error exporting calendar', error);
+        res.status(getErrorStatus(error as Error)).json({ message: (error as Error).message });
+    }
+};
+
+/**
+ * Import events from an uploaded .ics file, skipping ones already imported
+ * @route POST /api/events/import (multipart: file, workspaceId?)
+ */
+export const importEvents = async (req: AuthRequest, res: Response) => {
+    try {
+        if (!req.file) {
+            return res.status(400).json({
+                success: false,
+                message: 'No .ics file uploaded'
+            });
+        }
+
+        const workspaceId = req.body.workspaceId || undefined;
+
+        logger.debug(`User ${req.user.uid} importing calendar`, {
+            filename: req.file.originalname,
+            size: req.file.size,
+            workspaceId
+        });
+
+        const report = await importCalendar(req.user.uid, req.file.buffer.toString('utf8'), workspaceId);
+
+        res.json({
+            success: true,
+            report,
+            message: `Imported ${report.created} new, ${report.updated} updated, ${report.skipped} skipped`
+        });
+    } catch (error) {
+        logger.error('Error importing calendar', error);
+        const message = (error as Error).message;
+        res.status(message.includes('No events found') ? 400 : getErrorStatus(error as Error)).json({
+            success: false,
+            message
+        });
+    }
+};
+
+/**
+ * Create a subscription feed
+ * @route POST /api/events/feeds
+ */
+export const createCalendarFeed = async (req: AuthRequest, res: Response) => {
+    try {
+        const { workspaceId } = req.body;
+
+        logger.debug(`User ${req.user.uid} creating calendar feed`, { workspaceId });
+
+        const feed = await createFeed(req.user.uid, workspaceId);
+
+        res.status(201).json({
+            success: true,
+            feed: { ...feed, url: getFeedUrl(req, feed) },
+            message: 'Calendar feed created'
+        });
+    } catch (error) {
+        logger.error('Error creating calendar feed', error);
+        res.status(getErrorStatus(error as Error)).json({
+            success: false,
+            message: (error as Error).message
+        });
+    }
+};
+
+/**
+ * List the user's active subscription feeds
+ * @route GET /api/events/feeds
+ */
+export const listCalendarFeeds = async (req: AuthRequest, res: Response) => {
+    try {
+        const feeds = await getUserFeeds(req.user.uid);
+
+        res.json({
+            success: true,
+            feeds: feeds.map(feed => ({ ...feed, url: getFeedUrl(req, feed) }))
+        });
+    } catch (error) {
+        logger.error('Error listing calendar feeds', error);
+        res.status(500).json({
+            success: false,
+            message: (error as Error).message
+        });
+    }
+};
+
+/**
+ * Revoke a subscription feed
+ * @route DELETE /api/events/feeds/:feedId
+ */
+export const revokeCalendarFeed = async (req: AuthRequest, res: Response) => {
+    try {
+        const feedId = req.params.feedId as string;
+
+        logger.debug(`User ${req.user.uid} revoking calendar feed ${feedId}`);
+
+        await revokeFeed(feedId, req.user.uid);
+
+        res.json({
+            success: true,
+            message: 'Calendar feed revoked'
+        });
+    } catch (error) {
+        logger.error('Error revoking calendar feed', error);
+        res.status(getErrorStatus(error as Error)).json({
+            success: false,
+            message: (error as Error).message
+        });
+    }
+};
+
+/**
+ * Serve a subscription feed (unauthenticated; the token is the credential)
+ * @route GET /api/events/feeds/:token/calendar.ics
+ */
+export const getCalendarFeed = async (req: Request, res: Response) => {
+    try {
+        const ics = await renderFeed(req.params.token as string);
+
+        res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+        res.setHeader('Cache-Control', 'private, max-age=300');
+        res.send(ics);
+    } catch (error) {
+        logger.warn('Calendar feed request failed', { message: (error as Error).message });
+        // Revoked feeds and feeds whose owner lost access look the same to clients
+        res.status(404).json({ message: 'Feed not found' });
+    }
+};
@@ -4,25 +4,107 @@ import { AuthRequest } from '../middleware/auth';
 import { logger } from '../utils/logger';
 import { notificationService } from '../services/notificationService';
 import { reminderService } from '../services/reminderService';
+import {
+    getEventsInRange,
+    excludeDeletedWorkspaceEvents,
+    createOccurrenceOverride,
+    excludeOccurrence,
+    splitSeries,
+    truncateSeries,
+    deleteSeriesOverrides
+} from '../services/eventService';
+import {
+    buildAttendeeList,
+    getAttendeeUids,
+    getAddedAttendees,
+    notifyInvitedAttendees,
+    respondToInvitation,
+    getInvitedEvents,
+    isResponseStatus
+} from '../services/attendeeService';
+import { getUserTimeZone } from '../services/userSettingsService';
+import { canCreateEvent, canEditEvent, canDeleteEvent } from '../services/roleService';
+import { recordAudit, getRequestActor, diffFields } from '../services/auditService';
+import { normalizeRecurrence, getNextOccurrence } from '../utils/recurrence';
+import { isValidTimeZone } from '../utils/timezone';
+import { isEventType } from '../utils/focusTime';
+import { EditScope, EventAttendee } from '../types/event';
+import { CustomRole, WorkspaceRole } from '../types/roles';
 
 const eventsCollection = db.collection('events');
 
+// Event fields a client may update; ownership, series linkage (isRecurring, exdates,
+// seriesId, recurrenceId) and bookkeeping are kept by the server
+const EDITABLE_EVENT_FIELDS = [
+    'title',
+    'description',
+    'eventType',
+    'startDate',
+    'endDate',
+    'timeZone',
+    'isAllDay',
+    'recurrence',
+    'rrule',
+    'color',
+    'location',
+    'priority',
+    'attendees'
+];
+
+// Event fields whose changes are recorded in the audit trail
+const AUDITED_EVENT_FIELDS = [
+    'title',
+    'description',
+    'startDate',
+    'endDate',
+    'isAllDay',
+    'timeZone',
+    'rrule',
+    'eventType',
+    'color',
+    'location',
+    'attendeeUids'
+];
+
 export const getEvents = async (req: AuthRequest, res: Response) => {
     try {
-        const { workspaceId } = req.query;
+        const { workspaceId, start, end } = req.query;
+
+        logger.debug(`Fetching events for user: ${req.user.uid}`, { workspaceId, start, end });
+
+        // With a window, return recurring series expanded into occurrences
+        if (start && end) {
+            const occurrences = await getEventsInRange(
+                req.user.uid,
+                start as string,
+                end as string,
+                workspaceId as string | undefined
+            );
+
+            // Events the user was invited to appear on their personal calendar
+            if (!workspaceId) {
+                occurrences.push(...await getInvitedEvents(req.user.uid, start as string, end as string));
+            }
 
-        logger.debug(`Fetching events for user: ${req.user.uid}`, { workspaceId });
+            logger.success(`Successfully fetched ${occurrences.length} events in range for user: ${req.user.uid}`);
+            return res.json(occurrences);
+        }
 
+        // Workspace events are visible to every member (checked by verifyEventWorkspaceMember)
         let query = eventsCollection.where('userId', '==', req.user.uid);
 
-        // Filter by workspace if provided
         if (workspaceId) {
-            query = query.where('workspaceId', '==', workspaceId);
+            query = eventsCollection.where('workspaceId', '==', workspaceId);
             logger.debug(`Filtering events by workspace: ${workspaceId}`);
         }
 
         const snapshot = await query.get();
-        const events = snapshot.docs.map(doc => ({ _id: doc.id, ...doc.data() }));
+        let events: any[] = snapshot.docs.map(doc => ({ _id: doc.id, ...doc.data() }));
+
+        if (!workspaceId) {
+            events = await excludeDeletedWorkspaceEvents(events);
+            events.push(...await getInvitedEvents(req.user.uid));
+        }
 
         logger.success(`Successfully fetched ${events.length} events for user: ${req.user.uid}`);
         res.json(events);
@@ -33,21 +115,46 @@ export const getEvents = async (req: AuthRequest, res: Response) => {
 };
 
 export const createEvent = async (req: AuthRequest, res: Response) => {
-    const { title, description, startDate, endDate, isAllDay, recurrence, color, workspaceId } = req.body;
+    const { title, description, startDate, endDate, isAllDay, recurrence, rrule, color, workspaceId, attendees: attendeeInput, timeZone, eventType } = req.body;
 
     try {
+        if (timeZone && !isValidTimeZone(timeZone)) {
+            return res.status(400).json({ message: `Unknown time zone: ${timeZone}` });
+        }
+
+        if (eventType && !isEventType(eventType)) {
+            return res.status(400).json({ message: `Unknown event type: ${eventType}` });
+        }
+
+        if (workspaceId && !canCreateEvent((req as any).workspaceRole, (req as any).workspace?.customRoles)) {
+            logger.warn(`User ${req.user.uid} cannot create events in workspace ${workspaceId}`);
+            return res.status(403).json({ message: 'Access denied: You do not have permission to create events in this workspace' });
+        }
+
         logger.debug(`Creating new event for user: ${req.user.uid}`, { title, startDate, endDate, workspaceId });
 
+        // Store recurrence as an RRULE so series can be expanded
+        const normalizedRRule = normalizeRecurrence(rrule || recurrence);
+
+        const { attendees } = await buildAttendeeList(attendeeInput || [], req.user.uid, [], workspaceId);
+
         const newEvent = {
             userId: req.user.uid,
             createdBy: req.user.uid, // Track event creator for permission checks
             workspaceId: workspaceId || null,
             title,
             description,
+            eventType: eventType || 'default',
             startDate,
             endDate,
+            // Events without an explicit zone are planned in the creator's zone
+            timeZone: timeZone || await getUserTimeZone(req.user.uid),
             isAllDay,
             recurrence,
+            rrule: normalizedRRule,
+            isRecurring: normalizedRRule !== null,
+            attendees,
+            attendeeUids: getAttendeeUids(attendees),
             color,
             createdAt: new Date().toISOString(),
         };
@@ -56,6 +163,14 @@ export const createEvent = async (req: AuthRequest, res: Response) => {
 
         logger.success(`Event created successfully with ID: ${docRef.id}`, { title });
 
+        await recordAudit({
+            workspaceId,
+            actor: getRequestActor(req),
+            action: 'event.create',
+            target: { type: 'event', id: docRef.id, name: title },
+            metadata: { startDate, endDate, rrule: normalizedRRule }
+        });
+
         // Create notification for event creation
         await notificationService.notifyEventCreated(
             docRef.id,
@@ -64,8 +179,12 @@ export const createEvent = async (req: AuthRequest, res: Response) => {
             workspaceId
         );
 
-        // Schedule reminder for the event
-        const eventStartTime = new Date(startDate);
+        if (attendees.length > 0) {
+            await notifyInvitedAttendees(docRef.id, newEvent, attendees, getOrganizerName(req));
+        }
+
+        // Schedule reminder for the event (next occurrence for a series)
+        const eventStartTime = getNextOccurrence(newEvent, new Date()) || new Date(startDate);
         await reminderService.scheduleReminder(
             docRef.id,
             req.user.uid,
@@ -82,13 +201,78 @@ export const createEvent = async (req: AuthRequest, res: Response) => {
     }
 };
 
+/**
+ * Name shown to attendees as the person who invited them
+ */
+const getOrganizerName = (req: AuthRequest): string => req.user.name || req.user.email || 'Someone';
+
+/**
+ * Schedule the reminder for the next upcoming occurrence of an event
+ */
+const scheduleNextReminder = async (eventId: string, eventData: any, userId: string) => {
+    const nextStart = getNextOccurrence(eventData, new Date());
+    if (!nextStart) {
+        return;
+    }
+
+    await reminderService.scheduleReminder(
+        eventId,
+        userId,
+        eventData.title,
+        nextStart,
+        undefined, // Use user's default reminder time
+        eventData.workspaceId || undefined
+    );
+};
+
+/**
+ * Whether an event belongs to a workspace rather than a personal calendar
+ */
+const isWorkspaceEvent = (eventData: any): boolean => !!eventData?.workspaceId;
+
+/**
+ * Check the user may change an event
+ * Workspace events follow the member's role (verifyEventWorkspaceMember attaches it),
+ * personal events only their creator may change
+ */
+const canChangeEvent = (
+    req: AuthRequest,
+    eventData: any,
+    check: (role: WorkspaceRole, userId: string, creatorId: string, customRoles?: CustomRole[]) => boolean
+): boolean => {
+    if (!isWorkspaceEvent(eventData)) {
+        return eventData?.userId === req.user.uid;
+    }
+
+    const role = (req as any).workspaceRole as WorkspaceRole | undefined;
+    return !!role && check(role, req.user.uid, eventData.createdBy || eventData.userId, (req as any).workspace?.customRoles);
+};
+
+/**
+ * Resolve the effective edit scope for a request
+ * Scopes only apply to series masters addressed through one of their occurrences;
+ * "this and following" from the first occurrence is the whole series.
+ */
+const resolveScope = (eventData: any, scope?: string, occurrenceStart?: string): EditScope => {
+    if (!eventData?.isRecurring || !occurrenceStart) {
+        return 'all';
+    }
+
+    if (scope === 'following' && new Date(occurrenceStart) <= new Date(eventData.startDate)) {
+        return 'all';
+    }
+
+    return scope === 'this' || scope === 'following' ? scope : 'all';
+};
+
 export const updateEvent = async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
+    const { scope, occurrenceStart, ...body } = req.body;
 
     try {
         logger.debug(`Updating event ${id} for user: ${req.user.uid}`, req.body);
 
-        const docRef = eventsCollection.doc(id);
+        const docRef = eventsCollection.doc(id as string);
         const doc = await docRef.get();
 
         if (!doc.exists) {
@@ -96,33 +280,162 @@ export const updateEvent = async (req: AuthRequest, res: Response) => {
             return res.status(404).json({ message: 'Event not found' });
         }
 
-        if (doc.data()?.userId !== req.user.uid) {
+        if (!canChangeEvent(req, doc.data(), canEditEvent)) {
             logger.warn(`Unauthorized access attempt to event ${id} by user ${req.user.uid}`);
-            return res.status(401).json({ message: 'Not authorized' });
+            return isWorkspaceEvent(doc.data())
+                ? res.status(403).json({ message: 'Access denied: You do not have permission to edit this event' })
+                : res.status(401).json({ message: 'Not authorized' });
+        }
+
+        if (body.timeZone && !isValidTimeZone(body.timeZone)) {
+            return res.status(400).json({ message: `Unknown time zone: ${body.timeZone}` });
+        }
+
+        if (body.eventType && !isEventType(body.eventType)) {
+            return res.status(400).json({ message: `Unknown event type: ${body.eventType}` });
         }
 
         const oldData = doc.data();
-        await docRef.update(req.body);
+        const updates: Record<string, any> = {};
+        EDITABLE_EVENT_FIELDS
+            .filter(field => body[field] !== undefined)
+            .forEach(field => updates[field] = body[field]);
+        // The event stays its creator's, and in its workspace, when a teammate edits it
+        const creatorId = oldData?.userId || req.user.uid;
+        const editScope = resolveScope(oldData, scope, occurrenceStart);
+
+        // Keep the stored RRULE in sync with the recurrence fields
+        if (updates.rrule !== undefined || updates.recurrence !== undefined) {
+            updates.rrule = normalizeRecurrence(updates.rrule || updates.recurrence);
+            updates.isRecurring = updates.rrule !== null;
+        }
+
+        // Keep RSVP state for attendees who stay on the event
+        let addedAttendees: EventAttendee[] = [];
+        if (updates.attendees !== undefined) {
+            const { attendees } = await buildAttendeeList(
+                updates.attendees || [],
+                creatorId,
+                oldData?.attendees,
+                oldData?.workspaceId
+            );
+            addedAttendees = getAddedAttendees(oldData?.attendees, attendees);
+            updates.attendees = attendees;
+            updates.attendeeUids = getAttendeeUids(attendees);
+        }
+
+        // Single occurrence or "this and following": detach into a new document
+        if (editScope !== 'all') {
+            const occurrenceDate = new Date(occurrenceStart);
+            const newEventId = editScope === 'this'
+                ? await createOccurrenceOverride(id as string, oldData, occurrenceDate, updates)
+                : await splitSeries(id as string, oldData, occurrenceDate, updates);
+
+            await recordAudit({
+                workspaceId: oldData?.workspaceId,
+                actor: getRequestActor(req),
+                action: 'event.update',
+                target: { type: 'event', id: id as string, name: oldData?.title },
+                changes: diffFields(oldData, { ...oldData, ...updates }, AUDITED_EVENT_FIELDS),
+                metadata: { scope: editScope, occurrenceStart, newEventId }
+            });
+
+            await reminderService.updateRemindersForEvent(
+                id as string,
+                occurrenceDate,
+                oldData?.title,
+                editScope,
+                occurrenceDate
+            );
+
+            const seriesDoc = await docRef.get();
+            if (seriesDoc.exists) {
+                await scheduleNextReminder(seriesDoc.id, seriesDoc.data(), creatorId);
+            }
+
+            if (!newEventId) {
+                logger.success(`Event ${id} series ended at ${occurrenceStart}`);
+                return res.json({ _id: seriesDoc.id, ...seriesDoc.data() });
+            }
+
+            const newDoc = await eventsCollection.doc(newEventId).get();
+            const newData = newDoc.data();
+
+            logger.success(`Event ${id} updated (${editScope}) as ${newEventId}`);
+
+            await notificationService.notifyEventUpdated(
+                newEventId,
+                req.user.uid,
+                newData?.title || oldData?.title,
+                oldData?.workspaceId
+            );
+
+            await scheduleNextReminder(newEventId, newData, creatorId);
+
+            if (addedAttendees.length > 0 && newData) {
+                await notifyInvitedAttendees(newEventId, newData as any, addedAttendees, getOrganizerName(req));
+            }
+
+            return res.json({ _id: newDoc.id, ...newData });
+        }
+
+        // Editing the whole series through an occurrence shifts the series by the same amount
+        if (occurrenceStart && oldData?.isRecurring && updates.startDate) {
+            const shift = new Date(updates.startDate).getTime() - new Date(occurrenceStart).getTime();
+            const duration = new Date(updates.endDate || updates.startDate).getTime() - new Date(updates.startDate).getTime();
+            const seriesStart = new Date(oldData.startDate).getTime() + shift;
+
+            updates.startDate = new Date(seriesStart).toISOString();
+            updates.endDate = new Date(seriesStart + Math.max(duration, 0)).toISOString();
+            if (oldData.exdates) {
+                updates.exdates = oldData.exdates.map(
+                    (date: string) => new Date(new Date(date).getTime() + shift).toISOString()
+                );
+            }
+        }
+
+        await docRef.update(updates);
         const updatedDoc = await docRef.get();
         const newData = updatedDoc.data();
 
         logger.success(`Event ${id} updated successfully`);
 
+        await recordAudit({
+            workspaceId: oldData?.workspaceId,
+            actor: getRequestActor(req),
+            action: 'event.update',
+            target: { type: 'event', id: id as string, name: newData?.title || oldData?.title },
+            changes: diffFields(oldData, newData, AUDITED_EVENT_FIELDS)
+        });
+
         // Create notification for event update
         await notificationService.notifyEventUpdated(
-            id,
+            id as string,
             req.user.uid,
             newData?.title || oldData?.title,
             oldData?.workspaceId
         );
 
-        // Update reminders if start time changed
-        if (req.body.startDate && req.body.startDate !== oldData?.startDate) {
-            await reminderService.updateRemindersForEvent(
-                id,
-                new Date(req.body.startDate),
-                newData?.title || oldData?.title
-            );
+        if (addedAttendees.length > 0 && newData) {
+            await notifyInvitedAttendees(id as string, newData as any, addedAttendees, getOrganizerName(req));
+        }
+
+        // Update reminders if start time or recurrence changed
+        const startChanged = updates.startDate && updates.startDate !== oldData?.startDate;
+        const rruleChanged = updates.rrule !== undefined && updates.rrule !== (oldData?.rrule ?? null);
+
+        if ((startChanged || rruleChanged) && newData) {
+            const nextStart = getNextOccurrence(newData as any, new Date());
+
+            if (nextStart) {
+                await reminderService.updateRemindersForEvent(
+                    id as string,
+                    nextStart,
+                    newData.title || oldData?.title
+                );
+            } else {
+                await reminderService.cancelRemindersByEvent(id as string);
+            }
         }
 
         res.json({ _id: updatedDoc.id, ...updatedDoc.data() });
@@ -134,11 +447,12 @@ export const updateEvent = async (req: AuthRequest, res: Response) => {
 
 export const deleteEvent = async (req: AuthRequest, res: Response) => {
     const { id } = req.params;
+    const { scope, occurrenceStart } = req.query;
 
     try {
-        logger.debug(`Deleting event ${id} for user: ${req.user.uid}`);
+        logger.debug(`Deleting event ${id} for user: ${req.user.uid}`, { scope, occurrenceStart });
 
-        const docRef = eventsCollection.doc(id);
+        const docRef = eventsCollection.doc(id as string);
         const doc = await docRef.get();
 
         if (!doc.exists) {
@@ -146,26 +460,78 @@ export const deleteEvent = async (req: AuthRequest, res: Response) => {
             return res.status(404).json({ message: 'Event not found' });
         }
 
-        if (doc.data()?.userId !== req.user.uid) {
+        if (!canChangeEvent(req, doc.data(), canDeleteEvent)) {
             logger.warn(`Unauthorized delete attempt for event ${id} by user ${req.user.uid}`);
-            return res.status(401).json({ message: 'Not authorized' });
+            return isWorkspaceEvent(doc.data())
+                ? res.status(403).json({ message: 'Access denied: You do not have permission to delete this event' })
+                : res.status(401).json({ message: 'Not authorized' });
         }
 
         const eventData = doc.data();
+        const editScope = resolveScope(eventData, scope as string, occurrenceStart as string);
+
+        // Remove one occurrence (EXDATE) or end the series before it
+        if (editScope !== 'all') {
+            const occurrenceDate = new Date(occurrenceStart as string);
+
+            if (editScope === 'this') {
+                await excludeOccurrence(id as string, occurrenceDate);
+            } else {
+                await truncateSeries(id as string, eventData, occurrenceDate);
+            }
+
+            await reminderService.cancelRemindersByEvent(id as string, editScope, occurrenceDate);
+
+            const seriesDoc = await docRef.get();
+            if (seriesDoc.exists) {
+                await scheduleNextReminder(seriesDoc.id, seriesDoc.data(), eventData?.userId || req.user.uid);
+            }
+
+            await notificationService.notifyEventDeleted(
+                id as string,
+                req.user.uid,
+                eventData?.title || 'Untitled Event',
+                eventData?.workspaceId
+            );
+
+            await recordAudit({
+                workspaceId: eventData?.workspaceId,
+                actor: getRequestActor(req),
+                action: 'event.delete',
+                target: { type: 'event', id: id as string, name: eventData?.title },
+                metadata: { scope: editScope, occurrenceStart }
+            });
+
+            logger.success(`Event ${id} occurrences removed (${editScope})`);
+            return res.json({ message: 'Occurrence removed' });
+        }
 
         // Cancel all pending reminders for this event
-        await reminderService.cancelRemindersByEvent(id);
+        await reminderService.cancelRemindersByEvent(id as string);
 
         // Create notification for event deletion
         await notificationService.notifyEventDeleted(
-            id,
+            id as string,
             req.user.uid,
             eventData?.title || 'Untitled Event',
             eventData?.workspaceId
         );
 
+        // Overrides detached from a series go with it
+        if (eventData?.isRecurring) {
+            await deleteSeriesOverrides(id as string);
+        }
+
         await docRef.delete();
 
+        await recordAudit({
+            workspaceId: eventData?.workspaceId,
+            actor: getRequestActor(req),
+            action: 'event.delete',
+            target: { type: 'event', id: id as string, name: eventData?.title },
+            metadata: { startDate: eventData?.startDate, endDate: eventData?.endDate, rrule: eventData?.rrule || null }
+        });
+
         logger.success(`Event ${id} deleted successfully`);
         res.json({ message: 'Event removed' });
     } catch (error) {
@@ -173,3 +539,29 @@ export const deleteEvent = async (req: AuthRequest, res: Response) => {
         res.status(500).json({ message: (error as Error).message });
     }
 };
+
+/**
+ * RSVP to an event the user is invited to
+ * @route POST /api/events/:id/rsvp
+ */
+export const respondToEvent = async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const { status } = req.body;
+
+    try {
+        if (!isResponseStatus(status)) {
+            return res.status(400).json({
+                message: 'status must be one of needs-action, accepted, declined, tentative'
+            });
+        }
+
+        const attendees = await respondToInvitation(id as string, req.user.uid, req.user.email, status);
+
+        res.json({ success: true, attendees, message: 'Response recorded' });
+    } catch (error) {
+        logger.error(`Error responding to event ${id}`, error);
+        const message = (error as Error).message;
+        const statusCode = message.includes('not found') ? 404 : message.includes('Access denied') ? 403 : 500;
+        res.status(statusCode).json({ message });
+    }
+};
@@ -0,0 +1,72 @@
+/**
+ * Free/Busy Controller
+ * HTTP handler for workspace free/busy queries
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth';
+import { logger } from '../utils/logger';
+import { getWorkspaceFreeBusy } from '../services/freeBusyService';
+import { Workspace } from '../types/workspace';
+
+const MAX_WINDOW_DAYS = 42;
+const MAX_MEMBERS = 50;
+
+/**
+ * Get merged busy intervals of workspace members for a time window
+ * @route GET /api/workspaces/:workspaceId/freebusy?uids=a,b&start=&end=
+ */
+export const getFreeBusy = async (req: AuthRequest, res: Response) => {
+    try {
+        const workspace = (req as any).workspace as Workspace;
+        const { start, end } = req.query as { start?: string; end?: string };
+        const uids = String(req.query.uids || '')
+            .split(',')
+            .map(uid => uid.trim())
+            .filter(Boolean);
+
+        if (uids.length === 0) {
+            return res.status(400).json({ message: 'At least one member uid is required' });
+        }
+
+        if (uids.length > MAX_MEMBERS) {
+            return res.status(400).json({ message: `At most ${MAX_MEMBERS} members can be queried at once` });
+        }
+
+        if (!start || !end || isNaN(Date.parse(start)) || isNaN(Date.parse(end))) {
+            return res.status(400).json({ message: 'Valid start and end dates are required' });
+        }
+
+        const windowStart = new Date(start);
+        const windowEnd = new Date(end);
+        const windowDays = (windowEnd.getTime() - windowStart.getTime()) / (24 * 60 * 60 * 1000);
+
+        if (windowDays <= 0) {
+            return res.status(400).json({ message: 'End must be after start' });
+        }
+
+        if (windowDays > MAX_WINDOW_DAYS) {
+            return res.status(400).json({ message: `Time window cannot exceed ${MAX_WINDOW_DAYS} days` });
+        }
+
+        const freeBusy = await getWorkspaceFreeBusy(
+            workspace,
+            req.user.uid,
+            uids,
+            windowStart.toISOString(),
+            windowEnd.toISOString()
+        );
+
+        res.json({
+            success: true,
+            start: windowStart.toISOString(),
+            end: windowEnd.toISOString(),
+            freeBusy
+        });
+    } catch (error) {
+        logger.error('Error getting free/busy', error);
+        const message = (error as Error).message;
+        const status = message.includes('Access denied') ? 403 : 500;
+        res.status(status).json({ message });
+    }
+};
@@ -130,8 +130,9 @@ export const acceptInvite = async (req: AuthRequest, res: Response) => {
         logger.error('Error in acceptInvite controller', error);
 
         const statusCode = errorMessage.includes('not found') ? 404 :
-            errorMessage.includes('expired') ? 410 :
-                errorMessage.includes('already') ? 409 : 500;
+            errorMessage.includes('Access denied') ? 403 :
+                errorMessage.includes('expired') ? 410 :
+                    errorMessage.includes('already') ? 409 : 500;
 
         res.status(statusCode).json({
             success: false,
@@ -335,9 +336,11 @@ export const acceptCode = async (req: AuthRequest, res: Response) => {
         logger.error('Error in acceptCode controller', error);
 
         const statusCode = errorMessage.includes('Invalid') ? 400 :
-            errorMessage.includes('expired') ? 410 :
-                errorMessage.includes('maximum uses') ? 410 :
-                    errorMessage.includes('already') ? 409 : 500;
+            errorMessage.includes('not found') ? 404 :
+                errorMessage.includes('Access denied') ? 403 :
+                    errorMessage.includes('expired') ? 410 :
+                        errorMessage.includes('maximum uses') ? 410 :
+                            errorMessage.includes('already') ? 409 : 500;
 
         res.status(statusCode).json({
             success: false,
@@ -69,7 +69,7 @@ export async function generatePDF(req: Request & { user?: any }, res: Response):
             month: printRequest.month
         });
 
-        const pdfBuffer = await generateCalendarPDF(printRequest);
+        const pdfBuffer = await generateCalendarPDF(printRequest, userId);
 
         // Set response headers
         const filename = `calendar_${printRequest.calendarView}_${printRequest.year}${printRequest.month ? `_${printRequest.month}` : ''}.pdf`;
@@ -112,7 +112,7 @@ export async function generatePNG(req: Request & { user?: any }, res: Response):
             month: printRequest.month
         });
 
-        const pngBuffer = await generateCalendarPNG(printRequest);
+        const pngBuffer = await generateCalendarPNG(printRequest, userId);
 
         // Set response headers
         const filename = `calendar_${printRequest.calendarView}_${printRequest.year}${printRequest.month ? `_${printRequest.month}` : ''}.png`;
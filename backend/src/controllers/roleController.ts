@@ -6,8 +6,21 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth';
 import { logger } from '../utils/logger';
-import { updateMemberRole, removeMember, getWorkspaceMembers } from '../services/roleService';
-import { UpdateRoleRequest, RemoveMemberRequest } from '../types/roles';
+import {
+    updateMemberRole,
+    removeMember,
+    getWorkspaceMembers,
+    createCustomRole,
+    updateCustomRole,
+    deleteCustomRole,
+    proposeOwnershipTransfer,
+    acceptOwnershipTransfer,
+    cancelOwnershipTransfer
+} from '../services/roleService';
+import { getRequestActor } from '../services/auditService';
+import { validateCustomRole } from '../utils/customRole';
+import { UpdateRoleRequest, RemoveMemberRequest, CustomRoleRequest } from '../types/roles';
+import { TransferOwnershipRequest, Workspace } from '../types/workspace';
 
 /**
  * Update a member's role in a workspace
@@ -26,13 +39,12 @@ export const updateRole = async (req: AuthRequest, res: Response) => {
             });
         }
 
-        // Validate role value
-        const validRoles = ['owner', 'admin', 'member', 'viewer'];
-        if (!validRoles.includes(newRole)) {
+        // Built-in roles and the workspace's custom roles are checked by the service
+        if (typeof newRole !== 'string') {
             logger.warn(`Invalid role value: ${newRole}`);
             return res.status(400).json({
                 success: false,
-                message: 'Invalid role. Must be: owner, admin, member, or viewer'
+                message: 'Invalid role. Must be: owner, admin, member, viewer, or a custom role'
             });
         }
 
@@ -57,8 +69,9 @@ export const updateRole = async (req: AuthRequest, res: Response) => {
 
         // Determine appropriate status code
         const statusCode = errorMessage.includes('not found') ? 404 :
-            errorMessage.includes('permissions') ? 403 :
-                errorMessage.includes('not a member') ? 403 : 500;
+            errorMessage.includes('Invalid role') ? 400 :
+                errorMessage.includes('permissions') || errorMessage.includes('Access denied') ? 403 :
+                    errorMessage.includes('not a member') ? 403 : 500;
 
         res.status(statusCode).json({
             success: false,
@@ -104,7 +117,7 @@ export const removeMemberFromWorkspace = async (req: AuthRequest, res: Response)
 
         // Determine appropriate status code
         const statusCode = errorMessage.includes('not found') ? 404 :
-            errorMessage.includes('permissions') ? 403 :
+            errorMessage.includes('permissions') || errorMessage.includes('Access denied') ? 403 :
                 errorMessage.includes('Cannot remove') ? 400 : 500;
 
         res.status(statusCode).json({
@@ -152,3 +165,204 @@ export const getMembers = async (req: AuthRequest, res: Response) => {
         });
     }
 };
+
+/**
+ * Create a custom role
+ * @route POST /api/workspaces/roles/:workspaceId/custom
+ */
+export const createRole = async (req: AuthRequest, res: Response) => {
+    try {
+        const workspaceId = req.params.workspaceId as string;
+        const workspace = (req as any).workspace as Workspace;
+
+        const validation = validateCustomRole(req.body, workspace.customRoles);
+        if (!validation.valid) {
+            logger.warn(`Invalid custom role: ${validation.error}`);
+            return res.status(400).json({
+                success: false,
+                message: validation.error
+            });
+        }
+
+        const role = await createCustomRole(workspaceId, req.body as CustomRoleRequest, getRequestActor(req));
+
+        res.status(201).json({
+            success: true,
+            role,
+            message: 'Role created successfully'
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to create role';
+        logger.error('Error in createRole controller', error);
+
+        const statusCode = errorMessage.includes('not found') ? 404 :
+            errorMessage.includes('at most') ? 400 : 500;
+
+        res.status(statusCode).json({
+            success: false,
+            message: errorMessage
+        });
+    }
+};
+
+/**
+ * Update a custom role's name and permissions
+ * @route PUT /api/workspaces/roles/:workspaceId/custom/:roleId
+ */
+export const updateRoleDefinition = async (req: AuthRequest, res: Response) => {
+    try {
+        const workspaceId = req.params.workspaceId as string;
+        const roleId = req.params.roleId as string;
+        const workspace = (req as any).workspace as Workspace;
+
+        const validation = validateCustomRole(req.body, workspace.customRoles, roleId);
+        if (!validation.valid) {
+            logger.warn(`Invalid custom role: ${validation.error}`);
+            return res.status(400).json({
+                success: false,
+                message: validation.error
+            });
+        }
+
+        const role = await updateCustomRole(workspaceId, roleId, req.body as CustomRoleRequest, getRequestActor(req));
+
+        res.json({
+            success: true,
+            role,
+            message: 'Role updated successfully'
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to update role';
+        logger.error('Error in updateRoleDefinition controller', error);
+
+        res.status(errorMessage.includes('not found') ? 404 : 500).json({
+            success: false,
+            message: errorMessage
+        });
+    }
+};
+
+/**
+ * Delete a custom role
+ * @route DELETE /api/workspaces/roles/:workspaceId/custom/:roleId
+ */
+export const deleteRole = async (req: AuthRequest, res: Response) => {
+    try {
+        const workspaceId = req.params.workspaceId as string;
+        const roleId = req.params.roleId as string;
+
+        const workspace = await deleteCustomRole(workspaceId, roleId, getRequestActor(req));
+
+        res.json({
+            success: true,
+            workspace,
+            message: 'Role deleted successfully'
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to delete role';
+        logger.error('Error in deleteRole controller', error);
+
+        res.status(errorMessage.includes('not found') ? 404 : 500).json({
+            success: false,
+            message: errorMessage
+        });
+    }
+};
+
+/**
+ * Offer workspace ownership to another member
+ * @route POST /api/workspaces/roles/:workspaceId/transfer
+ */
+export const proposeTransfer = async (req: AuthRequest, res: Response) => {
+    try {
+        const workspaceId = req.params.workspaceId as string;
+        const { targetUserId } = (req.body || {}) as TransferOwnershipRequest;
+
+        if (!targetUserId) {
+            logger.warn('Missing target for ownership transfer');
+            return res.status(400).json({
+                success: false,
+                message: 'Missing required field: targetUserId'
+            });
+        }
+
+        const workspace = await proposeOwnershipTransfer(workspaceId, req.user.uid, targetUserId);
+
+        res.json({
+            success: true,
+            workspace,
+            message: 'Ownership transfer proposed'
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to propose ownership transfer';
+        logger.error('Error in proposeTransfer controller', error);
+
+        const statusCode = errorMessage.includes('not found') ? 404 :
+            errorMessage.includes('permissions') ? 403 :
+                errorMessage.includes('Cannot transfer') || errorMessage.includes('not a member') ? 400 : 500;
+
+        res.status(statusCode).json({
+            success: false,
+            message: errorMessage
+        });
+    }
+};
+
+/**
+ * Accept ownership offered to the requesting member
+ * @route POST /api/workspaces/roles/:workspaceId/transfer/accept
+ */
+export const acceptTransfer = async (req: AuthRequest, res: Response) => {
+    try {
+        const workspaceId = req.params.workspaceId as string;
+
+        const workspace = await acceptOwnershipTransfer(workspaceId, req.user.uid);
+
+        res.json({
+            success: true,
+            workspace,
+            message: 'You are now the owner of this workspace'
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to accept ownership transfer';
+        logger.error('Error in acceptTransfer controller', error);
+
+        const statusCode = errorMessage.includes('Workspace not found') ? 404 :
+            errorMessage.includes('pending') || errorMessage.includes('expired') || errorMessage.includes('no longer') ? 400 : 500;
+
+        res.status(statusCode).json({
+            success: false,
+            message: errorMessage
+        });
+    }
+};
+
+/**
+ * Withdraw (owner) or decline (offered member) a pending ownership transfer
+ * @route DELETE /api/workspaces/roles/:workspaceId/transfer
+ */
+export const cancelTransfer = async (req: AuthRequest, res: Response) => {
+    try {
+        const workspaceId = req.params.workspaceId as string;
+
+        const workspace = await cancelOwnershipTransfer(workspaceId, req.user.uid);
+
+        res.json({
+            success: true,
+            workspace,
+            message: 'Ownership transfer cancelled'
+        });
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to cancel ownership transfer';
+        logger.error('Error in cancelTransfer controller', error);
+
+        const statusCode = errorMessage.includes('Workspace not found') ? 404 :
+            errorMessage.includes('permissions') ? 403 :
+                errorMessage.includes('pending') ? 400 : 500;
+
+        res.status(statusCode).json({
+            success: false,
+            message: errorMessage
+        });
+    }
+};
@@ -2,6 +2,11 @@ import { Response } from 'express';
 import { db } from '../config/firebase';
 import { AuthRequest } from '../middleware/auth';
 import { logger } from '../utils/logger';
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from '../utils/timezone';
+import { validateSchedulingProfile } from '../utils/schedulingProfile';
+import { validateFocusTimeSettings } from '../utils/focusTime';
+import { getUserSchedulingProfile, updateUserSchedulingProfile } from '../services/schedulingProfileService';
+import { getFocusTimeSettings, updateFocusTimeSettings } from '../services/userSettingsService';
 
 export const getSettings = async (req: AuthRequest, res: Response) => {
     try {
@@ -60,7 +65,7 @@ export const getNotificationSettings = async (req: AuthRequest, res: Response) =
                 allowEmail: false,
                 allowInApp: true,
                 defaultReminderMinutes: 15,
-                timezone: 'Asia/Kolkata',
+                timezone: DEFAULT_TIME_ZONE,
             });
         }
 
@@ -71,7 +76,7 @@ export const getNotificationSettings = async (req: AuthRequest, res: Response) =
             allowEmail: data?.enableEmail || false,
             allowInApp: data?.enableInApp !== false,
             defaultReminderMinutes: data?.defaultReminderMinutes || 15,
-            timezone: data?.timezone || 'Asia/Kolkata',
+            timezone: data?.timezone || DEFAULT_TIME_ZONE,
         });
     } catch (error) {
         logger.error('Error fetching notification settings', error);
@@ -85,6 +90,10 @@ export const updateNotificationSettings = async (req: AuthRequest, res: Response
 
         logger.debug(`Updating notification settings for user: ${req.user.uid}`, req.body);
 
+        if (timezone && !isValidTimeZone(timezone)) {
+            return res.status(400).json({ message: `Unknown time zone: ${timezone}` });
+        }
+
         const docRef = db.collection('userSettings').doc(req.user.uid);
 
         const updateData: any = {};
@@ -105,7 +114,7 @@ export const updateNotificationSettings = async (req: AuthRequest, res: Response
             allowEmail: data?.enableEmail || false,
             allowInApp: data?.enableInApp !== false,
             defaultReminderMinutes: data?.defaultReminderMinutes || 15,
-            timezone: data?.timezone || 'Asia/Kolkata',
+            timezone: data?.timezone || DEFAULT_TIME_ZONE,
         });
     } catch (error) {
         logger.error('Error updating notification settings', error);
@@ -113,3 +122,67 @@ export const updateNotificationSettings = async (req: AuthRequest, res: Response
     }
 };
 
+
+export const getSchedulingProfile = async (req: AuthRequest, res: Response) => {
+    try {
+        logger.debug(`Fetching scheduling profile for user: ${req.user.uid}`);
+
+        const profile = await getUserSchedulingProfile(req.user.uid);
+
+        logger.success(`Scheduling profile fetched successfully for user: ${req.user.uid}`);
+        res.json(profile);
+    } catch (error) {
+        logger.error('Error fetching scheduling profile', error);
+        res.status(500).json({ message: (error as Error).message });
+    }
+};
+
+export const updateSchedulingProfile = async (req: AuthRequest, res: Response) => {
+    try {
+        logger.debug(`Updating scheduling profile for user: ${req.user.uid}`, req.body);
+
+        const validation = validateSchedulingProfile(req.body);
+        if (!validation.valid) {
+            return res.status(400).json({ message: validation.error });
+        }
+
+        const profile = await updateUserSchedulingProfile(req.user.uid, req.body);
+
+        res.json(profile);
+    } catch (error) {
+        logger.error('Error updating scheduling profile', error);
+        res.status(500).json({ message: (error as Error).message });
+    }
+};
+
+export const getFocusTime = async (req: AuthRequest, res: Response) => {
+    try {
+        logger.debug(`Fetching focus time settings for user: ${req.user.uid}`);
+
+        const settings = await getFocusTimeSettings(req.user.uid);
+
+        logger.success(`Focus time settings fetched successfully for user: ${req.user.uid}`);
+        res.json(settings);
+    } catch (error) {
+        logger.error('Error fetching focus time settings', error);
+        res.status(500).json({ message: (error as Error).message });
+    }
+};
+
+export const updateFocusTime = async (req: AuthRequest, res: Response) => {
+    try {
+        logger.debug(`Updating focus time settings for user: ${req.user.uid}`, req.body);
+
+        const validation = validateFocusTimeSettings(req.body);
+        if (!validation.valid) {
+            return res.status(400).json({ message: validation.error });
+        }
+
+        const settings = await updateFocusTimeSettings(req.user.uid, req.body);
+
+        res.json(settings);
+    } catch (error) {
+        logger.error('Error updating focus time settings', error);
+        res.status(500).json({ message: (error as Error).message });
+    }
+};
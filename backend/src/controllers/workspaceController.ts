@@ -18,8 +18,18 @@ import {
     generateWorkspaceSlug,
     generateInviteCode,
     validateWorkspaceName,
-    validateInviteCode
+    validateInviteCode,
+    getWorkspaceStatus
 } from '../utils/workspaceUtils';
+import { validateSchedulingProfile } from '../utils/schedulingProfile';
+import {
+    getWorkspaceSchedulingProfile,
+    updateWorkspaceSchedulingProfile
+} from '../services/schedulingProfileService';
+import { getUsageReport } from '../services/aiUsageService';
+import { recordAudit, getRequestActor, diffFields, queryAuditLog } from '../services/auditService';
+import { setWorkspaceArchived, setWorkspaceDeleted, setWorkspaceActive } from '../services/workspaceLifecycleService';
+import { AuditQuery } from '../types/audit';
 
 const workspacesCollection = db.collection('workspaces');
 
@@ -54,7 +64,12 @@ export const getUserWorkspaces = async (req: AuthRequest, res: Response) => {
             workspaceMap.set(doc.id, { id: doc.id, ...doc.data() } as Workspace);
         });
 
-        const workspaces = Array.from(workspaceMap.values());
+        // Deleted workspaces are gone for members; owners can ask for theirs to restore them
+        const includeDeleted = req.query.includeDeleted === 'true';
+        const workspaces = Array.from(workspaceMap.values()).filter(workspace =>
+            getWorkspaceStatus(workspace) !== 'deleted' ||
+            (includeDeleted && workspace.owner === req.user.uid)
+        );
 
         logger.success(`Successfully fetched ${workspaces.length} workspaces for user: ${req.user.uid}`);
         res.json({ success: true, workspaces });
@@ -156,6 +171,13 @@ export const createWorkspace = async (req: AuthRequest, res: Response) => {
             ...newWorkspace
         };
 
+        await recordAudit({
+            workspaceId: docRef.id,
+            actor: getRequestActor(req),
+            action: 'workspace.create',
+            target: { type: 'workspace', id: docRef.id, name: workspace.name }
+        });
+
         logger.success(`Workspace created successfully: ${docRef.id}`, { name, slug });
         res.status(201).json({ success: true, workspace });
     } catch (error) {
@@ -199,6 +221,15 @@ export const joinWorkspace = async (req: AuthRequest, res: Response) => {
         const workspaceDoc = snapshot.docs[0];
         const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
 
+        // Deleted and archived workspaces take no new members
+        const status = getWorkspaceStatus(workspace);
+        if (status !== 'active') {
+            logger.warn(`Join attempt on ${status} workspace ${workspace.id}`);
+            return status === 'deleted'
+                ? res.status(404).json({ success: false, message: 'Invalid invite code' })
+                : res.status(403).json({ success: false, message: 'This workspace is archived and not accepting members' });
+        }
+
         // Check if user is already a member
         const isAlreadyMember = workspace.members.some(member => member.uid === req.user.uid);
 
@@ -234,6 +265,14 @@ export const joinWorkspace = async (req: AuthRequest, res: Response) => {
             updatedAt: new Date().toISOString()
         };
 
+        await recordAudit({
+            workspaceId: workspace.id,
+            actor: getRequestActor(req),
+            action: 'member.join',
+            target: { type: 'member', id: req.user.uid, name: newMember.displayName },
+            metadata: { via: 'workspaceCode', role: newMember.role }
+        });
+
         logger.success(`User ${req.user.uid} successfully joined workspace ${workspace.id}`);
         res.status(200).json({ success: true, workspace: updatedWorkspace });
     } catch (error) {
@@ -252,7 +291,7 @@ export const joinWorkspace = async (req: AuthRequest, res: Response) => {
  */
 export const updateWorkspace = async (req: AuthRequest, res: Response) => {
     try {
-        const { workspaceId } = req.params;
+        const workspaceId = req.params.workspaceId as string;
         const { name } = req.body as UpdateWorkspaceRequest;
 
         logger.debug(`Updating workspace ${workspaceId}`, { name });
@@ -280,6 +319,15 @@ export const updateWorkspace = async (req: AuthRequest, res: Response) => {
         const updatedDoc = await workspacesCollection.doc(workspaceId).get();
         const workspace = { id: updatedDoc.id, ...updatedDoc.data() } as Workspace;
 
+        // verifyWorkspaceOwner attached the workspace as it was before the update
+        await recordAudit({
+            workspaceId,
+            actor: getRequestActor(req),
+            action: 'workspace.update',
+            target: { type: 'workspace', id: workspaceId, name: workspace.name },
+            changes: diffFields((req as any).workspace, workspace, ['name'])
+        });
+
         logger.success(`Workspace ${workspaceId} updated successfully`);
         res.json({ success: true, workspace });
     } catch (error) {
@@ -294,37 +342,76 @@ export const updateWorkspace = async (req: AuthRequest, res: Response) => {
 
 /**
  * Delete workspace (owner only)
+ * The workspace can be restored until its retention window passes, then it is purged with its events
  * @route DELETE /api/workspaces/:workspaceId
  */
 export const deleteWorkspace = async (req: AuthRequest, res: Response) => {
     try {
-        const { workspaceId } = req.params;
+        const workspaceId = req.params.workspaceId as string;
 
         logger.debug(`Deleting workspace ${workspaceId}`);
 
-        // Delete all events in this workspace
-        const eventsSnapshot = await db.collection('events')
-            .where('workspaceId', '==', workspaceId)
-            .get();
+        const workspace = await setWorkspaceDeleted(workspaceId, getRequestActor(req));
 
-        const batch = db.batch();
-        eventsSnapshot.docs.forEach(doc => {
-            batch.delete(doc.ref);
+        logger.success(`Workspace ${workspaceId} deleted, restorable until ${workspace.purgeAt}`);
+        res.json({ success: true, workspace, message: 'Workspace deleted successfully' });
+    } catch (error) {
+        const errorMessage = (error as Error).message;
+        logger.error('Error deleting workspace', error);
+        res.status(errorMessage.includes('not found') ? 404 : errorMessage.includes('already') ? 409 : 500).json({
+            success: false,
+            message: 'Error deleting workspace',
+            error: errorMessage
         });
+    }
+};
 
-        // Delete workspace
-        batch.delete(workspacesCollection.doc(workspaceId));
+/**
+ * Archive workspace, making it read-only (owner only)
+ * @route POST /api/workspaces/:workspaceId/archive
+ */
+export const archiveWorkspace = async (req: AuthRequest, res: Response) => {
+    try {
+        const workspaceId = req.params.workspaceId as string;
 
-        await batch.commit();
+        logger.debug(`Archiving workspace ${workspaceId}`);
 
-        logger.success(`Workspace ${workspaceId} and ${eventsSnapshot.size} events deleted successfully`);
-        res.json({ success: true, message: 'Workspace deleted successfully' });
+        const workspace = await setWorkspaceArchived(workspaceId, getRequestActor(req));
+
+        logger.success(`Workspace ${workspaceId} archived`);
+        res.json({ success: true, workspace, message: 'Workspace archived successfully' });
     } catch (error) {
-        logger.error('Error deleting workspace', error);
-        res.status(500).json({
+        const errorMessage = (error as Error).message;
+        logger.error('Error archiving workspace', error);
+        res.status(errorMessage.includes('not found') ? 404 : errorMessage.includes('Cannot archive') ? 409 : 500).json({
             success: false,
-            message: 'Error deleting workspace',
-            error: (error as Error).message
+            message: 'Error archiving workspace',
+            error: errorMessage
+        });
+    }
+};
+
+/**
+ * Restore an archived or deleted workspace (owner only)
+ * @route POST /api/workspaces/:workspaceId/restore
+ */
+export const restoreWorkspace = async (req: AuthRequest, res: Response) => {
+    try {
+        const workspaceId = req.params.workspaceId as string;
+
+        logger.debug(`Restoring workspace ${workspaceId}`);
+
+        const workspace = await setWorkspaceActive(workspaceId, getRequestActor(req));
+
+        logger.success(`Workspace ${workspaceId} restored`);
+        res.json({ success: true, workspace, message: 'Workspace restored successfully' });
+    } catch (error) {
+        const errorMessage = (error as Error).message;
+        logger.error('Error restoring workspace', error);
+        res.status(errorMessage.includes('not found') ? 404 : errorMessage.includes('Cannot restore') ? 409 : 500).json({
+            success: false,
+            message: 'Error restoring workspace',
+            error: errorMessage
         });
     }
 };
@@ -335,7 +422,7 @@ export const deleteWorkspace = async (req: AuthRequest, res: Response) => {
  */
 export const leaveWorkspace = async (req: AuthRequest, res: Response) => {
     try {
-        const { workspaceId } = req.params;
+        const workspaceId = req.params.workspaceId as string;
 
         logger.debug(`User ${req.user.uid} leaving workspace ${workspaceId}`);
 
@@ -353,7 +440,7 @@ export const leaveWorkspace = async (req: AuthRequest, res: Response) => {
             logger.warn(`Owner ${req.user.uid} attempted to leave workspace ${workspaceId}`);
             return res.status(400).json({
                 success: false,
-                message: 'Workspace owner cannot leave. Delete the workspace instead.'
+                message: 'Workspace owner cannot leave. Transfer ownership or delete the workspace instead.'
             });
         }
 
@@ -365,6 +452,15 @@ export const leaveWorkspace = async (req: AuthRequest, res: Response) => {
             updatedAt: new Date().toISOString()
         });
 
+        const leavingMember = workspace.members.find(member => member.uid === req.user.uid);
+        await recordAudit({
+            workspaceId,
+            actor: getRequestActor(req),
+            action: 'member.leave',
+            target: { type: 'member', id: req.user.uid, name: leavingMember?.displayName },
+            metadata: { role: leavingMember?.role }
+        });
+
         logger.success(`User ${req.user.uid} left workspace ${workspaceId}`);
         res.json({ success: true, message: 'Successfully left workspace' });
     } catch (error) {
@@ -376,3 +472,128 @@ export const leaveWorkspace = async (req: AuthRequest, res: Response) => {
         });
     }
 };
+
+/**
+ * Get the workspace's scheduling profile (defaults filled in)
+ * @route GET /api/workspaces/:workspaceId/scheduling-profile
+ */
+export const getSchedulingProfile = async (req: AuthRequest, res: Response) => {
+    try {
+        const workspaceId = req.params.workspaceId as string;
+
+        logger.debug(`Fetching scheduling profile for workspace: ${workspaceId}`);
+
+        const profile = await getWorkspaceSchedulingProfile(workspaceId);
+
+        logger.success(`Successfully fetched scheduling profile for workspace: ${workspaceId}`);
+        res.json({ success: true, profile });
+    } catch (error) {
+        logger.error('Error fetching workspace scheduling profile', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching scheduling profile',
+            error: (error as Error).message
+        });
+    }
+};
+
+/**
+ * Update the workspace's scheduling profile
+ * @route PUT /api/workspaces/:workspaceId/scheduling-profile
+ */
+export const updateSchedulingProfile = async (req: AuthRequest, res: Response) => {
+    try {
+        const workspaceId = req.params.workspaceId as string;
+
+        logger.debug(`Updating scheduling profile for workspace: ${workspaceId}`, req.body);
+
+        const validation = validateSchedulingProfile(req.body);
+        if (!validation.valid) {
+            logger.warn(`Invalid scheduling profile: ${validation.error}`);
+            return res.status(400).json({ success: false, message: validation.error });
+        }
+
+        const previous = await getWorkspaceSchedulingProfile(workspaceId);
+        const profile = await updateWorkspaceSchedulingProfile(workspaceId, req.body);
+
+        await recordAudit({
+            workspaceId,
+            actor: getRequestActor(req),
+            action: 'workspace.settings',
+            target: { type: 'workspace', id: workspaceId, name: (req as any).workspace?.name },
+            changes: diffFields(previous, profile)
+        });
+
+        res.json({ success: true, profile, message: 'Scheduling profile updated successfully' });
+    } catch (error) {
+        logger.error('Error updating workspace scheduling profile', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error updating scheduling profile',
+            error: (error as Error).message
+        });
+    }
+};
+
+/**
+ * Get the workspace's AI usage and quota for the current month
+ * @route GET /api/workspaces/:workspaceId/ai-usage
+ */
+export const getAIUsage = async (req: AuthRequest, res: Response) => {
+    try {
+        const workspaceId = req.params.workspaceId as string;
+
+        logger.debug(`Fetching AI usage for workspace: ${workspaceId}`);
+
+        const report = await getUsageReport('workspace', workspaceId);
+
+        res.json({ success: true, ...report });
+    } catch (error) {
+        logger.error('Error fetching workspace AI usage', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching AI usage',
+            error: (error as Error).message
+        });
+    }
+};
+
+/**
+ * Query the workspace's audit trail, newest first
+ * @route GET /api/workspaces/:workspaceId/audit-log?action=&actorId=&targetType=&targetId=&since=&until=&limit=
+ */
+export const getAuditLog = async (req: AuthRequest, res: Response) => {
+    try {
+        const workspaceId = req.params.workspaceId as string;
+        const { action, actorId, targetType, targetId, since, until, limit } = req.query;
+
+        for (const [name, value] of [['since', since], ['until', until]]) {
+            if (value && isNaN(new Date(value as string).getTime())) {
+                return res.status(400).json({ success: false, message: `${name} must be an ISO date` });
+            }
+        }
+
+        const filters: AuditQuery = {
+            action: action as AuditQuery['action'],
+            actorId: actorId as string | undefined,
+            targetType: targetType as AuditQuery['targetType'],
+            targetId: targetId as string | undefined,
+            since: since ? new Date(since as string).toISOString() : undefined,
+            until: until ? new Date(until as string).toISOString() : undefined,
+            limit: limit ? parseInt(limit as string) || undefined : undefined
+        };
+
+        logger.debug(`Fetching audit log for workspace: ${workspaceId}`, filters);
+
+        const entries = await queryAuditLog(workspaceId, filters);
+
+        res.json({ success: true, entries });
+    } catch (error) {
+        logger.error('Error fetching workspace audit log', error);
+        res.status(500).json({
+            success: false,
+            message: 'Error fetching audit log',
+            error: (error as Error).message
+        });
+    }
+};
@@ -0,0 +1,268 @@
+/**
+ * Intent Parsing Evaluation
+ * Scores a provider's parsed intents against a golden dataset, field by field,
+ * and replays recorded provider responses so evaluations run without network access
+ */
+
+import { AIProvider, ParsedIntent, SchedulingContext, SuggestedSlot } from '../types/ai';
+import { getZonedParts } from '../utils/timezone';
+
+/**
+ * Expected intent fields, by dotted path ("target.query")
+ * Strings may list acceptable alternatives; a startDate of "YYYY-MM-DD" checks the day only,
+ * "YYYY-MM-DDTHH:mm" the day and time, both as wall-clock time in the dataset's time zone
+ */
+export type ExpectedFields = Record<string, string | string[] | number | number[] | boolean>;
+
+export interface IntentCase {
+    id: string;
+    prompt: string;
+    expected: ExpectedFields;
+}
+
+export interface IntentDataset {
+    name: string;
+    referenceDate: string; // ISO, "now" for every case
+    timezone: string;
+    cases: IntentCase[];
+}
+
+export interface FieldResult {
+    expected: unknown;
+    actual: unknown;
+    correct: boolean;
+}
+
+export interface CaseResult {
+    id: string;
+    passed: boolean; // every expected field is correct
+    error?: string;
+    fields: Record<string, FieldResult>;
+}
+
+export interface EvalReport {
+    dataset: string;
+    provider: string;
+    mode: string;
+    summary: {
+        cases: number;
+        passed: number;
+        errors: number;
+        accuracy: number; // correct fields / scored fields
+        fields: Record<string, { correct: number; total: number; accuracy: number }>;
+    };
+    cases: CaseResult[];
+}
+
+/**
+ * Recorded responses of one provider, by case id
+ */
+export type Recordings = Record<string, { prompt: string; response: ParsedIntent }>;
+
+// Fields whose expected lists are compared as sets; other lists are alternatives
+const SET_FIELDS = ['attendees', 'ambiguities', 'recurrence.daysOfWeek', 'target.attendees'];
+
+// Defaults a provider may leave out
+const FIELD_DEFAULTS: Record<string, unknown> = {
+    action: 'create',
+    'target.all': false,
+    ambiguities: []
+};
+
+const normalizeText = (value: string): string =>
+    value.toLowerCase().replace(/\s+/g, ' ').replace(/[.!?]+$/, '').trim();
+
+const getField = (intent: ParsedIntent, path: string): unknown => {
+    const value = path.split('.').reduce<any>((current, key) => current?.[key], intent);
+    return value === undefined || value === null ? FIELD_DEFAULTS[path] : value;
+};
+
+/**
+ * Wall-clock "YYYY-MM-DDTHH:mm" of an intent date
+ * A date without an offset is already wall-clock time
+ */
+const toWallClock = (value: string, timeZone: string): string | undefined => {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) return undefined;
+    if (!/(Z|[+-]\d{2}:?\d{2})$/i.test(value.trim())) return value.slice(0, 16);
+
+    const { year, month, day, hours, minutes } = getZonedParts(date, timeZone);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${year}-${pad(month + 1)}-${pad(day)}T${pad(hours)}:${pad(minutes)}`;
+};
+
+/**
+ * Compare one field; lists compare as sets, text ignores case and spacing
+ */
+const compareField = (path: string, expected: ExpectedFields[string], actual: unknown, timeZone: string): boolean => {
+    if (path === 'startDate') {
+        if (typeof actual !== 'string') return false;
+        const wallClock = toWallClock(actual, timeZone);
+        return !!wallClock && wallClock.startsWith(expected as string);
+    }
+
+    if (SET_FIELDS.includes(path)) {
+        if (!Array.isArray(expected) || !Array.isArray(actual)) return false;
+        const normalize = (items: unknown[]) =>
+            items.map(item => typeof item === 'string' ? normalizeText(item) : String(item)).sort();
+        return JSON.stringify(normalize(expected)) === JSON.stringify(normalize(actual));
+    }
+
+    if (typeof actual === 'string') {
+        const alternatives = Array.isArray(expected) ? expected : [expected];
+        return alternatives.some(alternative => typeof alternative === 'string' && normalizeText(alternative) === normalizeText(actual));
+    }
+
+    return actual === expected;
+};
+
+/**
+ * Score one parsed intent against its case
+ */
+export const scoreCase = (testCase: IntentCase, intent: ParsedIntent, timeZone: string): CaseResult => {
+    const fields: Record<string, FieldResult> = {};
+
+    for (const [path, expected] of Object.entries(testCase.expected)) {
+        const actual = getField(intent, path);
+        fields[path] = { expected, actual: actual ?? null, correct: compareField(path, expected, actual, timeZone) };
+    }
+
+    return {
+        id: testCase.id,
+        passed: Object.values(fields).every(field => field.correct),
+        fields
+    };
+};
+
+/**
+ * A case the provider failed on scores every expected field as wrong
+ */
+export const failCase = (testCase: IntentCase, error: unknown): CaseResult => {
+    const fields: Record<string, FieldResult> = {};
+    for (const [path, expected] of Object.entries(testCase.expected)) {
+        fields[path] = { expected, actual: null, correct: false };
+    }
+
+    return {
+        id: testCase.id,
+        passed: false,
+        error: error instanceof Error ? error.message : String(error),
+        fields
+    };
+};
+
+/**
+ * Build the report; cases and fields are sorted so reports of two runs diff cleanly
+ */
+export const buildReport = (dataset: IntentDataset, provider: string, mode: string, results: CaseResult[]): EvalReport => {
+    const fields: EvalReport['summary']['fields'] = {};
+    let correct = 0;
+    let total = 0;
+
+    for (const result of results) {
+        for (const [path, field] of Object.entries(result.fields)) {
+            const stats = fields[path] || (fields[path] = { correct: 0, total: 0, accuracy: 0 });
+            stats.total++;
+            total++;
+            if (field.correct) {
+                stats.correct++;
+                correct++;
+            }
+        }
+    }
+
+    const sortedFields: EvalReport['summary']['fields'] = {};
+    for (const path of Object.keys(fields).sort()) {
+        sortedFields[path] = { ...fields[path], accuracy: round(fields[path].correct / fields[path].total) };
+    }
+
+    return {
+        dataset: dataset.name,
+        provider,
+        mode,
+        summary: {
+            cases: results.length,
+            passed: results.filter(result => result.passed).length,
+            errors: results.filter(result => result.error).length,
+            accuracy: total > 0 ? round(correct / total) : 0,
+            fields: sortedFields
+        },
+        cases: [...results].sort((a, b) => a.id.localeCompare(b.id))
+    };
+};
+
+const round = (value: number): number => Math.round(value * 1000) / 1000;
+
+const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+/**
+ * Summary table of a report, and what changed since a baseline report
+ */
+export const formatReport = (report: EvalReport, baseline?: EvalReport): string => {
+    const lines: string[] = [
+        `Intent eval: ${report.provider} (${report.mode}) on ${report.dataset}`,
+        `Cases passed: ${report.summary.passed}/${report.summary.cases}, errors: ${report.summary.errors}`,
+        `Field accuracy: ${percent(report.summary.accuracy)}` +
+        (baseline ? ` (baseline ${percent(baseline.summary.accuracy)})` : ''),
+        ''
+    ];
+
+    for (const [path, stats] of Object.entries(report.summary.fields)) {
+        const before = baseline?.summary.fields[path];
+        const delta = before ? stats.accuracy - before.accuracy : 0;
+        const change = before && delta !== 0 ? `  ${delta > 0 ? '+' : ''}${percent(delta)}` : '';
+        lines.push(`  ${path.padEnd(24)} ${`${stats.correct}/${stats.total}`.padStart(7)}  ${percent(stats.accuracy).padStart(6)}${change}`);
+    }
+
+    if (baseline) {
+        const previous = new Map(baseline.cases.map(result => [result.id, result.passed]));
+        const fixed = report.cases.filter(result => result.passed && previous.get(result.id) === false);
+        const broken = report.cases.filter(result => !result.passed && previous.get(result.id) === true);
+
+        if (fixed.length > 0) lines.push('', `Now passing: ${fixed.map(result => result.id).join(', ')}`);
+        if (broken.length > 0) lines.push('', `Now failing: ${broken.map(result => result.id).join(', ')}`);
+    }
+
+    const failing = report.cases.filter(result => !result.passed);
+    if (failing.length > 0) {
+        lines.push('', 'Failing cases:');
+        for (const result of failing) {
+            const wrong = Object.entries(result.fields)
+                .filter(([, field]) => !field.correct)
+                .map(([path, field]) => `${path}=${JSON.stringify(field.actual)}`);
+            lines.push(`  ${result.id}: ${result.error || wrong.join(', ')}`);
+        }
+    }
+
+    return lines.join('\n');
+};
+
+/**
+ * Provider that answers from recorded responses
+ * Prompts without a recording fail, so a stale recording shows up as errors in the report
+ */
+export class RecordedAIProvider implements AIProvider {
+    private readonly responses = new Map<string, ParsedIntent>();
+
+    constructor(recordings: Recordings) {
+        for (const { prompt, response } of Object.values(recordings)) {
+            this.responses.set(prompt, response);
+        }
+    }
+
+    async parseIntent(prompt: string): Promise<ParsedIntent> {
+        const response = this.responses.get(prompt);
+        if (!response) {
+            throw new Error('No recorded response for this prompt, record the provider again');
+        }
+        return JSON.parse(JSON.stringify(response));
+    }
+
+    async suggestSlots(_context: SchedulingContext): Promise<SuggestedSlot[]> {
+        throw new Error('Recorded providers only parse intents');
+    }
+
+    async generateClarification(): Promise<string> {
+        throw new Error('Recorded providers only parse intents');
+    }
+}
@@ -0,0 +1,136 @@
+/**
+ * Intent Evaluation Runner
+ * Usage: npm run eval:intents -- [--provider mock|openai|anthropic|gemini]
+ *                                [--mode live|record|replay] [--out report.json] [--compare baseline.json] [--raw]
+ *
+ * live   calls the provider (the default for the deterministic mock parser)
+ * record calls the provider and saves its responses to eval/recordings/<provider>.json
+ * replay scores the saved responses without network access (the default for model providers)
+ *
+ * Reports go to eval-reports/<provider>.json, which is not committed; attach them to the PR instead.
+ *
+ * Intents are validated the way the provider chain does before they are scored, unless --raw is given.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { AIProvider, AIProviderType, ParsedIntent } from '../types/ai';
+import { validateParsedIntent } from '../utils/intentValidation';
+import {
+    buildReport,
+    CaseResult,
+    EvalReport,
+    failCase,
+    formatReport,
+    IntentDataset,
+    RecordedAIProvider,
+    Recordings,
+    scoreCase
+} from './intentEval';
+
+dotenv.config();
+
+const EVAL_DIR = __dirname;
+// Reports are run output, not source, and are ignored by git
+const REPORTS_DIR = path.join(EVAL_DIR, '../../eval-reports');
+const PROVIDERS: AIProviderType[] = ['openai', 'anthropic', 'gemini', 'mock'];
+
+type EvalMode = 'live' | 'record' | 'replay';
+
+const getArg = (name: string): string | undefined => {
+    const index = process.argv.indexOf(`--${name}`);
+    return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+const readJson = <T>(file: string): T => JSON.parse(fs.readFileSync(file, 'utf8'));
+
+const writeJson = (file: string, data: unknown): void => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(data, null, 4) + '\n');
+};
+
+const main = async (): Promise<number> => {
+    const provider = (getArg('provider') || 'mock').toLowerCase() as AIProviderType;
+    if (!PROVIDERS.includes(provider)) {
+        console.error(`Unknown provider "${provider}", expected one of ${PROVIDERS.join(', ')}`);
+        return 1;
+    }
+
+    const mode = (getArg('mode') || (provider === 'mock' ? 'live' : 'replay')) as EvalMode;
+    if (!['live', 'record', 'replay'].includes(mode)) {
+        console.error(`Unknown mode "${mode}", expected live, record or replay`);
+        return 1;
+    }
+
+    const dataset = readJson<IntentDataset>(path.join(EVAL_DIR, 'intentCases.json'));
+    const recordingsFile = path.join(EVAL_DIR, 'recordings', `${provider}.json`);
+    const outFile = path.resolve(getArg('out') || path.join(REPORTS_DIR, `${provider}.json`));
+    const baselineFile = getArg('compare');
+    const raw = process.argv.includes('--raw');
+
+    // The deterministic parser reads dates in the server's zone, so run in the dataset's
+    process.env.TZ = dataset.timezone;
+    const referenceDate = new Date(dataset.referenceDate);
+
+    let parser: AIProvider;
+    if (mode === 'replay') {
+        if (!fs.existsSync(recordingsFile)) {
+            console.error(`No recordings for ${provider}, run with --mode record first`);
+            return 1;
+        }
+        parser = new RecordedAIProvider(readJson<Recordings>(recordingsFile));
+    } else {
+        const { createProvider } = require('../services/aiProviderAdapter');
+        parser = createProvider(provider);
+    }
+
+    const recordings: Recordings = {};
+    const results: CaseResult[] = [];
+
+    for (const testCase of dataset.cases) {
+        try {
+            const response: ParsedIntent = await parser.parseIntent(testCase.prompt, {
+                timezone: dataset.timezone,
+                referenceDate
+            });
+            recordings[testCase.id] = { prompt: testCase.prompt, response };
+
+            let intent = response;
+            if (!raw) {
+                const validation = validateParsedIntent(response, testCase.prompt, {
+                    timezone: dataset.timezone,
+                    referenceDate,
+                    crossCheck: provider !== 'mock'
+                });
+                if (!validation.valid) throw new Error(validation.error);
+                intent = validation.intent!;
+            }
+
+            results.push(scoreCase(testCase, intent, dataset.timezone));
+        } catch (error) {
+            results.push(failCase(testCase, error));
+        }
+    }
+
+    if (mode === 'record') {
+        writeJson(recordingsFile, recordings);
+        console.log(`Recorded ${Object.keys(recordings).length} responses to ${path.relative(process.cwd(), recordingsFile)}`);
+    }
+
+    const report = buildReport(dataset, provider, raw ? `${mode}, raw` : mode, results);
+    const baseline = baselineFile ? readJson<EvalReport>(path.resolve(baselineFile)) : undefined;
+
+    writeJson(outFile, report);
+    console.log(`\n${formatReport(report, baseline)}\n`);
+    console.log(`Report written to ${path.relative(process.cwd(), outFile)}`);
+
+    return 0;
+};
+
+main()
+    .then(code => process.exit(code))
+    .catch(error => {
+        console.error('Intent evaluation failed', error);
+        process.exit(1);
+    });
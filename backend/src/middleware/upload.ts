@@ -0,0 +1,40 @@
+/**
+ * Upload Middleware
+ * Shared multer configuration for in-memory file uploads
+ */
+
+import multer from 'multer';
+
+/**
+ * Create a multer instance with memory storage and the configured size limit
+ * @param accept - Returns true for files that should be accepted
+ * @param rejectMessage - Error message for rejected files
+ */
+export const createUpload = (
+    accept: (file: Express.Multer.File) => boolean,
+    rejectMessage: string
+) => multer({
+    storage: multer.memoryStorage(),
+    limits: {
+        fileSize: parseInt(process.env.MAX_UPLOAD_MB || '10') * 1024 * 1024,
+    },
+    fileFilter: (req, file, cb) => {
+        if (!accept(file)) {
+            cb(new Error(rejectMessage));
+            return;
+        }
+        cb(null, true);
+    },
+});
+
+// Accept images only (processed in imageService)
+export const imageUpload = createUpload(
+    file => file.mimetype.startsWith('image/'),
+    'Only image files are allowed'
+);
+
+// Accept iCalendar files; some clients send them as octet-stream or text/plain
+export const icsUpload = createUpload(
+    file => file.mimetype === 'text/calendar' || file.originalname.toLowerCase().endsWith('.ics'),
+    'Only .ics files are allowed'
+);
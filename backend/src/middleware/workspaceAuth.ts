@@ -8,12 +8,83 @@ import { db } from '../config/firebase';
 import { AuthRequest } from './auth';
 import { logger } from '../utils/logger';
 import { Workspace } from '../types/workspace';
+import { RolePermissions, getRolePermissions } from '../types/roles';
+import { getWorkspaceStatus } from '../utils/workspaceUtils';
 
 const workspacesCollection = db.collection('workspaces');
+const eventsCollection = db.collection('events');
+
+/**
+ * Workspace a request is scoped to, from the route, the body or the query string
+ */
+const getRequestWorkspaceId = (req: AuthRequest): string | undefined =>
+    (req.params.workspaceId as string) || req.body?.workspaceId || (req.query.workspaceId as string) || undefined;
+
+/**
+ * Reject requests to deleted workspaces, and anything but reads of archived ones
+ * Returns whether a response was sent
+ */
+const rejectInactiveWorkspace = (workspace: Workspace, req: AuthRequest, res: Response): boolean => {
+    const status = getWorkspaceStatus(workspace);
+
+    if (status === 'deleted') {
+        logger.warn(`Workspace ${workspace.id} is deleted`);
+        res.status(404).json({ message: 'Workspace not found' });
+        return true;
+    }
+
+    if (status === 'archived' && req.method !== 'GET') {
+        logger.warn(`Workspace ${workspace.id} is archived, rejecting ${req.method} ${req.originalUrl}`);
+        res.status(403).json({ message: 'Access denied: This workspace is archived and read-only' });
+        return true;
+    }
+
+    return false;
+};
+
+/**
+ * Check that the user is a member of a workspace and attach the workspace and their role
+ */
+const verifyMembership = async (
+    workspaceId: string,
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+) => {
+    logger.debug(`Verifying workspace member access for workspace: ${workspaceId}`);
+
+    const workspaceDoc = await workspacesCollection.doc(workspaceId).get();
+
+    if (!workspaceDoc.exists) {
+        logger.warn(`Workspace not found: ${workspaceId}`);
+        return res.status(404).json({ message: 'Workspace not found' });
+    }
+
+    const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+
+    // Check if user is a member
+    const member = workspace.members.find(m => m.uid === req.user.uid);
+
+    if (!member) {
+        logger.warn(`User ${req.user.uid} is not a member of workspace ${workspaceId}`);
+        return res.status(403).json({ message: 'Access denied: You are not a member of this workspace' });
+    }
+
+    if (rejectInactiveWorkspace(workspace, req, res)) {
+        return;
+    }
+
+    // Attach workspace and the member's role to request
+    (req as any).workspace = workspace;
+    (req as any).workspaceRole = member.role;
+
+    logger.success(`User ${req.user.uid} verified as member of workspace ${workspaceId}`);
+    next();
+};
 
 /**
  * Middleware to verify user is a member of the workspace
- * Attaches workspace data to request object
+ * Attaches workspace data and the member's role to request object
  */
 export const verifyWorkspaceMember = async (
     req: AuthRequest,
@@ -21,47 +92,109 @@ export const verifyWorkspaceMember = async (
     next: NextFunction
 ) => {
     try {
-        const workspaceId = req.params.workspaceId || req.body.workspaceId;
+        const workspaceId = getRequestWorkspaceId(req);
 
         if (!workspaceId) {
             logger.warn('Workspace ID not provided in request');
             return res.status(400).json({ message: 'Workspace ID is required' });
         }
 
-        logger.debug(`Verifying workspace member access for workspace: ${workspaceId}`);
+        await verifyMembership(workspaceId, req, res, next);
+    } catch (error) {
+        logger.error('Error verifying workspace member', error);
+        res.status(500).json({ message: 'Error verifying workspace access', error: (error as Error).message });
+    }
+};
 
-        const workspaceDoc = await workspacesCollection.doc(workspaceId).get();
+/**
+ * Middleware to verify workspace membership on event routes
+ * Routes on one event use the event's workspace, listing and creating use the request's;
+ * personal events have no workspace and are left to the creator checks in the controller
+ */
+export const verifyEventWorkspaceMember = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        let workspaceId = getRequestWorkspaceId(req);
 
-        if (!workspaceDoc.exists) {
-            logger.warn(`Workspace not found: ${workspaceId}`);
-            return res.status(404).json({ message: 'Workspace not found' });
+        if (req.params.id) {
+            const eventDoc = await eventsCollection.doc(req.params.id as string).get();
+
+            if (!eventDoc.exists) {
+                logger.warn(`Event not found: ${req.params.id}`);
+                return res.status(404).json({ message: 'Event not found' });
+            }
+
+            workspaceId = eventDoc.data()?.workspaceId || undefined;
         }
 
-        const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+        if (!workspaceId) {
+            return next();
+        }
 
-        // Check if user is a member
-        const isMember = workspace.members.some(member => member.uid === req.user.uid);
+        await verifyMembership(workspaceId, req, res, next);
+    } catch (error) {
+        logger.error('Error verifying event workspace access', error);
+        res.status(500).json({ message: 'Error verifying workspace access', error: (error as Error).message });
+    }
+};
+
+/**
+ * Middleware to verify workspace membership when a request names a workspace
+ * Requests without one are personal and pass through; workspaces stored with sessions,
+ * suggestions and commands are checked by their services
+ */
+export const verifyOptionalWorkspaceMember = async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const workspaceId = getRequestWorkspaceId(req);
 
-        if (!isMember) {
-            logger.warn(`User ${req.user.uid} is not a member of workspace ${workspaceId}`);
-            return res.status(403).json({ message: 'Access denied: You are not a member of this workspace' });
+        if (!workspaceId) {
+            return next();
         }
 
-        // Attach workspace to request
-        (req as any).workspace = workspace;
+        await verifyMembership(workspaceId, req, res, next);
+    } catch (error) {
+        logger.error('Error verifying workspace access', error);
+        res.status(500).json({ message: 'Error verifying workspace access', error: (error as Error).message });
+    }
+};
 
-        logger.success(`User ${req.user.uid} verified as member of workspace ${workspaceId}`);
-        next();
+/**
+ * Middleware factory to verify workspace membership for a stored document named in the body
+ * (an image or a layout); the document's own workspace is checked, personal ones pass through
+ * and missing ones are left to the controller
+ */
+export const verifyDocumentWorkspaceMember = (collection: string, idField: string) => async (
+    req: AuthRequest,
+    res: Response,
+    next: NextFunction
+) => {
+    try {
+        const documentId = req.body?.[idField];
+        const document = documentId ? await db.collection(collection).doc(documentId).get() : undefined;
+        const workspaceId = document?.data()?.workspaceId;
+
+        if (!workspaceId) {
+            return next();
+        }
+
+        await verifyMembership(workspaceId, req, res, next);
     } catch (error) {
-        logger.error('Error verifying workspace member', error);
+        logger.error(`Error verifying workspace access for ${collection}`, error);
         res.status(500).json({ message: 'Error verifying workspace access', error: (error as Error).message });
     }
 };
 
 /**
- * Middleware to verify user is the owner of the workspace
+ * Owner check shared by verifyWorkspaceOwner and verifyWorkspaceLifecycleOwner
  */
-export const verifyWorkspaceOwner = async (
+const checkWorkspaceOwner = (allowInactive: boolean) => async (
     req: AuthRequest,
     res: Response,
     next: NextFunction
@@ -91,6 +224,10 @@ export const verifyWorkspaceOwner = async (
             return res.status(403).json({ message: 'Access denied: Only workspace owner can perform this action' });
         }
 
+        if (!allowInactive && rejectInactiveWorkspace(workspace, req, res)) {
+            return;
+        }
+
         // Attach workspace to request
         (req as any).workspace = workspace;
 
@@ -103,22 +240,34 @@ export const verifyWorkspaceOwner = async (
 };
 
 /**
- * Middleware to verify user has admin or owner role in workspace
+ * Middleware to verify user is the owner of the workspace
  */
-export const verifyWorkspaceAdmin = async (
+export const verifyWorkspaceOwner = checkWorkspaceOwner(false);
+
+/**
+ * Middleware to verify user is the owner of the workspace, whatever its status
+ * For archiving, deleting and restoring, which act on archived and deleted workspaces
+ */
+export const verifyWorkspaceLifecycleOwner = checkWorkspaceOwner(true);
+
+/**
+ * Middleware factory to verify the user's role in the workspace grants a permission
+ * Built-in and custom roles are resolved through getRolePermissions
+ */
+export const verifyWorkspacePermission = (permission: keyof RolePermissions) => async (
     req: AuthRequest,
     res: Response,
     next: NextFunction
 ) => {
     try {
-        const workspaceId = req.params.workspaceId || req.body.workspaceId;
+        const workspaceId = getRequestWorkspaceId(req);
 
         if (!workspaceId) {
             logger.warn('Workspace ID not provided in request');
             return res.status(400).json({ message: 'Workspace ID is required' });
         }
 
-        logger.debug(`Verifying workspace admin access for workspace: ${workspaceId}`);
+        logger.debug(`Verifying ${permission} for workspace: ${workspaceId}`);
 
         const workspaceDoc = await workspacesCollection.doc(workspaceId).get();
 
@@ -129,21 +278,31 @@ export const verifyWorkspaceAdmin = async (
 
         const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
 
-        // Check if user is admin or owner
+        // Check the member's role grants the permission
         const userMember = workspace.members.find(member => member.uid === req.user.uid);
 
-        if (!userMember || (userMember.role !== 'admin' && userMember.role !== 'owner')) {
-            logger.warn(`User ${req.user.uid} does not have admin access to workspace ${workspaceId}`);
-            return res.status(403).json({ message: 'Access denied: Admin or owner role required' });
+        if (!userMember || !getRolePermissions(userMember.role, workspace.customRoles)[permission]) {
+            logger.warn(`User ${req.user.uid} lacks ${permission} in workspace ${workspaceId}`);
+            return res.status(403).json({ message: 'Access denied: Your role does not allow this action' });
         }
 
-        // Attach workspace to request
+        if (rejectInactiveWorkspace(workspace, req, res)) {
+            return;
+        }
+
+        // Attach workspace and the member's role to request
         (req as any).workspace = workspace;
+        (req as any).workspaceRole = userMember.role;
 
-        logger.success(`User ${req.user.uid} verified as admin of workspace ${workspaceId}`);
+        logger.success(`User ${req.user.uid} verified with ${permission} in workspace ${workspaceId}`);
         next();
     } catch (error) {
-        logger.error('Error verifying workspace admin', error);
-        res.status(500).json({ message: 'Error verifying workspace admin access', error: (error as Error).message });
+        logger.error(`Error verifying workspace permission ${permission}`, error);
+        res.status(500).json({ message: 'Error verifying workspace access', error: (error as Error).message });
     }
 };
+
+/**
+ * Middleware to verify user can manage workspace settings (admin and owner, or a custom role allowed to)
+ */
+export const verifyWorkspaceAdmin = verifyWorkspacePermission('canManageSettings');
@@ -5,12 +5,19 @@
 
 import express from 'express';
 import { protect } from '../middleware/auth';
+import { verifyOptionalWorkspaceMember } from '../middleware/workspaceAuth';
 import {
     parseIntent,
     suggestSlots,
     scheduleWithAI,
+    undoSchedule,
+    previewCommand,
+    confirmCommand,
     getClarification,
-    getAIStatus
+    getAIStatus,
+    getAIUsage,
+    getSchedulingSession,
+    placeFocusTime
 } from '../controllers/aiController';
 
 const router = express.Router();
@@ -19,10 +26,18 @@ const router = express.Router();
 router.use(protect);
 
 // AI endpoints
-router.post('/parse', parseIntent);
-router.post('/suggest', suggestSlots);
-router.post('/schedule', scheduleWithAI);
+// A workspace named in the request must be the user's; sessions, suggestions,
+// commands and operations carry their own workspace, checked by their services
+router.post('/parse', verifyOptionalWorkspaceMember, parseIntent);
+router.post('/suggest', verifyOptionalWorkspaceMember, suggestSlots);
+router.post('/schedule', verifyOptionalWorkspaceMember, scheduleWithAI);
+router.post('/schedule/:operationId/undo', verifyOptionalWorkspaceMember, undoSchedule);
+router.post('/commands', verifyOptionalWorkspaceMember, previewCommand);
+router.post('/commands/:commandId/apply', verifyOptionalWorkspaceMember, confirmCommand);
 router.post('/clarify', getClarification);
+router.get('/sessions/:sessionId', getSchedulingSession);
 router.get('/status', getAIStatus);
+router.get('/usage', getAIUsage);
+router.post('/focus-time', verifyOptionalWorkspaceMember, placeFocusTime);
 
 export default router;
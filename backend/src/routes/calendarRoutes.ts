@@ -9,6 +9,7 @@
  * - Print exports (PDF, PNG)
  * 
  * All routes require Firebase authentication via protect middleware.
+ * Images and layouts of a workspace need membership, and are read-only while it is archived.
  * File uploads use multer middleware.
  * 
  * Usage:
@@ -17,8 +18,9 @@
  */
 
 import express from 'express';
-import multer from 'multer';
 import { protect } from '../middleware/auth';
+import { imageUpload } from '../middleware/upload';
+import { verifyDocumentWorkspaceMember, verifyOptionalWorkspaceMember } from '../middleware/workspaceAuth';
 import {
     uploadImage,
     deleteImageController,
@@ -37,22 +39,6 @@ import {
 
 const router = express.Router();
 
-// Configure multer for memory storage (we'll process in imageService)
-const upload = multer({
-    storage: multer.memoryStorage(),
-    limits: {
-        fileSize: parseInt(process.env.MAX_UPLOAD_MB || '10') * 1024 * 1024,
-    },
-    fileFilter: (req, file, cb) => {
-        // Accept images only
-        if (!file.mimetype.startsWith('image/')) {
-            cb(new Error('Only image files are allowed'));
-            return;
-        }
-        cb(null, true);
-    },
-});
-
 // ===== IMAGE ROUTES =====
 
 /**
@@ -61,21 +47,21 @@ const upload = multer({
  * Body: multipart/form-data with 'image' field
  * Optional: workspaceId
  */
-router.post('/image/upload', protect, upload.single('image'), uploadImage);
+router.post('/image/upload', protect, imageUpload.single('image'), verifyOptionalWorkspaceMember, uploadImage);
 
 /**
  * POST /api/calendar/image/delete
  * Delete an image
  * Body: { imageId: string }
  */
-router.post('/image/delete', protect, deleteImageController);
+router.post('/image/delete', protect, verifyDocumentWorkspaceMember('calendarImages', 'imageId'), deleteImageController);
 
 /**
  * GET /api/calendar/image/list
  * List images for the authenticated user
  * Query: workspaceId?, limit?, offset?
  */
-router.get('/image/list', protect, listImagesController);
+router.get('/image/list', protect, verifyOptionalWorkspaceMember, listImagesController);
 
 // ===== LAYOUT ROUTES =====
 
@@ -84,21 +70,21 @@ router.get('/image/list', protect, listImagesController);
  * Save or update a calendar image layout
  * Body: SaveLayoutRequest
  */
-router.post('/layout/save', protect, saveLayout);
+router.post('/layout/save', protect, verifyOptionalWorkspaceMember, saveLayout);
 
 /**
  * GET /api/calendar/layout/get
  * Get layout for a calendar view
  * Query: calendarView, year, month?, week?, day?, workspaceId?
  */
-router.get('/layout/get', protect, getLayout);
+router.get('/layout/get', protect, verifyOptionalWorkspaceMember, getLayout);
 
 /**
  * DELETE /api/calendar/layout/delete
  * Delete a layout
  * Body: { layoutId: string }
  */
-router.delete('/layout/delete', protect, deleteLayout);
+router.delete('/layout/delete', protect, verifyDocumentWorkspaceMember('calendarImageLayouts', 'layoutId'), deleteLayout);
 
 // ===== AI IMAGE GENERATION =====
 
@@ -107,7 +93,7 @@ router.delete('/layout/delete', protect, deleteLayout);
  * Generate an AI image
  * Body: AIImageGenerateRequest
  */
-router.post('/ai/generate-image', protect, generateAIImageController);
+router.post('/ai/generate-image', protect, verifyOptionalWorkspaceMember, generateAIImageController);
 
 // ===== PRINT ROUTES =====
 
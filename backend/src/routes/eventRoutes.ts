@@ -1,10 +1,34 @@
 import express from 'express';
-import { getEvents, createEvent, updateEvent, deleteEvent } from '../controllers/eventController';
+import { getEvents, createEvent, updateEvent, deleteEvent, respondToEvent } from '../controllers/eventController';
+import {
+    importEvents,
+    exportEvents,
+    createCalendarFeed,
+    listCalendarFeeds,
+    revokeCalendarFeed,
+    getCalendarFeed
+} from '../controllers/calendarFeedController';
 import { protect } from '../middleware/auth';
+import { verifyEventWorkspaceMember } from '../middleware/workspaceAuth';
+import { icsUpload } from '../middleware/upload';
 
 const router = express.Router();
 
-router.route('/').get(protect, getEvents).post(protect, createEvent);
-router.route('/:id').put(protect, updateEvent).delete(protect, deleteEvent);
+// iCalendar import/export and subscription feeds (the feed URL itself is public, guarded by its token)
+router.post('/import', protect, icsUpload.single('file'), importEvents);
+router.get('/export.ics', protect, exportEvents);
+router.route('/feeds').get(protect, listCalendarFeeds).post(protect, createCalendarFeed);
+router.delete('/feeds/:feedId', protect, revokeCalendarFeed);
+router.get('/feeds/:token/calendar.ics', getCalendarFeed);
+
+// Workspace events are shared with every member; roles decide who may change them
+router.route('/')
+    .get(protect, verifyEventWorkspaceMember, getEvents)
+    .post(protect, verifyEventWorkspaceMember, createEvent);
+router.route('/:id')
+    .put(protect, verifyEventWorkspaceMember, updateEvent)
+    .delete(protect, verifyEventWorkspaceMember, deleteEvent);
+// Invitees may be outside the workspace, so RSVPs are checked against the attendee list instead
+router.post('/:id/rsvp', protect, respondToEvent);
 
 export default router;
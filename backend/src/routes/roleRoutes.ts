@@ -5,7 +5,18 @@
 
 import express from 'express';
 import { protect } from '../middleware/auth';
-import { updateRole, removeMemberFromWorkspace, getMembers } from '../controllers/roleController';
+import { verifyWorkspaceOwner, verifyWorkspaceMember } from '../middleware/workspaceAuth';
+import {
+    updateRole,
+    removeMemberFromWorkspace,
+    getMembers,
+    createRole,
+    updateRoleDefinition,
+    deleteRole,
+    proposeTransfer,
+    acceptTransfer,
+    cancelTransfer
+} from '../controllers/roleController';
 
 const router = express.Router();
 
@@ -21,4 +32,14 @@ router.post('/remove', removeMemberFromWorkspace);
 // Get workspace members
 router.get('/:workspaceId/members', getMembers);
 
+// Custom roles (requires owner)
+router.post('/:workspaceId/custom', verifyWorkspaceOwner, createRole);
+router.put('/:workspaceId/custom/:roleId', verifyWorkspaceOwner, updateRoleDefinition);
+router.delete('/:workspaceId/custom/:roleId', verifyWorkspaceOwner, deleteRole);
+
+// Ownership transfer (proposed by the owner, accepted or declined by the member it is offered to)
+router.post('/:workspaceId/transfer', verifyWorkspaceOwner, proposeTransfer);
+router.post('/:workspaceId/transfer/accept', verifyWorkspaceMember, acceptTransfer);
+router.delete('/:workspaceId/transfer', verifyWorkspaceMember, cancelTransfer);
+
 export default router;
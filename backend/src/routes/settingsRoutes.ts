@@ -1,10 +1,21 @@
 import express from 'express';
-import { getSettings, updateSettings, getNotificationSettings, updateNotificationSettings } from '../controllers/settingsController';
+import {
+    getSettings,
+    updateSettings,
+    getNotificationSettings,
+    updateNotificationSettings,
+    getSchedulingProfile,
+    updateSchedulingProfile,
+    getFocusTime,
+    updateFocusTime
+} from '../controllers/settingsController';
 import { protect } from '../middleware/auth';
 
 const router = express.Router();
 
 router.route('/').get(protect, getSettings).put(protect, updateSettings);
 router.route('/notifications').get(protect, getNotificationSettings).put(protect, updateNotificationSettings);
+router.route('/scheduling').get(protect, getSchedulingProfile).put(protect, updateSchedulingProfile);
+router.route('/focus-time').get(protect, getFocusTime).put(protect, updateFocusTime);
 
 export default router;
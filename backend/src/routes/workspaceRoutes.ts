@@ -5,7 +5,12 @@
 
 import express from 'express';
 import { protect } from '../middleware/auth';
-import { verifyWorkspaceOwner, verifyWorkspaceMember } from '../middleware/workspaceAuth';
+import {
+    verifyWorkspaceOwner,
+    verifyWorkspaceLifecycleOwner,
+    verifyWorkspaceMember,
+    verifyWorkspaceAdmin
+} from '../middleware/workspaceAuth';
 import {
     getUserWorkspaces,
     getWorkspace,
@@ -13,8 +18,15 @@ import {
     joinWorkspace,
     updateWorkspace,
     deleteWorkspace,
-    leaveWorkspace
+    archiveWorkspace,
+    restoreWorkspace,
+    leaveWorkspace,
+    getSchedulingProfile,
+    updateSchedulingProfile,
+    getAIUsage,
+    getAuditLog
 } from '../controllers/workspaceController';
+import { getFreeBusy } from '../controllers/freeBusyController';
 
 const router = express.Router();
 
@@ -36,8 +48,25 @@ router.get('/:workspaceId', verifyWorkspaceMember, getWorkspace);
 // Update workspace (requires owner)
 router.put('/:workspaceId', verifyWorkspaceOwner, updateWorkspace);
 
-// Delete workspace (requires owner)
-router.delete('/:workspaceId', verifyWorkspaceOwner, deleteWorkspace);
+// Delete workspace, restorable until purged (requires owner)
+router.delete('/:workspaceId', verifyWorkspaceLifecycleOwner, deleteWorkspace);
+
+// Archive as read-only, or restore an archived or deleted workspace (requires owner)
+router.post('/:workspaceId/archive', verifyWorkspaceLifecycleOwner, archiveWorkspace);
+router.post('/:workspaceId/restore', verifyWorkspaceLifecycleOwner, restoreWorkspace);
+
+// Merged busy intervals of members (requires membership)
+router.get('/:workspaceId/freebusy', verifyWorkspaceMember, getFreeBusy);
+
+// Scheduling profile (read by members, changed by admins)
+router.get('/:workspaceId/scheduling-profile', verifyWorkspaceMember, getSchedulingProfile);
+router.put('/:workspaceId/scheduling-profile', verifyWorkspaceAdmin, updateSchedulingProfile);
+
+// AI usage and quota this month (requires admin)
+router.get('/:workspaceId/ai-usage', verifyWorkspaceAdmin, getAIUsage);
+
+// Audit trail of workspace and event changes (requires admin)
+router.get('/:workspaceId/audit-log', verifyWorkspaceAdmin, getAuditLog);
 
 // Leave workspace (requires membership, not owner)
 router.post('/:workspaceId/leave', verifyWorkspaceMember, leaveWorkspace);
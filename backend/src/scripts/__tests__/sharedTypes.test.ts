@@ -0,0 +1,15 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { GENERATED_TYPES_DIR, SHARED_TYPE_FILES, renderSharedTypes } from '../sharedTypes';
+
+describe('shared types', () => {
+    for (const file of SHARED_TYPE_FILES) {
+        it(`frontend copy of ${file} matches the backend (run npm run sync:types)`, () => {
+            const generated = fs.readFileSync(path.join(GENERATED_TYPES_DIR, file), 'utf8');
+
+            assert.equal(generated, renderSharedTypes(file));
+        });
+    }
+});
@@ -0,0 +1,22 @@
+/**
+ * Shared Types
+ * Backend type modules the frontend uses unchanged, copied into frontend/src/types/generated
+ * by `npm run sync:types` so the two copies cannot drift
+ */
+
+import fs from 'fs';
+import path from 'path';
+
+const BACKEND_TYPES_DIR = path.join(__dirname, '../types');
+export const GENERATED_TYPES_DIR = path.join(__dirname, '../../../frontend/src/types/generated');
+
+// Modules listed here may only import each other, never backend code
+export const SHARED_TYPE_FILES = ['roles.ts'];
+
+/**
+ * Contents of the frontend copy of a shared type module
+ */
+export const renderSharedTypes = (file: string): string => {
+    const source = fs.readFileSync(path.join(BACKEND_TYPES_DIR, file), 'utf8');
+    return `// Generated from backend/src/types/${file} by \`npm run sync:types\`; do not edit\n\n${source}`;
+};
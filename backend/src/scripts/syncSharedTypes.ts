@@ -0,0 +1,19 @@
+/**
+ * Shared Type Sync
+ * Usage: npm run sync:types
+ *
+ * Regenerates frontend/src/types/generated from the backend type modules listed in sharedTypes.ts.
+ * Run it after changing one of them; the sharedTypes test fails until the copies match.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { GENERATED_TYPES_DIR, SHARED_TYPE_FILES, renderSharedTypes } from './sharedTypes';
+
+fs.mkdirSync(GENERATED_TYPES_DIR, { recursive: true });
+
+for (const file of SHARED_TYPE_FILES) {
+    const target = path.join(GENERATED_TYPES_DIR, file);
+    fs.writeFileSync(target, renderSharedTypes(file));
+    console.log(`Wrote ${path.relative(process.cwd(), target)}`);
+}
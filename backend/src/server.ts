@@ -13,6 +13,7 @@ import calendarRoutes from './routes/calendarRoutes';
 import { logger } from './utils/logger';
 import { requestLogger, errorLogger } from './middleware/requestLogger';
 import { reminderWorker } from './worker/reminderWorker';
+import { workspacePurgeWorker } from './worker/workspacePurgeWorker';
 
 dotenv.config();
 
@@ -82,16 +83,26 @@ const server = app.listen(PORT, () => {
 
     // Start reminder worker
     reminderWorker.start();
+
+    // Start purge of deleted workspaces past retention
+    workspacePurgeWorker.start();
 });
 
+// Workers stop first, and a purge in progress finishes before the server closes
+const shutdown = async () => {
+    reminderWorker.stop();
+    await workspacePurgeWorker.stop();
+    server.close(() => process.exit(0));
+};
+
 process.on('SIGTERM', () => {
     logger.warn('Shutting down...');
-    server.close(() => process.exit(0));
+    shutdown();
 });
 
 process.on('SIGINT', () => {
     logger.warn('\nShutting down...');
-    server.close(() => process.exit(0));
+    shutdown();
 });
 
 process.on('unhandledRejection', (reason, promise) => {
@@ -0,0 +1,82 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { FallbackAIProvider } from '../aiProviderChain';
+import { AIProvider, AIProviderType, SchedulingContext, SuggestedSlot } from '../../types/ai';
+
+const unavailable = async (): Promise<never> => {
+    throw new Error('Provider unavailable');
+};
+
+// A provider whose calls fail unless overridden
+const provider = (overrides: Partial<AIProvider> = {}): AIProvider => ({
+    parseIntent: unavailable,
+    suggestSlots: unavailable,
+    generateClarification: unavailable,
+    ...overrides
+});
+
+const slot: SuggestedSlot = {
+    id: 'slot-1',
+    startTime: '2025-01-07T10:00:00.000Z',
+    endTime: '2025-01-07T11:00:00.000Z',
+    score: 90,
+    scoreBreakdown: { availability: 100, preferenceMatch: 80, attendeeAvailability: 100, minimalDisruption: 100 },
+    conflicts: [],
+    warnings: [],
+    reason: 'Free all morning'
+};
+
+const context: SchedulingContext = {
+    userId: 'user-1',
+    parsedIntent: { title: 'Lunch' },
+    searchWindowStart: '2025-01-07T00:00:00.000Z',
+    searchWindowEnd: '2025-01-08T00:00:00.000Z'
+};
+
+const createChain = (providers: Array<[AIProviderType, AIProvider]>) => new FallbackAIProvider(
+    providers.map(([type, instance]) => ({ type, create: () => instance })),
+    1000,
+    { failureThreshold: 2, cooldownMs: 60000 },
+    async () => [slot]
+);
+
+describe('FallbackAIProvider', () => {
+    it('skips a provider once its circuit opens', async () => {
+        let calls = 0;
+        const chain = createChain([
+            ['gemini', provider({ generateClarification: () => { calls++; return unavailable(); } })],
+            ['mock', provider({ generateClarification: async () => 'When?' })]
+        ]);
+
+        for (let i = 0; i < 4; i++) {
+            assert.equal(await chain.generateClarification('Lunch', ['start_time']), 'When?');
+        }
+
+        assert.equal(calls, 2);
+        assert.equal(chain.getHealth()[0].state, 'open');
+    });
+
+    it('always tries the last provider, however often it fails', async () => {
+        let failing = true;
+        const chain = createChain([
+            ['gemini', provider()],
+            ['mock', provider({ generateClarification: async () => failing ? unavailable() : 'When?' })]
+        ]);
+
+        for (let i = 0; i < 4; i++) {
+            await assert.rejects(chain.generateClarification('Lunch', ['start_time']), /Provider unavailable/);
+        }
+        failing = false;
+
+        assert.equal(await chain.generateClarification('Lunch', ['start_time']), 'When?');
+        assert.equal(chain.getHealth()[1].state, 'closed');
+        assert.equal(chain.getHealth()[1].totalFailures, 4);
+    });
+
+    it('suggests slots without going through the providers', async () => {
+        const chain = createChain([['gemini', provider()], ['mock', provider()]]);
+
+        assert.deepEqual(await chain.suggestSlots(context), [slot]);
+        assert.deepEqual(chain.getHealth().map(health => health.totalFailures), [0, 0]);
+    });
+});
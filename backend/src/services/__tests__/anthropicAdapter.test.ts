@@ -0,0 +1,275 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { AnthropicAdapter, FALLBACK_CLARIFICATION } from '../anthropicAdapter';
+import { FallbackAIProvider } from '../aiProviderChain';
+import { MockAIAdapter } from '../mockAdapter';
+import { SchedulingContext, SlotFinder, SuggestedSlot, TokenUsage } from '../../types/ai';
+
+/**
+ * Contract tests against a local stand-in for the Messages API
+ * Responses follow the shapes the real API returns, including its error bodies
+ */
+
+interface StubResponse {
+    status: number;
+    body: any;
+    delayMs?: number;
+}
+
+interface RecordedRequest {
+    path: string;
+    headers: http.IncomingHttpHeaders;
+    body: any;
+    abandoned: boolean; // the client hung up before the response was sent
+}
+
+const responses: StubResponse[] = [];
+const requests: RecordedRequest[] = [];
+
+const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', chunk => raw += chunk);
+    req.on('end', () => {
+        const request = { path: req.url || '', headers: req.headers, body: JSON.parse(raw || '{}'), abandoned: false };
+        requests.push(request);
+        res.on('close', () => {
+            request.abandoned = !res.writableEnded;
+        });
+
+        const next = responses.shift() || { status: 500, body: apiError('api_error', 'No stub response queued') };
+        setTimeout(() => {
+            res.writeHead(next.status, { 'content-type': 'application/json' });
+            res.end(JSON.stringify(next.body));
+        }, next.delayMs || 0);
+    });
+});
+
+const apiError = (type: string, message: string) => ({ type: 'error', error: { type, message } });
+
+const message = (content: any[], usage = { input_tokens: 412, output_tokens: 58 }) => ({
+    id: 'msg_01XFDUDYJgAACzvnptvVoYEL',
+    type: 'message',
+    role: 'assistant',
+    model: 'claude-3-5-haiku-20241022',
+    content,
+    stop_reason: content.some(block => block.type === 'tool_use') ? 'tool_use' : 'end_turn',
+    stop_sequence: null,
+    usage
+});
+
+const toolUse = (input: Record<string, any>) => message([
+    { type: 'tool_use', id: 'toolu_01A09q90qw90lq917835lq9', name: 'record_intent', input }
+]);
+
+const slot: SuggestedSlot = {
+    id: 'slot-1',
+    startTime: '2025-01-07T10:00:00.000Z',
+    endTime: '2025-01-07T11:00:00.000Z',
+    score: 90,
+    scoreBreakdown: { availability: 100, preferenceMatch: 80, attendeeAvailability: 100, minimalDisruption: 100 },
+    conflicts: [],
+    warnings: [],
+    reason: 'Free all morning'
+};
+const slotRequests: SchedulingContext[] = [];
+const findSlots: SlotFinder = async context => {
+    slotRequests.push(context);
+    return [slot];
+};
+
+before(async () => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    process.env.ANTHROPIC_API_KEY = 'test-key';
+    process.env.ANTHROPIC_BASE_URL = `http://127.0.0.1:${port}/`;
+    process.env.ANTHROPIC_MODEL = 'claude-3-5-haiku-20241022';
+});
+
+after(() => {
+    server.closeAllConnections();
+    server.close();
+});
+
+beforeEach(() => {
+    responses.length = 0;
+    requests.length = 0;
+});
+
+describe('AnthropicAdapter.parseIntent', () => {
+    it('forces the record_intent tool and maps its input to an intent', async () => {
+        responses.push({
+            status: 200,
+            body: toolUse({
+                action: 'create',
+                title: 'Design review',
+                startDate: '2025-01-07T15:00:00+05:30',
+                duration: 45,
+                attendees: ['Priya'],
+                recurrence: { frequency: 'weekly', interval: 1, daysOfWeek: [2] }
+            })
+        });
+        const usage: TokenUsage[] = [];
+
+        const intent = await new AnthropicAdapter(findSlots).parseIntent('Design review with Priya every Tuesday at 3pm for 45 minutes', {
+            timezone: 'Asia/Kolkata',
+            referenceDate: new Date('2025-01-06T09:00:00Z'),
+            onUsage: (call: TokenUsage) => usage.push(call)
+        });
+
+        const [request] = requests;
+        assert.equal(request.path, '/v1/messages');
+        assert.equal(request.headers['x-api-key'], 'test-key');
+        assert.equal(request.headers['anthropic-version'], '2023-06-01');
+        assert.equal(request.body.model, 'claude-3-5-haiku-20241022');
+        assert.deepEqual(request.body.tool_choice, { type: 'tool', name: 'record_intent' });
+        assert.deepEqual(request.body.tools.map((tool: any) => tool.name), ['record_intent']);
+        assert.deepEqual(request.body.messages, [
+            { role: 'user', content: 'Design review with Priya every Tuesday at 3pm for 45 minutes' }
+        ]);
+        assert.match(request.body.system, /Current time: 2025-01-06T09:00:00.000Z/);
+        assert.match(request.body.system, /Timezone: Asia\/Kolkata/);
+
+        assert.equal(intent.action, 'create');
+        assert.equal(intent.title, 'Design review');
+        assert.equal(intent.startDate, '2025-01-07T15:00:00+05:30');
+        assert.equal(intent.duration, 45);
+        assert.deepEqual(intent.attendees, ['Priya']);
+        assert.deepEqual(intent.recurrence, { frequency: 'weekly', interval: 1, daysOfWeek: [2] });
+        assert.deepEqual(intent.ambiguities, []);
+        assert.deepEqual(usage, [{ inputTokens: 412, outputTokens: 58 }]);
+    });
+
+    it('keeps the target of commands and reports what is missing', async () => {
+        responses.push({ status: 200, body: toolUse({ action: 'move', target: { query: 'standup', all: false } }) });
+
+        const intent = await new AnthropicAdapter(findSlots).parseIntent('Move my standup');
+
+        assert.equal(intent.action, 'move');
+        assert.deepEqual(intent.target, { query: 'standup', all: false });
+        assert.equal(intent.duration, undefined);
+        assert.deepEqual(intent.ambiguities, ['move_time']);
+    });
+
+    it('rejects a response without the tool call', async () => {
+        responses.push({ status: 200, body: message([{ type: 'text', text: 'Sure, I can help with that.' }]) });
+
+        await assert.rejects(new AnthropicAdapter(findSlots).parseIntent('Lunch tomorrow'), /No structured intent in Anthropic response/);
+    });
+});
+
+describe('AnthropicAdapter.generateClarification', () => {
+    it('asks for the missing details without tools', async () => {
+        responses.push({ status: 200, body: message([{ type: 'text', text: ' What time should the meeting start? ' }]) });
+
+        const question = await new AnthropicAdapter(findSlots).generateClarification('Meeting with Sam', ['start_time']);
+
+        assert.equal(question, 'What time should the meeting start?');
+        assert.equal(requests[0].body.tools, undefined);
+        assert.match(requests[0].body.system, /Missing information: start_time/);
+        assert.deepEqual(requests[0].body.messages, [{ role: 'user', content: 'Original request: "Meeting with Sam"' }]);
+    });
+
+    it('falls back to a generic question when the API fails', async () => {
+        responses.push({ status: 400, body: apiError('invalid_request_error', 'max_tokens: Field required') });
+
+        const question = await new AnthropicAdapter(findSlots).generateClarification('Meeting with Sam', ['start_time']);
+
+        assert.equal(question, FALLBACK_CLARIFICATION);
+    });
+});
+
+describe('AnthropicAdapter retries', () => {
+    it('retries rate limits, overload and server errors', async () => {
+        responses.push(
+            { status: 429, body: apiError('rate_limit_error', 'Number of request tokens has exceeded your per-minute rate limit') },
+            { status: 529, body: apiError('overloaded_error', 'Overloaded') },
+            { status: 200, body: toolUse({ action: 'create', title: 'Lunch', startDate: '2025-01-07T12:00:00Z' }) }
+        );
+
+        const intent = await new AnthropicAdapter(findSlots).parseIntent('Lunch tomorrow at noon');
+
+        assert.equal(intent.title, 'Lunch');
+        assert.equal(requests.length, 3);
+    });
+
+    it('gives up after the last retry with the status in the error', async () => {
+        responses.push(
+            { status: 500, body: apiError('api_error', 'Internal server error') },
+            { status: 502, body: apiError('api_error', 'Bad gateway') },
+            { status: 503, body: apiError('api_error', 'Service unavailable') }
+        );
+
+        await assert.rejects(new AnthropicAdapter(findSlots).parseIntent('Lunch tomorrow'), {
+            message: 'Anthropic API error 503: Service unavailable'
+        });
+        assert.equal(requests.length, 3);
+    });
+
+    it('does not retry client errors', async () => {
+        responses.push({ status: 401, body: apiError('authentication_error', 'invalid x-api-key') });
+
+        await assert.rejects(new AnthropicAdapter(findSlots).parseIntent('Lunch tomorrow'), {
+            message: 'Anthropic API error 401: invalid x-api-key'
+        });
+        assert.equal(requests.length, 1);
+    });
+
+    it('does not start a retry the deadline leaves no time for', async () => {
+        responses.push({ status: 429, body: apiError('rate_limit_error', 'Rate limited') });
+
+        await assert.rejects(
+            new AnthropicAdapter(findSlots).parseIntent('Lunch tomorrow', { deadline: Date.now() + 300 }),
+            /Anthropic API error 429/
+        );
+        assert.equal(requests.length, 1);
+    });
+
+    it('stops when the call is aborted', async () => {
+        responses.push({ status: 200, body: toolUse({ action: 'create', title: 'Late' }), delayMs: 5000 });
+        const controller = new AbortController();
+        const started = Date.now();
+        setTimeout(() => controller.abort(), 100);
+
+        await assert.rejects(new AnthropicAdapter(findSlots).parseIntent('Lunch tomorrow', {
+            deadline: Date.now() + 15000,
+            signal: controller.signal
+        }));
+        assert.ok(Date.now() - started < 2000);
+        assert.equal(requests.length, 1);
+    });
+});
+
+describe('AnthropicAdapter in the provider chain', () => {
+    it('is cancelled when the chain times out, and the next provider answers', async () => {
+        responses.push({ status: 200, body: message([{ type: 'text', text: 'Too late' }]), delayMs: 5000 });
+        const chain = new FallbackAIProvider([
+            { type: 'anthropic', create: () => new AnthropicAdapter(findSlots) },
+            { type: 'mock', create: () => new MockAIAdapter() }
+        ], 200, { failureThreshold: 3, cooldownMs: 60000 }, findSlots);
+
+        const question = await chain.generateClarification('Meeting with Sam', ['start_time']);
+        await new Promise(resolve => setTimeout(resolve, 50));
+
+        assert.equal(question, await new MockAIAdapter().generateClarification('Meeting with Sam', ['start_time']));
+        assert.equal(requests.length, 1);
+        assert.equal(requests[0].abandoned, true);
+    });
+});
+
+describe('AnthropicAdapter.suggestSlots', () => {
+    it('delegates to the slot finder it was given', async () => {
+        const context: SchedulingContext = {
+            userId: 'user-1',
+            parsedIntent: { title: 'Lunch' },
+            searchWindowStart: '2025-01-07T00:00:00.000Z',
+            searchWindowEnd: '2025-01-08T00:00:00.000Z'
+        };
+
+        assert.deepEqual(await new AnthropicAdapter(findSlots).suggestSlots(context), [slot]);
+        assert.deepEqual(slotRequests, [context]);
+        assert.equal(requests.length, 0);
+    });
+});
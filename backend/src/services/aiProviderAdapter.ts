@@ -1,28 +1,35 @@
 /**
  * AI Provider Adapter
  * Factory pattern for pluggable AI providers
- * Supports OpenAI, Anthropic, Mock, and custom providers
+ * Supports OpenAI, Anthropic, Mock, and custom providers, and a fallback chain across them
  */
 
-import { AIProvider, AIProviderType } from '../types/ai';
+import { AIProvider, AIProviderType, SlotFinder } from '../types/ai';
 import { MockAIAdapter } from './mockAdapter';
+import { FallbackAIProvider, ProviderHealth } from './aiProviderChain';
 import { logger } from '../utils/logger';
 
+const PROVIDER_TYPES: AIProviderType[] = ['openai', 'anthropic', 'gemini', 'mock'];
+
 // Lazy-loaded providers
 let openaiAdapter: AIProvider | null = null;
 let anthropicAdapter: AIProvider | null = null;
 let geminiAdapter: AIProvider | null = null;
 let mockAdapter: AIProvider | null = null;
+let providerChain: FallbackAIProvider | null = null;
 
 /**
  * Get AI provider instance based on configuration
+ * Without a type, requests go through the provider chain and fall back when a provider fails
  */
 export function getAIProvider(type?: AIProviderType): AIProvider {
-    const providerType = type || (process.env.AI_PROVIDER as AIProviderType) || 'mock';
+    if (!type) {
+        return getProviderChain();
+    }
 
-    logger.debug('Getting AI provider', { type: providerType });
+    logger.debug('Getting AI provider', { type });
 
-    switch (providerType) {
+    switch (type) {
         case 'openai':
             return getOpenAIProvider();
 
@@ -38,15 +45,86 @@ export function getAIProvider(type?: AIProviderType): AIProvider {
     }
 }
 
+/**
+ * Slot search for the model providers
+ * The scheduler loads Firestore, so it is required on first use instead of with the providers
+ */
+const findSlots: SlotFinder = context => require('./schedulerService').findAvailableSlots(context);
+
+/**
+ * Create a provider, throwing if it is not configured
+ * Dynamic imports avoid loading SDKs that are not needed
+ */
+export function createProvider(type: AIProviderType): AIProvider {
+    switch (type) {
+        case 'openai': {
+            const { OpenAIAdapter } = require('./openaiAdapter');
+            return new OpenAIAdapter(findSlots);
+        }
+
+        case 'anthropic': {
+            const { AnthropicAdapter } = require('./anthropicAdapter');
+            return new AnthropicAdapter(findSlots);
+        }
+
+        case 'gemini': {
+            const { GeminiAdapter } = require('./geminiAdapter');
+            return new GeminiAdapter(findSlots);
+        }
+
+        case 'mock':
+        default:
+            return getMockProvider();
+    }
+}
+
+/**
+ * Providers to try in order, from AI_PROVIDER_CHAIN (e.g. "gemini,openai,mock")
+ * or else AI_PROVIDER. The mock provider, a deterministic parser built on chrono-node,
+ * always ends the chain, so parsing never depends on an external service alone.
+ */
+export function getAIProviderChain(): AIProviderType[] {
+    const configured = process.env.AI_PROVIDER_CHAIN || process.env.AI_PROVIDER || 'mock';
+    const types = configured
+        .split(',')
+        .map(type => type.trim().toLowerCase())
+        .filter((type): type is AIProviderType => PROVIDER_TYPES.includes(type as AIProviderType));
+
+    return Array.from(new Set<AIProviderType>([...types, 'mock']));
+}
+
+/**
+ * Get the provider chain (created on first use)
+ */
+function getProviderChain(): FallbackAIProvider {
+    if (!providerChain) {
+        providerChain = new FallbackAIProvider(
+            getAIProviderChain().map(type => ({ type, create: () => createProvider(type) })),
+            parseInt(process.env.AI_PROVIDER_TIMEOUT_MS || '15000'),
+            {
+                failureThreshold: parseInt(process.env.AI_BREAKER_FAILURE_THRESHOLD || '3'),
+                cooldownMs: parseInt(process.env.AI_BREAKER_COOLDOWN_MS || '60000')
+            },
+            findSlots
+        );
+    }
+    return providerChain;
+}
+
+/**
+ * Circuit state of each provider in the chain
+ */
+export function getAIProviderHealth(): ProviderHealth[] {
+    return getProviderChain().getHealth();
+}
+
 /**
  * Get OpenAI provider (lazy-loaded)
  */
 function getOpenAIProvider(): AIProvider {
     if (!openaiAdapter) {
         try {
-            // Dynamic import to avoid loading if not needed
-            const { OpenAIAdapter } = require('./openaiAdapter');
-            openaiAdapter = new OpenAIAdapter();
+            openaiAdapter = createProvider('openai');
             logger.info('OpenAI adapter initialized');
         } catch (error) {
             logger.error('Failed to initialize OpenAI adapter, falling back to mock', error);
@@ -62,9 +140,7 @@ function getOpenAIProvider(): AIProvider {
 function getAnthropicProvider(): AIProvider {
     if (!anthropicAdapter) {
         try {
-            // Dynamic import to avoid loading if not needed
-            const { AnthropicAdapter } = require('./anthropicAdapter');
-            anthropicAdapter = new AnthropicAdapter();
+            anthropicAdapter = createProvider('anthropic');
             logger.info('Anthropic adapter initialized');
         } catch (error) {
             logger.error('Failed to initialize Anthropic adapter, falling back to mock', error);
@@ -85,9 +161,7 @@ function getGeminiProvider(): AIProvider {
                 apiKeyLength: process.env.GEMINI_API_KEY?.length || 0
             });
 
-            // Dynamic import to avoid loading if not needed
-            const { GeminiAdapter } = require('./geminiAdapter');
-            geminiAdapter = new GeminiAdapter();
+            geminiAdapter = createProvider('gemini');
             logger.info('✅ Gemini adapter initialized successfully');
         } catch (error) {
             logger.error('❌ Failed to initialize Gemini adapter, falling back to mock', {
@@ -132,7 +206,7 @@ export function validateAIConfig(): {
     errors: string[];
 } {
     const errors: string[] = [];
-    const providerType = process.env.AI_PROVIDER || 'mock';
+    const chain = getAIProviderChain();
 
     // Check if AI is enabled
     if (!isAIEnabled()) {
@@ -140,15 +214,21 @@ export function validateAIConfig(): {
     }
 
     // Validate provider-specific config
-    if (providerType === 'openai') {
+    if (chain.includes('openai')) {
         if (!process.env.OPENAI_API_KEY) {
-            errors.push('OPENAI_API_KEY is required when AI_PROVIDER=openai');
+            errors.push('OPENAI_API_KEY is required when openai is in the provider chain');
+        }
+    }
+
+    if (chain.includes('gemini')) {
+        if (!process.env.GEMINI_API_KEY) {
+            errors.push('GEMINI_API_KEY is required when gemini is in the provider chain');
         }
     }
 
-    if (providerType === 'anthropic') {
+    if (chain.includes('anthropic')) {
         if (!process.env.ANTHROPIC_API_KEY) {
-            errors.push('ANTHROPIC_API_KEY is required when AI_PROVIDER=anthropic');
+            errors.push('ANTHROPIC_API_KEY is required when anthropic is in the provider chain');
         }
     }
 
@@ -169,7 +249,7 @@ export function getAIProviderInfo(): {
     enabled: boolean;
     configured: boolean;
 } {
-    const type = process.env.AI_PROVIDER || 'mock';
+    const type = getAIProviderChain()[0];
     const enabled = isAIEnabled();
     const { valid } = validateAIConfig();
 
@@ -0,0 +1,205 @@
+/**
+ * AI Provider Chain
+ * Tries providers in order, skipping those whose circuit is open, so AI requests
+ * degrade to the deterministic parser instead of failing. The last provider is the
+ * last resort and is always tried.
+ */
+
+import {
+    AIProvider,
+    AIProviderType,
+    ParsedIntent,
+    ProviderCallLimits,
+    SchedulingContext,
+    SlotFinder,
+    SuggestedSlot,
+    TokenUsage
+} from '../types/ai';
+import { CircuitBreaker, CircuitBreakerOptions, CircuitHealth } from '../utils/circuitBreaker';
+import { validateParsedIntent } from '../utils/intentValidation';
+import { logger } from '../utils/logger';
+
+export interface ProviderHealth extends CircuitHealth {
+    provider: AIProviderType;
+    initialized: boolean;
+}
+
+interface ChainEntry {
+    type: AIProviderType;
+    create: () => AIProvider; // throws when the provider is not configured
+    breaker: CircuitBreaker;
+    instance?: AIProvider;
+}
+
+/**
+ * Context for one provider call, with the chain's limits; usage reports name the provider
+ */
+const withProvider = (context: any, type: AIProviderType, limits: ProviderCallLimits): any => {
+    if (!context?.onUsage) return { ...context, ...limits };
+    return {
+        ...context,
+        ...limits,
+        onUsage: (usage: TokenUsage) => context.onUsage({ ...usage, provider: type })
+    };
+};
+
+/**
+ * Reject a call that takes longer than the timeout
+ * onTimeout tells the call to stop; a call that ignores it keeps running and its result is ignored
+ */
+const withTimeout = <T>(
+    promise: Promise<T>,
+    timeoutMs: number,
+    label: string,
+    onTimeout?: () => void
+): Promise<T> => {
+    return new Promise<T>((resolve, reject) => {
+        const timer = setTimeout(() => {
+            onTimeout?.();
+            reject(new Error(`${label} timed out after ${timeoutMs}ms`));
+        }, timeoutMs);
+
+        promise.then(
+            value => {
+                clearTimeout(timer);
+                resolve(value);
+            },
+            error => {
+                clearTimeout(timer);
+                reject(error);
+            }
+        );
+    });
+};
+
+export class FallbackAIProvider implements AIProvider {
+    private readonly entries: ChainEntry[];
+
+    /**
+     * @param findSlots - slot search, which is the same for every provider and so runs outside the chain
+     */
+    constructor(
+        providers: Array<{ type: AIProviderType; create: () => AIProvider }>,
+        private readonly timeoutMs: number,
+        breakerOptions: CircuitBreakerOptions,
+        private readonly findSlots: SlotFinder
+    ) {
+        // The last resort's breaker never opens, it only keeps the statistics for health reports
+        this.entries = providers.map((provider, index) => ({
+            ...provider,
+            breaker: new CircuitBreaker(index === providers.length - 1
+                ? { ...breakerOptions, failureThreshold: Infinity }
+                : breakerOptions)
+        }));
+
+        logger.info('AI provider chain configured', {
+            chain: this.entries.map(entry => entry.type),
+            timeoutMs
+        });
+    }
+
+    /**
+     * Parse with the first available provider and validate its output
+     * An intent that fails validation counts as a provider failure, so the next provider is tried
+     */
+    async parseIntent(prompt: string, context?: any): Promise<ParsedIntent> {
+        return this.run('parseIntent', async (provider, type, limits) => {
+            const intent = await provider.parseIntent(prompt, withProvider(context, type, limits));
+            const result = validateParsedIntent(intent, prompt, {
+                timezone: context?.timezone,
+                referenceDate: context?.referenceDate,
+                // The mock provider parses with chrono itself, there is nothing to cross-check
+                crossCheck: type !== 'mock'
+            });
+
+            if (!result.valid) {
+                throw new Error(`Invalid intent from AI provider "${type}": ${result.error}`);
+            }
+            if (result.repairs.length > 0 || result.conflicts.length > 0) {
+                logger.warn('AI provider intent repaired', {
+                    provider: type,
+                    repairs: result.repairs,
+                    conflicts: result.conflicts
+                });
+            }
+
+            return result.intent!;
+        });
+    }
+
+    /**
+     * Every provider delegates slots to the scheduler, so its failures say nothing about a provider
+     */
+    async suggestSlots(context: SchedulingContext): Promise<SuggestedSlot[]> {
+        return this.findSlots(context);
+    }
+
+    async generateClarification(prompt: string, ambiguities: string[], context?: any): Promise<string> {
+        return this.run('generateClarification', (provider, type, limits) =>
+            provider.generateClarification(prompt, ambiguities, withProvider(context, type, limits))
+        );
+    }
+
+    /**
+     * Circuit state of every provider in the chain, in order
+     */
+    getHealth(): ProviderHealth[] {
+        return this.entries.map(entry => ({
+            provider: entry.type,
+            initialized: !!entry.instance,
+            ...entry.breaker.getHealth()
+        }));
+    }
+
+    /**
+     * Call the first provider that is available and succeeds
+     * Failures (including a provider that cannot be initialized) count against its circuit.
+     * Each call gets the timeout as its deadline and is aborted when it runs over.
+     */
+    private async run<T>(
+        operation: string,
+        call: (provider: AIProvider, type: AIProviderType, limits: ProviderCallLimits) => Promise<T>
+    ): Promise<T> {
+        let lastError: unknown;
+
+        for (const [index, entry] of this.entries.entries()) {
+            if (!entry.breaker.canRequest()) {
+                logger.debug('AI provider skipped, circuit open', { provider: entry.type, operation });
+                continue;
+            }
+
+            try {
+                if (!entry.instance) {
+                    entry.instance = entry.create();
+                }
+
+                const controller = new AbortController();
+                const limits = { deadline: Date.now() + this.timeoutMs, signal: controller.signal };
+                const result = await withTimeout(
+                    call(entry.instance, entry.type, limits),
+                    this.timeoutMs,
+                    `AI provider "${entry.type}"`,
+                    () => controller.abort()
+                );
+                entry.breaker.recordSuccess();
+
+                if (index > 0) {
+                    logger.warn('AI request served by fallback provider', { provider: entry.type, operation });
+                }
+                return result;
+            } catch (error) {
+                entry.breaker.recordFailure(error);
+                lastError = error;
+
+                logger.warn('AI provider failed, trying next', {
+                    provider: entry.type,
+                    operation,
+                    error: error instanceof Error ? error.message : String(error),
+                    circuit: entry.breaker.getHealth().state
+                });
+            }
+        }
+
+        throw lastError instanceof Error ? lastError : new Error('No AI provider is available');
+    }
+}
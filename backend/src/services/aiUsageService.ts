@@ -0,0 +1,163 @@
+/**
+ * AI Usage Service
+ * Counts AI requests and model tokens per user and per workspace each month,
+ * and enforces the configured monthly quotas
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import { AIQuota, AIUsageCounters, AIUsageRecord, AIUsageReport, TokenUsage } from '../types/ai';
+
+const usageCollection = db.collection('aiUsage');
+
+type UsageScope = AIUsageRecord['scope'];
+
+/**
+ * Month that usage is counted in (UTC)
+ */
+export const getUsagePeriod = (date: Date = new Date()): string => {
+    return date.toISOString().slice(0, 7);
+};
+
+const getUsageRef = (scope: UsageScope, scopeId: string, period: string) =>
+    usageCollection.doc(`${scope}_${scopeId}_${period}`);
+
+/**
+ * Read a monthly limit from the environment; unset or 0 means unlimited
+ */
+const readLimit = (name: string): number | undefined => {
+    const limit = parseInt(process.env[name] || '0');
+    return limit > 0 ? limit : undefined;
+};
+
+/**
+ * Configured monthly quota of a scope
+ */
+export const getQuota = (scope: UsageScope): AIQuota => {
+    const prefix = scope === 'user' ? 'AI_USER' : 'AI_WORKSPACE';
+    return {
+        requests: readLimit(`${prefix}_MONTHLY_REQUEST_QUOTA`),
+        tokens: readLimit(`${prefix}_MONTHLY_TOKEN_QUOTA`)
+    };
+};
+
+/**
+ * Usage of a user or workspace in a month (zeros when nothing was recorded)
+ */
+export const getUsage = async (
+    scope: UsageScope,
+    scopeId: string,
+    period: string = getUsagePeriod()
+): Promise<AIUsageCounters> => {
+    const doc = await getUsageRef(scope, scopeId, period).get();
+    const data = doc.data() as AIUsageRecord | undefined;
+
+    return {
+        requests: data?.requests || 0,
+        cachedRequests: data?.cachedRequests || 0,
+        inputTokens: data?.inputTokens || 0,
+        outputTokens: data?.outputTokens || 0,
+        byProvider: data?.byProvider || {}
+    };
+};
+
+/**
+ * Usage and quota of a user or workspace for the current month
+ */
+export const getUsageReport = async (scope: UsageScope, scopeId: string): Promise<AIUsageReport> => {
+    const period = getUsagePeriod();
+    return {
+        period,
+        usage: await getUsage(scope, scopeId, period),
+        quota: getQuota(scope)
+    };
+};
+
+const isOverQuota = (usage: AIUsageCounters, quota: AIQuota): boolean => {
+    return (quota.requests !== undefined && usage.requests >= quota.requests) ||
+        (quota.tokens !== undefined && usage.inputTokens + usage.outputTokens >= quota.tokens);
+};
+
+/**
+ * Check that the user, and the workspace the request is made in, have quota left
+ * Also checked for cached answers: users over quota cannot keep using the assistant
+ */
+export const assertWithinQuota = async (userId: string, workspaceId?: string): Promise<void> => {
+    const userQuota = getQuota('user');
+    const workspaceQuota = getQuota('workspace');
+    const hasUserQuota = userQuota.requests !== undefined || userQuota.tokens !== undefined;
+    const hasWorkspaceQuota = !!workspaceId &&
+        (workspaceQuota.requests !== undefined || workspaceQuota.tokens !== undefined);
+
+    if (hasUserQuota && isOverQuota(await getUsage('user', userId), userQuota)) {
+        logger.warn('AI quota exceeded', { userId });
+        throw new Error('AI usage quota exceeded for this month');
+    }
+
+    if (hasWorkspaceQuota && isOverQuota(await getUsage('workspace', workspaceId!), workspaceQuota)) {
+        logger.warn('Workspace AI quota exceeded', { workspaceId });
+        throw new Error('Workspace AI usage quota exceeded for this month');
+    }
+};
+
+/**
+ * Add one AI request and the tokens its model calls used to the user's and workspace's counters
+ * Accounting never fails the request it accounts for
+ */
+export const recordUsage = async (
+    userId: string,
+    workspaceId: string | undefined,
+    calls: TokenUsage[],
+    cached: boolean = false
+): Promise<void> => {
+    try {
+        const period = getUsagePeriod();
+        const inputTokens = calls.reduce((sum, call) => sum + call.inputTokens, 0);
+        const outputTokens = calls.reduce((sum, call) => sum + call.outputTokens, 0);
+
+        const totals: Record<string, { calls: number; inputTokens: number; outputTokens: number }> = {};
+        for (const call of calls) {
+            const provider = call.provider || 'unknown';
+            const total = totals[provider] || (totals[provider] = { calls: 0, inputTokens: 0, outputTokens: 0 });
+            total.calls++;
+            total.inputTokens += call.inputTokens;
+            total.outputTokens += call.outputTokens;
+        }
+
+        // Nested increments, so concurrent requests add up instead of overwriting each other
+        const byProvider: Record<string, Record<string, FieldValue>> = {};
+        for (const [provider, total] of Object.entries(totals)) {
+            byProvider[provider] = {
+                calls: FieldValue.increment(total.calls),
+                inputTokens: FieldValue.increment(total.inputTokens),
+                outputTokens: FieldValue.increment(total.outputTokens)
+            };
+        }
+
+        const increments = {
+            requests: FieldValue.increment(cached ? 0 : 1),
+            cachedRequests: FieldValue.increment(cached ? 1 : 0),
+            inputTokens: FieldValue.increment(inputTokens),
+            outputTokens: FieldValue.increment(outputTokens),
+            byProvider,
+            period,
+            updatedAt: new Date().toISOString()
+        };
+
+        const batch = db.batch();
+        batch.set(getUsageRef('user', userId, period), { scope: 'user', scopeId: userId, ...increments }, { merge: true });
+        if (workspaceId) {
+            batch.set(
+                getUsageRef('workspace', workspaceId, period),
+                { scope: 'workspace', scopeId: workspaceId, ...increments },
+                { merge: true }
+            );
+        }
+        await batch.commit();
+
+        logger.debug('AI usage recorded', { userId, workspaceId, cached, inputTokens, outputTokens });
+    } catch (error) {
+        logger.error('Error recording AI usage', error);
+    }
+};
@@ -0,0 +1,338 @@
+/**
+ * Anthropic Provider Adapter
+ * Uses the Anthropic Messages API, with a forced tool call for structured JSON output
+ */
+
+import axios from 'axios';
+import { AIProvider, ParsedIntent, SchedulingContext, SlotFinder, SuggestedSlot } from '../types/ai';
+import { logger } from '../utils/logger';
+
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Tool the model is made to call, so the intent always comes back as schema-shaped JSON
+const INTENT_TOOL = {
+    name: 'record_intent',
+    description: 'Record the structured calendar intent parsed from the user request',
+    input_schema: {
+        type: 'object',
+        properties: {
+            action: { type: 'string', enum: ['create', 'move', 'cancel', 'update'] },
+            title: { type: 'string' },
+            description: { type: 'string' },
+            startDate: { type: 'string', description: 'ISO 8601 date-time' },
+            duration: { type: 'number', description: 'Minutes' },
+            attendees: { type: 'array', items: { type: 'string' } },
+            location: { type: 'string' },
+            priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+            isFlexible: { type: 'boolean' },
+            recurrence: {
+                type: 'object',
+                properties: {
+                    frequency: { type: 'string', enum: ['daily', 'weekly', 'monthly'] },
+                    interval: { type: 'number' },
+                    daysOfWeek: { type: 'array', items: { type: 'number' } }
+                }
+            },
+            target: {
+                type: 'object',
+                properties: {
+                    query: { type: 'string' },
+                    attendees: { type: 'array', items: { type: 'string' } },
+                    rangeStart: { type: 'string' },
+                    rangeEnd: { type: 'string' },
+                    all: { type: 'boolean' }
+                }
+            },
+            changes: {
+                type: 'object',
+                properties: {
+                    title: { type: 'string' },
+                    description: { type: 'string' },
+                    location: { type: 'string' },
+                    priority: { type: 'string', enum: ['low', 'medium', 'high'] },
+                    duration: { type: 'number' }
+                }
+            }
+        },
+        required: ['action']
+    }
+};
+
+// Asked when Claude cannot be reached or returns no question
+export const FALLBACK_CLARIFICATION: string = 'Could you provide more details about when you want to schedule this event?';
+
+// Calls made outside the provider chain get the chain's budget
+const DEFAULT_BUDGET_MS = parseInt(process.env.AI_PROVIDER_TIMEOUT_MS || '15000');
+
+/**
+ * Wait before a retry, giving up early when the call is aborted
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new Error('Anthropic request aborted'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+
+        if (signal?.aborted) {
+            onAbort();
+        } else {
+            signal?.addEventListener('abort', onAbort, { once: true });
+        }
+    });
+};
+
+export class AnthropicAdapter implements AIProvider {
+    private readonly apiKey: string;
+    private readonly baseUrl: string;
+    private readonly model: string;
+    private readonly MAX_RETRIES = 2;
+    private readonly INITIAL_DELAY = 500; // 0.5 seconds
+    private readonly ATTEMPT_TIMEOUT = 10000; // 10 seconds, less if the deadline is closer
+
+    /**
+     * @param findSlots - slot search for suggestions, usually the scheduler's findAvailableSlots
+     */
+    constructor(private readonly findSlots: SlotFinder) {
+        const apiKey = process.env.ANTHROPIC_API_KEY;
+
+        if (!apiKey) {
+            throw new Error('ANTHROPIC_API_KEY is not configured. Please add your API key to .env file.');
+        }
+
+        this.apiKey = apiKey;
+        this.baseUrl = (process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com').replace(/\/+$/, '');
+        this.model = process.env.ANTHROPIC_MODEL || 'claude-3-5-haiku-latest';
+
+        logger.info(`Anthropic adapter initialized with ${this.model}`);
+    }
+
+    /**
+     * Helper: Retry with exponential backoff, within the call's deadline
+     * Rate limits (429), overload (529) and server errors are retried, other errors are not;
+     * a retry that could not start before the deadline is not made
+     */
+    private async retryWithBackoff<T>(
+        fn: (timeoutMs: number) => Promise<T>,
+        deadline: number,
+        signal?: AbortSignal,
+        retries: number = this.MAX_RETRIES
+    ): Promise<T> {
+        let lastError: any;
+
+        for (let attempt = 0; attempt <= retries; attempt++) {
+            try {
+                return await fn(Math.min(this.ATTEMPT_TIMEOUT, deadline - Date.now()));
+            } catch (error: any) {
+                lastError = error;
+
+                const status = error.response?.status;
+                const isRetryable = status === 429 || status === 529 || status >= 500 ||
+                    error.code === 'ECONNRESET' || error.code === 'ETIMEDOUT' || error.code === 'ECONNABORTED';
+                const delay = this.INITIAL_DELAY * Math.pow(2, attempt);
+                const hasTime = Date.now() + delay < deadline;
+
+                if (attempt < retries && isRetryable && hasTime && !signal?.aborted) {
+                    logger.warn(`Anthropic request failed, retrying in ${delay}ms (attempt ${attempt + 1}/${retries})`, {
+                        status,
+                        error: error.message
+                    });
+                    await sleep(delay, signal);
+                } else {
+                    throw error;
+                }
+            }
+        }
+
+        throw lastError;
+    }
+
+    /**
+     * Send a Messages API request
+     * Errors carry the HTTP status in their message, so callers can tell rate limits apart
+     */
+    private async createMessage(body: Record<string, any>, context?: any): Promise<any> {
+        const deadline: number = context?.deadline || Date.now() + DEFAULT_BUDGET_MS;
+        const signal: AbortSignal | undefined = context?.signal;
+
+        try {
+            const response = await this.retryWithBackoff(timeoutMs => axios.post(
+                `${this.baseUrl}/v1/messages`,
+                { model: this.model, ...body },
+                {
+                    headers: {
+                        'x-api-key': this.apiKey,
+                        'anthropic-version': ANTHROPIC_VERSION,
+                        'content-type': 'application/json'
+                    },
+                    timeout: Math.max(1, timeoutMs),
+                    signal
+                }
+            ), deadline, signal);
+
+            return response.data;
+        } catch (error: any) {
+            const status = error.response?.status;
+            if (!status) throw error;
+
+            const message = error.response.data?.error?.message || error.message;
+            throw new Error(`Anthropic API error ${status}: ${message}`);
+        }
+    }
+
+    /**
+     * Parse intent using Claude
+     */
+    async parseIntent(prompt: string, context?: any): Promise<ParsedIntent> {
+        try {
+            logger.debug('Anthropic: Parsing intent', { promptLength: prompt.length });
+
+            const systemPrompt = `You are a calendar scheduling assistant. Parse the user's request and record it with the record_intent tool.
+
+- action: 'create' for a new event, or 'move', 'cancel' or 'update' for existing events
+- title, description, location, attendees (names or emails), priority, isFlexible (can the event be moved?)
+- startDate: ISO 8601 date-time; for a move, the earliest new time to consider
+- duration: minutes, only if the request gives one
+- recurrence: for recurring events (frequency, interval, daysOfWeek 0-6 with Sunday = 0)
+- target: for move/cancel/update, the events meant: query (words from their title), attendees, rangeStart and rangeEnd (ISO, when days are named), all (true for every matching event)
+- changes: for update, the fields to change
+
+Leave out anything the request does not say.
+
+Context:
+- Current time: ${(context?.referenceDate || new Date()).toISOString()}
+- Timezone: ${context?.timezone || 'UTC'}`;
+
+            const response = await this.createMessage({
+                max_tokens: 1024,
+                system: systemPrompt,
+                tools: [INTENT_TOOL],
+                tool_choice: { type: 'tool', name: INTENT_TOOL.name },
+                messages: [{ role: 'user', content: prompt }]
+            }, context);
+            context?.onUsage?.({
+                inputTokens: response.usage?.input_tokens || 0,
+                outputTokens: response.usage?.output_tokens || 0
+            });
+
+            const toolUse = (response.content || []).find(
+                (block: any) => block.type === 'tool_use' && block.name === INTENT_TOOL.name
+            );
+            if (!toolUse || typeof toolUse.input !== 'object') {
+                throw new Error('No structured intent in Anthropic response');
+            }
+
+            const parsed = toolUse.input;
+
+            // Build ParsedIntent
+            const action = ['move', 'cancel', 'update'].includes(parsed.action) ? parsed.action : 'create';
+            const intent: ParsedIntent = {
+                action,
+                target: action !== 'create' ? parsed.target || {} : undefined,
+                changes: action === 'update' ? parsed.changes || {} : undefined,
+                title: parsed.title,
+                description: parsed.description,
+                startDate: parsed.startDate,
+                duration: parsed.duration || (action === 'create' ? 60 : undefined),
+                attendees: parsed.attendees || [],
+                location: parsed.location,
+                priority: parsed.priority || 'medium',
+                isFlexible: parsed.isFlexible !== false,
+                confidence: 0.9,
+                ambiguities: []
+            };
+
+            // Check for ambiguities (cancel and update need no time, commands no title)
+            if (!intent.startDate && action === 'move') {
+                intent.ambiguities?.push('move_time');
+            } else if (!intent.startDate && action === 'create') {
+                intent.ambiguities?.push('start_time');
+            }
+            if (!intent.title && action === 'create') {
+                intent.ambiguities?.push('title');
+            }
+
+            // Handle recurrence
+            if (parsed.recurrence?.frequency) {
+                intent.recurrence = {
+                    frequency: parsed.recurrence.frequency,
+                    interval: parsed.recurrence.interval,
+                    daysOfWeek: parsed.recurrence.daysOfWeek
+                };
+            }
+
+            logger.success('Anthropic: Intent parsed successfully', {
+                title: intent.title,
+                action: intent.action,
+                confidence: intent.confidence
+            });
+
+            return intent;
+        } catch (error) {
+            logger.error('Anthropic: Error parsing intent', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Generate suggestions using core scheduler
+     */
+    async suggestSlots(context: SchedulingContext): Promise<SuggestedSlot[]> {
+        try {
+            logger.debug('Anthropic: Generating slot suggestions');
+
+            // Use our core scheduler
+            const slots = await this.findSlots(context);
+
+            logger.success('Anthropic: Suggestions generated', { count: slots.length });
+            return slots;
+        } catch (error) {
+            logger.error('Anthropic: Error generating suggestions', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Generate clarifying question using Claude
+     */
+    async generateClarification(prompt: string, ambiguities: string[], context?: any): Promise<string> {
+        try {
+            logger.debug('Anthropic: Generating clarification', { ambiguities });
+
+            const systemPrompt = `You are a helpful calendar assistant. The user's request is missing some information. Ask a clear, friendly question to get the missing details.
+
+Missing information: ${ambiguities.join(', ')}
+
+Be conversational and helpful. Ask for only the most critical missing piece, and reply with the question only.`;
+
+            const response = await this.createMessage({
+                max_tokens: 150,
+                system: systemPrompt,
+                messages: [{ role: 'user', content: `Original request: "${prompt}"` }]
+            }, context);
+            context?.onUsage?.({
+                inputTokens: response.usage?.input_tokens || 0,
+                outputTokens: response.usage?.output_tokens || 0
+            });
+
+            const question = (response.content || [])
+                .filter((block: any) => block.type === 'text')
+                .map((block: any) => block.text)
+                .join('')
+                .trim() || FALLBACK_CLARIFICATION;
+
+            logger.success('Anthropic: Clarification generated');
+            return question;
+        } catch (error: any) {
+            logger.warn('Anthropic: Clarification failed, asking the fallback question', {
+                ambiguities,
+                error: error.message
+            });
+            return FALLBACK_CLARIFICATION;
+        }
+    }
+}
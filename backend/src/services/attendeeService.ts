@@ -0,0 +1,278 @@
+/**
+ * Attendee Service
+ * Attendee lists, RSVP responses and invitation notifications for events
+ */
+
+import { db, auth } from '../config/firebase';
+import { logger } from '../utils/logger';
+import { expandEvents } from '../utils/recurrence';
+import { getWorkspaceMembers } from './roleService';
+import { excludeDeletedWorkspaceEvents } from './eventService';
+import { notificationService } from './notificationService';
+import { emailService } from './emailService';
+import { AttendeeResponseStatus, EventAttendee } from '../types/event';
+import { WorkspaceMember } from '../types/workspace';
+
+const eventsCollection = db.collection('events');
+
+const RESPONSE_STATUSES: AttendeeResponseStatus[] = ['needs-action', 'accepted', 'declined', 'tentative'];
+
+/**
+ * Check whether a value is a valid RSVP status
+ */
+export const isResponseStatus = (value: unknown): value is AttendeeResponseStatus => {
+    return RESPONSE_STATUSES.includes(value as AttendeeResponseStatus);
+};
+
+/**
+ * Match an attendee name or email to a workspace member
+ * Emails must match exactly; names match the display name, its first word or the email local part
+ */
+export const resolveAttendee = (
+    attendee: string,
+    members: WorkspaceMember[]
+): WorkspaceMember | null => {
+    const needle = attendee.trim().toLowerCase();
+    if (!needle) return null;
+
+    if (needle.includes('@')) {
+        return members.find(m => m.email?.toLowerCase() === needle) || null;
+    }
+
+    const matches = members.filter(m => {
+        const name = (m.displayName || '').toLowerCase();
+        const localPart = (m.email || '').toLowerCase().split('@')[0];
+        return name === needle || name.split(/\s+/)[0] === needle || localPart === needle;
+    });
+
+    // Ambiguous names are not guessed
+    return matches.length === 1 ? matches[0] : null;
+};
+
+/**
+ * Look up the registered user for an email, if any
+ */
+const findUserByEmail = async (email: string): Promise<{ uid: string; displayName?: string } | null> => {
+    try {
+        const userRecord = await auth.getUserByEmail(email);
+        return { uid: userRecord.uid, displayName: userRecord.displayName };
+    } catch (error) {
+        // Not registered: the attendee is invited by email only
+        return null;
+    }
+};
+
+/**
+ * Build an event's attendee list from names, emails or attendee objects
+ * Response statuses of attendees already on the event are kept; the organizer is never an attendee.
+ * Names can only be resolved against the members of the event's workspace.
+ */
+export const buildAttendeeList = async (
+    inputs: Array<string | Partial<EventAttendee>>,
+    organizerUid: string,
+    existing: EventAttendee[] = [],
+    workspaceId?: string | null
+): Promise<{ attendees: EventAttendee[]; unresolved: string[] }> => {
+    const attendees: EventAttendee[] = [];
+    const unresolved: string[] = [];
+    let members: WorkspaceMember[] | null = null;
+
+    for (const input of inputs) {
+        const value = (typeof input === 'string' ? input : input?.email || '').trim();
+        if (!value) continue;
+
+        let email = value.includes('@') ? value.toLowerCase() : '';
+        let uid: string | undefined;
+        let displayName = typeof input === 'string' ? undefined : input.displayName;
+
+        if (!email) {
+            if (workspaceId && members === null) {
+                members = await getWorkspaceMembers(workspaceId, organizerUid);
+            }
+
+            const member = members ? resolveAttendee(value, members) : null;
+            if (!member?.email) {
+                unresolved.push(value);
+                continue;
+            }
+
+            email = member.email.toLowerCase();
+            uid = member.uid;
+            displayName = member.displayName;
+        }
+
+        if (attendees.some(a => a.email === email)) continue;
+
+        const previous = existing.find(a => a.email === email);
+        if (previous) {
+            attendees.push(previous);
+            continue;
+        }
+
+        if (!uid) {
+            const user = await findUserByEmail(email);
+            uid = user?.uid;
+            displayName = displayName || user?.displayName;
+        }
+
+        if (uid === organizerUid) continue;
+
+        attendees.push({
+            email,
+            uid,
+            displayName,
+            responseStatus: 'needs-action',
+        });
+    }
+
+    return { attendees, unresolved };
+};
+
+/**
+ * uids of registered attendees, stored alongside the list for array-contains queries
+ */
+export const getAttendeeUids = (attendees: EventAttendee[]): string[] => {
+    return attendees.filter(a => a.uid).map(a => a.uid as string);
+};
+
+/**
+ * Attendees in the new list that were not on the old one
+ */
+export const getAddedAttendees = (before: EventAttendee[] = [], after: EventAttendee[] = []): EventAttendee[] => {
+    return after.filter(a => !before.some(b => b.email === a.email));
+};
+
+/**
+ * Notify invited attendees in-app (registered users) and by email
+ */
+export const notifyInvitedAttendees = async (
+    eventId: string,
+    event: { title: string; startDate: string; timeZone?: string; workspaceId?: string | null },
+    attendees: EventAttendee[],
+    invitedBy: string
+): Promise<void> => {
+    for (const attendee of attendees) {
+        if (attendee.uid) {
+            await notificationService.notifyEventInvitation(
+                eventId,
+                attendee.uid,
+                event.title,
+                invitedBy,
+                event.workspaceId || undefined
+            );
+        }
+
+        await emailService.sendEventInvitation(
+            attendee.email,
+            event.title,
+            new Date(event.startDate),
+            invitedBy,
+            event.timeZone
+        );
+    }
+
+    logger.debug('Attendees notified of invitation', { eventId, count: attendees.length });
+};
+
+/**
+ * Record an attendee's RSVP and notify the organizer
+ */
+export const respondToInvitation = async (
+    eventId: string,
+    userId: string,
+    userEmail: string | undefined,
+    responseStatus: AttendeeResponseStatus
+): Promise<EventAttendee[]> => {
+    try {
+        logger.debug(`User ${userId} responding to event ${eventId}`, { responseStatus });
+
+        const docRef = eventsCollection.doc(eventId);
+
+        const { event, attendee, attendees } = await db.runTransaction(async (transaction) => {
+            const doc = await transaction.get(docRef);
+            if (!doc.exists) {
+                throw new Error('Event not found');
+            }
+
+            const event = doc.data() as any;
+            const email = userEmail?.toLowerCase();
+            const current: EventAttendee[] = event.attendees || [];
+            const index = current.findIndex(a => a.uid === userId || (email && a.email === email));
+
+            if (index === -1) {
+                throw new Error('Access denied: You are not invited to this event');
+            }
+
+            const attendee: EventAttendee = {
+                ...current[index],
+                uid: userId,
+                responseStatus,
+                respondedAt: new Date().toISOString(),
+            };
+            const attendees = current.map((a, i) => (i === index ? attendee : a));
+
+            transaction.update(docRef, {
+                attendees,
+                attendeeUids: getAttendeeUids(attendees),
+                updatedAt: new Date().toISOString(),
+            });
+
+            return { event, attendee, attendees };
+        });
+
+        const organizerUid = event.createdBy || event.userId;
+        const attendeeName = attendee.displayName || attendee.email;
+
+        await notificationService.notifyAttendeeResponse(
+            eventId,
+            organizerUid,
+            event.title,
+            attendeeName,
+            responseStatus
+        );
+
+        try {
+            const organizer = await auth.getUser(organizerUid);
+            if (organizer.email) {
+                await emailService.sendAttendeeResponse(organizer.email, event.title, attendeeName, responseStatus);
+            }
+        } catch (error) {
+            logger.warn('Could not email organizer about RSVP', { eventId, organizerUid });
+        }
+
+        logger.success(`RSVP recorded for event ${eventId}`, { userId, responseStatus });
+        return attendees;
+    } catch (error) {
+        logger.error('Error responding to invitation', error);
+        throw error;
+    }
+};
+
+/**
+ * Get events the user is invited to (organized by someone else)
+ * With a window, recurring series are expanded into occurrences
+ */
+export const getInvitedEvents = async (
+    userId: string,
+    windowStart?: string,
+    windowEnd?: string
+): Promise<any[]> => {
+    try {
+        const snapshot = await eventsCollection
+            .where('attendeeUids', 'array-contains', userId)
+            .get();
+
+        const events = await excludeDeletedWorkspaceEvents(snapshot.docs
+            .map(doc => ({ id: doc.id, _id: doc.id, ...doc.data() } as any))
+            .filter(event => event.userId !== userId));
+
+        if (!windowStart || !windowEnd) {
+            return events;
+        }
+
+        return expandEvents(events, new Date(windowStart), new Date(windowEnd));
+    } catch (error) {
+        logger.error('Error getting invited events', error);
+        throw error;
+    }
+};
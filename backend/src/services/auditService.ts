@@ -0,0 +1,129 @@
+/**
+ * Audit Service
+ * Append-only trail of who changed what in a workspace: roles, members, invites and events
+ */
+
+import { Transaction } from 'firebase-admin/firestore';
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import { AuthRequest } from '../middleware/auth';
+import { AuditAction, AuditActor, AuditChange, AuditEntry, AuditQuery, AuditTarget } from '../types/audit';
+
+const auditCollection = db.collection('auditLog');
+
+export const DEFAULT_AUDIT_LIMIT = 50;
+export const MAX_AUDIT_LIMIT = 200;
+
+export interface AuditInput {
+    workspaceId?: string | null;
+    actor: AuditActor;
+    action: AuditAction;
+    target: AuditTarget;
+    changes?: Record<string, AuditChange>;
+    metadata?: Record<string, unknown>;
+}
+
+/**
+ * The requesting user as recorded in the audit trail
+ */
+export const getRequestActor = (req: AuthRequest): AuditActor => ({
+    uid: req.user.uid,
+    name: req.user.name || req.user.email
+});
+
+/**
+ * Fields that differ between two versions of a record
+ * Only the given fields are compared (all fields of either version by default);
+ * values compare by their JSON, so arrays and nested objects diff by content
+ */
+export const diffFields = (
+    before: Record<string, any> | undefined,
+    after: Record<string, any> | undefined,
+    fields?: string[]
+): Record<string, AuditChange> => {
+    const keys = fields || Array.from(new Set([...Object.keys(before || {}), ...Object.keys(after || {})]));
+    const changes: Record<string, AuditChange> = {};
+
+    for (const key of keys) {
+        const previous = before?.[key] ?? null;
+        const next = after?.[key] ?? null;
+        if (JSON.stringify(previous) !== JSON.stringify(next)) {
+            changes[key] = { before: previous, after: next };
+        }
+    }
+
+    return changes;
+};
+
+const buildEntry = (input: AuditInput): Omit<AuditEntry, 'id'> => ({
+    workspaceId: input.workspaceId || null,
+    actorId: input.actor.uid,
+    actorName: input.actor.name,
+    action: input.action,
+    target: input.target,
+    changes: input.changes && Object.keys(input.changes).length > 0 ? input.changes : undefined,
+    metadata: input.metadata,
+    timestamp: new Date().toISOString()
+});
+
+/**
+ * Append an entry to the audit trail
+ * Inside a transaction the entry is written with the change it records; otherwise
+ * auditing never fails the request it audits
+ */
+export const recordAudit = async (input: AuditInput, transaction?: Transaction): Promise<void> => {
+    const entry = buildEntry(input);
+
+    if (transaction) {
+        transaction.set(auditCollection.doc(), entry);
+        return;
+    }
+
+    try {
+        await auditCollection.add(entry);
+        logger.debug('Audit entry recorded', { action: entry.action, target: entry.target.id });
+    } catch (error) {
+        logger.error('Error recording audit entry', error);
+    }
+};
+
+/**
+ * Audit entries of a workspace, newest first
+ * Pass the oldest timestamp of a page as `until` to get the next page
+ */
+export const queryAuditLog = async (workspaceId: string, filters: AuditQuery = {}): Promise<AuditEntry[]> => {
+    try {
+        logger.debug(`Querying audit log of workspace ${workspaceId}`, filters);
+
+        let query = auditCollection.where('workspaceId', '==', workspaceId);
+
+        if (filters.action) {
+            query = query.where('action', '==', filters.action);
+        }
+        if (filters.actorId) {
+            query = query.where('actorId', '==', filters.actorId);
+        }
+        if (filters.targetType) {
+            query = query.where('target.type', '==', filters.targetType);
+        }
+        if (filters.targetId) {
+            query = query.where('target.id', '==', filters.targetId);
+        }
+        if (filters.since) {
+            query = query.where('timestamp', '>=', filters.since);
+        }
+        if (filters.until) {
+            query = query.where('timestamp', '<', filters.until);
+        }
+
+        const limit = Math.min(filters.limit || DEFAULT_AUDIT_LIMIT, MAX_AUDIT_LIMIT);
+        const snapshot = await query.orderBy('timestamp', 'desc').limit(limit).get();
+        const entries = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as AuditEntry));
+
+        logger.success(`Retrieved ${entries.length} audit entries for workspace ${workspaceId}`);
+        return entries;
+    } catch (error) {
+        logger.error('Error querying audit log', error);
+        throw error;
+    }
+};
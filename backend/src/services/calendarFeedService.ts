@@ -0,0 +1,159 @@
+/**
+ * Calendar Feed Service
+ * iCalendar export and tokenized subscription feeds for users and workspaces
+ */
+
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import { buildVCalendar } from '../utils/ical';
+import { getMemberWorkspace } from './roleService';
+import { excludeDeletedWorkspaceEvents } from './eventService';
+import { CalendarFeed } from '../types/event';
+import crypto from 'crypto';
+
+const eventsCollection = db.collection('events');
+const feedsCollection = db.collection('calendarFeeds');
+
+/**
+ * Generate an unguessable feed token
+ */
+const generateFeedToken = (): string => {
+    return crypto.randomBytes(24).toString('hex');
+};
+
+/**
+ * Build the VCALENDAR document for a user's events, or for all events in a workspace
+ */
+export const exportCalendar = async (
+    userId: string,
+    workspaceId?: string | null
+): Promise<string> => {
+    try {
+        logger.debug('Exporting calendar', { userId, workspaceId });
+
+        let calendarName = 'My Calendar';
+        let query;
+
+        if (workspaceId) {
+            const workspace = await getMemberWorkspace(workspaceId, userId);
+            calendarName = workspace.name;
+            query = eventsCollection.where('workspaceId', '==', workspaceId);
+        } else {
+            query = eventsCollection.where('userId', '==', userId);
+        }
+
+        const snapshot = await query.get();
+        let events: any[] = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() }));
+        if (!workspaceId) {
+            events = await excludeDeletedWorkspaceEvents(events);
+        }
+
+        logger.success(`Exported ${events.length} events`, { userId, workspaceId });
+        return buildVCalendar(events, calendarName);
+    } catch (error) {
+        logger.error('Error exporting calendar', error);
+        throw error;
+    }
+};
+
+/**
+ * Create a subscription feed token
+ */
+export const createFeed = async (
+    userId: string,
+    workspaceId?: string | null
+): Promise<CalendarFeed> => {
+    try {
+        logger.debug('Creating calendar feed', { userId, workspaceId });
+
+        const name = workspaceId
+            ? (await getMemberWorkspace(workspaceId, userId)).name
+            : 'My Calendar';
+
+        const feed: CalendarFeed = {
+            token: generateFeedToken(),
+            userId,
+            workspaceId: workspaceId || null,
+            name,
+            isActive: true,
+            createdAt: new Date().toISOString()
+        };
+
+        const docRef = await feedsCollection.add(feed);
+
+        logger.success('Calendar feed created', { feedId: docRef.id, userId });
+        return { id: docRef.id, ...feed };
+    } catch (error) {
+        logger.error('Error creating calendar feed', error);
+        throw error;
+    }
+};
+
+/**
+ * List a user's active subscription feeds
+ */
+export const getUserFeeds = async (userId: string): Promise<CalendarFeed[]> => {
+    try {
+        const snapshot = await feedsCollection
+            .where('userId', '==', userId)
+            .where('isActive', '==', true)
+            .get();
+
+        return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as CalendarFeed));
+    } catch (error) {
+        logger.error('Error fetching calendar feeds', error);
+        throw error;
+    }
+};
+
+/**
+ * Revoke a subscription feed so its URL stops working
+ */
+export const revokeFeed = async (feedId: string, userId: string): Promise<void> => {
+    try {
+        const feedRef = feedsCollection.doc(feedId);
+        const feedDoc = await feedRef.get();
+
+        if (!feedDoc.exists) {
+            throw new Error('Feed not found');
+        }
+
+        if (feedDoc.data()?.userId !== userId) {
+            throw new Error('Access denied: You can only revoke your own feeds');
+        }
+
+        await feedRef.update({
+            isActive: false,
+            revokedAt: new Date().toISOString()
+        });
+
+        logger.success('Calendar feed revoked', { feedId, userId });
+    } catch (error) {
+        logger.error('Error revoking calendar feed', error);
+        throw error;
+    }
+};
+
+/**
+ * Render the calendar behind a feed token
+ * Workspace membership is re-checked so feeds stop working for users who left
+ */
+export const renderFeed = async (token: string): Promise<string> => {
+    try {
+        const snapshot = await feedsCollection
+            .where('token', '==', token)
+            .where('isActive', '==', true)
+            .limit(1)
+            .get();
+
+        if (snapshot.empty) {
+            throw new Error('Feed not found');
+        }
+
+        const feed = snapshot.docs[0].data() as CalendarFeed;
+        return await exportCalendar(feed.userId, feed.workspaceId);
+    } catch (error) {
+        logger.error('Error rendering calendar feed', error);
+        throw error;
+    }
+};
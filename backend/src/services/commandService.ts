@@ -0,0 +1,223 @@
+/**
+ * AI Command Service
+ * Stores cancel and update commands until they are confirmed, then applies them
+ * to the events that were previewed
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import { buildOccurrenceOverride } from './eventService';
+import { reminderService } from './reminderService';
+import { canChangeEvent, getMemberRole } from './roleService';
+import { assertWorkspaceWritable } from '../utils/workspaceUtils';
+import { AICommand, CommandTarget, ParsedIntent } from '../types/ai';
+import { Workspace } from '../types/workspace';
+
+const commandsCollection = db.collection('aiCommands');
+const eventsCollection = db.collection('events');
+const workspacesCollection = db.collection('workspaces');
+
+// Commands are confirmable for as long as suggestions are bookable
+const COMMAND_TTL_MINUTES = parseInt(process.env.AI_SUGGESTION_TTL_MINUTES || '30');
+
+/**
+ * Store a command awaiting confirmation
+ */
+export const saveCommand = async (
+    userId: string,
+    action: AICommand['action'],
+    targets: CommandTarget[],
+    changes?: ParsedIntent['changes'],
+    workspaceId?: string
+): Promise<AICommand> => {
+    try {
+        const docRef = commandsCollection.doc();
+        const now = new Date();
+        const command: Omit<AICommand, 'id'> = {
+            userId,
+            workspaceId: workspaceId || null,
+            action,
+            targets,
+            changes,
+            status: 'pending',
+            createdAt: now.toISOString(),
+            expiresAt: new Date(now.getTime() + COMMAND_TTL_MINUTES * 60000).toISOString()
+        };
+
+        await docRef.set(command);
+
+        logger.debug('AI command stored', { commandId: docRef.id, action, targets: targets.length });
+        return { id: docRef.id, ...command };
+    } catch (error) {
+        logger.error('Error storing AI command', error);
+        throw error;
+    }
+};
+
+/**
+ * Apply a pending command
+ * All targets are checked and changed in one transaction, so nothing is changed if one of
+ * them was edited after the preview
+ */
+export const applyCommand = async (commandId: string, userId: string): Promise<AICommand> => {
+    try {
+        logger.debug('Applying AI command', { commandId, userId });
+
+        const commandRef = commandsCollection.doc(commandId);
+
+        const command = await db.runTransaction(async (transaction) => {
+            const commandDoc = await transaction.get(commandRef);
+
+            if (!commandDoc.exists) {
+                throw new Error('Command not found');
+            }
+
+            const pending = { id: commandDoc.id, ...commandDoc.data() } as AICommand;
+
+            if (pending.userId !== userId) {
+                throw new Error('Access denied to command');
+            }
+            if (pending.status === 'applied') {
+                throw new Error('Command has already been applied');
+            }
+            if (new Date(pending.expiresAt) < new Date()) {
+                throw new Error('Command has expired');
+            }
+
+            // The user may have left the workspace, or had their role changed, since the preview
+            const workspaceDoc = pending.workspaceId
+                ? await transaction.get(workspacesCollection.doc(pending.workspaceId))
+                : null;
+            let workspace: Workspace | null = null;
+            if (workspaceDoc) {
+                if (!workspaceDoc.exists) {
+                    throw new Error('Workspace not found');
+                }
+                workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+                getMemberRole(workspace, userId);
+                assertWorkspaceWritable(workspace);
+            }
+
+            // Occurrences are changed through their series, which is read once
+            const refs = new Map<string, FirebaseFirestore.DocumentReference>();
+            pending.targets.forEach(target => refs.set(target.eventId, eventsCollection.doc(target.eventId)));
+            const docs = new Map<string, FirebaseFirestore.DocumentSnapshot>();
+            for (const [eventId, ref] of refs) {
+                docs.set(eventId, await transaction.get(ref));
+            }
+
+            for (const target of pending.targets) {
+                const event = docs.get(target.eventId)?.data();
+
+                if (!event) {
+                    throw new Error(`Event "${target.title}" not found`);
+                }
+                if (!canChangeEvent(userId, event as any, workspace)) {
+                    throw new Error(`Access denied to event "${target.title}"`);
+                }
+                if (!target.seriesId && (event.isRecurring || !isSameTime(event.startDate, target.startDate))) {
+                    throw new Error(`Event "${target.title}" has changed since the command was previewed`);
+                }
+            }
+
+            const now = new Date().toISOString();
+            const excluded = new Map<string, string[]>();
+
+            for (const target of pending.targets) {
+                const ref = refs.get(target.eventId)!;
+
+                if (target.seriesId && target.occurrenceStart) {
+                    excluded.set(target.eventId, [...(excluded.get(target.eventId) || []), target.occurrenceStart]);
+
+                    if (pending.action === 'update') {
+                        const occurrenceStart = new Date(target.occurrenceStart);
+                        const override = buildOccurrenceOverride(
+                            target.eventId,
+                            docs.get(target.eventId)!.data(),
+                            occurrenceStart,
+                            getEventUpdates(pending.changes, target.occurrenceStart)
+                        );
+                        transaction.set(eventsCollection.doc(), override);
+                    }
+                } else if (pending.action === 'cancel') {
+                    transaction.delete(ref);
+                } else {
+                    transaction.update(ref, { ...getEventUpdates(pending.changes, target.startDate), updatedAt: now });
+                }
+            }
+
+            for (const [seriesId, occurrenceStarts] of excluded) {
+                transaction.update(refs.get(seriesId)!, {
+                    exdates: FieldValue.arrayUnion(...occurrenceStarts),
+                    updatedAt: now
+                });
+            }
+
+            transaction.update(commandRef, { status: 'applied', appliedAt: now });
+
+            return { ...pending, status: 'applied' as const, appliedAt: now };
+        });
+
+        await updateReminders(command);
+
+        logger.success('AI command applied', {
+            commandId,
+            action: command.action,
+            targets: command.targets.length
+        });
+
+        return command;
+    } catch (error) {
+        logger.error('Error applying AI command', error);
+        throw error;
+    }
+};
+
+/**
+ * Event fields changed by an update command
+ * A new duration keeps the start time and moves the end
+ */
+const getEventUpdates = (changes: ParsedIntent['changes'], startDate: string): Record<string, any> => {
+    const { duration, ...fields } = changes || {};
+    const updates: Record<string, any> = { ...fields };
+
+    if (duration) {
+        updates.endDate = new Date(new Date(startDate).getTime() + duration * 60000).toISOString();
+    }
+
+    return updates;
+};
+
+/**
+ * Bring reminders in line with the applied command
+ */
+const updateReminders = async (command: AICommand): Promise<void> => {
+    for (const target of command.targets) {
+        try {
+            if (target.seriesId && target.occurrenceStart) {
+                // The occurrence left the series; its override has no reminder of its own yet
+                const occurrenceStart = new Date(target.occurrenceStart);
+                await reminderService.cancelRemindersByEvent(target.eventId, 'this', occurrenceStart);
+            } else if (command.action === 'cancel') {
+                await reminderService.cancelRemindersByEvent(target.eventId);
+            } else if (command.changes?.title) {
+                await reminderService.updateRemindersForEvent(
+                    target.eventId,
+                    new Date(target.startDate),
+                    command.changes.title
+                );
+            }
+        } catch (error) {
+            // The command is applied either way; a stale reminder is not worth failing it
+            logger.error('Error updating reminders for AI command', error);
+        }
+    }
+};
+
+/**
+ * Compare two ISO timestamps by instant rather than by string
+ */
+const isSameTime = (a: string, b: string): boolean => {
+    return new Date(a).getTime() === new Date(b).getTime();
+};
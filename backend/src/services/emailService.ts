@@ -126,7 +126,8 @@ export class EmailService {
         to: string,
         eventTitle: string,
         eventStartTime: Date,
-        minutesBefore: number
+        minutesBefore: number,
+        timeZone?: string
     ): Promise<boolean> {
         try {
             const template = this.loadTemplate('eventReminder');
@@ -134,16 +135,19 @@ export class EmailService {
                 return false;
             }
 
+            // Shown in the recipient's zone rather than the server's
             const formattedDate = eventStartTime.toLocaleDateString('en-US', {
                 weekday: 'long',
                 year: 'numeric',
                 month: 'long',
                 day: 'numeric',
+                timeZone,
             });
 
             const formattedTime = eventStartTime.toLocaleTimeString('en-US', {
                 hour: '2-digit',
                 minute: '2-digit',
+                timeZone,
             });
 
             const timeUntil = this.formatTimeUntil(eventStartTime, minutesBefore);
@@ -208,6 +212,78 @@ export class EmailService {
         }
     }
 
+    /**
+     * Send event invitation email
+     */
+    async sendEventInvitation(
+        to: string,
+        eventTitle: string,
+        eventStartTime: Date,
+        invitedBy: string,
+        timeZone?: string
+    ): Promise<boolean> {
+        try {
+            const formattedDate = eventStartTime.toLocaleDateString('en-US', {
+                weekday: 'long',
+                year: 'numeric',
+                month: 'long',
+                day: 'numeric',
+                timeZone,
+            });
+
+            const formattedTime = eventStartTime.toLocaleTimeString('en-US', {
+                hour: '2-digit',
+                minute: '2-digit',
+                timeZone,
+            }) + (timeZone ? ` (${timeZone})` : '');
+
+            const html = `
+                <h2>You're Invited</h2>
+                <p><strong>${invitedBy}</strong> invited you to an event:</p>
+                <p><strong>${eventTitle}</strong></p>
+                <p>Date: ${formattedDate}</p>
+                <p>Time: ${formattedTime}</p>
+                <p><a href="${process.env.FRONTEND_URL || 'http://localhost:4321'}">Open Calendar AI to respond</a></p>
+            `;
+
+            return await this.sendEmail(
+                to,
+                `Invitation: ${eventTitle}`,
+                html
+            );
+        } catch (error) {
+            logger.error('Error sending event invitation email', error);
+            return false;
+        }
+    }
+
+    /**
+     * Send attendee response email to the organizer
+     */
+    async sendAttendeeResponse(
+        to: string,
+        eventTitle: string,
+        attendee: string,
+        responseStatus: string
+    ): Promise<boolean> {
+        try {
+            const html = `
+                <h2>Invitation Response</h2>
+                <p><strong>${attendee}</strong> responded to <strong>${eventTitle}</strong>:</p>
+                <p>${responseStatus === 'needs-action' ? 'No response' : responseStatus.charAt(0).toUpperCase() + responseStatus.slice(1)}</p>
+            `;
+
+            return await this.sendEmail(
+                to,
+                `${attendee} responded: ${eventTitle}`,
+                html
+            );
+        } catch (error) {
+            logger.error('Error sending attendee response email', error);
+            return false;
+        }
+    }
+
     /**
      * Send workspace invite email
      */
@@ -0,0 +1,103 @@
+/**
+ * Event Match Service
+ * Finds the existing events a natural-language command refers to
+ */
+
+import { logger } from '../utils/logger';
+import { getEventsInRange } from './eventService';
+import { canChangeEvent, getMemberWorkspace } from './roleService';
+import { CommandTarget, EventTarget } from '../types/ai';
+
+// Without a date in the command, only upcoming events are considered
+const DEFAULT_SEARCH_DAYS = 30;
+
+// Share of the query words an event title has to contain
+const MIN_MATCH_SCORE = 0.5;
+
+/**
+ * Lowercase words of a text, with simple plurals reduced ("standups" matches "Standup")
+ */
+const tokenize = (text: string): string[] => {
+    return text
+        .toLowerCase()
+        .split(/[^a-z0-9:]+/)
+        .filter(Boolean)
+        .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+};
+
+/**
+ * Check whether an attendee named in a command is on the event
+ * Names are matched against the title too, since 1:1s often only name the other person there
+ */
+const hasAttendee = (event: any, attendee: string): boolean => {
+    const name = attendee.toLowerCase();
+
+    return (event.title || '').toLowerCase().includes(name) ||
+        (event.attendees || []).some((entry: any) =>
+            entry.email?.toLowerCase().includes(name) || entry.displayName?.toLowerCase().includes(name));
+};
+
+/**
+ * Find the events matching a command target
+ * Returns every best match when the target asks for all, otherwise the next upcoming one
+ */
+export const findTargetEvents = async (
+    userId: string,
+    target: EventTarget,
+    workspaceId?: string
+): Promise<CommandTarget[]> => {
+    try {
+        const queryTokens = tokenize(target.query || '');
+        const attendees = target.attendees || [];
+
+        // A command has to name something, or it would match the whole calendar
+        if (queryTokens.length === 0 && attendees.length === 0 && !target.rangeStart) {
+            return [];
+        }
+
+        const now = new Date();
+        const rangeStart = target.rangeStart || now.toISOString();
+        const rangeEnd = target.rangeEnd ||
+            new Date(now.getTime() + DEFAULT_SEARCH_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+        // Only events the user may change are candidates, so a command never names one it
+        // cannot apply to; throws unless the user is a member of the workspace
+        const workspace = workspaceId ? await getMemberWorkspace(workspaceId, userId) : null;
+        const events = (await getEventsInRange(userId, rangeStart, rangeEnd, workspaceId))
+            .filter(event => event.startDate >= rangeStart && event.startDate < rangeEnd)
+            .filter(event => canChangeEvent(userId, event, workspace));
+
+        const scored = events
+            .filter(event => attendees.every(attendee => hasAttendee(event, attendee)))
+            .map(event => {
+                const titleTokens = new Set(tokenize(event.title || ''));
+                const matched = queryTokens.filter(token => titleTokens.has(token)).length;
+                return { event, score: queryTokens.length > 0 ? matched / queryTokens.length : 1 };
+            })
+            .filter(match => match.score >= MIN_MATCH_SCORE);
+
+        const bestScore = Math.max(0, ...scored.map(match => match.score));
+        const matches = scored
+            .filter(match => match.score === bestScore)
+            .sort((a, b) => new Date(a.event.startDate).getTime() - new Date(b.event.startDate).getTime())
+            .map(({ event }): CommandTarget => ({
+                eventId: event.id,
+                title: event.title || 'Untitled Event',
+                startDate: event.startDate,
+                endDate: event.endDate,
+                seriesId: event.isOccurrence ? event.seriesId : undefined,
+                occurrenceStart: event.isOccurrence ? event.occurrenceStart : undefined
+            }));
+
+        logger.debug('Matched command targets', {
+            candidates: events.length,
+            matches: matches.length,
+            all: !!target.all
+        });
+
+        return target.all ? matches : matches.slice(0, 1);
+    } catch (error) {
+        logger.error('Error finding target events', error);
+        throw error;
+    }
+};
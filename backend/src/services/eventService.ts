@@ -0,0 +1,279 @@
+/**
+ * Event Service
+ * Windowed event queries with recurring series expanded into occurrences,
+ * and per-occurrence exceptions (EXDATE and override records)
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import {
+    expandEvents,
+    truncateRRule,
+    continueRRule,
+    normalizeRecurrence,
+    LEGACY_RECURRENCE_VALUES
+} from '../utils/recurrence';
+import { getWorkspaceStatuses } from './roleService';
+
+const eventsCollection = db.collection('events');
+
+/**
+ * Drop events of deleted workspaces from a user's own calendar
+ * Personal listings query by user, which would still find the events they created there
+ */
+export async function excludeDeletedWorkspaceEvents<T extends { workspaceId?: string | null }>(events: T[]): Promise<T[]> {
+    const statuses = await getWorkspaceStatuses(events.map(event => event.workspaceId));
+    return events.filter(event => !event.workspaceId || statuses.get(event.workspaceId) !== 'deleted');
+}
+
+/**
+ * Get all events and recurring occurrences overlapping a time window
+ * One-off events are fetched by end date and filtered by start date, so events that began
+ * before the window and run into it are found; series masters are fetched
+ * separately (they may start long before the window) and expanded.
+ * In a workspace every member's events are returned, otherwise the user's own
+ * outside deleted workspaces.
+ */
+export async function getEventsInRange(
+    userId: string,
+    windowStart: string,
+    windowEnd: string,
+    workspaceId?: string
+): Promise<any[]> {
+    try {
+        const scopeQuery = workspaceId
+            ? eventsCollection.where('workspaceId', '==', workspaceId)
+            : eventsCollection.where('userId', '==', userId);
+
+        const singleQuery = scopeQuery.where('endDate', '>=', windowStart);
+
+        const seriesQuery = scopeQuery.where('isRecurring', '==', true);
+
+        // Events saved before isRecurring existed only have the legacy recurrence field
+        const legacySeriesQuery = scopeQuery.where('recurrence', 'in', LEGACY_RECURRENCE_VALUES);
+
+        const [singleSnapshot, seriesSnapshot, legacySeriesSnapshot] = await Promise.all([
+            singleQuery.get(),
+            seriesQuery.get(),
+            legacySeriesQuery.get()
+        ]);
+
+        const seriesMasters = [
+            ...seriesSnapshot.docs,
+            ...legacySeriesSnapshot.docs.filter(doc => doc.data().isRecurring === undefined)
+        ].map(doc => ({ id: doc.id, _id: doc.id, ...doc.data() } as any));
+        const seriesIds = new Set(seriesMasters.map(event => event.id));
+
+        const singleEvents = singleSnapshot.docs
+            .filter(doc => doc.data().startDate <= windowEnd)
+            .filter(doc => !doc.data().isRecurring && !seriesIds.has(doc.id))
+            .map(doc => ({ id: doc.id, _id: doc.id, ...doc.data() } as any));
+
+        const scopedEvents = workspaceId
+            ? [...singleEvents, ...seriesMasters]
+            : await excludeDeletedWorkspaceEvents([...singleEvents, ...seriesMasters]);
+
+        const events = expandEvents(
+            scopedEvents,
+            new Date(windowStart),
+            new Date(windowEnd)
+        );
+
+        logger.debug('Retrieved events in range', {
+            single: singleEvents.length,
+            series: seriesMasters.length,
+            total: events.length
+        });
+
+        return events;
+    } catch (error) {
+        logger.error('Error getting events in range', error);
+        throw error;
+    }
+}
+
+/**
+ * Build the override record for one occurrence of a series, with updates applied
+ */
+export function buildOccurrenceOverride(
+    seriesId: string,
+    series: any,
+    occurrenceStart: Date,
+    updates: any
+): any {
+    const duration = new Date(series.endDate).getTime() - new Date(series.startDate).getTime();
+    const { exdates, id, _id, ...seriesFields } = series;
+
+    return {
+        ...seriesFields,
+        startDate: occurrenceStart.toISOString(),
+        endDate: new Date(occurrenceStart.getTime() + duration).toISOString(),
+        ...updates,
+        recurrence: 'none',
+        rrule: null,
+        isRecurring: false,
+        seriesId,
+        recurrenceId: occurrenceStart.toISOString(),
+        updatedAt: new Date().toISOString()
+    };
+}
+
+/**
+ * Detach one occurrence from a series into its own override record
+ * The occurrence is added to the series' EXDATEs so it is not generated twice
+ */
+export async function createOccurrenceOverride(
+    seriesId: string,
+    series: any,
+    occurrenceStart: Date,
+    updates: any
+): Promise<string> {
+    try {
+        const override = buildOccurrenceOverride(seriesId, series, occurrenceStart, updates);
+
+        const overrideRef = eventsCollection.doc();
+        const batch = db.batch();
+        batch.set(overrideRef, override);
+        batch.update(eventsCollection.doc(seriesId), {
+            exdates: FieldValue.arrayUnion(occurrenceStart.toISOString()),
+            updatedAt: new Date().toISOString()
+        });
+        await batch.commit();
+
+        logger.success('Occurrence override created', { seriesId, overrideId: overrideRef.id });
+        return overrideRef.id;
+    } catch (error) {
+        logger.error('Error creating occurrence override', error);
+        throw error;
+    }
+}
+
+/**
+ * Remove a single occurrence from a series (EXDATE)
+ */
+export async function excludeOccurrence(seriesId: string, occurrenceStart: Date): Promise<void> {
+    try {
+        await eventsCollection.doc(seriesId).update({
+            exdates: FieldValue.arrayUnion(occurrenceStart.toISOString()),
+            updatedAt: new Date().toISOString()
+        });
+
+        logger.success('Occurrence excluded from series', { seriesId, occurrenceStart });
+    } catch (error) {
+        logger.error('Error excluding occurrence', error);
+        throw error;
+    }
+}
+
+/**
+ * End a series before an occurrence and remove overrides from that point on
+ * Deletes the series outright when no earlier occurrence remains.
+ * Returns the truncated RRULE, or null if the series was deleted.
+ */
+export async function truncateSeries(
+    seriesId: string,
+    series: any,
+    occurrenceStart: Date
+): Promise<string | null> {
+    try {
+        const rrule = truncateRRule(series.rrule, new Date(series.startDate), occurrenceStart, series.timeZone);
+        const overridesSnapshot = await eventsCollection.where('seriesId', '==', seriesId).get();
+
+        const batch = db.batch();
+        overridesSnapshot.docs
+            .filter(doc => new Date(doc.data().recurrenceId).getTime() >= occurrenceStart.getTime())
+            .forEach(doc => batch.delete(doc.ref));
+
+        if (rrule) {
+            batch.update(eventsCollection.doc(seriesId), {
+                rrule,
+                exdates: (series.exdates || []).filter(
+                    (date: string) => new Date(date).getTime() < occurrenceStart.getTime()
+                ),
+                updatedAt: new Date().toISOString()
+            });
+        } else {
+            batch.delete(eventsCollection.doc(seriesId));
+        }
+
+        await batch.commit();
+
+        logger.success('Series truncated', { seriesId, occurrenceStart, deleted: !rrule });
+        return rrule;
+    } catch (error) {
+        logger.error('Error truncating series', error);
+        throw error;
+    }
+}
+
+/**
+ * Split a series at an occurrence: the original ends before it and a new
+ * series with the updates applied continues from it
+ * Returns the new series ID, or null if nothing remains to continue
+ */
+export async function splitSeries(
+    seriesId: string,
+    series: any,
+    occurrenceStart: Date,
+    updates: any
+): Promise<string | null> {
+    try {
+        const duration = new Date(series.endDate).getTime() - new Date(series.startDate).getTime();
+        const requestedRRule = updates.rrule !== undefined || updates.recurrence !== undefined
+            ? normalizeRecurrence(updates.rrule || updates.recurrence)
+            : continueRRule(series.rrule, new Date(series.startDate), occurrenceStart, series.timeZone);
+
+        if (!requestedRRule) {
+            await truncateSeries(seriesId, series, occurrenceStart);
+            return null;
+        }
+
+        const { exdates, id, _id, ...seriesFields } = series;
+        const newSeries = {
+            ...seriesFields,
+            startDate: occurrenceStart.toISOString(),
+            endDate: new Date(occurrenceStart.getTime() + duration).toISOString(),
+            ...updates,
+            rrule: requestedRRule,
+            isRecurring: true,
+            exdates: (exdates || []).filter(
+                (date: string) => new Date(date).getTime() > occurrenceStart.getTime()
+            ),
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString()
+        };
+
+        // Truncate first so the old series never overlaps the new one
+        await truncateSeries(seriesId, series, occurrenceStart);
+        const docRef = await eventsCollection.add(newSeries);
+
+        logger.success('Series split', { seriesId, newSeriesId: docRef.id });
+        return docRef.id;
+    } catch (error) {
+        logger.error('Error splitting series', error);
+        throw error;
+    }
+}
+
+/**
+ * Delete all override records belonging to a series
+ */
+export async function deleteSeriesOverrides(seriesId: string): Promise<number> {
+    try {
+        const snapshot = await eventsCollection.where('seriesId', '==', seriesId).get();
+        if (snapshot.empty) {
+            return 0;
+        }
+
+        const batch = db.batch();
+        snapshot.docs.forEach(doc => batch.delete(doc.ref));
+        await batch.commit();
+
+        logger.success('Series overrides deleted', { seriesId, count: snapshot.size });
+        return snapshot.size;
+    } catch (error) {
+        logger.error('Error deleting series overrides', error);
+        throw error;
+    }
+}
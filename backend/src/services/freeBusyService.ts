@@ -0,0 +1,109 @@
+/**
+ * Free/Busy Service
+ * Merged busy intervals for workspace members, without any event details
+ */
+
+import { logger } from '../utils/logger';
+import { getEventsInRange } from './eventService';
+import { getInvitedEvents } from './attendeeService';
+import { canViewFreeBusy } from './roleService';
+import { BusyInterval, MemberFreeBusy, Workspace } from '../types/workspace';
+
+/**
+ * Clip intervals to a window and merge overlapping or touching ones
+ */
+export const mergeBusyIntervals = (
+    intervals: Array<{ startDate: string; endDate: string }>,
+    windowStart: Date,
+    windowEnd: Date
+): BusyInterval[] => {
+    const clipped = intervals
+        .map(interval => ({
+            start: Math.max(new Date(interval.startDate).getTime(), windowStart.getTime()),
+            end: Math.min(new Date(interval.endDate).getTime(), windowEnd.getTime())
+        }))
+        .filter(interval => interval.end > interval.start)
+        .sort((a, b) => a.start - b.start);
+
+    const merged: Array<{ start: number; end: number }> = [];
+    for (const interval of clipped) {
+        const last = merged[merged.length - 1];
+        if (last && interval.start <= last.end) {
+            last.end = Math.max(last.end, interval.end);
+        } else {
+            merged.push({ ...interval });
+        }
+    }
+
+    return merged.map(interval => ({
+        start: new Date(interval.start).toISOString(),
+        end: new Date(interval.end).toISOString()
+    }));
+};
+
+/**
+ * Get a user's busy time in a window: their own events (in any workspace)
+ * and invitations they have not declined
+ */
+export const getBusyIntervals = async (
+    userId: string,
+    windowStart: string,
+    windowEnd: string
+): Promise<BusyInterval[]> => {
+    const [ownEvents, invitedEvents] = await Promise.all([
+        getEventsInRange(userId, windowStart, windowEnd),
+        getInvitedEvents(userId, windowStart, windowEnd)
+    ]);
+
+    const attending = invitedEvents.filter(event => {
+        const attendee = (event.attendees || []).find((a: any) => a.uid === userId);
+        return attendee?.responseStatus !== 'declined';
+    });
+
+    return mergeBusyIntervals([...ownEvents, ...attending], new Date(windowStart), new Date(windowEnd));
+};
+
+/**
+ * Get free/busy time of workspace members for a requester in the same workspace
+ */
+export const getWorkspaceFreeBusy = async (
+    workspace: Workspace,
+    requesterId: string,
+    uids: string[],
+    windowStart: string,
+    windowEnd: string
+): Promise<MemberFreeBusy[]> => {
+    try {
+        logger.debug(`User ${requesterId} querying free/busy in workspace ${workspace.id}`, {
+            members: uids.length,
+            windowStart,
+            windowEnd
+        });
+
+        const requester = workspace.members.find(m => m.uid === requesterId);
+        if (!requester || !canViewFreeBusy(requester.role, workspace.customRoles)) {
+            throw new Error('Access denied: You do not have permission to view free/busy time in this workspace');
+        }
+
+        const freeBusy: MemberFreeBusy[] = [];
+
+        for (const uid of Array.from(new Set(uids))) {
+            const member = workspace.members.find(m => m.uid === uid);
+            if (!member) {
+                throw new Error(`Access denied: User ${uid} is not a member of this workspace`);
+            }
+
+            freeBusy.push({
+                uid,
+                displayName: member.displayName,
+                busy: await getBusyIntervals(uid, windowStart, windowEnd)
+            });
+        }
+
+        logger.success(`Free/busy retrieved for workspace ${workspace.id}`, { members: freeBusy.length });
+        return freeBusy;
+    } catch (error) {
+        logger.error('Error getting workspace free/busy', error);
+        throw error;
+    }
+};
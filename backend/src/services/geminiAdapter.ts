@@ -4,9 +4,8 @@
  */
 
 import { GoogleGenerativeAI } from '@google/generative-ai';
-import { AIProvider, ParsedIntent, SchedulingContext, SuggestedSlot } from '../types/ai';
+import { AIProvider, ParsedIntent, SchedulingContext, SlotFinder, SuggestedSlot } from '../types/ai';
 import { logger } from '../utils/logger';
-import { findAvailableSlots } from './schedulerService';
 
 export class GeminiAdapter implements AIProvider {
     private genAI: GoogleGenerativeAI;
@@ -14,7 +13,10 @@ export class GeminiAdapter implements AIProvider {
     private readonly MAX_RETRIES = 3;
     private readonly INITIAL_DELAY = 1000; // 1 second
 
-    constructor() {
+    /**
+     * @param findSlots - slot search for suggestions, usually the scheduler's findAvailableSlots
+     */
+    constructor(private readonly findSlots: SlotFinder) {
         const apiKey = process.env.GEMINI_API_KEY;
 
         if (!apiKey || apiKey === 'your-gemini-key-here') {
@@ -83,9 +85,13 @@ Extract:
 - location: Location if mentioned
 - priority: 'low', 'medium', or 'high'
 - isFlexible: Boolean (can event be moved?)
+- action: 'create' for a new event, or 'move', 'cancel' or 'update' for existing events
+- target: For move/cancel/update, the events meant: { query: words from their title, attendees, rangeStart and rangeEnd (ISO, when days are named), all: true for every matching event }
+- changes: For update, the fields to change: { title, description, location, priority, duration }
+For a move, startDate is the earliest new time to consider.
 
 Context:
-- Current time: ${new Date().toISOString()}
+- Current time: ${(context?.referenceDate || new Date()).toISOString()}
 - Timezone: ${context?.timezone || 'UTC'}
 
 Respond with ONLY valid JSON, no markdown formatting.
@@ -108,6 +114,10 @@ Example output:
             });
 
             const response = await result.response;
+            context?.onUsage?.({
+                inputTokens: response.usageMetadata?.promptTokenCount || 0,
+                outputTokens: response.usageMetadata?.candidatesTokenCount || 0
+            });
             let text = response.text();
 
             // Remove markdown code blocks if present
@@ -116,11 +126,15 @@ Example output:
             const parsed = JSON.parse(text);
 
             // Build ParsedIntent
+            const action = ['move', 'cancel', 'update'].includes(parsed.action) ? parsed.action : 'create';
             const intent: ParsedIntent = {
+                action,
+                target: action !== 'create' ? parsed.target || {} : undefined,
+                changes: action === 'update' ? parsed.changes || {} : undefined,
                 title: parsed.title,
                 description: parsed.description,
                 startDate: parsed.startDate,
-                duration: parsed.duration || 60,
+                duration: parsed.duration || (action === 'create' ? 60 : undefined),
                 attendees: parsed.attendees || [],
                 location: parsed.location,
                 priority: parsed.priority || 'medium',
@@ -129,11 +143,13 @@ Example output:
                 ambiguities: []
             };
 
-            // Check for ambiguities
-            if (!intent.startDate) {
+            // Check for ambiguities (cancel and update need no time, commands no title)
+            if (!intent.startDate && action === 'move') {
+                intent.ambiguities?.push('move_time');
+            } else if (!intent.startDate && action === 'create') {
                 intent.ambiguities?.push('start_time');
             }
-            if (!intent.title) {
+            if (!intent.title && action === 'create') {
                 intent.ambiguities?.push('title');
             }
 
@@ -166,7 +182,7 @@ Example output:
             logger.debug('Gemini: Generating slot suggestions');
 
             // Use our core scheduler
-            const slots = await findAvailableSlots(context);
+            const slots = await this.findSlots(context);
 
             logger.success('Gemini: Suggestions generated', { count: slots.length });
             return slots;
@@ -179,7 +195,7 @@ Example output:
     /**
      * Generate clarifying question using Gemini
      */
-    async generateClarification(prompt: string, ambiguities: string[]): Promise<string> {
+    async generateClarification(prompt: string, ambiguities: string[], context?: any): Promise<string> {
         try {
             logger.debug('Gemini: Generating clarification', { ambiguities });
 
@@ -195,6 +211,10 @@ Ask a friendly, conversational question to get the missing details. Be brief and
             });
 
             const response = await result.response;
+            context?.onUsage?.({
+                inputTokens: response.usageMetadata?.promptTokenCount || 0,
+                outputTokens: response.usageMetadata?.candidatesTokenCount || 0
+            });
             const question = response.text() ||
                 'Could you provide more details about when you want to schedule this event?';
 
@@ -0,0 +1,236 @@
+/**
+ * ICS Import Service
+ * Imports VEVENTs from .ics files into the events collection, deduplicated by UID
+ */
+
+import { FieldValue } from 'firebase-admin/firestore';
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import { parseVCalendar } from '../utils/ical';
+import { getNextOccurrence } from '../utils/recurrence';
+import { assertWorkspaceWritable } from '../utils/workspaceUtils';
+import { canCreateEvent } from './roleService';
+import { reminderService } from './reminderService';
+import { IcsImportReport, ParsedVEvent } from '../types/event';
+import { Workspace } from '../types/workspace';
+
+const eventsCollection = db.collection('events');
+const workspacesCollection = db.collection('workspaces');
+
+const UID_QUERY_CHUNK = 30; // Firestore 'in' filter limit
+const BATCH_LIMIT = 450; // Stay under Firestore's 500 writes per batch
+
+/**
+ * Key identifying an imported event: its UID, plus RECURRENCE-ID for overrides
+ */
+const importKey = (uid: string, recurrenceId?: string): string => `${uid}|${recurrenceId || ''}`;
+
+/**
+ * Check whether an incoming VEVENT is newer than the stored copy
+ */
+const isNewer = (incoming: ParsedVEvent, existing: any): boolean => {
+    const storedSequence = existing.icalSequence || 0;
+    if (incoming.sequence !== storedSequence) {
+        return incoming.sequence > storedSequence;
+    }
+
+    if (!incoming.lastModified || !existing.icalLastModified) {
+        return false;
+    }
+    return new Date(incoming.lastModified) > new Date(existing.icalLastModified);
+};
+
+/**
+ * Map a parsed VEVENT onto the stored event shape used by createEvent
+ */
+const toEventFields = (event: ParsedVEvent) => ({
+    title: event.title,
+    description: event.description || '',
+    location: event.location,
+    startDate: event.startDate,
+    endDate: event.endDate,
+    timeZone: event.timeZone,
+    isAllDay: event.isAllDay,
+    recurrence: event.rrule ? undefined : 'none', // the form derives the series value from the RRULE
+    rrule: event.rrule,
+    isRecurring: event.rrule !== null,
+    exdates: event.rrule ? event.exdates : [],
+    priority: event.priority,
+    icalUid: event.uid,
+    icalSequence: event.sequence,
+    icalLastModified: event.lastModified,
+});
+
+/**
+ * Load previously imported events of a user, keyed by UID and RECURRENCE-ID
+ */
+const getExistingImports = async (userId: string, uids: string[]): Promise<Map<string, any>> => {
+    const existing = new Map<string, any>();
+
+    for (let i = 0; i < uids.length; i += UID_QUERY_CHUNK) {
+        const snapshot = await eventsCollection
+            .where('userId', '==', userId)
+            .where('icalUid', 'in', uids.slice(i, i + UID_QUERY_CHUNK))
+            .get();
+
+        snapshot.docs.forEach(doc => {
+            const data = doc.data();
+            existing.set(importKey(data.icalUid, data.recurrenceId), { id: doc.id, ...data });
+        });
+    }
+
+    return existing;
+};
+
+/**
+ * Import the events of an .ics document for a user (optionally into a workspace)
+ */
+export const importCalendar = async (
+    userId: string,
+    content: string,
+    workspaceId?: string
+): Promise<IcsImportReport> => {
+    try {
+        logger.debug('Importing calendar', { userId, workspaceId, size: content.length });
+
+        if (workspaceId) {
+            const workspaceDoc = await workspacesCollection.doc(workspaceId).get();
+            if (!workspaceDoc.exists) {
+                throw new Error('Workspace not found');
+            }
+
+            const workspace = workspaceDoc.data() as Workspace;
+            assertWorkspaceWritable(workspace);
+
+            const member = workspace.members.find(m => m.uid === userId);
+            if (!member || !canCreateEvent(member.role, workspace.customRoles)) {
+                throw new Error('Access denied: You do not have permission to create events in this workspace');
+            }
+        }
+
+        const report: IcsImportReport = { created: 0, updated: 0, skipped: 0, errors: [] };
+        const parsed = parseVCalendar(content, (uid, reason) => report.errors.push({ uid, reason }));
+        if (parsed.length === 0 && report.errors.length === 0) {
+            throw new Error('No events found in file');
+        }
+
+        const existing = await getExistingImports(userId, Array.from(new Set(parsed.map(e => e.uid))));
+
+        // Series masters and one-off events first, so overrides can link to their series
+        const baseEvents = parsed.filter(e => !e.recurrenceId);
+        const overrides = parsed.filter(e => e.recurrenceId);
+        const seriesIds = new Map<string, string>();
+        const reminderQueue: Array<{ id: string; data: any }> = [];
+
+        let batch = db.batch();
+        let batchSize = 0;
+        const queueWrite = async (write: (b: FirebaseFirestore.WriteBatch) => void) => {
+            write(batch);
+            batchSize++;
+            if (batchSize >= BATCH_LIMIT) {
+                await batch.commit();
+                batch = db.batch();
+                batchSize = 0;
+            }
+        };
+
+        const now = new Date().toISOString();
+
+        for (const event of baseEvents) {
+            const stored = existing.get(importKey(event.uid));
+
+            if (event.isCancelled || (stored && !isNewer(event, stored))) {
+                if (stored) seriesIds.set(event.uid, stored.id);
+                report.skipped++;
+                continue;
+            }
+
+            if (stored) {
+                const fields = { ...toEventFields(event), updatedAt: now };
+                await queueWrite(b => b.update(eventsCollection.doc(stored.id), fields));
+                seriesIds.set(event.uid, stored.id);
+                reminderQueue.push({ id: stored.id, data: { ...stored, ...fields } });
+                report.updated++;
+            } else {
+                const docRef = eventsCollection.doc();
+                const fields = {
+                    userId,
+                    createdBy: userId,
+                    workspaceId: workspaceId || null,
+                    ...toEventFields(event),
+                    createdAt: now,
+                };
+                await queueWrite(b => b.set(docRef, fields));
+                seriesIds.set(event.uid, docRef.id);
+                reminderQueue.push({ id: docRef.id, data: fields });
+                report.created++;
+            }
+        }
+
+        for (const event of overrides) {
+            const recurrenceId = event.recurrenceId as string;
+            const seriesId = seriesIds.get(event.uid);
+            const stored = existing.get(importKey(event.uid, recurrenceId));
+
+            // The occurrence is replaced (or cancelled), so the series must not generate it
+            if (seriesId) {
+                await queueWrite(b => b.update(eventsCollection.doc(seriesId), {
+                    exdates: FieldValue.arrayUnion(recurrenceId),
+                }));
+            }
+
+            if (event.isCancelled) {
+                if (stored) {
+                    await queueWrite(b => b.delete(eventsCollection.doc(stored.id)));
+                }
+                seriesId ? report.updated++ : report.skipped++;
+                continue;
+            }
+
+            if (stored && !isNewer(event, stored)) {
+                report.skipped++;
+                continue;
+            }
+
+            const fields = {
+                ...toEventFields({ ...event, rrule: null }),
+                seriesId,
+                recurrenceId,
+            };
+
+            if (stored) {
+                await queueWrite(b => b.update(eventsCollection.doc(stored.id), { ...fields, updatedAt: now }));
+                report.updated++;
+            } else {
+                const docRef = eventsCollection.doc();
+                await queueWrite(b => b.set(docRef, {
+                    userId,
+                    createdBy: userId,
+                    workspaceId: workspaceId || null,
+                    ...fields,
+                    createdAt: now,
+                }));
+                reminderQueue.push({ id: docRef.id, data: fields });
+                report.created++;
+            }
+        }
+
+        if (batchSize > 0) {
+            await batch.commit();
+        }
+
+        // Reminders only for events that still have an upcoming occurrence
+        for (const { id, data } of reminderQueue) {
+            const nextStart = getNextOccurrence(data, new Date());
+            if (nextStart) {
+                await reminderService.scheduleReminder(id, userId, data.title, nextStart, undefined, workspaceId);
+            }
+        }
+
+        logger.success('Calendar imported', { userId, ...report, errors: report.errors.length });
+        return report;
+    } catch (error) {
+        logger.error('Error importing calendar', error);
+        throw error;
+    }
+};
@@ -7,6 +7,9 @@ import { db } from '../config/firebase';
 import { logger } from '../utils/logger';
 import { InviteCode } from '../types/invite';
 import { Workspace, WorkspaceMember } from '../types/workspace';
+import { assertWorkspaceWritable } from '../utils/workspaceUtils';
+import { getRolePermissions } from '../types/roles';
+import { recordAudit } from './auditService';
 import crypto from 'crypto';
 
 const workspacesCollection = db.collection('workspaces');
@@ -38,11 +41,12 @@ export const generateInviteCode = async (
         }
 
         const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+        assertWorkspaceWritable(workspace);
 
         // Verify creator has permission
         const creatorMember = workspace.members.find(m => m.uid === creatorId);
-        if (!creatorMember || (creatorMember.role !== 'owner' && creatorMember.role !== 'admin')) {
-            throw new Error('Access denied: Only owners and admins can generate invite codes');
+        if (!creatorMember || !getRolePermissions(creatorMember.role, workspace.customRoles).canManageMembers) {
+            throw new Error('Access denied: You do not have permission to generate invite codes');
         }
 
         // Deactivate existing active codes for this workspace
@@ -104,6 +108,21 @@ export const generateInviteCode = async (
             ...inviteCode
         };
 
+        // Generating a code replaces the active ones
+        await recordAudit({
+            workspaceId,
+            actor: { uid: creatorId, name: creatorMember.displayName },
+            action: 'inviteCode.generate',
+            target: { type: 'inviteCode', id: docRef.id, name: code },
+            changes: {
+                activeCodes: {
+                    before: existingCodes.docs.map(doc => doc.data().code),
+                    after: [code]
+                }
+            },
+            metadata: { validUntil: inviteCode.validUntil, maxUses }
+        });
+
         logger.success(`Invite code ${code} generated for workspace ${workspaceId}`);
         return createdCode;
     } catch (error) {
@@ -159,6 +178,7 @@ export const acceptInviteCode = async (
             }
 
             const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+            assertWorkspaceWritable(workspace);
 
             // Check if already a member
             const isAlreadyMember = workspace.members.some(m => m.uid === userId);
@@ -187,6 +207,14 @@ export const acceptInviteCode = async (
                 usedCount: inviteCode.usedCount + 1
             });
 
+            await recordAudit({
+                workspaceId: inviteCode.workspaceId,
+                actor: { uid: userId, name: userName },
+                action: 'inviteCode.accept',
+                target: { type: 'inviteCode', id: codeDoc.id, name: inviteCode.code },
+                metadata: { role: newMember.role, usedCount: inviteCode.usedCount + 1 }
+            }, transaction);
+
             logger.success(`User ${userId} joined workspace ${inviteCode.workspaceId} via invite code`);
 
             return {
@@ -280,13 +308,21 @@ export const deactivateInviteCode = async (
         const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
         const requesterMember = workspace.members.find(m => m.uid === requesterId);
 
-        if (!requesterMember || (requesterMember.role !== 'owner' && requesterMember.role !== 'admin')) {
-            throw new Error('Access denied: Only owners and admins can deactivate invite codes');
+        if (!requesterMember || !getRolePermissions(requesterMember.role, workspace.customRoles).canManageMembers) {
+            throw new Error('Access denied: You do not have permission to deactivate invite codes');
         }
 
         // Deactivate the code
         await inviteCodesCollection.doc(codeId).update({ isActive: false });
 
+        await recordAudit({
+            workspaceId: inviteCode.workspaceId,
+            actor: { uid: requesterId, name: requesterMember.displayName },
+            action: 'inviteCode.deactivate',
+            target: { type: 'inviteCode', id: codeId, name: inviteCode.code },
+            changes: { isActive: { before: inviteCode.isActive, after: false } }
+        });
+
         logger.success(`Invite code ${codeId} deactivated successfully`);
     } catch (error) {
         logger.error('Error deactivating invite code', error);
@@ -7,7 +7,9 @@ import { db } from '../config/firebase';
 import { logger } from '../utils/logger';
 import { EmailInvite, SendEmailInviteRequest } from '../types/invite';
 import { Workspace, WorkspaceMember } from '../types/workspace';
-import { WorkspaceRole } from '../types/roles';
+import { WorkspaceRole, getRolePermissions } from '../types/roles';
+import { assertWorkspaceWritable } from '../utils/workspaceUtils';
+import { recordAudit } from './auditService';
 
 const workspacesCollection = db.collection('workspaces');
 const invitesCollection = db.collection('invites');
@@ -32,6 +34,7 @@ export const sendEmailInvite = async (
         }
 
         const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+        assertWorkspaceWritable(workspace);
 
         // Check if user is already a member
         const isAlreadyMember = workspace.members.some(m => m.email === email);
@@ -73,6 +76,14 @@ export const sendEmailInvite = async (
             ...invite
         };
 
+        await recordAudit({
+            workspaceId,
+            actor: { uid: inviterId, name: inviterName },
+            action: 'invite.send',
+            target: { type: 'invite', id: docRef.id, name: invite.email },
+            metadata: { role }
+        });
+
         logger.success(`Email invite sent to ${email} for workspace ${workspaceId}`);
 
         // TODO: Send actual email notification here
@@ -132,6 +143,7 @@ export const acceptEmailInvite = async (
             }
 
             const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+            assertWorkspaceWritable(workspace);
 
             // Check if already a member
             const isAlreadyMember = workspace.members.some(m => m.uid === userId);
@@ -161,6 +173,14 @@ export const acceptEmailInvite = async (
                 acceptedAt: new Date().toISOString()
             });
 
+            await recordAudit({
+                workspaceId: invite.workspaceId,
+                actor: { uid: userId, name: userName },
+                action: 'invite.accept',
+                target: { type: 'invite', id: inviteId, name: invite.email },
+                metadata: { role: invite.role, invitedBy: invite.invitedBy }
+            }, transaction);
+
             logger.success(`User ${userId} accepted invite and joined workspace ${invite.workspaceId}`);
 
             return {
@@ -198,9 +218,9 @@ export const getWorkspaceInvites = async (
             throw new Error('Access denied: Not a member of this workspace');
         }
 
-        // Only owner and admin can view invites
-        if (requesterMember.role !== 'owner' && requesterMember.role !== 'admin') {
-            throw new Error('Access denied: Only owners and admins can view invites');
+        // Only roles that manage members can view invites
+        if (!getRolePermissions(requesterMember.role, workspace.customRoles).canManageMembers) {
+            throw new Error('Access denied: You do not have permission to view invites');
         }
 
         // Get all invites for this workspace
@@ -272,13 +292,21 @@ export const cancelInvite = async (
         const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
         const requesterMember = workspace.members.find(m => m.uid === requesterId);
 
-        if (!requesterMember || (requesterMember.role !== 'owner' && requesterMember.role !== 'admin')) {
-            throw new Error('Access denied: Only owners and admins can cancel invites');
+        if (!requesterMember || !getRolePermissions(requesterMember.role, workspace.customRoles).canManageMembers) {
+            throw new Error('Access denied: You do not have permission to cancel invites');
         }
 
         // Delete the invite
         await invitesCollection.doc(inviteId).delete();
 
+        await recordAudit({
+            workspaceId: invite.workspaceId,
+            actor: { uid: requesterId, name: requesterMember.displayName },
+            action: 'invite.cancel',
+            target: { type: 'invite', id: inviteId, name: invite.email },
+            metadata: { role: invite.role, status: invite.status }
+        });
+
         logger.success(`Invite ${inviteId} canceled successfully`);
     } catch (error) {
         logger.error('Error canceling invite', error);
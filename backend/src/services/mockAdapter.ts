@@ -4,11 +4,12 @@
  * No external API calls, fast responses
  */
 
-import { AIProvider, ParsedIntent, SchedulingContext, SuggestedSlot } from '../types/ai';
+import { AIProvider, EventTarget, ParsedIntent, SchedulingContext, SuggestedSlot } from '../types/ai';
 import { logger } from '../utils/logger';
 import {
     parseDateFromText,
     parseTimeRange,
+    extractDateRange,
     extractDuration,
     extractRecurrence,
     extractTimeConstraints,
@@ -23,6 +24,19 @@ export class MockAIAdapter implements AIProvider {
     async parseIntent(prompt: string, context?: any): Promise<ParsedIntent> {
         logger.debug('MockAI: Parsing intent', { promptLength: prompt.length });
 
+        // Relative dates are read against the context's reference date (default now)
+        const referenceDate: Date | undefined = context?.referenceDate;
+
+        // Commands on existing events ("cancel all standups next week")
+        const command = this.parseCommand(prompt, referenceDate);
+        if (command) {
+            logger.success('MockAI: Command parsed', {
+                action: command.action,
+                hasStartDate: !!command.startDate
+            });
+            return command;
+        }
+
         const lowerPrompt = prompt.toLowerCase();
         const intent: ParsedIntent = {
             confidence: 0.8,
@@ -38,7 +52,7 @@ export class MockAIAdapter implements AIProvider {
         }
 
         // Parse time range
-        const timeRange = parseTimeRange(prompt);
+        const timeRange = parseTimeRange(prompt, referenceDate);
         if (timeRange) {
             intent.startDate = timeRange.start.toISOString();
             if (timeRange.end) {
@@ -139,7 +153,8 @@ export class MockAIAdapter implements AIProvider {
         }
 
         let slotCount = 0;
-        const maxSlots = 10;
+        const maxSlots = context.profile?.maxSuggestions ?? 10;
+        const minScore = context.profile?.minScore ?? 40;
 
         while (currentSlot < windowEnd && slotCount < maxSlots) {
             const slotEnd = new Date(currentSlot.getTime() + duration * 60000);
@@ -174,7 +189,7 @@ export class MockAIAdapter implements AIProvider {
             score = Math.max(0, Math.min(100, score));
 
             // Only add if score is reasonable
-            if (score >= 40) {
+            if (score >= minScore) {
                 slots.push({
                     id: uuidv4(),
                     startTime: currentSlot.toISOString(),
@@ -214,6 +229,14 @@ export class MockAIAdapter implements AIProvider {
             return 'When would you like to schedule this event? Please specify a date and time.';
         }
 
+        if (ambiguities.includes('start_time_conflict')) {
+            return 'I am not sure I understood the time correctly. Could you confirm the date and time?';
+        }
+
+        if (ambiguities.includes('duration_conflict')) {
+            return 'I am not sure how long this should be. Could you confirm the duration?';
+        }
+
         if (ambiguities.includes('duration')) {
             return 'How long should this event be?';
         }
@@ -222,9 +245,145 @@ export class MockAIAdapter implements AIProvider {
             return 'Who should attend this meeting?';
         }
 
+        if (ambiguities.includes('move_time')) {
+            return 'When would you like to move it to?';
+        }
+
         return 'Could you provide more details about when you want to schedule this event?';
     }
 
+    /**
+     * Parse a move, cancel or update command
+     * The command is the first line; in a session later lines answer "when to?" for a move
+     */
+    private parseCommand(prompt: string, referenceDate?: Date): ParsedIntent | null {
+        const [firstLine, ...answers] = prompt.split('\n');
+        const line = firstLine.trim().replace(/[.!?]+$/, '');
+
+        const moveMatch = line.match(/^(?:please\s+)?(?:move|reschedule|push|shift|postpone|bump)\s+(.+)$/i);
+        if (moveMatch) {
+            // The last "to" separates the event from its new time ("move my talk to the team to Friday")
+            const parts = moveMatch[1].match(/^(.+)\s+(?:to|until|till)\s+(.+)$/i);
+            const destination = [parts ? parts[2] : '', ...answers].join(' ').trim();
+            const target = this.parseTarget(parts ? parts[1] : moveMatch[1], referenceDate);
+            const intent: ParsedIntent = {
+                action: 'move',
+                target,
+                attendees: target.attendees,
+                confidence: 0.8,
+                ambiguities: []
+            };
+
+            const parsed = destination ? parseDateFromText(destination, referenceDate, true) : null;
+            if (parsed) {
+                // "to Thursday" searches the whole day, "to Thursday at 3pm" starts at 3pm
+                const start = new Date(parsed.date);
+                if (!parsed.hasTime) start.setHours(0, 0, 0, 0);
+                intent.startDate = start.toISOString();
+
+                const constraints = extractTimeConstraints(destination);
+                if (Object.keys(constraints).length > 0) {
+                    intent.constraints = constraints;
+                }
+            } else {
+                intent.ambiguities?.push('move_time');
+            }
+
+            return intent;
+        }
+
+        const cancelMatch = line.match(/^(?:please\s+)?(?:cancel|delete|remove|clear|drop|call off)\s+(.+)$/i);
+        if (cancelMatch) {
+            return {
+                action: 'cancel',
+                target: this.parseTarget(cancelMatch[1], referenceDate),
+                confidence: 0.8,
+                ambiguities: []
+            };
+        }
+
+        const renameMatch = line.match(/^(?:please\s+)?rename\s+(.+)\s+to\s+(.+)$/i);
+        if (renameMatch) {
+            return {
+                action: 'update',
+                target: this.parseTarget(renameMatch[1], referenceDate),
+                changes: { title: renameMatch[2].replace(/^["']|["']$/g, '').trim() },
+                confidence: 0.8,
+                ambiguities: []
+            };
+        }
+
+        const changeMatch = line.match(
+            /^(?:please\s+)?(?:change|update|set)\s+(?:the\s+)?(title|name|location|place|description|priority|duration|length)\s+(?:of|for)\s+(.+)\s+to\s+(.+)$/i
+        );
+        if (changeMatch) {
+            const field = changeMatch[1].toLowerCase();
+            const value = changeMatch[3].replace(/^["']|["']$/g, '').trim();
+            const changes: ParsedIntent['changes'] = {};
+
+            if (field === 'title' || field === 'name') {
+                changes.title = value;
+            } else if (field === 'location' || field === 'place') {
+                changes.location = value;
+            } else if (field === 'description') {
+                changes.description = value;
+            } else if (field === 'priority') {
+                const priority = value.toLowerCase().replace(/\s+priority$/, '');
+                if (priority === 'low' || priority === 'medium' || priority === 'high') {
+                    changes.priority = priority;
+                }
+            } else {
+                changes.duration = extractDuration(value);
+            }
+
+            return {
+                action: 'update',
+                target: this.parseTarget(changeMatch[2], referenceDate),
+                changes,
+                confidence: 0.8,
+                ambiguities: []
+            };
+        }
+
+        return null;
+    }
+
+    /**
+     * Parse the events a command refers to ("all standups next week", "my 1:1 with Priya")
+     */
+    private parseTarget(text: string, referenceDate?: Date): EventTarget {
+        const target: EventTarget = {};
+        let rest = text;
+
+        const range = extractDateRange(rest, referenceDate);
+        if (range) {
+            target.rangeStart = range.start.toISOString();
+            target.rangeEnd = range.end.toISOString();
+            rest = rest.replace(range.text, ' ');
+        }
+
+        const attendees = extractAttendees(rest);
+        if (attendees.length > 0) {
+            target.attendees = attendees;
+            rest = rest.replace(/\s*\bwith\b.*$/i, '');
+        }
+
+        // "all standups", "my meetings tomorrow"
+        target.all = /\b(?:all|every|each|events|meetings|appointments)\b/i.test(rest);
+
+        // What is left names the events: drop determiners, generic nouns and dangling prepositions
+        const query = rest
+            .replace(/\b(?:all|every|each|of|my|the|our|these|those|this|that|upcoming|events?|meetings?|appointments?)\b/gi, ' ')
+            .replace(/\s+(?:on|at|for|in|from)\s*$/i, '')
+            .replace(/\s+/g, ' ')
+            .trim();
+        if (query) {
+            target.query = query;
+        }
+
+        return target;
+    }
+
     /**
      * Find conflicts with existing events
      */
@@ -5,7 +5,7 @@ import { Timestamp, FieldValue } from 'firebase-admin/firestore';
 export interface Notification {
     id?: string;
     userId: string;
-    type: 'eventReminder' | 'eventUpdate' | 'eventCreated' | 'eventDeleted' | 'workspaceInvite' | 'workspaceRoleUpdate' | 'aiSuggestion' | 'general';
+    type: 'eventReminder' | 'eventUpdate' | 'eventCreated' | 'eventDeleted' | 'eventInvitation' | 'eventResponse' | 'workspaceInvite' | 'workspaceRoleUpdate' | 'ownershipTransfer' | 'ownershipTransferUpdate' | 'aiSuggestion' | 'general';
     title: string;
     message: string;
     eventId?: string;
@@ -276,6 +276,37 @@ export class NotificationService {
         }
     }
 
+    async notifyEventInvitation(eventId: string, userId: string, eventTitle: string, invitedBy: string, workspaceId?: string): Promise<void> {
+        try {
+            await this.createNotification({
+                userId,
+                type: 'eventInvitation',
+                title: 'Event Invitation',
+                message: `${invitedBy} invited you to "${eventTitle}"`,
+                eventId,
+                workspaceId,
+                metadata: { invitedBy },
+            });
+        } catch (error) {
+            logger.error('Error creating event invitation notification', error);
+        }
+    }
+
+    async notifyAttendeeResponse(eventId: string, userId: string, eventTitle: string, attendee: string, responseStatus: string): Promise<void> {
+        try {
+            await this.createNotification({
+                userId,
+                type: 'eventResponse',
+                title: 'Invitation Response',
+                message: `${attendee} ${this.formatResponse(responseStatus)} "${eventTitle}"`,
+                eventId,
+                metadata: { attendee, responseStatus },
+            });
+        } catch (error) {
+            logger.error('Error creating attendee response notification', error);
+        }
+    }
+
     async notifyEventReminder(eventId: string, userId: string, eventTitle: string, startTime: Date): Promise<void> {
         try {
             const timeUntil = this.formatTimeUntil(startTime);
@@ -323,6 +354,54 @@ export class NotificationService {
         }
     }
 
+    async notifyOwnershipTransfer(userId: string, workspaceId: string, workspaceName: string, proposedBy: string): Promise<void> {
+        try {
+            await this.createNotification({
+                userId,
+                type: 'ownershipTransfer',
+                title: 'Ownership Transfer',
+                message: `${proposedBy} wants to make you the owner of "${workspaceName}"`,
+                workspaceId,
+                metadata: { proposedBy },
+            });
+        } catch (error) {
+            logger.error('Error creating ownership transfer notification', error);
+        }
+    }
+
+    async notifyOwnershipTransferUpdate(
+        userId: string,
+        workspaceId: string,
+        workspaceName: string,
+        respondent: string,
+        status: 'accepted' | 'declined' | 'cancelled'
+    ): Promise<void> {
+        try {
+            await this.createNotification({
+                userId,
+                type: 'ownershipTransferUpdate',
+                title: 'Ownership Transfer',
+                message: `${respondent} ${status} the ownership transfer of "${workspaceName}"`,
+                workspaceId,
+                metadata: { respondent, status },
+            });
+        } catch (error) {
+            logger.error('Error creating ownership transfer update notification', error);
+        }
+    }
+
+    /**
+     * Describe an RSVP status as a verb phrase
+     */
+    private formatResponse(responseStatus: string): string {
+        switch (responseStatus) {
+            case 'accepted': return 'accepted';
+            case 'declined': return 'declined';
+            case 'tentative': return 'tentatively accepted';
+            default: return 'has not responded to';
+        }
+    }
+
     /**
      * Format time until event
      */
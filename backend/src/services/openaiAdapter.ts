@@ -4,14 +4,16 @@
  */
 
 import OpenAI from 'openai';
-import { AIProvider, ParsedIntent, SchedulingContext, SuggestedSlot } from '../types/ai';
+import { AIProvider, ParsedIntent, SchedulingContext, SlotFinder, SuggestedSlot } from '../types/ai';
 import { logger } from '../utils/logger';
-import { findAvailableSlots } from './schedulerService';
 
 export class OpenAIAdapter implements AIProvider {
     private client: OpenAI;
 
-    constructor() {
+    /**
+     * @param findSlots - slot search for suggestions, usually the scheduler's findAvailableSlots
+     */
+    constructor(private readonly findSlots: SlotFinder) {
         const apiKey = process.env.OPENAI_API_KEY;
 
         if (!apiKey || apiKey === 'sk-your-key-here-replace-this') {
@@ -44,9 +46,13 @@ Extract the following information:
 - priority: 'low', 'medium', or 'high'
 - recurrence: For recurring events (frequency, interval, daysOfWeek)
 - isFlexible: Boolean - can this event be moved if needed?
+- action: 'create' for a new event, or 'move', 'cancel' or 'update' for existing events
+- target: For move/cancel/update, the events meant: { query: words from their title, attendees, rangeStart and rangeEnd (ISO, when days are named), all: true for every matching event }
+- changes: For update, the fields to change: { title, description, location, priority, duration }
+For a move, startDate is the earliest new time to consider.
 
 Current context:
-- Today is ${new Date().toISOString()}
+- Today is ${(context?.referenceDate || new Date()).toISOString()}
 - Timezone: ${context?.timezone || 'UTC'}
 
 Respond with valid JSON only.`;
@@ -61,6 +67,10 @@ Respond with valid JSON only.`;
                 temperature: 0.3,
                 max_tokens: 500
             });
+            context?.onUsage?.({
+                inputTokens: response.usage?.prompt_tokens || 0,
+                outputTokens: response.usage?.completion_tokens || 0
+            });
 
             const content = response.choices[0]?.message?.content;
             if (!content) {
@@ -70,11 +80,15 @@ Respond with valid JSON only.`;
             const parsed = JSON.parse(content);
 
             // Build ParsedIntent
+            const action = ['move', 'cancel', 'update'].includes(parsed.action) ? parsed.action : 'create';
             const intent: ParsedIntent = {
+                action,
+                target: action !== 'create' ? parsed.target || {} : undefined,
+                changes: action === 'update' ? parsed.changes || {} : undefined,
                 title: parsed.title,
                 description: parsed.description,
                 startDate: parsed.startDate,
-                duration: parsed.duration || 60,
+                duration: parsed.duration || (action === 'create' ? 60 : undefined),
                 attendees: parsed.attendees || [],
                 location: parsed.location,
                 priority: parsed.priority || 'medium',
@@ -83,11 +97,13 @@ Respond with valid JSON only.`;
                 ambiguities: []
             };
 
-            // Check for ambiguities
-            if (!intent.startDate) {
+            // Check for ambiguities (cancel and update need no time, commands no title)
+            if (!intent.startDate && action === 'move') {
+                intent.ambiguities?.push('move_time');
+            } else if (!intent.startDate && action === 'create') {
                 intent.ambiguities?.push('start_time');
             }
-            if (!intent.title) {
+            if (!intent.title && action === 'create') {
                 intent.ambiguities?.push('title');
             }
 
@@ -120,7 +136,7 @@ Respond with valid JSON only.`;
             logger.debug('OpenAI: Generating slot suggestions');
 
             // Use our core scheduler to find slots
-            const slots = await findAvailableSlots(context);
+            const slots = await this.findSlots(context);
 
             // Optionally enhance with GPT-4 reasoning
             // For now, just return the scheduler's results
@@ -135,7 +151,7 @@ Respond with valid JSON only.`;
     /**
      * Generate clarifying question using GPT-4
      */
-    async generateClarification(prompt: string, ambiguities: string[]): Promise<string> {
+    async generateClarification(prompt: string, ambiguities: string[], context?: any): Promise<string> {
         try {
             logger.debug('OpenAI: Generating clarification', { ambiguities });
 
@@ -154,6 +170,10 @@ Be conversational and helpful. Ask for only the most critical missing piece.`;
                 temperature: 0.7,
                 max_tokens: 100
             });
+            context?.onUsage?.({
+                inputTokens: response.usage?.prompt_tokens || 0,
+                outputTokens: response.usage?.completion_tokens || 0
+            });
 
             const question = response.choices[0]?.message?.content ||
                 'Could you provide more details about when you want to schedule this event?';
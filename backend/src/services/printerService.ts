@@ -29,6 +29,10 @@ import { PrintPDFRequest, CalendarImageLayout, ImageLayoutElement } from '../typ
 import { logger } from '../utils/logger';
 import { db } from '../config/firebase';
 import { getImageById } from './imageService';
+import { getEventsInRange } from './eventService';
+import { getUserTimeZone } from './userSettingsService';
+import { DEFAULT_TIME_ZONE, getZonedParts, startOfZonedDay } from '../utils/timezone';
+import Holidays from 'date-holidays';
 
 let browserInstance: Browser | null = null;
 
@@ -153,11 +157,55 @@ async function enrichImageElements(elements: ImageLayoutElement[]): Promise<Arra
     return enriched.filter(e => e.imageUrl);
 }
 
+/**
+ * Fetch events (with recurring occurrences expanded) for the printed month
+ * The month runs from midnight to midnight in the user's time zone
+ */
+async function fetchMonthEvents(request: PrintPDFRequest, timeZone: string, userId?: string): Promise<any[]> {
+    if (!userId || !request.month || !request.settings.includeEvents) {
+        return [];
+    }
+
+    try {
+        const monthStart = startOfZonedDay(request.year, request.month - 1, 1, timeZone);
+        const monthEnd = startOfZonedDay(request.year, request.month, 1, timeZone);
+
+        return await getEventsInRange(
+            userId,
+            monthStart.toISOString(),
+            monthEnd.toISOString(),
+            request.workspaceId
+        );
+    } catch (error) {
+        logger.error('Error fetching events for print:', error);
+        return [];
+    }
+}
+
+/**
+ * Holiday names by calendar date ("2025-01-26") for the printed year
+ */
+function getHolidaysByDate(year: number): Map<string, string[]> {
+    const byDate = new Map<string, string[]>();
+
+    try {
+        const hd = new Holidays(process.env.HOLIDAY_COUNTRY || 'IN');
+        for (const holiday of hd.getHolidays(year)) {
+            const date = holiday.date.substring(0, 10);
+            byDate.set(date, [...(byDate.get(date) || []), holiday.name]);
+        }
+    } catch (error) {
+        logger.error('Error loading holidays for print:', error);
+    }
+
+    return byDate;
+}
+
 /**
  * Generate calendar data for template
  * (Simplified - you should integrate with your existing calendar logic)
  */
-function generateCalendarData(request: PrintPDFRequest): any {
+async function generateCalendarData(request: PrintPDFRequest, userId?: string): Promise<any> {
     const monthNames = [
         'January', 'February', 'March', 'April', 'May', 'June',
         'July', 'August', 'September', 'October', 'November', 'December'
@@ -169,12 +217,16 @@ function generateCalendarData(request: PrintPDFRequest): any {
     const calendarDays: any[] = [];
 
     if (request.calendarView === 'month' && request.month) {
-        // Use noon to avoid any timezone shifts flipping the day
-        const firstDayDate = new Date(request.year, request.month - 1, 1, 12, 0, 0);
-        const firstDay = firstDayDate.getDay();
-        const daysInMonth = new Date(request.year, request.month, 0).getDate();
+        // Days are laid out in the user's time zone, whatever the server's zone is
+        const timeZone = userId ? await getUserTimeZone(userId) : DEFAULT_TIME_ZONE;
+        const firstDay = new Date(Date.UTC(request.year, request.month - 1, 1)).getUTCDay();
+        const daysInMonth = new Date(Date.UTC(request.year, request.month, 0)).getUTCDate();
+        const today = getZonedParts(new Date(), timeZone);
+
+        console.log(`📅 PDF Data Gen: ${request.year}-${request.month}, First Day Index: ${firstDay}, Time Zone: ${timeZone}`);
 
-        console.log(`📅 PDF Data Gen: ${request.year}-${request.month}, First Day Index: ${firstDay}`);
+        const monthEvents = await fetchMonthEvents(request, timeZone, userId);
+        const holidaysByDate = request.settings.includeHolidays ? getHolidaysByDate(request.year) : new Map<string, string[]>();
 
         // Add previous month days
         for (let i = 0; i < firstDay; i++) {
@@ -189,15 +241,17 @@ function generateCalendarData(request: PrintPDFRequest): any {
 
         // Add current month days
         for (let day = 1; day <= daysInMonth; day++) {
-            const date = new Date(request.year, request.month - 1, day);
-            const isToday = date.toDateString() === new Date().toDateString();
+            const date = startOfZonedDay(request.year, request.month - 1, day, timeZone);
+            const nextDate = startOfZonedDay(request.year, request.month - 1, day + 1, timeZone);
+            const isToday = today.year === request.year && today.month === request.month - 1 && today.day === day;
+            const dateKey = `${request.year}-${String(request.month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
 
             calendarDays.push({
                 date: day,
                 isOtherMonth: false,
                 isToday,
-                events: [], // TODO: Fetch actual events
-                holidays: [], // TODO: Fetch actual holidays
+                events: monthEvents.filter(e => new Date(e.startDate) < nextDate && new Date(e.endDate) > date),
+                holidays: holidaysByDate.get(dateKey) || [],
             });
         }
     }
@@ -220,13 +274,14 @@ function generateCalendarData(request: PrintPDFRequest): any {
  */
 async function renderTemplate(
     request: PrintPDFRequest,
-    imageElements: Array<ImageLayoutElement & { imageUrl: string }>
+    imageElements: Array<ImageLayoutElement & { imageUrl: string }>,
+    userId?: string
 ): Promise<string> {
     const templatePath = path.join(__dirname, '../print/templates/calendarTemplate.html.ejs');
 
     const margins = getMargins(request);
     const paperConfig = getPaperSize(request);
-    const calendarData = generateCalendarData(request);
+    const calendarData = await generateCalendarData(request, userId);
 
     // Add background image if provided (not for 'grid' which is handled separately)
     const allImageElements = [...imageElements];
@@ -302,9 +357,10 @@ async function renderTemplate(
  * Generate PDF from calendar print request
  * 
  * @param request - Print request configuration
+ * @param userId - Owner of the events to print
  * @returns PDF buffer
  */
-export async function generateCalendarPDF(request: PrintPDFRequest): Promise<Buffer> {
+export async function generateCalendarPDF(request: PrintPDFRequest, userId?: string): Promise<Buffer> {
     let page: Page | null = null;
 
     try {
@@ -322,7 +378,7 @@ export async function generateCalendarPDF(request: PrintPDFRequest): Promise<Buf
         const imageElements = layout ? await enrichImageElements(layout.elements) : [];
 
         // Render HTML
-        const html = await renderTemplate(request, imageElements);
+        const html = await renderTemplate(request, imageElements, userId);
         logger.info(`Rendered HTML length: ${html.length}`);
 
         if (request.backgroundImageUrl && !html.includes(request.backgroundImageUrl)) {
@@ -382,9 +438,10 @@ export async function generateCalendarPDF(request: PrintPDFRequest): Promise<Buf
  * Generate PNG from calendar print request
  * 
  * @param request - Print request configuration
+ * @param userId - Owner of the events to print
  * @returns PNG buffer
  */
-export async function generateCalendarPNG(request: PrintPDFRequest): Promise<Buffer> {
+export async function generateCalendarPNG(request: PrintPDFRequest, userId?: string): Promise<Buffer> {
     let page: Page | null = null;
 
     try {
@@ -395,7 +452,7 @@ export async function generateCalendarPNG(request: PrintPDFRequest): Promise<Buf
         const imageElements = layout ? await enrichImageElements(layout.elements) : [];
 
         // Render HTML
-        const html = await renderTemplate(request, imageElements);
+        const html = await renderTemplate(request, imageElements, userId);
 
         // Launch browser
         const browser = await getBrowser();
@@ -3,6 +3,10 @@ import { logger } from '../utils/logger';
 import { Timestamp, FieldValue } from 'firebase-admin/firestore';
 import { notificationService } from './notificationService';
 import { emailService } from './emailService';
+import { getUserTimeZone } from './userSettingsService';
+import { getWorkspaceStatuses } from './roleService';
+import { getNextOccurrence, isRecurringEvent } from '../utils/recurrence';
+import { EditScope } from '../types/event';
 
 export interface Reminder {
     id?: string;
@@ -27,6 +31,7 @@ export interface ReminderSettings {
 export class ReminderService {
     private collection = db.collection('reminders');
     private userSettingsCollection = db.collection('userSettings');
+    private eventsCollection = db.collection('events');
 
     /**
      * Get user's reminder settings
@@ -87,11 +92,12 @@ export class ReminderService {
                 return '';
             }
 
-            // Check for existing reminder
+            // Check for existing reminder (per occurrence for recurring events)
             const existing = await this.collection
                 .where('eventId', '==', eventId)
                 .where('userId', '==', userId)
                 .where('minutesBefore', '==', reminderMinutes)
+                .where('eventStartTime', '==', Timestamp.fromDate(eventStartTime))
                 .limit(1)
                 .get();
 
@@ -192,6 +198,10 @@ export class ReminderService {
 
             logger.info(`Processing ${validDocs.length} pending reminders`);
 
+            // Archived and deleted workspaces send no reminders; their series are still followed
+            // so reminders resume if the workspace is restored
+            const workspaceStatuses = await getWorkspaceStatuses(validDocs.map((doc: any) => doc.data().workspaceId));
+
             const batch = db.batch();
             const deliveryPromises: Promise<void>[] = [];
 
@@ -199,7 +209,14 @@ export class ReminderService {
                 const reminder = { id: doc.id, ...doc.data() } as Reminder;
 
                 // Deliver reminder
-                deliveryPromises.push(this.deliverReminder(reminder));
+                if (!reminder.workspaceId || workspaceStatuses.get(reminder.workspaceId) === 'active') {
+                    deliveryPromises.push(this.deliverReminder(reminder));
+                } else {
+                    logger.debug('Skipping reminder of inactive workspace', {
+                        reminderId: reminder.id,
+                        workspaceId: reminder.workspaceId
+                    });
+                }
 
                 // Mark as delivered
                 batch.update(doc.ref, { delivered: true });
@@ -211,6 +228,11 @@ export class ReminderService {
                 batch.commit(),
             ]);
 
+            // Queue the next occurrence of any recurring series
+            await Promise.all(
+                validDocs.map((doc: any) => this.scheduleNextOccurrenceReminder({ id: doc.id, ...doc.data() } as Reminder))
+            );
+
             logger.success(`Processed ${validDocs.length} reminders`);
             return validDocs.length;
         } catch (error) {
@@ -250,7 +272,8 @@ export class ReminderService {
                             userEmail,
                             reminder.eventTitle,
                             eventStartTime,
-                            reminder.minutesBefore
+                            reminder.minutesBefore,
+                            await getUserTimeZone(reminder.userId)
                         );
                         logger.success('Email reminder sent', { to: userEmail });
                     } else {
@@ -273,43 +296,110 @@ export class ReminderService {
     }
 
     /**
-     * Cancel all reminders for an event
+     * Schedule the reminder for the occurrence after a delivered one
+     */
+    private async scheduleNextOccurrenceReminder(reminder: Reminder): Promise<void> {
+        try {
+            const eventDoc = await this.eventsCollection.doc(reminder.eventId).get();
+            if (!eventDoc.exists) {
+                return;
+            }
+
+            const event = eventDoc.data() as any;
+            if (!isRecurringEvent(event)) {
+                return;
+            }
+
+            const nextStart = getNextOccurrence(event, reminder.eventStartTime.toDate());
+            if (!nextStart) {
+                logger.debug('Recurring series has ended, no further reminders', { eventId: reminder.eventId });
+                return;
+            }
+
+            await this.scheduleReminder(
+                reminder.eventId,
+                reminder.userId,
+                event.title || reminder.eventTitle,
+                nextStart,
+                reminder.minutesBefore,
+                reminder.workspaceId
+            );
+        } catch (error) {
+            logger.error('Error scheduling next occurrence reminder', error);
+            // Don't throw - delivery of the current reminder already succeeded
+        }
+    }
+
+    /**
+     * Cancel reminders for an event
+     * For a recurring series, scope limits this to one occurrence or to it and all later ones
      */
-    async cancelRemindersByEvent(eventId: string): Promise<number> {
+    async cancelRemindersByEvent(
+        eventId: string,
+        scope: EditScope = 'all',
+        occurrenceStart?: Date
+    ): Promise<number> {
         try {
             const snapshot = await this.collection
                 .where('eventId', '==', eventId)
                 .where('delivered', '==', false)
                 .get();
 
-            if (snapshot.empty) {
+            const docs = snapshot.docs.filter((doc: any) =>
+                this.matchesScope(doc.data() as Reminder, scope, occurrenceStart)
+            );
+
+            if (docs.length === 0) {
                 return 0;
             }
 
             const batch = db.batch();
-            snapshot.docs.forEach((doc: any) => {
+            docs.forEach((doc: any) => {
                 batch.delete(doc.ref);
             });
 
             await batch.commit();
 
-            logger.success('Reminders cancelled', { eventId, count: snapshot.size });
-            return snapshot.size;
+            logger.success('Reminders cancelled', { eventId, scope, count: docs.length });
+            return docs.length;
         } catch (error) {
             logger.error('Error cancelling reminders', error);
             return 0;
         }
     }
 
+    /**
+     * Check whether a reminder falls within an edit scope
+     */
+    private matchesScope(reminder: Reminder, scope: EditScope, occurrenceStart?: Date): boolean {
+        if (scope === 'all' || !occurrenceStart) {
+            return true;
+        }
+
+        const reminderStart = reminder.eventStartTime.toMillis();
+        return scope === 'this'
+            ? reminderStart === occurrenceStart.getTime()
+            : reminderStart >= occurrenceStart.getTime();
+    }
+
     /**
      * Update reminders when event time changes
+     * With a 'this' or 'following' scope the affected occurrences have been detached
+     * into their own event, so their reminders are dropped from this one instead
      */
     async updateRemindersForEvent(
         eventId: string,
         newStartTime: Date,
-        eventTitle: string
+        eventTitle: string,
+        scope: EditScope = 'all',
+        occurrenceStart?: Date
     ): Promise<void> {
         try {
+            if (scope !== 'all') {
+                await this.cancelRemindersByEvent(eventId, scope, occurrenceStart);
+                return;
+            }
+
             // Get all undelivered reminders
             const snapshot = await this.collection
                 .where('eventId', '==', eventId)
@@ -3,13 +3,32 @@
  * Business logic for role management and permission validation
  */
 
+import { v4 as uuidv4 } from 'uuid';
 import { db } from '../config/firebase';
 import { logger } from '../utils/logger';
-import { Workspace, WorkspaceMember } from '../types/workspace';
-import { WorkspaceRole, canModifyRole, getRolePermissions } from '../types/roles';
+import { recordAudit, diffFields } from './auditService';
+import { notificationService } from './notificationService';
+import { MAX_CUSTOM_ROLES, buildRolePermissions } from '../utils/customRole';
+import { assertWorkspaceWritable, getWorkspaceStatus } from '../utils/workspaceUtils';
+import { OwnershipTransfer, Workspace, WorkspaceMember, WorkspaceStatus } from '../types/workspace';
+import { AuditActor } from '../types/audit';
+import {
+    CustomRole,
+    CustomRoleId,
+    CustomRoleRequest,
+    WorkspaceRole,
+    canModifyRole,
+    getRolePermissions,
+    isBuiltInRole,
+    isCustomRoleId,
+    outranks
+} from '../types/roles';
 
 const workspacesCollection = db.collection('workspaces');
 
+// Ownership offers lapse like email invites
+const TRANSFER_EXPIRY_DAYS = 7;
+
 /**
  * Update a member's role in a workspace
  */
@@ -17,7 +36,7 @@ export const updateMemberRole = async (
     workspaceId: string,
     requesterId: string,
     targetUserId: string,
-    newRole: WorkspaceRole
+    newRole: string
 ): Promise<Workspace> => {
     try {
         logger.debug(`Updating role for user ${targetUserId} in workspace ${workspaceId}`);
@@ -32,6 +51,7 @@ export const updateMemberRole = async (
             }
 
             const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+            assertWorkspaceWritable(workspace);
 
             // Find requester and target members
             const requester = workspace.members.find(m => m.uid === requesterId);
@@ -45,8 +65,13 @@ export const updateMemberRole = async (
                 throw new Error('Target user is not a member of this workspace');
             }
 
+            const customRoles = workspace.customRoles || [];
+            if (!isBuiltInRole(newRole) && !isCustomRoleId(newRole, customRoles)) {
+                throw new Error(`Invalid role: ${newRole}`);
+            }
+
             // Check if requester can modify target's role
-            if (!canModifyRole(requester.role, target.role, newRole)) {
+            if (!canModifyRole(requester.role, target.role, newRole, customRoles)) {
                 throw new Error('Insufficient permissions to change this role');
             }
 
@@ -73,6 +98,14 @@ export const updateMemberRole = async (
                 updatedAt: new Date().toISOString()
             });
 
+            await recordAudit({
+                workspaceId,
+                actor: { uid: requesterId, name: requester.displayName },
+                action: 'member.role',
+                target: { type: 'member', id: targetUserId, name: target.displayName },
+                changes: { role: { before: target.role, after: newRole } }
+            }, transaction);
+
             return {
                 ...workspace,
                 members: updatedMembers,
@@ -109,6 +142,7 @@ export const removeMember = async (
             }
 
             const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+            assertWorkspaceWritable(workspace);
 
             // Find requester and target members
             const requester = workspace.members.find(m => m.uid === requesterId);
@@ -128,14 +162,14 @@ export const removeMember = async (
             }
 
             // Check permissions
-            const requesterPermissions = getRolePermissions(requester.role);
+            const requesterPermissions = getRolePermissions(requester.role, workspace.customRoles);
             if (!requesterPermissions.canManageMembers) {
                 throw new Error('Insufficient permissions to remove members');
             }
 
-            // Admin cannot remove other admins
-            if (requester.role === 'admin' && target.role === 'admin') {
-                throw new Error('Admins cannot remove other admins');
+            // Only members whose role grants less can be removed (admins cannot remove other admins)
+            if (!outranks(requesterPermissions, getRolePermissions(target.role, workspace.customRoles))) {
+                throw new Error('Insufficient permissions to remove this member');
             }
 
             // Remove the member
@@ -149,6 +183,14 @@ export const removeMember = async (
                 updatedAt: new Date().toISOString()
             });
 
+            await recordAudit({
+                workspaceId,
+                actor: { uid: requesterId, name: requester.displayName },
+                action: 'member.remove',
+                target: { type: 'member', id: targetUserId, name: target.displayName },
+                metadata: { role: target.role }
+            }, transaction);
+
             return {
                 ...workspace,
                 members: updatedMembers,
@@ -196,15 +238,68 @@ export const getWorkspaceMembers = async (
     }
 };
 
+/**
+ * Get a member's role from a workspace document
+ * Throws unless the user is a member and the workspace has not been deleted
+ */
+export const getMemberRole = (workspace: Workspace, userId: string): WorkspaceRole => {
+    if (getWorkspaceStatus(workspace) === 'deleted') {
+        throw new Error('Workspace not found');
+    }
+
+    const member = workspace.members.find(m => m.uid === userId);
+    if (!member) {
+        throw new Error('Access denied: You are not a member of this workspace');
+    }
+
+    return member.role;
+};
+
+/**
+ * Get a workspace the user belongs to, unless it is deleted
+ */
+export const getMemberWorkspace = async (workspaceId: string, userId: string): Promise<Workspace> => {
+    const workspaceDoc = await workspacesCollection.doc(workspaceId).get();
+
+    if (!workspaceDoc.exists) {
+        throw new Error('Workspace not found');
+    }
+
+    const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+    getMemberRole(workspace, userId);
+
+    return workspace;
+};
+
+/**
+ * Status of each workspace by id; workspaces that no longer exist count as deleted
+ */
+export const getWorkspaceStatuses = async (
+    workspaceIds: Array<string | null | undefined>
+): Promise<Map<string, WorkspaceStatus>> => {
+    const uniqueIds = Array.from(new Set(workspaceIds.filter((id): id is string => !!id)));
+    if (uniqueIds.length === 0) {
+        return new Map();
+    }
+
+    const workspaceDocs = await db.getAll(...uniqueIds.map(id => workspacesCollection.doc(id)));
+
+    return new Map(workspaceDocs.map(doc => [
+        doc.id,
+        doc.exists ? getWorkspaceStatus(doc.data() as Workspace) : 'deleted'
+    ] as [string, WorkspaceStatus]));
+};
+
 /**
  * Check if user can edit a specific event
  */
 export const canEditEvent = (
     userRole: WorkspaceRole,
     userId: string,
-    eventCreatorId: string
+    eventCreatorId: string,
+    customRoles?: CustomRole[]
 ): boolean => {
-    const permissions = getRolePermissions(userRole);
+    const permissions = getRolePermissions(userRole, customRoles);
 
     // Owners and admins can edit all events
     if (permissions.canEditAllEvents) {
@@ -223,19 +318,492 @@ export const canEditEvent = (
 /**
  * Check if user can create events
  */
-export const canCreateEvent = (userRole: WorkspaceRole): boolean => {
-    const permissions = getRolePermissions(userRole);
+export const canCreateEvent = (userRole: WorkspaceRole, customRoles?: CustomRole[]): boolean => {
+    const permissions = getRolePermissions(userRole, customRoles);
     return permissions.canCreateEvents;
 };
 
+/**
+ * Check if user can see teammates' free/busy time
+ */
+export const canViewFreeBusy = (userRole: WorkspaceRole, customRoles?: CustomRole[]): boolean => {
+    const permissions = getRolePermissions(userRole, customRoles);
+    return permissions.canViewFreeBusy;
+};
+
 /**
  * Check if user can delete an event
  */
 export const canDeleteEvent = (
     userRole: WorkspaceRole,
     userId: string,
-    eventCreatorId: string
+    eventCreatorId: string,
+    customRoles?: CustomRole[]
 ): boolean => {
     // Same logic as edit for now
-    return canEditEvent(userRole, userId, eventCreatorId);
+    return canEditEvent(userRole, userId, eventCreatorId, customRoles);
+};
+
+/**
+ * Check if user can change an event, whether it is personal or in a workspace
+ * Personal events are only changed by their owner; workspace events by the user's role
+ * in the event's workspace, which has to be the one given
+ */
+export const canChangeEvent = (
+    userId: string,
+    event: { userId: string; createdBy?: string; workspaceId?: string | null },
+    workspace?: Workspace | null
+): boolean => {
+    if (!event.workspaceId) {
+        return event.userId === userId;
+    }
+
+    if (!workspace || workspace.id !== event.workspaceId) {
+        return false;
+    }
+
+    const member = workspace.members.find(m => m.uid === userId);
+    return !!member && canEditEvent(member.role, userId, event.createdBy ?? event.userId, workspace.customRoles);
+};
+
+/**
+ * Create a custom role in a workspace
+ */
+export const createCustomRole = async (
+    workspaceId: string,
+    input: CustomRoleRequest,
+    actor: AuditActor
+): Promise<CustomRole> => {
+    try {
+        logger.debug(`Creating custom role "${input.name}" in workspace ${workspaceId}`);
+
+        const role = await db.runTransaction(async (transaction) => {
+            const workspaceRef = workspacesCollection.doc(workspaceId);
+            const workspaceDoc = await transaction.get(workspaceRef);
+
+            if (!workspaceDoc.exists) {
+                throw new Error('Workspace not found');
+            }
+
+            const customRoles: CustomRole[] = workspaceDoc.data()?.customRoles || [];
+            if (customRoles.length >= MAX_CUSTOM_ROLES) {
+                throw new Error(`A workspace can have at most ${MAX_CUSTOM_ROLES} custom roles`);
+            }
+
+            const now = new Date().toISOString();
+            const newRole: CustomRole = {
+                id: uuidv4() as CustomRoleId,
+                name: input.name.trim(),
+                description: input.description?.trim() || undefined,
+                permissions: buildRolePermissions(input.permissions),
+                createdAt: now,
+                updatedAt: now
+            };
+
+            transaction.update(workspaceRef, {
+                customRoles: [...customRoles, newRole],
+                updatedAt: now
+            });
+
+            await recordAudit({
+                workspaceId,
+                actor,
+                action: 'role.create',
+                target: { type: 'role', id: newRole.id, name: newRole.name },
+                metadata: { permissions: newRole.permissions }
+            }, transaction);
+
+            return newRole;
+        });
+
+        logger.success(`Custom role ${role.id} created in workspace ${workspaceId}`);
+        return role;
+    } catch (error) {
+        logger.error('Error creating custom role', error);
+        throw error;
+    }
+};
+
+/**
+ * Update the name and permissions of a custom role
+ * Members holding the role get the new permissions right away
+ */
+export const updateCustomRole = async (
+    workspaceId: string,
+    roleId: string,
+    input: CustomRoleRequest,
+    actor: AuditActor
+): Promise<CustomRole> => {
+    try {
+        logger.debug(`Updating custom role ${roleId} in workspace ${workspaceId}`);
+
+        const role = await db.runTransaction(async (transaction) => {
+            const workspaceRef = workspacesCollection.doc(workspaceId);
+            const workspaceDoc = await transaction.get(workspaceRef);
+
+            if (!workspaceDoc.exists) {
+                throw new Error('Workspace not found');
+            }
+
+            const customRoles: CustomRole[] = workspaceDoc.data()?.customRoles || [];
+            const existing = customRoles.find(r => r.id === roleId);
+            if (!existing) {
+                throw new Error('Role not found');
+            }
+
+            const now = new Date().toISOString();
+            const updatedRole: CustomRole = {
+                ...existing,
+                name: input.name.trim(),
+                description: input.description?.trim() || undefined,
+                permissions: buildRolePermissions(input.permissions),
+                updatedAt: now
+            };
+
+            transaction.update(workspaceRef, {
+                customRoles: customRoles.map(r => r.id === roleId ? updatedRole : r),
+                updatedAt: now
+            });
+
+            await recordAudit({
+                workspaceId,
+                actor,
+                action: 'role.update',
+                target: { type: 'role', id: roleId, name: updatedRole.name },
+                changes: {
+                    ...diffFields(existing, updatedRole, ['name', 'description']),
+                    ...diffFields(existing.permissions, updatedRole.permissions)
+                }
+            }, transaction);
+
+            return updatedRole;
+        });
+
+        logger.success(`Custom role ${roleId} updated in workspace ${workspaceId}`);
+        return role;
+    } catch (error) {
+        logger.error('Error updating custom role', error);
+        throw error;
+    }
+};
+
+/**
+ * Delete a custom role; members holding it become members
+ */
+export const deleteCustomRole = async (
+    workspaceId: string,
+    roleId: string,
+    actor: AuditActor
+): Promise<Workspace> => {
+    try {
+        logger.debug(`Deleting custom role ${roleId} from workspace ${workspaceId}`);
+
+        const result = await db.runTransaction(async (transaction) => {
+            const workspaceRef = workspacesCollection.doc(workspaceId);
+            const workspaceDoc = await transaction.get(workspaceRef);
+
+            if (!workspaceDoc.exists) {
+                throw new Error('Workspace not found');
+            }
+
+            const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+            const customRoles = workspace.customRoles || [];
+
+            const role = customRoles.find(r => r.id === roleId);
+            if (!role) {
+                throw new Error('Role not found');
+            }
+
+            const updatedRoles = customRoles.filter(r => r.id !== roleId);
+            const updatedMembers = workspace.members.map((member): WorkspaceMember =>
+                member.role === roleId
+                    ? { ...member, role: 'member' }
+                    : member
+            );
+            const now = new Date().toISOString();
+
+            transaction.update(workspaceRef, {
+                customRoles: updatedRoles,
+                members: updatedMembers,
+                updatedAt: now
+            });
+
+            await recordAudit({
+                workspaceId,
+                actor,
+                action: 'role.delete',
+                target: { type: 'role', id: roleId, name: role.name },
+                metadata: {
+                    reassignedMembers: workspace.members.filter(m => m.role === roleId).map(m => m.uid)
+                }
+            }, transaction);
+
+            return {
+                ...workspace,
+                customRoles: updatedRoles,
+                members: updatedMembers,
+                updatedAt: now
+            };
+        });
+
+        logger.success(`Custom role ${roleId} deleted from workspace ${workspaceId}`);
+        return result;
+    } catch (error) {
+        logger.error('Error deleting custom role', error);
+        throw error;
+    }
+};
+
+/**
+ * Offer ownership of a workspace to another member
+ * Replaces any pending offer; nothing changes until the member accepts
+ */
+export const proposeOwnershipTransfer = async (
+    workspaceId: string,
+    ownerId: string,
+    targetUserId: string
+): Promise<Workspace> => {
+    try {
+        logger.debug(`Proposing ownership transfer of workspace ${workspaceId} to ${targetUserId}`);
+
+        const result = await db.runTransaction(async (transaction) => {
+            const workspaceRef = workspacesCollection.doc(workspaceId);
+            const workspaceDoc = await transaction.get(workspaceRef);
+
+            if (!workspaceDoc.exists) {
+                throw new Error('Workspace not found');
+            }
+
+            const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+
+            if (workspace.owner !== ownerId) {
+                throw new Error('Insufficient permissions: Only the workspace owner can transfer ownership');
+            }
+
+            if (targetUserId === ownerId) {
+                throw new Error('Cannot transfer ownership to yourself');
+            }
+
+            const owner = workspace.members.find(m => m.uid === ownerId);
+            const target = workspace.members.find(m => m.uid === targetUserId);
+            if (!target) {
+                throw new Error('Target user is not a member of this workspace');
+            }
+
+            const now = new Date();
+            const expiresAt = new Date(now);
+            expiresAt.setDate(expiresAt.getDate() + TRANSFER_EXPIRY_DAYS);
+
+            const pendingTransfer: OwnershipTransfer = {
+                from: ownerId,
+                to: targetUserId,
+                toName: target.displayName || target.email,
+                proposedAt: now.toISOString(),
+                expiresAt: expiresAt.toISOString()
+            };
+
+            transaction.update(workspaceRef, {
+                pendingTransfer,
+                updatedAt: now.toISOString()
+            });
+
+            await recordAudit({
+                workspaceId,
+                actor: { uid: ownerId, name: owner?.displayName },
+                action: 'ownership.propose',
+                target: { type: 'member', id: targetUserId, name: target.displayName },
+                metadata: { expiresAt: pendingTransfer.expiresAt }
+            }, transaction);
+
+            return {
+                ...workspace,
+                pendingTransfer,
+                updatedAt: now.toISOString()
+            };
+        });
+
+        const owner = result.members.find(m => m.uid === ownerId);
+        await notificationService.notifyOwnershipTransfer(
+            targetUserId,
+            workspaceId,
+            result.name,
+            owner?.displayName || owner?.email || 'The workspace owner'
+        );
+
+        logger.success(`Ownership transfer of workspace ${workspaceId} proposed to ${targetUserId}`);
+        return result;
+    } catch (error) {
+        logger.error('Error proposing ownership transfer', error);
+        throw error;
+    }
+};
+
+/**
+ * Accept a pending ownership transfer
+ * The member becomes the owner and the previous owner stays on as an admin
+ */
+export const acceptOwnershipTransfer = async (
+    workspaceId: string,
+    userId: string
+): Promise<Workspace> => {
+    try {
+        logger.debug(`User ${userId} accepting ownership of workspace ${workspaceId}`);
+
+        const result = await db.runTransaction(async (transaction) => {
+            const workspaceRef = workspacesCollection.doc(workspaceId);
+            const workspaceDoc = await transaction.get(workspaceRef);
+
+            if (!workspaceDoc.exists) {
+                throw new Error('Workspace not found');
+            }
+
+            const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+            const transfer = workspace.pendingTransfer;
+
+            if (!transfer || transfer.to !== userId) {
+                throw new Error('No ownership transfer is pending for you');
+            }
+
+            if (new Date(transfer.expiresAt) < new Date()) {
+                throw new Error('This ownership transfer has expired');
+            }
+
+            // The offer is void if ownership changed hands since it was made
+            if (transfer.from !== workspace.owner) {
+                throw new Error('This ownership transfer is no longer valid');
+            }
+
+            const newOwner = workspace.members.find(m => m.uid === userId);
+            if (!newOwner) {
+                throw new Error('You are no longer a member of this workspace');
+            }
+
+            const updatedMembers = workspace.members.map((member): WorkspaceMember =>
+                member.uid === userId
+                    ? { ...member, role: 'owner' }
+                    : member.uid === transfer.from
+                        ? { ...member, role: 'admin' }
+                        : member
+            );
+            const now = new Date().toISOString();
+
+            transaction.update(workspaceRef, {
+                owner: userId,
+                members: updatedMembers,
+                pendingTransfer: null,
+                updatedAt: now
+            });
+
+            await recordAudit({
+                workspaceId,
+                actor: { uid: userId, name: newOwner.displayName },
+                action: 'ownership.accept',
+                target: { type: 'workspace', id: workspaceId, name: workspace.name },
+                changes: {
+                    owner: { before: transfer.from, after: userId },
+                    [`role:${transfer.from}`]: { before: 'owner', after: 'admin' },
+                    [`role:${userId}`]: { before: newOwner.role, after: 'owner' }
+                }
+            }, transaction);
+
+            return {
+                ...workspace,
+                owner: userId,
+                members: updatedMembers,
+                pendingTransfer: null,
+                updatedAt: now,
+                previousOwner: transfer.from
+            };
+        });
+
+        const { previousOwner, ...workspace } = result;
+        const newOwner = workspace.members.find(m => m.uid === userId);
+        await notificationService.notifyOwnershipTransferUpdate(
+            previousOwner,
+            workspaceId,
+            workspace.name,
+            newOwner?.displayName || newOwner?.email || 'A member',
+            'accepted'
+        );
+
+        logger.success(`Ownership of workspace ${workspaceId} transferred from ${previousOwner} to ${userId}`);
+        return workspace;
+    } catch (error) {
+        logger.error('Error accepting ownership transfer', error);
+        throw error;
+    }
+};
+
+/**
+ * Withdraw a pending ownership transfer (owner) or decline it (the member it was offered to)
+ */
+export const cancelOwnershipTransfer = async (
+    workspaceId: string,
+    userId: string
+): Promise<Workspace> => {
+    try {
+        logger.debug(`User ${userId} cancelling ownership transfer of workspace ${workspaceId}`);
+
+        const result = await db.runTransaction(async (transaction) => {
+            const workspaceRef = workspacesCollection.doc(workspaceId);
+            const workspaceDoc = await transaction.get(workspaceRef);
+
+            if (!workspaceDoc.exists) {
+                throw new Error('Workspace not found');
+            }
+
+            const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+            const transfer = workspace.pendingTransfer;
+
+            if (!transfer) {
+                throw new Error('No ownership transfer is pending');
+            }
+
+            const declined = transfer.to === userId;
+            if (!declined && workspace.owner !== userId) {
+                throw new Error('Insufficient permissions to cancel this ownership transfer');
+            }
+
+            const actor = workspace.members.find(m => m.uid === userId);
+            const now = new Date().toISOString();
+
+            transaction.update(workspaceRef, {
+                pendingTransfer: null,
+                updatedAt: now
+            });
+
+            await recordAudit({
+                workspaceId,
+                actor: { uid: userId, name: actor?.displayName },
+                action: declined ? 'ownership.decline' : 'ownership.cancel',
+                target: declined
+                    ? { type: 'workspace', id: workspaceId, name: workspace.name }
+                    : { type: 'member', id: transfer.to, name: transfer.toName }
+            }, transaction);
+
+            return {
+                ...workspace,
+                pendingTransfer: null,
+                updatedAt: now,
+                cancelledTransfer: transfer,
+                declined
+            };
+        });
+
+        const { cancelledTransfer, declined, ...workspace } = result;
+        const actor = workspace.members.find(m => m.uid === userId);
+        await notificationService.notifyOwnershipTransferUpdate(
+            declined ? cancelledTransfer.from : cancelledTransfer.to,
+            workspaceId,
+            workspace.name,
+            actor?.displayName || actor?.email || 'A member',
+            declined ? 'declined' : 'cancelled'
+        );
+
+        logger.success(`Ownership transfer of workspace ${workspaceId} ${declined ? 'declined' : 'cancelled'}`);
+        return workspace;
+    } catch (error) {
+        logger.error('Error cancelling ownership transfer', error);
+        throw error;
+    }
 };
@@ -3,6 +3,7 @@
  * Core scheduling algorithm for finding and scoring available time slots
  */
 
+import { FieldValue } from 'firebase-admin/firestore';
 import { db } from '../config/firebase';
 import { logger } from '../utils/logger';
 import {
@@ -10,7 +11,11 @@ import {
     SuggestedSlot,
     ConflictInfo,
     EventMove,
-    ParsedIntent
+    ParsedIntent,
+    ReschedulePlan,
+    ScheduleChangeSet,
+    CommandTarget,
+    SchedulingProfile
 } from '../types/ai';
 import {
     calculateAvailabilityScore,
@@ -22,10 +27,25 @@ import {
     generateScoreReason,
     sortSlotsByScore
 } from '../utils/scoring';
+import { getEventsInRange, buildOccurrenceOverride } from './eventService';
+import { canChangeEvent, canCreateEvent, getMemberRole, getMemberWorkspace, getWorkspaceMembers } from './roleService';
+import { getBusyIntervals } from './freeBusyService';
+import { recordAudit } from './auditService';
+import { getUserTimeZone, getFocusTimeSettings } from './userSettingsService';
+import { resolveAttendee, buildAttendeeList, getAttendeeUids } from './attendeeService';
+import { normalizeRecurrence } from '../utils/recurrence';
+import { getDefaultSchedulingProfile } from '../utils/schedulingProfile';
+import { assertWorkspaceWritable } from '../utils/workspaceUtils';
+import { isFocusTime, expandProtectedWindows } from '../utils/focusTime';
+import { isMovableEvent, planReschedule } from '../utils/rescheduler';
+import { getZonedMinutes, getZonedParts, resolveTimeZone, zonedTimeToUtc } from '../utils/timezone';
+import { EventAttendee } from '../types/event';
+import { Workspace } from '../types/workspace';
 import { v4 as uuidv4 } from 'uuid';
 
 const eventsCollection = db.collection('events');
 const workspacesCollection = db.collection('workspaces');
+const operationsCollection = db.collection('scheduleOperations');
 
 /**
  * Find available time slots based on scheduling context
@@ -41,28 +61,12 @@ export async function findAvailableSlots(
 
         const slots: SuggestedSlot[] = [];
         const { parsedIntent, searchWindowStart, searchWindowEnd } = context;
+        const profile = context.profile || getDefaultSchedulingProfile();
 
         // Get duration (default 60 minutes)
         const duration = parsedIntent.duration || 60;
 
-        // Get existing events
-        const existingEvents = await getExistingEvents(
-            context.userId,
-            searchWindowStart,
-            searchWindowEnd,
-            context.workspaceId
-        );
-
-        // Get attendee events if needed
-        let attendeeEventsMap = new Map<string, any[]>();
-        if (parsedIntent.attendees && parsedIntent.attendees.length > 0) {
-            attendeeEventsMap = await getAttendeeEvents(
-                parsedIntent.attendees,
-                searchWindowStart,
-                searchWindowEnd,
-                context.workspaceId
-            );
-        }
+        const { existingEvents, attendeeEventsMap } = await loadCalendarState(context);
 
         // Generate candidate slots
         const candidates = generateCandidateSlots(
@@ -70,7 +74,8 @@ export async function findAvailableSlots(
             new Date(searchWindowEnd),
             duration,
             context.workingHours,
-            parsedIntent.constraints
+            parsedIntent.constraints,
+            profile.slotGranularityMinutes
         );
 
         logger.debug('Generated candidate slots', { count: candidates.length });
@@ -82,18 +87,18 @@ export async function findAvailableSlots(
                 candidate.end,
                 existingEvents,
                 attendeeEventsMap,
-                context
+                { ...context, profile }
             );
 
-            // Only include slots with reasonable scores
-            if (slot.score >= 40) {
+            // Only include slots that meet the profile's minimum score
+            if (slot.score >= profile.minScore) {
                 slots.push(slot);
             }
         }
 
         // Sort by score and return top results
         const sortedSlots = sortSlotsByScore(slots);
-        const topSlots = sortedSlots.slice(0, 10);
+        const topSlots = sortedSlots.slice(0, profile.maxSuggestions);
 
         logger.success('Found available slots', { count: topSlots.length });
         return topSlots;
@@ -103,6 +108,48 @@ export async function findAvailableSlots(
     }
 }
 
+/**
+ * Re-check a previously suggested slot against current calendar data
+ * The slot is stale if it is in the past, has new conflicts, or (when conflicts are
+ * to be resolved) a conflict the suggestion would have moved can no longer be moved
+ */
+export async function recheckSlot(
+    slot: SuggestedSlot,
+    context: SchedulingContext,
+    autoResolveConflicts: boolean = false
+): Promise<{ stale: boolean; slot: SuggestedSlot }> {
+    try {
+        const slotStart = new Date(slot.startTime);
+        const slotEnd = new Date(slot.endTime);
+
+        const { existingEvents, attendeeEventsMap } = await loadCalendarState(context);
+        const current = await scoreSlot(slotStart, slotEnd, existingEvents, attendeeEventsMap, context);
+
+        const knownConflicts = new Set(slot.conflicts.map(conflict => conflict.eventId));
+        const newConflicts = current.conflicts.filter(conflict => !knownConflicts.has(conflict.eventId));
+        const plannedMoves = new Set((current.requiredMoves || []).map(move => move.eventId));
+        const lostMoves = autoResolveConflicts
+            ? (slot.requiredMoves || []).filter(move =>
+                current.conflicts.some(conflict => conflict.eventId === move.eventId) && !plannedMoves.has(move.eventId))
+            : [];
+
+        const stale = slotStart < new Date() || newConflicts.length > 0 || lostMoves.length > 0;
+
+        logger.debug('Slot re-checked', {
+            slotId: slot.id,
+            stale,
+            newConflicts: newConflicts.length,
+            lostMoves: lostMoves.length
+        });
+
+        // Keep the id the slot was booked by, with moves planned against current data
+        return { stale, slot: { ...current, id: slot.id } };
+    } catch (error) {
+        logger.error('Error re-checking slot', error);
+        throw error;
+    }
+}
+
 /**
  * Score a specific time slot
  */
@@ -113,6 +160,8 @@ export async function scoreSlot(
     attendeeEvents: Map<string, any[]>,
     context: SchedulingContext
 ): Promise<SuggestedSlot> {
+    const profile = context.profile || getDefaultSchedulingProfile();
+
     // Find conflicts
     const conflicts = findConflicts(slotStart, slotEnd, existingEvents);
 
@@ -140,13 +189,14 @@ export async function scoreSlot(
         slotStart,
         slotEnd,
         existingEvents,
-        parseInt(process.env.MIN_EVENT_BUFFER_MINUTES || '15')
+        profile.bufferMinutes
     );
 
     // Calculate moves needed if there are conflicts
-    const requiredMoves = conflicts.length > 0
-        ? proposeEventMoves(conflicts, slotStart, slotEnd, existingEvents)
-        : [];
+    const plan = conflicts.length > 0
+        ? proposeEventMoves(conflicts, slotStart, slotEnd, existingEvents, context)
+        : { moves: [], totalCost: 0, unresolved: [] };
+    const requiredMoves = plan.moves;
 
     const disruptionScore = calculateDisruptionScore(
         requiredMoves.length,
@@ -159,7 +209,8 @@ export async function scoreSlot(
         preferenceScore,
         attendeeScore,
         disruptionScore,
-        bufferScore
+        bufferScore,
+        profile.weights
     );
 
     // Generate warnings
@@ -173,6 +224,16 @@ export async function scoreSlot(
     if (attendeeScore < 75 && attendeeEvents.size > 0) {
         warnings.push('Some attendees may be unavailable');
     }
+    if (conflicts.some(conflict => conflict.isFocusTime)) {
+        warnings.push('Overlaps focus time');
+    }
+    const stuck = plan.unresolved.filter(conflict => conflict.canMove).length;
+    if (stuck > 0) {
+        warnings.push(`${stuck} movable event${stuck > 1 ? 's' : ''} could not be rescheduled`);
+    }
+    if (requiredMoves.length > conflicts.length) {
+        warnings.push(`Moves ${requiredMoves.length} events in total`);
+    }
 
     // Generate human-readable reason
     const reason = generateScoreReason(
@@ -192,12 +253,15 @@ export async function scoreSlot(
             availability: Math.round(availabilityScore),
             preferenceMatch: Math.round(preferenceScore),
             attendeeAvailability: Math.round(attendeeScore),
-            minimalDisruption: Math.round(disruptionScore)
+            minimalDisruption: Math.round(disruptionScore),
+            bufferSpacing: Math.round(bufferScore),
+            weights: profile.weights
         },
         conflicts,
         warnings,
         reason,
-        requiredMoves
+        requiredMoves,
+        moveCost: plan.totalCost
     };
 }
 
@@ -217,14 +281,17 @@ export function findConflicts(
 
         // Check for overlap
         if (slotStart < eventEnd && slotEnd > eventStart) {
+            const focusTime = isFocusTime(event);
+
             conflicts.push({
                 eventId: event.id || event._id,
                 eventTitle: event.title,
                 eventStart: event.startDate,
                 eventEnd: event.endDate,
-                severity: event.isImmutable ? 'hard' : 'soft',
-                canMove: !event.isImmutable && (event.priority === 'low' || event.isFlexible),
-                priority: event.priority || 'medium'
+                severity: event.isImmutable || focusTime ? 'hard' : 'soft',
+                canMove: isMovableEvent(event),
+                priority: event.priority || 'medium',
+                isFocusTime: focusTime
             });
         }
     }
@@ -234,93 +301,87 @@ export function findConflicts(
 
 /**
  * Propose moves for conflicting events
+ * Moves stay within the search window (the events outside it are unknown) and may
+ * cascade to other movable events; see planReschedule for the cost model
  */
 export function proposeEventMoves(
     conflicts: ConflictInfo[],
     slotStart: Date,
     slotEnd: Date,
-    allEvents: any[]
-): EventMove[] {
-    const moves: EventMove[] = [];
-
-    for (const conflict of conflicts) {
-        // Only propose moves for movable events
-        if (!conflict.canMove) {
-            continue;
-        }
-
-        const event = allEvents.find(e => (e.id || e._id) === conflict.eventId);
-        if (!event) continue;
-
-        const eventDuration = new Date(event.endDate).getTime() - new Date(event.startDate).getTime();
-
-        // Try to find a new slot after the requested slot
-        const proposedStart = new Date(slotEnd.getTime() + 15 * 60000); // 15 min buffer
-        const proposedEnd = new Date(proposedStart.getTime() + eventDuration);
+    allEvents: any[],
+    context: SchedulingContext
+): ReschedulePlan {
+    const profile = context.profile || getDefaultSchedulingProfile();
+
+    const plan = planReschedule(slotStart, slotEnd, conflicts, allEvents, {
+        workingHours: context.workingHours,
+        bufferMinutes: profile.bufferMinutes,
+        slotGranularityMinutes: profile.slotGranularityMinutes,
+        horizonStart: new Date(context.searchWindowStart),
+        horizonEnd: new Date(context.searchWindowEnd)
+    });
 
-        // Check if proposed slot conflicts with other events
-        const hasNewConflicts = allEvents.some(e => {
-            if ((e.id || e._id) === conflict.eventId) return false;
-            const eStart = new Date(e.startDate);
-            const eEnd = new Date(e.endDate);
-            return proposedStart < eEnd && proposedEnd > eStart;
+    if (plan.moves.length > 0) {
+        logger.debug('Proposed event moves', {
+            moves: plan.moves.length,
+            totalCost: plan.totalCost,
+            unresolved: plan.unresolved.length
         });
-
-        if (!hasNewConflicts) {
-            moves.push({
-                eventId: conflict.eventId,
-                eventTitle: conflict.eventTitle,
-                currentStart: conflict.eventStart,
-                currentEnd: conflict.eventEnd,
-                proposedStart: proposedStart.toISOString(),
-                proposedEnd: proposedEnd.toISOString(),
-                reason: 'To accommodate new event'
-            });
-        }
     }
 
-    return moves;
+    return plan;
 }
 
 /**
  * Generate candidate time slots
+ * Working hours and time-of-day constraints are evaluated in the working-hours time zone
  */
 function generateCandidateSlots(
     windowStart: Date,
     windowEnd: Date,
     duration: number,
-    workingHours?: { start: string; end: string },
-    constraints?: any
+    workingHours?: { start: string; end: string; timezone?: string },
+    constraints?: any,
+    slotInterval: number = 30 // minutes
 ): Array<{ start: Date; end: Date }> {
     const candidates: Array<{ start: Date; end: Date }> = [];
-    const current = new Date(windowStart);
+    const timeZone = resolveTimeZone(workingHours?.timezone);
+    let current = new Date(windowStart);
+
+    // Move to a time of day on the current day (or a later one) in the zone
+    const moveTo = (time: string, dayOffset: number = 0) => {
+        const [hour, minute] = time.split(':').map(Number);
+        const { year, month, day } = getZonedParts(current, timeZone);
+        current = zonedTimeToUtc(year, month, day + dayOffset, hour, minute || 0, 0, timeZone);
+    };
 
     // Set to start of working hours if specified
     if (workingHours) {
-        const [startHour, startMinute] = workingHours.start.split(':').map(Number);
-        current.setHours(startHour, startMinute, 0, 0);
+        moveTo(workingHours.start);
     }
 
-    // Generate slots every 30 minutes
-    const slotInterval = 30; // minutes
+    // Generate slots every slotInterval minutes
     let iterations = 0;
-    const maxIterations = 1000; // Safety limit
+    const maxIterations = 1000 * Math.ceil(30 / slotInterval); // Safety limit, scaled for finer slots
 
     while (current < windowEnd && iterations < maxIterations) {
+        iterations++;
         const slotEnd = new Date(current.getTime() + duration * 60000);
+        const slotMinutes = getZonedMinutes(current, timeZone);
+
+        // Working hours start earlier on the first day than the window allows
+        if (current < windowStart) {
+            current = new Date(current.getTime() + slotInterval * 60000);
+            continue;
+        }
 
         // Check if slot is within working hours
         if (workingHours) {
-            const [, endHour, endMinute] = workingHours.end.split(':').map(Number);
-            const workingEndTime = current.getHours() * 60 + current.getMinutes();
-            const workingEndMinutes = endHour * 60 + endMinute;
+            const [endHour, endMinute] = workingHours.end.split(':').map(Number);
 
-            if (workingEndTime >= workingEndMinutes) {
+            if (slotMinutes >= endHour * 60 + endMinute) {
                 // Move to next day
-                current.setDate(current.getDate() + 1);
-                const [startHour, startMinute] = workingHours.start.split(':').map(Number);
-                current.setHours(startHour, startMinute, 0, 0);
-                iterations++;
+                moveTo(workingHours.start, 1);
                 continue;
             }
         }
@@ -330,11 +391,8 @@ function generateCandidateSlots(
             // Not before constraint
             if (constraints.notBefore) {
                 const [hour, minute] = constraints.notBefore.split(':').map(Number);
-                const slotMinutes = current.getHours() * 60 + current.getMinutes();
-                const constraintMinutes = hour * 60 + minute;
-                if (slotMinutes < constraintMinutes) {
-                    current.setMinutes(current.getMinutes() + slotInterval);
-                    iterations++;
+                if (slotMinutes < hour * 60 + minute) {
+                    current = new Date(current.getTime() + slotInterval * 60000);
                     continue;
                 }
             }
@@ -342,30 +400,18 @@ function generateCandidateSlots(
             // Not after constraint
             if (constraints.notAfter) {
                 const [hour, minute] = constraints.notAfter.split(':').map(Number);
-                const slotMinutes = current.getHours() * 60 + current.getMinutes();
-                const constraintMinutes = hour * 60 + minute;
-                if (slotMinutes > constraintMinutes) {
+                if (slotMinutes > hour * 60 + minute) {
                     // Move to next day
-                    current.setDate(current.getDate() + 1);
-                    if (workingHours) {
-                        const [startHour, startMinute] = workingHours.start.split(':').map(Number);
-                        current.setHours(startHour, startMinute, 0, 0);
-                    }
-                    iterations++;
+                    moveTo(workingHours ? workingHours.start : '00:00', 1);
                     continue;
                 }
             }
 
             // Preferred days
             if (constraints.preferredDays && constraints.preferredDays.length > 0) {
-                if (!constraints.preferredDays.includes(current.getDay())) {
+                if (!constraints.preferredDays.includes(getZonedParts(current, timeZone).weekday)) {
                     // Skip to next day
-                    current.setDate(current.getDate() + 1);
-                    if (workingHours) {
-                        const [startHour, startMinute] = workingHours.start.split(':').map(Number);
-                        current.setHours(startHour, startMinute, 0, 0);
-                    }
-                    iterations++;
+                    moveTo(workingHours ? workingHours.start : '00:00', 1);
                     continue;
                 }
             }
@@ -376,13 +422,61 @@ function generateCandidateSlots(
             end: slotEnd
         });
 
-        current.setMinutes(current.getMinutes() + slotInterval);
-        iterations++;
+        current = new Date(current.getTime() + slotInterval * 60000);
     }
 
     return candidates;
 }
 
+/**
+ * Load the events a search has to work around: the user's events, focus time,
+ * and the busy time of attendees
+ * Events the user's role does not let them edit still conflict, but are never moved
+ */
+async function loadCalendarState(
+    context: SchedulingContext
+): Promise<{ existingEvents: any[]; attendeeEventsMap: Map<string, any[]> }> {
+    const { parsedIntent, searchWindowStart, searchWindowEnd } = context;
+
+    // Throws unless the user is a member of the workspace
+    const workspace = context.workspaceId ? await getMemberWorkspace(context.workspaceId, context.userId) : null;
+
+    // Get existing events, plus focus time that must be kept free
+    // An event being moved is left out, it never conflicts with its own new time
+    const moving = context.movingEvent;
+    const existingEvents = [
+        ...(await getExistingEvents(
+            context.userId,
+            searchWindowStart,
+            searchWindowEnd,
+            context.workspaceId
+        ))
+            .filter(event => !(moving && event.id === moving.eventId && isSameTime(event.startDate, moving.startDate)))
+            .map(event => canChangeEvent(context.userId, event, workspace) ? event : { ...event, readOnly: true }),
+        ...await getFocusBlocks(
+            context.userId,
+            searchWindowStart,
+            searchWindowEnd,
+            context.workspaceId,
+            context.workingHours?.timezone
+        )
+    ];
+
+    // Get attendee events if needed
+    let attendeeEventsMap = new Map<string, any[]>();
+    if (parsedIntent.attendees && parsedIntent.attendees.length > 0) {
+        attendeeEventsMap = await getAttendeeEvents(
+            parsedIntent.attendees,
+            searchWindowStart,
+            searchWindowEnd,
+            context.userId,
+            context.workspaceId
+        );
+    }
+
+    return { existingEvents, attendeeEventsMap };
+}
+
 /**
  * Get existing events for user in time window
  */
@@ -393,78 +487,151 @@ async function getExistingEvents(
     workspaceId?: string
 ): Promise<any[]> {
     try {
-        let query = eventsCollection
-            .where('userId', '==', userId)
-            .where('startDate', '>=', windowStart)
-            .where('startDate', '<=', windowEnd);
-
-        if (workspaceId) {
-            query = query.where('workspaceId', '==', workspaceId);
-        }
-
-        const snapshot = await query.get();
-        const events = snapshot.docs.map(doc => ({
-            id: doc.id,
-            ...doc.data()
-        }));
+        // Recurring series are expanded so every occurrence counts as a conflict
+        const events = await getEventsInRange(userId, windowStart, windowEnd, workspaceId);
 
         logger.debug('Retrieved existing events', { count: events.length });
         return events;
     } catch (error) {
         logger.error('Error getting existing events', error);
-        return [];
+        throw error; // an empty calendar would let suggestions land on busy time
+    }
+}
+
+/**
+ * Get focus time to keep free: the user's protected windows, and (for workspace
+ * searches, which only see workspace events) focus time in their other calendars
+ */
+async function getFocusBlocks(
+    userId: string,
+    windowStart: string,
+    windowEnd: string,
+    workspaceId?: string,
+    timeZone?: string
+): Promise<any[]> {
+    try {
+        const { protectedWindows } = await getFocusTimeSettings(userId);
+        const blocks = expandProtectedWindows(
+            protectedWindows,
+            new Date(windowStart),
+            new Date(windowEnd),
+            resolveTimeZone(timeZone || await getUserTimeZone(userId))
+        );
+
+        if (workspaceId) {
+            const events = await getEventsInRange(userId, windowStart, windowEnd);
+            blocks.push(...events.filter(event => isFocusTime(event) && event.workspaceId !== workspaceId));
+        }
+
+        logger.debug('Retrieved focus blocks', { count: blocks.length });
+        return blocks;
+    } catch (error) {
+        logger.error('Error getting focus blocks', error);
+        throw error; // an empty calendar would let suggestions land on busy time
     }
 }
 
 /**
- * Get events for attendees
+ * Get busy time for attendees who are members of the workspace
+ * Only start/end times are returned, so other members' event details are never exposed
  */
 async function getAttendeeEvents(
     attendees: string[],
     windowStart: string,
     windowEnd: string,
+    requesterId: string,
     workspaceId?: string
 ): Promise<Map<string, any[]>> {
     const attendeeEventsMap = new Map<string, any[]>();
 
-    // For now, return empty map
-    // In production, this would query workspace members' calendars
-    // with proper permission checks
+    // Attendees can only be resolved against a shared workspace
+    if (!workspaceId) {
+        logger.debug('Attendee availability skipped (no workspace)', {
+            attendees: attendees.length
+        });
+        return attendeeEventsMap;
+    }
 
-    logger.debug('Attendee events query skipped (not implemented)', {
-        attendees: attendees.length
-    });
+    try {
+        // Throws unless the requester is a member of the workspace
+        const members = await getWorkspaceMembers(workspaceId, requesterId);
+        const unresolved: string[] = [];
+
+        for (const attendee of attendees) {
+            const member = resolveAttendee(attendee, members);
+
+            if (!member) {
+                unresolved.push(attendee);
+                continue;
+            }
+
+            // The requester's own calendar is already checked as existing events
+            if (member.uid === requesterId || attendeeEventsMap.has(member.uid)) {
+                continue;
+            }
+
+            try {
+                const busy = await getBusyIntervals(member.uid, windowStart, windowEnd);
+                attendeeEventsMap.set(
+                    member.uid,
+                    busy.map(interval => ({ startDate: interval.start, endDate: interval.end }))
+                );
+            } catch (error) {
+                logger.warn('Could not load attendee busy time', { uid: member.uid });
+            }
+        }
+
+        logger.debug('Retrieved attendee busy time', {
+            resolved: attendeeEventsMap.size,
+            unresolved: unresolved.length
+        });
+    } catch (error) {
+        logger.error('Error getting attendee events', error);
+    }
 
     return attendeeEventsMap;
 }
 
 /**
  * Schedule an event using a suggested slot
+ * The moves and the new event are applied in one transaction and recorded as a
+ * change set, so a failure leaves the calendar untouched and the operation can be undone.
+ * With a target event, the target is moved to the slot instead of creating an event;
+ * an occurrence of a series is detached into an override at the new time.
  */
 export async function scheduleEvent(
     slot: SuggestedSlot,
     parsedIntent: ParsedIntent,
     userId: string,
     workspaceId?: string,
-    autoResolveConflicts: boolean = false
-): Promise<{ eventId: string; movedEvents: EventMove[] }> {
+    autoResolveConflicts: boolean = false,
+    targetEvent?: CommandTarget
+): Promise<{ eventId: string; operationId: string; movedEvents: EventMove[]; attendees: EventAttendee[] }> {
     try {
         logger.debug('Scheduling event', {
             slotId: slot.id,
-            autoResolve: autoResolveConflicts
+            autoResolve: autoResolveConflicts,
+            targetEventId: targetEvent?.eventId
         });
 
-        const movedEvents: EventMove[] = [];
-
         // If auto-resolve is enabled and there are conflicts, move them
-        if (autoResolveConflicts && slot.requiredMoves && slot.requiredMoves.length > 0) {
-            for (const move of slot.requiredMoves) {
-                await moveEvent(move);
-                movedEvents.push(move);
-            }
-        }
+        const movedEvents: EventMove[] = autoResolveConflicts ? slot.requiredMoves || [] : [];
 
         // Create the new event
+        const rrule = normalizeRecurrence(parsedIntent.recurrence);
+        const { attendees, unresolved } = targetEvent
+            ? { attendees: [], unresolved: [] }
+            : await buildAttendeeList(
+                parsedIntent.attendees || [],
+                userId,
+                [],
+                workspaceId
+            );
+        if (unresolved.length > 0) {
+            logger.warn('Some attendees could not be resolved', { unresolved });
+        }
+
+        const now = new Date().toISOString();
         const newEvent = {
             userId,
             workspaceId: workspaceId || null,
@@ -472,22 +639,190 @@ export async function scheduleEvent(
             description: parsedIntent.description || '',
             startDate: slot.startTime,
             endDate: slot.endTime,
+            timeZone: await getUserTimeZone(userId),
             isAllDay: false,
+            rrule,
+            isRecurring: rrule !== null,
             priority: parsedIntent.priority || 'medium',
             isFlexible: parsedIntent.isFlexible || false,
             isImmutable: parsedIntent.isImmutable || false,
             location: parsedIntent.location,
+            attendees,
+            attendeeUids: getAttendeeUids(attendees),
             createdBy: userId,
-            createdAt: new Date().toISOString()
+            createdAt: now
         };
 
-        const docRef = await eventsCollection.add(newEvent);
+        const eventRef = eventsCollection.doc();
+        const operationRef = operationsCollection.doc();
+
+        const changeSet = await db.runTransaction(async (transaction) => {
+            // Moves come from the client's copy of the slot, so check each event is unchanged
+            const moveRefs = movedEvents.map(move => eventsCollection.doc(move.eventId));
+            const moveDocs = await Promise.all(moveRefs.map(ref => transaction.get(ref)));
+            const targetRef = targetEvent ? eventsCollection.doc(targetEvent.eventId) : null;
+            const targetDoc = targetRef ? await transaction.get(targetRef) : null;
+            const workspaceDoc = workspaceId ? await transaction.get(workspacesCollection.doc(workspaceId)) : null;
+
+            let workspace: Workspace | null = null;
+            if (workspaceDoc) {
+                if (!workspaceDoc.exists) {
+                    throw new Error('Workspace not found');
+                }
+                workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+                const role = getMemberRole(workspace, userId);
+                assertWorkspaceWritable(workspace);
+
+                if (!targetEvent && !canCreateEvent(role, workspace.customRoles)) {
+                    throw new Error('Access denied: Your role does not allow creating events');
+                }
+            }
+
+            // Teammates' events are only moved when the user's role allows editing them
+            const checkAccess = (event: any, title: string) => {
+                if (!canChangeEvent(userId, event, workspace)) {
+                    throw new Error(`Access denied to event "${title}"`);
+                }
+            };
+
+            moveDocs.forEach((doc, index) => {
+                const move = movedEvents[index];
+                const event = doc.data();
+
+                if (!doc.exists || !event) {
+                    throw new Error(`Event "${move.eventTitle}" not found`);
+                }
+                checkAccess(event, move.eventTitle);
+                // Series documents hold every occurrence, and focus time is never moved
+                if (!isMovableEvent(event) || event.isRecurring) {
+                    throw new Error(`Event "${move.eventTitle}" cannot be moved`);
+                }
+                if (!isSameTime(event.startDate, move.currentStart) || !isSameTime(event.endDate, move.currentEnd)) {
+                    throw new Error(`Event "${move.eventTitle}" has changed since the suggestion was made`);
+                }
+            });
+
+            // The target was asked for by name, so it is moved even if the scheduler would not move it
+            if (targetEvent) {
+                const event = targetDoc?.data();
 
-        logger.success('Event scheduled successfully', { eventId: docRef.id });
+                if (!event) {
+                    throw new Error(`Event "${targetEvent.title}" not found`);
+                }
+                checkAccess(event, targetEvent.title);
+                const changed = targetEvent.occurrenceStart
+                    ? (event.exdates || []).some((date: string) => isSameTime(date, targetEvent.occurrenceStart!))
+                    : event.isRecurring || !isSameTime(event.startDate, targetEvent.startDate);
+                if (changed) {
+                    throw new Error(`Event "${targetEvent.title}" has changed since the suggestion was made`);
+                }
+            }
+
+            moveRefs.forEach((ref, index) => {
+                transaction.update(ref, {
+                    startDate: movedEvents[index].proposedStart,
+                    endDate: movedEvents[index].proposedEnd,
+                    updatedAt: now
+                });
+            });
+
+            const operation: Omit<ScheduleChangeSet, 'id'> = {
+                userId,
+                workspaceId: workspaceId || null,
+                action: 'create',
+                createdEventId: eventRef.id,
+                createdEventTitle: newEvent.title,
+                movedEvents,
+                status: 'applied',
+                createdAt: now
+            };
+
+            if (!targetEvent || !targetRef) {
+                transaction.set(eventRef, newEvent);
+            } else if (targetEvent.occurrenceStart) {
+                const occurrenceStart = targetEvent.occurrenceStart;
+                transaction.set(eventRef, buildOccurrenceOverride(
+                    targetEvent.eventId,
+                    targetDoc!.data(),
+                    new Date(occurrenceStart),
+                    { startDate: slot.startTime, endDate: slot.endTime }
+                ));
+                transaction.update(targetRef, {
+                    exdates: FieldValue.arrayUnion(occurrenceStart),
+                    updatedAt: now
+                });
+
+                operation.action = 'move';
+                operation.createdEventTitle = targetEvent.title;
+                operation.excludedOccurrence = { seriesId: targetEvent.eventId, occurrenceStart };
+            } else {
+                transaction.update(targetRef, {
+                    startDate: slot.startTime,
+                    endDate: slot.endTime,
+                    updatedAt: now
+                });
+
+                // Recorded with the other moves, so undo puts it back the same way
+                operation.action = 'move';
+                operation.createdEventId = undefined;
+                operation.createdEventTitle = targetEvent.title;
+                operation.movedEvents = [{
+                    eventId: targetEvent.eventId,
+                    eventTitle: targetEvent.title,
+                    currentStart: targetEvent.startDate,
+                    currentEnd: targetEvent.endDate,
+                    proposedStart: slot.startTime,
+                    proposedEnd: slot.endTime,
+                    reason: 'Moved as requested'
+                }, ...movedEvents];
+            }
+
+            transaction.set(operationRef, operation);
+
+            await recordAudit({
+                workspaceId,
+                actor: { uid: userId },
+                action: 'event.schedule',
+                target: {
+                    type: 'event',
+                    id: operation.createdEventId || targetEvent!.eventId,
+                    name: operation.createdEventTitle
+                },
+                changes: targetEvent
+                    ? {
+                        startDate: { before: targetEvent.occurrenceStart || targetEvent.startDate, after: slot.startTime },
+                        endDate: { before: targetEvent.endDate, after: slot.endTime }
+                    }
+                    : undefined,
+                metadata: {
+                    operationId: operationRef.id,
+                    scheduleAction: operation.action,
+                    movedEvents: movedEvents.map(move => ({
+                        eventId: move.eventId,
+                        title: move.eventTitle,
+                        from: move.currentStart,
+                        to: move.proposedStart
+                    }))
+                }
+            }, transaction);
+
+            return operation;
+        });
+
+        const eventId = changeSet.createdEventId || targetEvent!.eventId;
+
+        logger.success('Event scheduled successfully', {
+            eventId,
+            operationId: operationRef.id,
+            action: changeSet.action,
+            movedEvents: movedEvents.length
+        });
 
         return {
-            eventId: docRef.id,
-            movedEvents
+            eventId,
+            operationId: operationRef.id,
+            movedEvents,
+            attendees
         };
     } catch (error) {
         logger.error('Error scheduling event', error);
@@ -496,19 +831,204 @@ export async function scheduleEvent(
 }
 
 /**
- * Move an event to a new time
+ * Undo an AI schedule operation: move the events back and delete the created event
+ * (for a moved occurrence, delete its override and put the occurrence back in the series)
+ * Fails without changing anything if a moved event was edited after the operation
+ */
+export async function undoScheduleOperation(
+    operationId: string,
+    userId: string
+): Promise<ScheduleChangeSet> {
+    try {
+        logger.debug('Undoing schedule operation', { operationId, userId });
+
+        const operationRef = operationsCollection.doc(operationId);
+
+        const changeSet = await db.runTransaction(async (transaction) => {
+            const operationDoc = await transaction.get(operationRef);
+
+            if (!operationDoc.exists) {
+                throw new Error('Schedule operation not found');
+            }
+
+            const operation = { id: operationDoc.id, ...operationDoc.data() } as ScheduleChangeSet;
+
+            if (operation.userId !== userId) {
+                throw new Error('Access denied to schedule operation');
+            }
+            if (operation.status === 'undone') {
+                throw new Error('Schedule operation has already been undone');
+            }
+
+            // Undo changes workspace events too, so only members of a writable workspace can
+            const workspaceDoc = operation.workspaceId
+                ? await transaction.get(workspacesCollection.doc(operation.workspaceId))
+                : null;
+            if (workspaceDoc) {
+                if (!workspaceDoc.exists) {
+                    throw new Error('Workspace not found');
+                }
+                const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+                getMemberRole(workspace, userId);
+                assertWorkspaceWritable(workspace);
+            }
+
+            const createdRef = operation.createdEventId ? eventsCollection.doc(operation.createdEventId) : null;
+            const moveRefs = operation.movedEvents.map(move => eventsCollection.doc(move.eventId));
+            const createdDoc = createdRef ? await transaction.get(createdRef) : null;
+            const moveDocs = await Promise.all(moveRefs.map(ref => transaction.get(ref)));
+
+            moveDocs.forEach((doc, index) => {
+                const move = operation.movedEvents[index];
+                const event = doc.data();
+
+                // Events deleted since have nothing to restore
+                if (event && (!isSameTime(event.startDate, move.proposedStart) || !isSameTime(event.endDate, move.proposedEnd))) {
+                    throw new Error(`Event "${move.eventTitle}" has changed since it was moved and cannot be restored`);
+                }
+            });
+
+            const now = new Date().toISOString();
+            moveDocs.forEach((doc, index) => {
+                if (!doc.exists) return;
+                transaction.update(moveRefs[index], {
+                    startDate: operation.movedEvents[index].currentStart,
+                    endDate: operation.movedEvents[index].currentEnd,
+                    updatedAt: now
+                });
+            });
+
+            if (createdRef && createdDoc?.exists) {
+                transaction.delete(createdRef);
+            }
+
+            if (operation.excludedOccurrence) {
+                transaction.update(eventsCollection.doc(operation.excludedOccurrence.seriesId), {
+                    exdates: FieldValue.arrayRemove(operation.excludedOccurrence.occurrenceStart),
+                    updatedAt: now
+                });
+            }
+
+            transaction.update(operationRef, { status: 'undone', undoneAt: now });
+
+            return { ...operation, status: 'undone' as const, undoneAt: now };
+        });
+
+        logger.success('Schedule operation undone', {
+            operationId,
+            restoredEvents: changeSet.movedEvents.length
+        });
+
+        return changeSet;
+    } catch (error) {
+        logger.error('Error undoing schedule operation', error);
+        throw error;
+    }
+}
+
+/**
+ * Compare two ISO timestamps by instant rather than by string
  */
-async function moveEvent(move: EventMove): Promise<void> {
+function isSameTime(a: string, b: string): boolean {
+    return new Date(a).getTime() === new Date(b).getTime();
+}
+
+/**
+ * Place focus blocks into the free time of a week, up to the user's weekly target
+ * Focus time already in the week counts towards the target; at most one block is placed per day.
+ */
+export async function placeWeeklyFocusTime(
+    userId: string,
+    weekStart: Date,
+    profile?: SchedulingProfile
+): Promise<any[]> {
     try {
-        await eventsCollection.doc(move.eventId).update({
-            startDate: move.proposedStart,
-            endDate: move.proposedEnd,
-            updatedAt: new Date().toISOString()
+        const settings = await getFocusTimeSettings(userId);
+        const timeZone = await getUserTimeZone(userId);
+        const windowEnd = new Date(weekStart.getTime() + 7 * 24 * 60 * 60 * 1000);
+        const windowStart = new Date(Math.max(weekStart.getTime(), Date.now()));
+
+        logger.debug('Placing weekly focus time', { userId, weekStart: weekStart.toISOString() });
+
+        const events = await getEventsInRange(userId, weekStart.toISOString(), windowEnd.toISOString());
+        const focusBlocks = [
+            ...events.filter(isFocusTime),
+            ...expandProtectedWindows(settings.protectedWindows, weekStart, windowEnd, timeZone)
+        ];
+
+        const dayKey = (date: Date) => {
+            const { year, month, day } = getZonedParts(date, timeZone);
+            return `${year}-${month}-${day}`;
+        };
+
+        let remaining = settings.weeklyFocusMinutes - focusBlocks.reduce((total, block) =>
+            total + (new Date(block.endDate).getTime() - new Date(block.startDate).getTime()) / 60000, 0);
+        const focusDays = new Set(focusBlocks.map(block => dayKey(new Date(block.startDate))));
+
+        if (remaining <= 0 || windowStart >= windowEnd) {
+            logger.info('Weekly focus target already met', { userId });
+            return [];
+        }
+
+        const candidates = await findAvailableSlots({
+            userId,
+            parsedIntent: { title: 'Focus time', duration: settings.focusBlockMinutes },
+            searchWindowStart: windowStart.toISOString(),
+            searchWindowEnd: windowEnd.toISOString(),
+            workingHours: {
+                start: process.env.WORKING_HOURS_START || '09:00',
+                end: process.env.WORKING_HOURS_END || '17:00',
+                timezone: timeZone
+            },
+            // Every candidate is needed to spread blocks across days
+            profile: { ...(profile || getDefaultSchedulingProfile()), maxSuggestions: 500 }
+        });
+
+        const placed: SuggestedSlot[] = [];
+        for (const slot of candidates) {
+            if (remaining <= 0) break;
+
+            const day = dayKey(new Date(slot.startTime));
+            const overlapsPlaced = placed.some(p => slot.startTime < p.endTime && slot.endTime > p.startTime);
+            if (slot.conflicts.length > 0 || focusDays.has(day) || overlapsPlaced) continue;
+
+            placed.push(slot);
+            focusDays.add(day);
+            remaining -= settings.focusBlockMinutes;
+        }
+
+        const batch = db.batch();
+        const created = placed.map(slot => {
+            const docRef = eventsCollection.doc();
+            const event = {
+                userId,
+                createdBy: userId,
+                workspaceId: null,
+                title: 'Focus time',
+                description: '',
+                eventType: 'focusTime',
+                startDate: slot.startTime,
+                endDate: slot.endTime,
+                timeZone,
+                isAllDay: false,
+                recurrence: 'none',
+                rrule: null,
+                isRecurring: false,
+                priority: 'high',
+                createdAt: new Date().toISOString()
+            };
+            batch.set(docRef, event);
+            return { _id: docRef.id, id: docRef.id, ...event };
         });
 
-        logger.info('Event moved', { eventId: move.eventId });
+        if (created.length > 0) {
+            await batch.commit();
+        }
+
+        logger.success('Weekly focus time placed', { userId, blocks: created.length });
+        return created;
     } catch (error) {
-        logger.error('Error moving event', error);
+        logger.error('Error placing weekly focus time', error);
         throw error;
     }
 }
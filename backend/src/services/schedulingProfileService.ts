@@ -0,0 +1,111 @@
+/**
+ * Scheduling Profile Service
+ * Stores user and workspace scheduling profiles and resolves the one a search uses
+ */
+
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import { mergeSchedulingProfiles, pickSchedulingProfile } from '../utils/schedulingProfile';
+import { SchedulingProfile } from '../types/ai';
+
+const userSettingsCollection = db.collection('userSettings');
+const workspacesCollection = db.collection('workspaces');
+
+/**
+ * Get the stored (partial) profile of a user
+ */
+const getStoredUserProfile = async (userId: string): Promise<Partial<SchedulingProfile> | undefined> => {
+    const doc = await userSettingsCollection.doc(userId).get();
+    return doc.data()?.schedulingProfile;
+};
+
+/**
+ * Get the stored (partial) profile of a workspace
+ */
+const getStoredWorkspaceProfile = async (workspaceId: string): Promise<Partial<SchedulingProfile> | undefined> => {
+    const doc = await workspacesCollection.doc(workspaceId).get();
+    if (!doc.exists) {
+        throw new Error('Workspace not found');
+    }
+    return doc.data()?.schedulingProfile;
+};
+
+/**
+ * Resolve the profile for a slot search
+ * The workspace profile (team norms) takes precedence over the user's own profile
+ */
+export const getSchedulingProfile = async (
+    userId: string,
+    workspaceId?: string
+): Promise<SchedulingProfile> => {
+    try {
+        const [userProfile, workspaceProfile] = await Promise.all([
+            getStoredUserProfile(userId),
+            workspaceId ? getStoredWorkspaceProfile(workspaceId) : Promise.resolve(undefined)
+        ]);
+
+        return mergeSchedulingProfiles(userProfile, workspaceProfile);
+    } catch (error) {
+        logger.error('Error resolving scheduling profile', error);
+        return mergeSchedulingProfiles();
+    }
+};
+
+/**
+ * Get a user's profile with defaults filled in
+ */
+export const getUserSchedulingProfile = async (userId: string): Promise<SchedulingProfile> => {
+    return mergeSchedulingProfiles(await getStoredUserProfile(userId));
+};
+
+/**
+ * Get a workspace's profile with defaults filled in
+ */
+export const getWorkspaceSchedulingProfile = async (workspaceId: string): Promise<SchedulingProfile> => {
+    return mergeSchedulingProfiles(await getStoredWorkspaceProfile(workspaceId));
+};
+
+/**
+ * Update a user's profile (fields not given are kept)
+ */
+export const updateUserSchedulingProfile = async (
+    userId: string,
+    input: any
+): Promise<SchedulingProfile> => {
+    try {
+        await userSettingsCollection.doc(userId).set(
+            { schedulingProfile: pickSchedulingProfile(input) },
+            { merge: true }
+        );
+
+        logger.success(`Scheduling profile updated for user: ${userId}`);
+        return await getUserSchedulingProfile(userId);
+    } catch (error) {
+        logger.error('Error updating user scheduling profile', error);
+        throw error;
+    }
+};
+
+/**
+ * Update a workspace's profile (fields not given are kept)
+ */
+export const updateWorkspaceSchedulingProfile = async (
+    workspaceId: string,
+    input: any
+): Promise<SchedulingProfile> => {
+    try {
+        await workspacesCollection.doc(workspaceId).set(
+            {
+                schedulingProfile: pickSchedulingProfile(input),
+                updatedAt: new Date().toISOString()
+            },
+            { merge: true }
+        );
+
+        logger.success(`Scheduling profile updated for workspace: ${workspaceId}`);
+        return await getWorkspaceSchedulingProfile(workspaceId);
+    } catch (error) {
+        logger.error('Error updating workspace scheduling profile', error);
+        throw error;
+    }
+};
@@ -0,0 +1,154 @@
+/**
+ * Scheduling Session Service
+ * Stores multi-turn scheduling conversations and merges each answer into the intent
+ */
+
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import { getMemberWorkspace } from './roleService';
+import { ParsedIntent, SchedulingSession, SessionTurn } from '../types/ai';
+
+const sessionsCollection = db.collection('schedulingSessions');
+
+// Longer conversations are unlikely to converge; the user should start over
+const MAX_SESSION_TURNS = 20;
+
+// Intent field that answers each ambiguity the parsers report
+const AMBIGUITY_FIELDS: Record<string, keyof ParsedIntent> = {
+    start_time: 'startDate',
+    move_time: 'startDate',
+    title: 'title',
+    duration: 'duration',
+    attendees: 'attendees',
+    location: 'location'
+};
+
+/**
+ * Start a new session
+ */
+export const startSession = async (userId: string, workspaceId?: string): Promise<SchedulingSession> => {
+    try {
+        if (workspaceId) {
+            await getMemberWorkspace(workspaceId, userId);
+        }
+
+        const docRef = sessionsCollection.doc();
+        const now = new Date().toISOString();
+        const session: Omit<SchedulingSession, 'id'> = {
+            userId,
+            workspaceId: workspaceId || null,
+            status: 'clarifying',
+            turns: [],
+            parsedIntent: {},
+            ambiguities: [],
+            createdAt: now,
+            updatedAt: now
+        };
+
+        await docRef.set(session);
+
+        logger.debug('Scheduling session started', { sessionId: docRef.id, userId });
+        return { id: docRef.id, ...session };
+    } catch (error) {
+        logger.error('Error starting scheduling session', error);
+        throw error;
+    }
+};
+
+/**
+ * Get a session owned by the user
+ * A workspace session is only returned while the user is still a member of the workspace
+ */
+export const getSession = async (sessionId: string, userId: string): Promise<SchedulingSession> => {
+    const doc = await sessionsCollection.doc(sessionId).get();
+
+    if (!doc.exists) {
+        throw new Error('Scheduling session not found');
+    }
+
+    const session = { id: doc.id, ...doc.data() } as SchedulingSession;
+
+    if (session.userId !== userId) {
+        throw new Error('Access denied to scheduling session');
+    }
+    if (session.workspaceId) {
+        await getMemberWorkspace(session.workspaceId, userId);
+    }
+
+    return session;
+};
+
+/**
+ * Check that a session can take another user turn
+ */
+export const assertSessionOpen = (session: SchedulingSession): void => {
+    if (session.status === 'booked' || session.status === 'applied') {
+        throw new Error('Scheduling session has already ended');
+    }
+    if (session.turns.length >= MAX_SESSION_TURNS) {
+        throw new Error('Scheduling session is too long, please start a new request');
+    }
+};
+
+/**
+ * The conversation so far as one request, user turns in order
+ * Parsers see every answer together, so later answers can complete earlier ones
+ */
+export const getSessionPrompt = (session: SchedulingSession, nextMessage?: string): string => {
+    const messages = session.turns.filter(turn => turn.role === 'user').map(turn => turn.text);
+    if (nextMessage) messages.push(nextMessage);
+    return messages.join('\n');
+};
+
+/**
+ * Merge a newly parsed intent over the stored one
+ * Fields the new parse leaves out are kept, and ambiguities already answered are dropped
+ */
+export const mergeParsedIntent = (previous: ParsedIntent, next: ParsedIntent): ParsedIntent => {
+    const merged: ParsedIntent = { ...previous };
+
+    for (const [key, value] of Object.entries(next)) {
+        if (value !== undefined && value !== null && key !== 'ambiguities') {
+            (merged as any)[key] = value;
+        }
+    }
+
+    merged.ambiguities = (next.ambiguities || []).filter(ambiguity => {
+        const field = AMBIGUITY_FIELDS[ambiguity];
+        return !field || merged[field] === undefined;
+    });
+
+    return merged;
+};
+
+/**
+ * Append turns to a session and update its state
+ */
+export const recordTurns = async (
+    session: SchedulingSession,
+    turns: Array<Omit<SessionTurn, 'createdAt'>>,
+    updates: Partial<Omit<SchedulingSession, 'id' | 'userId' | 'turns' | 'createdAt'>> = {}
+): Promise<SchedulingSession> => {
+    try {
+        const now = new Date().toISOString();
+        const updated: SchedulingSession = {
+            ...session,
+            ...updates,
+            turns: [...session.turns, ...turns.map(turn => ({ ...turn, createdAt: now }))],
+            updatedAt: now
+        };
+
+        const { id, ...data } = updated;
+        await sessionsCollection.doc(id).set(data);
+
+        logger.debug('Scheduling session updated', {
+            sessionId: id,
+            status: updated.status,
+            turns: updated.turns.length
+        });
+        return updated;
+    } catch (error) {
+        logger.error('Error updating scheduling session', error);
+        throw error;
+    }
+};
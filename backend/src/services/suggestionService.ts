@@ -0,0 +1,100 @@
+/**
+ * Suggestion Service
+ * Persists AI slot suggestions so bookings reference a server-side slot by id
+ */
+
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import { SchedulingContext, StoredSuggestion, SuggestedSlot } from '../types/ai';
+import { v4 as uuidv4 } from 'uuid';
+
+const suggestionsCollection = db.collection('aiSuggestions');
+
+// Suggestions are only bookable for a limited time
+const SUGGESTION_TTL_MINUTES = parseInt(process.env.AI_SUGGESTION_TTL_MINUTES || '30');
+
+/**
+ * Store a suggestion set, one document per slot keyed by the slot id
+ */
+export const saveSuggestions = async (
+    context: SchedulingContext,
+    slots: SuggestedSlot[]
+): Promise<string> => {
+    try {
+        const suggestionSetId = uuidv4();
+        const now = new Date();
+        const expiresAt = new Date(now.getTime() + SUGGESTION_TTL_MINUTES * 60000).toISOString();
+
+        const batch = db.batch();
+        for (const slot of slots) {
+            const suggestion: StoredSuggestion = {
+                slotId: slot.id,
+                suggestionSetId,
+                userId: context.userId,
+                workspaceId: context.workspaceId || null,
+                slot,
+                parsedIntent: context.parsedIntent,
+                searchWindowStart: context.searchWindowStart,
+                searchWindowEnd: context.searchWindowEnd,
+                workingHours: context.workingHours,
+                targetEvent: context.movingEvent,
+                createdAt: now.toISOString(),
+                expiresAt
+            };
+            batch.set(suggestionsCollection.doc(slot.id), suggestion);
+        }
+
+        if (slots.length > 0) {
+            await batch.commit();
+        }
+
+        logger.debug('Suggestions stored', { suggestionSetId, count: slots.length });
+        return suggestionSetId;
+    } catch (error) {
+        logger.error('Error storing suggestions', error);
+        throw error;
+    }
+};
+
+/**
+ * Get a stored suggestion the user may book
+ */
+export const getSuggestion = async (slotId: string, userId: string): Promise<StoredSuggestion> => {
+    const doc = await suggestionsCollection.doc(slotId).get();
+
+    if (!doc.exists) {
+        throw new Error('Suggestion not found');
+    }
+
+    const suggestion = doc.data() as StoredSuggestion;
+
+    if (suggestion.userId !== userId) {
+        throw new Error('Access denied to suggestion');
+    }
+
+    if (new Date(suggestion.expiresAt) < new Date()) {
+        throw new Error('Suggestion has expired');
+    }
+
+    return suggestion;
+};
+
+/**
+ * Delete all slots of a suggestion set (once booked or superseded)
+ */
+export const discardSuggestionSet = async (suggestionSetId: string): Promise<void> => {
+    try {
+        const snapshot = await suggestionsCollection
+            .where('suggestionSetId', '==', suggestionSetId)
+            .get();
+
+        const batch = db.batch();
+        snapshot.docs.forEach(doc => batch.delete(doc.ref));
+        await batch.commit();
+
+        logger.debug('Suggestion set discarded', { suggestionSetId, count: snapshot.size });
+    } catch (error) {
+        // Leftover suggestions expire on their own
+        logger.error('Error discarding suggestion set', error);
+    }
+};
@@ -0,0 +1,63 @@
+/**
+ * User Settings Service
+ * Shared lookups of per-user preferences stored in the userSettings collection
+ */
+
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import { DEFAULT_TIME_ZONE, resolveTimeZone } from '../utils/timezone';
+import { DEFAULT_FOCUS_TIME_SETTINGS } from '../utils/focusTime';
+import { FocusTimeSettings } from '../types/event';
+
+const userSettingsCollection = db.collection('userSettings');
+
+/**
+ * Get a user's IANA time zone, falling back to the settings default
+ */
+export const getUserTimeZone = async (userId: string): Promise<string> => {
+    try {
+        const doc = await userSettingsCollection.doc(userId).get();
+        return resolveTimeZone(doc.data()?.timezone);
+    } catch (error) {
+        logger.error('Error fetching user time zone', error);
+        return DEFAULT_TIME_ZONE;
+    }
+};
+
+/**
+ * Get a user's focus time settings, with defaults for fields not set
+ */
+export const getFocusTimeSettings = async (userId: string): Promise<FocusTimeSettings> => {
+    try {
+        const doc = await userSettingsCollection.doc(userId).get();
+        return { ...DEFAULT_FOCUS_TIME_SETTINGS, ...doc.data()?.focusTime };
+    } catch (error) {
+        logger.error('Error fetching focus time settings', error);
+        return { ...DEFAULT_FOCUS_TIME_SETTINGS };
+    }
+};
+
+/**
+ * Update a user's focus time settings (fields not given are kept)
+ */
+export const updateFocusTimeSettings = async (
+    userId: string,
+    input: Partial<FocusTimeSettings>
+): Promise<FocusTimeSettings> => {
+    const focusTime: Partial<FocusTimeSettings> = {};
+    if (input.protectedWindows !== undefined) {
+        focusTime.protectedWindows = input.protectedWindows.map(({ label, days, start, end }) => ({
+            label: label || '',
+            days,
+            start,
+            end
+        }));
+    }
+    if (input.weeklyFocusMinutes !== undefined) focusTime.weeklyFocusMinutes = input.weeklyFocusMinutes;
+    if (input.focusBlockMinutes !== undefined) focusTime.focusBlockMinutes = input.focusBlockMinutes;
+
+    await userSettingsCollection.doc(userId).set({ focusTime }, { merge: true });
+
+    logger.success(`Focus time settings updated for user: ${userId}`);
+    return getFocusTimeSettings(userId);
+};
@@ -0,0 +1,351 @@
+/**
+ * Workspace Lifecycle Service
+ * Archiving, soft deletion and restoring of workspaces, and purging deleted ones with
+ * everything that belongs to them once their retention window has passed
+ */
+
+import { Query } from 'firebase-admin/firestore';
+import { db } from '../config/firebase';
+import { logger } from '../utils/logger';
+import { recordAudit } from './auditService';
+import { deleteAllImageSizes } from './cloudinaryStorage';
+import { getWorkspaceStatus, WORKSPACE_RETENTION_DAYS } from '../utils/workspaceUtils';
+import { Workspace } from '../types/workspace';
+import { AuditActor } from '../types/audit';
+
+const workspacesCollection = db.collection('workspaces');
+
+// Firestore batches hold at most 500 writes
+const PURGE_BATCH_SIZE = 500;
+
+// Collections whose documents carry the workspaceId they belong to
+// The audit log is kept so deletions stay accountable after the purge
+const DEPENDENT_COLLECTIONS = [
+    'events',
+    'reminders',
+    'calendarImageLayouts',
+    'invites',
+    'inviteCodes',
+    'notifications',
+    'calendarFeeds',
+    'scheduleOperations',
+    'aiSuggestions',
+    'schedulingSessions',
+    'aiCommands'
+];
+
+const PURGE_ACTOR: AuditActor = { uid: 'system', name: 'Retention purge' };
+
+export interface PurgeReport {
+    workspaceId: string;
+    deleted: Record<string, number>;
+}
+
+/**
+ * Archive a workspace, making it read-only for everyone
+ */
+export const setWorkspaceArchived = async (workspaceId: string, actor: AuditActor): Promise<Workspace> => {
+    try {
+        logger.debug(`Archiving workspace ${workspaceId}`);
+
+        const result = await db.runTransaction(async (transaction) => {
+            const workspaceRef = workspacesCollection.doc(workspaceId);
+            const workspaceDoc = await transaction.get(workspaceRef);
+
+            if (!workspaceDoc.exists) {
+                throw new Error('Workspace not found');
+            }
+
+            const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+            const status = getWorkspaceStatus(workspace);
+            if (status !== 'active') {
+                throw new Error(`Cannot archive a workspace that is ${status}`);
+            }
+
+            const now = new Date().toISOString();
+            const updates = {
+                status: 'archived' as const,
+                archivedAt: now,
+                pendingTransfer: null,
+                updatedAt: now
+            };
+
+            transaction.update(workspaceRef, updates);
+
+            await recordAudit({
+                workspaceId,
+                actor,
+                action: 'workspace.archive',
+                target: { type: 'workspace', id: workspaceId, name: workspace.name },
+                changes: { status: { before: status, after: 'archived' } }
+            }, transaction);
+
+            return { ...workspace, ...updates };
+        });
+
+        logger.success(`Workspace ${workspaceId} archived`);
+        return result;
+    } catch (error) {
+        logger.error('Error archiving workspace', error);
+        throw error;
+    }
+};
+
+/**
+ * Soft-delete a workspace; it disappears for members and is purged after the retention window
+ */
+export const setWorkspaceDeleted = async (workspaceId: string, actor: AuditActor): Promise<Workspace> => {
+    try {
+        logger.debug(`Deleting workspace ${workspaceId}`);
+
+        const result = await db.runTransaction(async (transaction) => {
+            const workspaceRef = workspacesCollection.doc(workspaceId);
+            const workspaceDoc = await transaction.get(workspaceRef);
+
+            if (!workspaceDoc.exists) {
+                throw new Error('Workspace not found');
+            }
+
+            const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+            const status = getWorkspaceStatus(workspace);
+            if (status === 'deleted') {
+                throw new Error('Workspace is already deleted');
+            }
+
+            const now = new Date();
+            const purgeAt = new Date(now);
+            purgeAt.setDate(purgeAt.getDate() + WORKSPACE_RETENTION_DAYS);
+
+            const updates = {
+                status: 'deleted' as const,
+                deletedAt: now.toISOString(),
+                deletedBy: actor.uid,
+                purgeAt: purgeAt.toISOString(),
+                pendingTransfer: null,
+                updatedAt: now.toISOString()
+            };
+
+            transaction.update(workspaceRef, updates);
+
+            await recordAudit({
+                workspaceId,
+                actor,
+                action: 'workspace.delete',
+                target: { type: 'workspace', id: workspaceId, name: workspace.name },
+                changes: { status: { before: status, after: 'deleted' } },
+                metadata: { purgeAt: updates.purgeAt }
+            }, transaction);
+
+            return { ...workspace, ...updates };
+        });
+
+        logger.success(`Workspace ${workspaceId} deleted, purging after ${result.purgeAt}`);
+        return result;
+    } catch (error) {
+        logger.error('Error deleting workspace', error);
+        throw error;
+    }
+};
+
+/**
+ * Make an archived or deleted workspace active again
+ */
+export const setWorkspaceActive = async (workspaceId: string, actor: AuditActor): Promise<Workspace> => {
+    try {
+        logger.debug(`Restoring workspace ${workspaceId}`);
+
+        const result = await db.runTransaction(async (transaction) => {
+            const workspaceRef = workspacesCollection.doc(workspaceId);
+            const workspaceDoc = await transaction.get(workspaceRef);
+
+            if (!workspaceDoc.exists) {
+                throw new Error('Workspace not found');
+            }
+
+            const workspace = { id: workspaceDoc.id, ...workspaceDoc.data() } as Workspace;
+            const status = getWorkspaceStatus(workspace);
+            if (status === 'active') {
+                throw new Error('Cannot restore a workspace that is active');
+            }
+            if (workspace.purgeStartedAt) {
+                throw new Error('Cannot restore a workspace that is being purged');
+            }
+
+            const updates = {
+                status: 'active' as const,
+                archivedAt: null,
+                deletedAt: null,
+                deletedBy: null,
+                purgeAt: null,
+                updatedAt: new Date().toISOString()
+            };
+
+            transaction.update(workspaceRef, updates);
+
+            await recordAudit({
+                workspaceId,
+                actor,
+                action: 'workspace.restore',
+                target: { type: 'workspace', id: workspaceId, name: workspace.name },
+                changes: { status: { before: status, after: 'active' } }
+            }, transaction);
+
+            return { ...workspace, ...updates };
+        });
+
+        logger.success(`Workspace ${workspaceId} restored`);
+        return result;
+    } catch (error) {
+        logger.error('Error restoring workspace', error);
+        throw error;
+    }
+};
+
+/**
+ * Whether a workspace is deleted and past its retention window
+ */
+const isPurgeDue = (workspace: Workspace, now: Date): boolean => {
+    return getWorkspaceStatus(workspace) === 'deleted' &&
+        !!workspace.purgeAt && workspace.purgeAt <= now.toISOString();
+};
+
+/**
+ * Delete every document a query matches, a batch at a time
+ */
+const deleteMatching = async (query: Query): Promise<number> => {
+    let deleted = 0;
+
+    for (;;) {
+        const snapshot = await query.limit(PURGE_BATCH_SIZE).get();
+        if (snapshot.empty) {
+            return deleted;
+        }
+
+        const batch = db.batch();
+        snapshot.docs.forEach(doc => batch.delete(doc.ref));
+        await batch.commit();
+
+        deleted += snapshot.size;
+    }
+};
+
+/**
+ * Delete a workspace's images from storage and Firestore
+ * An image that cannot be removed from storage is left for the next purge run
+ */
+const purgeImages = async (workspaceId: string): Promise<number> => {
+    const snapshot = await db.collection('calendarImages')
+        .where('workspaceId', '==', workspaceId)
+        .get();
+
+    let deleted = 0;
+    for (const doc of snapshot.docs) {
+        try {
+            await deleteAllImageSizes(doc.data().userId, doc.id);
+            await doc.ref.delete();
+            deleted++;
+        } catch (error) {
+            logger.error(`Error purging image ${doc.id} of workspace ${workspaceId}`, error);
+        }
+    }
+
+    if (deleted < snapshot.size) {
+        throw new Error(`${snapshot.size - deleted} images of workspace ${workspaceId} could not be purged`);
+    }
+
+    return deleted;
+};
+
+/**
+ * Permanently delete a workspace and everything that belongs to it
+ * The purge is claimed in a transaction first, so a workspace restored in the meantime is left alone
+ * and one being purged can no longer be restored. The workspace document goes last, so a purge
+ * that fails part way is retried on the next run.
+ */
+export const purgeWorkspace = async (workspaceId: string, now: Date = new Date()): Promise<PurgeReport> => {
+    try {
+        logger.debug(`Purging workspace ${workspaceId}`);
+
+        const workspaceRef = workspacesCollection.doc(workspaceId);
+
+        await db.runTransaction(async (transaction) => {
+            const workspaceDoc = await transaction.get(workspaceRef);
+            if (!workspaceDoc.exists) {
+                throw new Error('Workspace not found');
+            }
+
+            const workspace = workspaceDoc.data() as Workspace;
+            if (!isPurgeDue(workspace, now)) {
+                throw new Error('Workspace is not due for purging');
+            }
+
+            if (!workspace.purgeStartedAt) {
+                transaction.update(workspaceRef, { purgeStartedAt: new Date().toISOString() });
+            }
+        });
+
+        const deleted: Record<string, number> = {};
+
+        deleted.calendarImages = await purgeImages(workspaceId);
+
+        for (const collection of DEPENDENT_COLLECTIONS) {
+            deleted[collection] = await deleteMatching(
+                db.collection(collection).where('workspaceId', '==', workspaceId)
+            );
+        }
+
+        deleted.aiUsage = await deleteMatching(
+            db.collection('aiUsage')
+                .where('scope', '==', 'workspace')
+                .where('scopeId', '==', workspaceId)
+        );
+
+        await db.runTransaction(async (transaction) => {
+            const workspaceDoc = await transaction.get(workspaceRef);
+            const workspace = workspaceDoc.data() as Workspace | undefined;
+            if (!workspace || !isPurgeDue(workspace, now)) {
+                throw new Error('Workspace is no longer due for purging');
+            }
+
+            transaction.delete(workspaceRef);
+
+            await recordAudit({
+                workspaceId,
+                actor: PURGE_ACTOR,
+                action: 'workspace.purge',
+                target: { type: 'workspace', id: workspaceId, name: workspace.name },
+                metadata: { deleted }
+            }, transaction);
+        });
+
+        logger.success(`Workspace ${workspaceId} purged`, deleted);
+        return { workspaceId, deleted };
+    } catch (error) {
+        logger.error(`Error purging workspace ${workspaceId}`, error);
+        throw error;
+    }
+};
+
+/**
+ * Purge every deleted workspace whose retention window has passed
+ * @returns Number of workspaces purged
+ */
+export const purgeExpiredWorkspaces = async (now: Date = new Date()): Promise<number> => {
+    const snapshot = await workspacesCollection
+        .where('status', '==', 'deleted')
+        .where('purgeAt', '<=', now.toISOString())
+        .get();
+
+    let purged = 0;
+    for (const doc of snapshot.docs) {
+        try {
+            await purgeWorkspace(doc.id, now);
+            purged++;
+        } catch (error) {
+            // One workspace failing does not hold up the rest
+            logger.error(`Purge of workspace ${doc.id} failed, retrying next run`, error);
+        }
+    }
+
+    return purged;
+};
@@ -0,0 +1,131 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    BUILT_IN_ROLE_PERMISSIONS,
+    CustomRole,
+    CustomRoleId,
+    OWNER_ONLY_PERMISSIONS,
+    PERMISSION_KEYS,
+    RolePermissions,
+    canModifyRole,
+    getRolePermissions,
+    isBuiltInRole,
+    isCustomRoleId,
+    outranks
+} from '../roles';
+
+const customRole = (id: string, permissions: Partial<RolePermissions>): CustomRole => ({
+    id: id as CustomRoleId,
+    name: id,
+    permissions: { ...BUILT_IN_ROLE_PERMISSIONS.viewer, ...permissions },
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z'
+});
+
+const scheduler = customRole('scheduler', { canEditAllEvents: true, canEditOwnEvents: true, canCreateEvents: true });
+const coordinator = customRole('coordinator', {
+    canManageMembers: true,
+    canChangeRoles: true,
+    canEditOwnEvents: true,
+    canCreateEvents: true,
+    canViewFreeBusy: true
+});
+const customRoles = [scheduler, coordinator];
+const removed = 'removed-role' as CustomRoleId;
+
+describe('built-in roles', () => {
+    it('define every permission', () => {
+        for (const permissions of Object.values(BUILT_IN_ROLE_PERMISSIONS)) {
+            assert.deepEqual(Object.keys(permissions).sort(), [...PERMISSION_KEYS].sort());
+        }
+    });
+
+    it('leave owner-only permissions to the owner', () => {
+        for (const [role, permissions] of Object.entries(BUILT_IN_ROLE_PERMISSIONS)) {
+            for (const key of OWNER_ONLY_PERMISSIONS) {
+                assert.equal(permissions[key], role === 'owner', `${role} ${key}`);
+            }
+        }
+    });
+
+    it('are recognised by name', () => {
+        assert.equal(isBuiltInRole('admin'), true);
+        assert.equal(isBuiltInRole('scheduler'), false);
+    });
+});
+
+describe('isCustomRoleId', () => {
+    it('only accepts ids of the workspace\'s custom roles', () => {
+        assert.equal(isCustomRoleId(scheduler.id, customRoles), true);
+        assert.equal(isCustomRoleId('removed-role', customRoles), false);
+        assert.equal(isCustomRoleId('admin', customRoles), false);
+    });
+});
+
+describe('getRolePermissions', () => {
+    it('returns a copy of a built-in role', () => {
+        const permissions = getRolePermissions('member');
+        permissions.canEditAllEvents = true;
+
+        assert.equal(BUILT_IN_ROLE_PERMISSIONS.member.canEditAllEvents, false);
+    });
+
+    it('resolves custom roles from the workspace', () => {
+        assert.equal(getRolePermissions(scheduler.id, customRoles).canEditAllEvents, true);
+    });
+
+    it('treats a role that no longer exists as a viewer', () => {
+        assert.deepEqual(getRolePermissions(removed, customRoles), BUILT_IN_ROLE_PERMISSIONS.viewer);
+        assert.deepEqual(getRolePermissions(scheduler.id), BUILT_IN_ROLE_PERMISSIONS.viewer);
+    });
+});
+
+describe('outranks', () => {
+    it('needs everything the other role has, and more', () => {
+        const { owner, admin, member, viewer } = BUILT_IN_ROLE_PERMISSIONS;
+
+        assert.equal(outranks(owner, admin), true);
+        assert.equal(outranks(admin, member), true);
+        assert.equal(outranks(member, viewer), true);
+        assert.equal(outranks(admin, admin), false);
+        assert.equal(outranks(viewer, member), false);
+    });
+
+    it('does not rank roles that grant different things', () => {
+        const schedulerPermissions = getRolePermissions(scheduler.id, customRoles);
+        const coordinatorPermissions = getRolePermissions(coordinator.id, customRoles);
+
+        assert.equal(outranks(schedulerPermissions, coordinatorPermissions), false);
+        assert.equal(outranks(coordinatorPermissions, schedulerPermissions), false);
+    });
+});
+
+describe('canModifyRole', () => {
+    it('never changes the owner or makes someone owner', () => {
+        assert.equal(canModifyRole('owner', 'owner', 'admin'), false);
+        assert.equal(canModifyRole('owner', 'admin', 'owner'), false);
+    });
+
+    it('lets the owner move anyone else between roles', () => {
+        assert.equal(canModifyRole('owner', 'member', 'admin'), true);
+        assert.equal(canModifyRole('owner', 'admin', 'viewer'), true);
+        assert.equal(canModifyRole('owner', 'viewer', scheduler.id, customRoles), true);
+    });
+
+    it('lets admins manage roles below theirs but not other admins', () => {
+        assert.equal(canModifyRole('admin', 'member', 'viewer'), true);
+        assert.equal(canModifyRole('admin', 'viewer', scheduler.id, customRoles), true);
+        assert.equal(canModifyRole('admin', 'admin', 'member'), false);
+        assert.equal(canModifyRole('admin', 'member', 'admin'), false);
+    });
+
+    it('needs the permission to change roles', () => {
+        assert.equal(canModifyRole('member', 'viewer', 'viewer'), false);
+        assert.equal(canModifyRole(scheduler.id, 'viewer', 'member', customRoles), false);
+    });
+
+    it('limits custom roles to roles they outrank', () => {
+        assert.equal(canModifyRole(coordinator.id, 'viewer', 'member', customRoles), true);
+        assert.equal(canModifyRole(coordinator.id, 'viewer', scheduler.id, customRoles), false);
+    });
+});
@@ -3,7 +3,31 @@
  * Core interfaces for AI-powered scheduling system
  */
 
+export type IntentAction = 'create' | 'move' | 'cancel' | 'update';
+
+/**
+ * Description of existing events a command refers to ("my 1:1 with Priya")
+ */
+export interface EventTarget {
+    query?: string; // words to match against event titles
+    attendees?: string[]; // names or emails the events must include
+    rangeStart?: string; // ISO, only events starting in this range
+    rangeEnd?: string; // ISO
+    all?: boolean; // every matching event rather than the best match
+}
+
 export interface ParsedIntent {
+    // What to do: create a new event (default) or change existing ones
+    action?: IntentAction;
+    target?: EventTarget; // events to move, cancel or update
+    changes?: {
+        title?: string;
+        description?: string;
+        location?: string;
+        priority?: 'low' | 'medium' | 'high';
+        duration?: number; // minutes
+    };
+
     // Event details
     title?: string;
     description?: string;
@@ -42,6 +66,22 @@ export interface ParsedIntent {
     ambiguities?: string[]; // List of unclear aspects
 }
 
+export interface ScoringWeights {
+    availability: number;
+    preference: number;
+    attendee: number;
+    disruption: number;
+    buffer: number;
+}
+
+export interface SchedulingProfile {
+    weights: ScoringWeights; // relative, normalized when scoring
+    minScore: number; // 0-100, slots scoring lower are not suggested
+    maxSuggestions: number;
+    bufferMinutes: number; // desired gap between events
+    slotGranularityMinutes: number; // spacing of candidate start times
+}
+
 export interface SchedulingContext {
     userId: string;
     workspaceId?: string;
@@ -58,6 +98,12 @@ export interface SchedulingContext {
         timezone?: string;
     };
 
+    // Scoring weights and thresholds (defaults when omitted)
+    profile?: SchedulingProfile;
+
+    // Event being moved, which does not conflict with its own new time
+    movingEvent?: CommandTarget;
+
     // Existing events to consider
     existingEvents?: any[];
     attendeeEvents?: Map<string, any[]>; // email -> events
@@ -75,6 +121,8 @@ export interface SuggestedSlot {
         preferenceMatch: number; // 0-100
         attendeeAvailability: number; // 0-100
         minimalDisruption: number; // 0-100
+        bufferSpacing?: number; // 0-100
+        weights?: ScoringWeights; // weights of the profile the score was computed with
     };
 
     // Conflicts and issues
@@ -86,6 +134,7 @@ export interface SuggestedSlot {
 
     // Potential changes needed
     requiredMoves?: EventMove[];
+    moveCost?: number; // total disruption cost of requiredMoves
 }
 
 export interface ConflictInfo {
@@ -96,6 +145,7 @@ export interface ConflictInfo {
     severity: 'hard' | 'soft'; // hard = cannot overlap, soft = not ideal
     canMove: boolean;
     priority: 'low' | 'medium' | 'high';
+    isFocusTime?: boolean; // focus time and protected windows are never moved
 }
 
 export interface EventMove {
@@ -106,12 +156,24 @@ export interface EventMove {
     proposedStart: string;
     proposedEnd: string;
     reason: string;
+    cost?: number; // disruption cost, higher for important events and larger shifts
+}
+
+export interface ReschedulePlan {
+    moves: EventMove[]; // includes cascaded moves of events displaced by other moves
+    totalCost: number;
+    unresolved: ConflictInfo[]; // conflicts left in place
 }
 
 export interface AIResponse {
     success: boolean;
     parsedIntent?: ParsedIntent;
     suggestions?: SuggestedSlot[];
+    suggestionSetId?: string; // suggestions are stored server-side and booked by slot id
+    sessionId?: string; // conversation the response belongs to
+    session?: SchedulingSession;
+    targetEvent?: CommandTarget; // event the suggestions would move
+    command?: AICommand; // cancel or update awaiting confirmation
     clarificationNeeded?: boolean;
     clarificationQuestion?: string;
     error?: string;
@@ -119,18 +181,110 @@ export interface AIResponse {
 
 export interface ScheduleRequest {
     slotId: string;
-    parsedIntent: ParsedIntent;
+    sessionId?: string;
     autoResolveConflicts?: boolean;
     notifyAttendees?: boolean;
 }
 
+export interface SessionTurn {
+    role: 'user' | 'assistant';
+    text: string;
+    createdAt: string;
+}
+
+/**
+ * Multi-turn scheduling conversation
+ * Each user turn refines the stored intent until it can be suggested and booked
+ */
+export interface SchedulingSession {
+    id: string;
+    userId: string;
+    workspaceId: string | null;
+    status: 'clarifying' | 'ready' | 'suggested' | 'booked' | 'applied'; // applied: cancel or update done
+    turns: SessionTurn[];
+    parsedIntent: ParsedIntent;
+    ambiguities: string[];
+    suggestionSetId?: string;
+    eventId?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
+/**
+ * Suggested slot persisted when suggestions are returned, with what is needed to book it
+ */
+export interface StoredSuggestion {
+    slotId: string;
+    suggestionSetId: string;
+    userId: string;
+    workspaceId: string | null;
+    slot: SuggestedSlot;
+    parsedIntent: ParsedIntent;
+    searchWindowStart: string;
+    searchWindowEnd: string;
+    workingHours?: SchedulingContext['workingHours'];
+    targetEvent?: CommandTarget; // set when the suggestions are new times for an existing event
+    createdAt: string;
+    expiresAt: string;
+}
+
+/**
+ * Existing event (or occurrence of a series) matched by a command
+ */
+export interface CommandTarget {
+    eventId: string;
+    title: string;
+    startDate: string;
+    endDate: string;
+    seriesId?: string; // set for occurrences, eventId is then the series id
+    occurrenceStart?: string;
+}
+
+/**
+ * Cancel or update command awaiting confirmation, applied to the targets it previewed
+ */
+export interface AICommand {
+    id: string;
+    userId: string;
+    workspaceId: string | null;
+    action: 'cancel' | 'update';
+    targets: CommandTarget[];
+    changes?: ParsedIntent['changes'];
+    status: 'pending' | 'applied';
+    createdAt: string;
+    expiresAt: string;
+    appliedAt?: string;
+}
+
 export interface ScheduleResult {
     success: boolean;
     eventId?: string;
+    operationId?: string; // change set that can be undone
     movedEvents?: EventMove[];
+    // The slot went stale before booking; a fresh suggestion set is returned instead
+    stale?: boolean;
+    suggestions?: SuggestedSlot[];
+    suggestionSetId?: string;
     message: string;
 }
 
+/**
+ * Change set recorded for each AI schedule operation, so it can be undone as a whole
+ */
+export interface ScheduleChangeSet {
+    id: string;
+    userId: string;
+    workspaceId: string | null;
+    action?: 'create' | 'move'; // create when absent
+    createdEventId?: string; // the new event, or the override of a moved occurrence
+    createdEventTitle: string;
+    movedEvents: EventMove[]; // currentStart/currentEnd are the times before the move
+    excludedOccurrence?: { seriesId: string; occurrenceStart: string }; // restored on undo
+    status: 'applied' | 'undone';
+    createdAt: string;
+    undoneAt?: string;
+}
+
 /**
  * AI Provider Interface
  * Allows pluggable AI backends (OpenAI, Anthropic, Mock, etc.)
@@ -149,7 +303,63 @@ export interface AIProvider {
     /**
      * Generate clarifying question when intent is ambiguous
      */
-    generateClarification(prompt: string, ambiguities: string[]): Promise<string>;
+    generateClarification(prompt: string, ambiguities: string[], context?: any): Promise<string>;
 }
 
+/**
+ * Slot search that model providers delegate suggestions to
+ */
+export type SlotFinder = (context: SchedulingContext) => Promise<SuggestedSlot[]>;
+
 export type AIProviderType = 'openai' | 'anthropic' | 'gemini' | 'mock';
+
+/**
+ * Limits the provider chain puts on one provider call, passed in the call's context
+ * Providers that retry keep their attempts within the deadline and stop when the signal aborts
+ */
+export interface ProviderCallLimits {
+    deadline: number; // epoch milliseconds
+    signal: AbortSignal;
+}
+
+/**
+ * Tokens used by one model call
+ * Providers report it through the onUsage callback of the call's context
+ */
+export interface TokenUsage {
+    provider?: AIProviderType; // filled in by the provider chain
+    inputTokens: number;
+    outputTokens: number;
+}
+
+export interface AIUsageCounters {
+    requests: number; // AI requests that reached a provider
+    cachedRequests: number; // answered from the parse cache
+    inputTokens: number;
+    outputTokens: number;
+    byProvider?: Record<string, { calls: number; inputTokens: number; outputTokens: number }>;
+}
+
+/**
+ * Usage of a user or workspace in one month, stored in aiUsage
+ */
+export interface AIUsageRecord extends AIUsageCounters {
+    scope: 'user' | 'workspace';
+    scopeId: string;
+    period: string; // YYYY-MM (UTC)
+    updatedAt: string;
+}
+
+/**
+ * Monthly limits; a missing limit means unlimited
+ */
+export interface AIQuota {
+    requests?: number;
+    tokens?: number;
+}
+
+export interface AIUsageReport {
+    period: string;
+    usage: AIUsageCounters;
+    quota: AIQuota;
+}
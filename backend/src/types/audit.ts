@@ -0,0 +1,80 @@
+/**
+ * Audit Type Definitions
+ * Interfaces for the append-only audit trail of workspace and event changes
+ */
+
+export type AuditAction =
+    | 'workspace.create'
+    | 'workspace.update'
+    | 'workspace.delete'
+    | 'workspace.settings'
+    | 'workspace.archive'
+    | 'workspace.restore'
+    | 'workspace.purge'
+    | 'member.join'
+    | 'member.leave'
+    | 'member.remove'
+    | 'member.role'
+    | 'ownership.propose'
+    | 'ownership.accept'
+    | 'ownership.decline'
+    | 'ownership.cancel'
+    | 'role.create'
+    | 'role.update'
+    | 'role.delete'
+    | 'invite.send'
+    | 'invite.accept'
+    | 'invite.cancel'
+    | 'inviteCode.generate'
+    | 'inviteCode.accept'
+    | 'inviteCode.deactivate'
+    | 'event.create'
+    | 'event.update'
+    | 'event.delete'
+    | 'event.schedule';
+
+/**
+ * Who made a change
+ */
+export interface AuditActor {
+    uid: string;
+    name?: string;
+}
+
+export type AuditTargetType = 'workspace' | 'member' | 'role' | 'invite' | 'inviteCode' | 'event';
+
+export interface AuditTarget {
+    type: AuditTargetType;
+    id: string;
+    name?: string; // Display name at the time of the change
+}
+
+/**
+ * A changed field's value before and after the change
+ */
+export interface AuditChange {
+    before: unknown;
+    after: unknown;
+}
+
+export interface AuditEntry {
+    id?: string;
+    workspaceId: string | null; // null for personal events
+    actorId: string;
+    actorName?: string;
+    action: AuditAction;
+    target: AuditTarget;
+    changes?: Record<string, AuditChange>;
+    metadata?: Record<string, unknown>;
+    timestamp: string;
+}
+
+export interface AuditQuery {
+    action?: AuditAction;
+    actorId?: string;
+    targetType?: AuditTargetType;
+    targetId?: string;
+    since?: string;
+    until?: string;
+    limit?: number;
+}
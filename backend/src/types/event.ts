@@ -0,0 +1,155 @@
+/**
+ * Event Type Definitions
+ * Interfaces for calendar events, recurrence rules and expanded occurrences
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface RecurrenceWeekday {
+    weekday: number; // 0-6, Sunday = 0
+    ordinal?: number; // e.g. 2 = second, -1 = last (MONTHLY/YEARLY only)
+}
+
+/**
+ * Structured form of an RFC 5545 RRULE
+ */
+export interface RecurrenceRule {
+    freq: RecurrenceFrequency;
+    interval: number;
+    byDay?: RecurrenceWeekday[];
+    byMonthDay?: number[]; // 1-31, negative counts from month end
+    byMonth?: number[]; // 1-12
+    bySetPos?: number[]; // positions within each period's occurrences, negative counts from the end
+    weekStart?: number; // WKST, 0-6 with Sunday = 0; Monday when absent
+    count?: number;
+    until?: string; // ISO
+}
+
+/**
+ * RSVP state of an invited attendee (RFC 5545 PARTSTAT)
+ */
+export type AttendeeResponseStatus = 'needs-action' | 'accepted' | 'declined' | 'tentative';
+
+export interface EventAttendee {
+    email: string;
+    uid?: string; // Set when the email belongs to a registered user
+    displayName?: string;
+    responseStatus: AttendeeResponseStatus;
+    respondedAt?: string;
+}
+
+/**
+ * Kind of event; focus time is kept free of meetings by the AI scheduler
+ */
+export type EventType = 'default' | 'focusTime';
+
+/**
+ * Weekly window the AI scheduler treats like focus time (e.g. deep-work mornings)
+ */
+export interface ProtectedWindow {
+    label?: string;
+    days: number[]; // 0-6, Sunday = 0
+    start: string; // "09:00" in the user's time zone
+    end: string; // "11:00", after start
+}
+
+/**
+ * Focus time preferences stored in the user's settings
+ */
+export interface FocusTimeSettings {
+    protectedWindows: ProtectedWindow[];
+    weeklyFocusMinutes: number; // target for automatic placement
+    focusBlockMinutes: number; // length of automatically placed blocks
+}
+
+export interface CalendarEvent {
+    id?: string;
+    _id?: string;
+    userId: string;
+    createdBy?: string;
+    workspaceId?: string | null;
+    title: string;
+    description?: string;
+    eventType?: EventType; // 'default' when absent
+    startDate: string; // ISO
+    endDate: string; // ISO
+    timeZone?: string; // IANA zone the event is planned in; recurrences repeat in it
+    isAllDay?: boolean;
+    recurrence?: string; // legacy free-form value from the event form
+    rrule?: string | null; // RFC 5545 RRULE, e.g. "FREQ=WEEKLY;BYDAY=MO"
+    isRecurring?: boolean;
+    exdates?: string[]; // ISO starts of occurrences removed from the series (EXDATE)
+    icalUid?: string; // UID of an event imported from an .ics file
+    icalSequence?: number;
+    icalLastModified?: string;
+    seriesId?: string; // On override records: the series this occurrence was detached from
+    recurrenceId?: string; // On override records: ISO start of the occurrence it replaces
+    attendees?: EventAttendee[];
+    attendeeUids?: string[]; // uids of registered attendees, for array-contains queries
+    color?: string;
+    location?: string;
+    priority?: 'low' | 'medium' | 'high';
+    isFlexible?: boolean;
+    isImmutable?: boolean;
+    createdAt?: string;
+    updatedAt?: string;
+}
+
+/**
+ * Which part of a recurring series an edit or delete applies to
+ */
+export type EditScope = 'this' | 'following' | 'all';
+
+/**
+ * Fields added to a series master when it is expanded into a single occurrence
+ */
+export interface OccurrenceFields {
+    seriesId: string;
+    occurrenceStart: string; // ISO, the start as generated by the RRULE
+    isOccurrence: true;
+}
+
+/**
+ * Tokenized iCalendar subscription feed for a user or workspace
+ */
+export interface CalendarFeed {
+    id?: string;
+    token: string;
+    userId: string;
+    workspaceId: string | null;
+    name: string;
+    isActive: boolean;
+    createdAt: string;
+    revokedAt?: string;
+}
+
+/**
+ * A VEVENT parsed from an imported .ics file, with all times resolved to UTC
+ */
+export interface ParsedVEvent {
+    uid: string;
+    title: string;
+    description?: string;
+    location?: string;
+    startDate: string; // ISO
+    endDate: string; // ISO
+    timeZone?: string; // IANA TZID of DTSTART, when it names one
+    isAllDay: boolean;
+    rrule: string | null;
+    exdates: string[];
+    recurrenceId?: string; // Set when the VEVENT overrides one occurrence of a series
+    priority?: 'low' | 'medium' | 'high';
+    sequence: number;
+    lastModified?: string;
+    isCancelled: boolean;
+}
+
+/**
+ * Outcome of an .ics import
+ */
+export interface IcsImportReport {
+    created: number;
+    updated: number;
+    skipped: number;
+    errors: Array<{ uid: string; reason: string }>;
+}
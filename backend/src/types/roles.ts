@@ -3,23 +3,54 @@
  * Defines all TypeScript interfaces for the role-based access control system
  */
 
-export type WorkspaceRole = 'owner' | 'admin' | 'member' | 'viewer';
+export type BuiltInRole = 'owner' | 'admin' | 'member' | 'viewer';
+
+/**
+ * Id of one of a workspace's custom roles
+ * Branded so arbitrary strings are not taken for roles; ids become roles through isCustomRoleId
+ */
+export type CustomRoleId = string & { readonly __brand: 'CustomRoleId' };
+
+/**
+ * A built-in role, or the id of one of the workspace's custom roles
+ */
+export type WorkspaceRole = BuiltInRole | CustomRoleId;
 
 export interface RolePermissions {
     canEditWorkspace: boolean;
     canDeleteWorkspace: boolean;
     canManageMembers: boolean;
     canChangeRoles: boolean;
+    canManageSettings: boolean; // Scheduling profile and AI usage
     canEditAllEvents: boolean;
     canEditOwnEvents: boolean;
     canCreateEvents: boolean;
     canViewEvents: boolean;
+    canViewFreeBusy: boolean;
+}
+
+/**
+ * Role defined by a workspace owner, with its own permission set
+ */
+export interface CustomRole {
+    id: CustomRoleId;
+    name: string;
+    description?: string;
+    permissions: RolePermissions;
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface CustomRoleRequest {
+    name: string;
+    description?: string;
+    permissions: Partial<RolePermissions>;
 }
 
 export interface UpdateRoleRequest {
     workspaceId: string;
     targetUserId: string;
-    newRole: WorkspaceRole;
+    newRole: string; // checked against the workspace's roles before use
 }
 
 export interface RemoveMemberRequest {
@@ -35,82 +66,124 @@ export interface MemberInfo {
     joinedAt: string;
 }
 
+export const BUILT_IN_ROLES: BuiltInRole[] = ['owner', 'admin', 'member', 'viewer'];
+
+export const PERMISSION_KEYS: Array<keyof RolePermissions> = [
+    'canEditWorkspace',
+    'canDeleteWorkspace',
+    'canManageMembers',
+    'canChangeRoles',
+    'canManageSettings',
+    'canEditAllEvents',
+    'canEditOwnEvents',
+    'canCreateEvents',
+    'canViewEvents',
+    'canViewFreeBusy'
+];
+
+// Permissions only the owner holds; custom roles cannot grant them
+export const OWNER_ONLY_PERMISSIONS: Array<keyof RolePermissions> = ['canEditWorkspace', 'canDeleteWorkspace'];
+
+export const BUILT_IN_ROLE_PERMISSIONS: Record<BuiltInRole, RolePermissions> = {
+    owner: {
+        canEditWorkspace: true,
+        canDeleteWorkspace: true,
+        canManageMembers: true,
+        canChangeRoles: true,
+        canManageSettings: true,
+        canEditAllEvents: true,
+        canEditOwnEvents: true,
+        canCreateEvents: true,
+        canViewEvents: true,
+        canViewFreeBusy: true
+    },
+    admin: {
+        canEditWorkspace: false,
+        canDeleteWorkspace: false,
+        canManageMembers: true,
+        canChangeRoles: true, // Can change roles except owner
+        canManageSettings: true,
+        canEditAllEvents: true,
+        canEditOwnEvents: true,
+        canCreateEvents: true,
+        canViewEvents: true,
+        canViewFreeBusy: true
+    },
+    member: {
+        canEditWorkspace: false,
+        canDeleteWorkspace: false,
+        canManageMembers: false,
+        canChangeRoles: false,
+        canManageSettings: false,
+        canEditAllEvents: false,
+        canEditOwnEvents: true,
+        canCreateEvents: true,
+        canViewEvents: true,
+        canViewFreeBusy: true
+    },
+    viewer: {
+        canEditWorkspace: false,
+        canDeleteWorkspace: false,
+        canManageMembers: false,
+        canChangeRoles: false,
+        canManageSettings: false,
+        canEditAllEvents: false,
+        canEditOwnEvents: false,
+        canCreateEvents: false,
+        canViewEvents: true,
+        canViewFreeBusy: false // Workspace events only, not teammates' calendars
+    }
+};
+
+export const isBuiltInRole = (role: string): role is BuiltInRole =>
+    BUILT_IN_ROLES.includes(role as BuiltInRole);
+
+/**
+ * Check if a value is the id of one of the workspace's custom roles
+ */
+export const isCustomRoleId = (role: string, customRoles: CustomRole[]): role is CustomRoleId =>
+    customRoles.some(r => r.id === role);
+
 /**
  * Get permissions for a given role
+ * Custom roles are looked up in the workspace's roles; a role that no longer exists
+ * gets the least privileged built-in role's permissions
  */
-export const getRolePermissions = (role: WorkspaceRole): RolePermissions => {
-    switch (role) {
-        case 'owner':
-            return {
-                canEditWorkspace: true,
-                canDeleteWorkspace: true,
-                canManageMembers: true,
-                canChangeRoles: true,
-                canEditAllEvents: true,
-                canEditOwnEvents: true,
-                canCreateEvents: true,
-                canViewEvents: true
-            };
-        case 'admin':
-            return {
-                canEditWorkspace: false,
-                canDeleteWorkspace: false,
-                canManageMembers: true,
-                canChangeRoles: true, // Can change roles except owner
-                canEditAllEvents: true,
-                canEditOwnEvents: true,
-                canCreateEvents: true,
-                canViewEvents: true
-            };
-        case 'member':
-            return {
-                canEditWorkspace: false,
-                canDeleteWorkspace: false,
-                canManageMembers: false,
-                canChangeRoles: false,
-                canEditAllEvents: false,
-                canEditOwnEvents: true,
-                canCreateEvents: true,
-                canViewEvents: true
-            };
-        case 'viewer':
-            return {
-                canEditWorkspace: false,
-                canDeleteWorkspace: false,
-                canManageMembers: false,
-                canChangeRoles: false,
-                canEditAllEvents: false,
-                canEditOwnEvents: false,
-                canCreateEvents: false,
-                canViewEvents: true
-            };
+export const getRolePermissions = (role: WorkspaceRole, customRoles: CustomRole[] = []): RolePermissions => {
+    if (isBuiltInRole(role)) {
+        return { ...BUILT_IN_ROLE_PERMISSIONS[role] };
     }
+
+    const customRole = customRoles.find(r => r.id === role);
+    return { ...(customRole ? customRole.permissions : BUILT_IN_ROLE_PERMISSIONS.viewer) };
+};
+
+/**
+ * Check if one permission set grants everything another does, and more
+ */
+export const outranks = (permissions: RolePermissions, other: RolePermissions): boolean => {
+    const grantsAll = PERMISSION_KEYS.every(key => permissions[key] || !other[key]);
+    const grantsMore = PERMISSION_KEYS.some(key => permissions[key] && !other[key]);
+    return grantsAll && grantsMore;
 };
 
 /**
  * Check if a role can modify another role
+ * Nobody changes the owner or makes someone owner; otherwise a role that can change roles
+ * may move members between roles it outranks (an admin manages members, viewers and
+ * narrower custom roles, but not other admins)
  */
 export const canModifyRole = (
     currentUserRole: WorkspaceRole,
     targetRole: WorkspaceRole,
-    newRole: WorkspaceRole
+    newRole: WorkspaceRole,
+    customRoles: CustomRole[] = []
 ): boolean => {
-    // Owner can modify anyone except themselves to non-owner
-    if (currentUserRole === 'owner') {
-        // Cannot change owner role
-        if (targetRole === 'owner') return false;
-        // Cannot promote to owner
-        if (newRole === 'owner') return false;
-        return true;
-    }
+    if (targetRole === 'owner' || newRole === 'owner') return false;
 
-    // Admin can modify members and viewers, but not other admins or owner
-    if (currentUserRole === 'admin') {
-        if (targetRole === 'owner' || targetRole === 'admin') return false;
-        if (newRole === 'owner' || newRole === 'admin') return false;
-        return true;
-    }
+    const permissions = getRolePermissions(currentUserRole, customRoles);
+    if (!permissions.canChangeRoles) return false;
 
-    // Members and viewers cannot modify roles
-    return false;
+    return outranks(permissions, getRolePermissions(targetRole, customRoles)) &&
+        outranks(permissions, getRolePermissions(newRole, customRoles));
 };
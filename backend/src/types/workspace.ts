@@ -3,25 +3,62 @@
  * Defines all TypeScript interfaces and types for the workspace system
  */
 
+import { CustomRole, WorkspaceRole } from './roles';
+
 export interface WorkspaceMember {
     uid: string;
-    role: 'owner' | 'admin' | 'member' | 'viewer';
+    role: WorkspaceRole;
     joinedAt: string;
     displayName?: string;
     email?: string;
 }
 
+/**
+ * Archived workspaces are read-only; deleted ones can be restored by the owner until purgeAt
+ */
+export type WorkspaceStatus = 'active' | 'archived' | 'deleted';
+
+/**
+ * Ownership the owner has offered to another member, swapped in once they accept
+ */
+export interface OwnershipTransfer {
+    from: string;
+    to: string;
+    toName?: string;
+    proposedAt: string;
+    expiresAt: string;
+}
+
 export interface Workspace {
     id?: string;
     name: string;
     slug: string;
     owner: string;
     members: WorkspaceMember[];
+    customRoles?: CustomRole[];
+    pendingTransfer?: OwnershipTransfer | null;
+    status?: WorkspaceStatus; // Missing on workspaces created before archiving, which are active
+    archivedAt?: string | null;
+    deletedAt?: string | null;
+    deletedBy?: string | null;
+    purgeAt?: string | null;
+    purgeStartedAt?: string | null; // set once the purge has begun, after which it cannot be restored
     inviteCode: string;
     createdAt: string;
     updatedAt: string;
 }
 
+export interface BusyInterval {
+    start: string;
+    end: string;
+}
+
+export interface MemberFreeBusy {
+    uid: string;
+    displayName?: string;
+    busy: BusyInterval[];
+}
+
 export interface CreateWorkspaceRequest {
     name: string;
 }
@@ -34,6 +71,10 @@ export interface UpdateWorkspaceRequest {
     name?: string;
 }
 
+export interface TransferOwnershipRequest {
+    targetUserId: string;
+}
+
 export interface WorkspaceResponse {
     success: boolean;
     workspace?: Workspace;
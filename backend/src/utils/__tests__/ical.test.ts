@@ -0,0 +1,207 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    buildVCalendar,
+    buildVEvent,
+    escapeICalText,
+    foldLine,
+    getEventUid,
+    parseVCalendar,
+    unescapeICalText
+} from '../ical';
+
+describe('TEXT values', () => {
+    it('escapes and unescapes special characters', () => {
+        const text = 'Plan; review, ship\\deploy\nthen rest';
+        const escaped = escapeICalText(text);
+
+        assert.equal(escaped, 'Plan\\; review\\, ship\\\\deploy\\nthen rest');
+        assert.equal(unescapeICalText(escaped), text);
+    });
+});
+
+describe('foldLine', () => {
+    it('leaves short lines alone', () => {
+        assert.equal(foldLine('SUMMARY:Standup'), 'SUMMARY:Standup');
+    });
+
+    it('folds long lines at 75 octets without splitting characters', () => {
+        const line = `SUMMARY:${'é'.repeat(60)}`;
+        const folded = foldLine(line).split('\r\n');
+
+        assert.ok(folded.length > 1);
+        folded.forEach(part => assert.ok(Buffer.byteLength(part, 'utf8') <= 75));
+        assert.equal(folded.map((part, index) => index === 0 ? part : part.slice(1)).join(''), line);
+    });
+});
+
+describe('getEventUid', () => {
+    it('keeps imported UIDs and derives the rest from the series or event id', () => {
+        assert.equal(getEventUid({ id: 'abc', icalUid: 'external@example.com' }), 'external@example.com');
+        assert.equal(getEventUid({ id: 'abc' }), 'abc@calendar-ai');
+        assert.equal(getEventUid({ id: 'override', seriesId: 'series' }), 'series@calendar-ai');
+    });
+});
+
+describe('buildVEvent', () => {
+    it('writes times in the event zone with its recurrence', () => {
+        const lines = buildVEvent({
+            id: 'standup',
+            title: 'Standup',
+            startDate: '2025-01-06T08:00:00.000Z',
+            endDate: '2025-01-06T08:30:00.000Z',
+            timeZone: 'Europe/Paris',
+            rrule: 'FREQ=WEEKLY;BYDAY=MO',
+            exdates: ['2025-01-13T08:00:00.000Z'],
+            priority: 'high',
+            createdAt: '2025-01-01T00:00:00.000Z'
+        });
+
+        assert.deepEqual(lines, [
+            'BEGIN:VEVENT',
+            'UID:standup@calendar-ai',
+            'DTSTAMP:20250101T000000Z',
+            'DTSTART;TZID=Europe/Paris:20250106T090000',
+            'DTEND;TZID=Europe/Paris:20250106T093000',
+            'SUMMARY:Standup',
+            'PRIORITY:1',
+            'CATEGORIES:High Priority',
+            'RRULE:FREQ=WEEKLY;BYDAY=MO',
+            'EXDATE;TZID=Europe/Paris:20250113T090000',
+            'END:VEVENT'
+        ]);
+    });
+
+    it('writes all-day events as dates', () => {
+        const lines = buildVEvent({
+            id: 'holiday',
+            title: 'Holiday',
+            startDate: '2025-01-06T00:00:00.000Z',
+            endDate: '2025-01-06T00:00:00.000Z',
+            isAllDay: true,
+            createdAt: '2025-01-01T00:00:00.000Z'
+        });
+
+        assert.ok(lines.includes('DTSTART;VALUE=DATE:20250106'));
+        assert.ok(lines.includes('DTEND;VALUE=DATE:20250107'));
+    });
+
+    it('writes overrides with the series UID and a recurrence id', () => {
+        const series = { id: 'standup', timeZone: 'UTC' };
+        const lines = buildVEvent({
+            id: 'moved',
+            seriesId: 'standup',
+            recurrenceId: '2025-01-13T08:00:00.000Z',
+            title: 'Standup',
+            startDate: '2025-01-13T10:00:00.000Z',
+            endDate: '2025-01-13T10:30:00.000Z',
+            rrule: null,
+            createdAt: '2025-01-01T00:00:00.000Z'
+        }, series);
+
+        assert.ok(lines.includes('UID:standup@calendar-ai'));
+        assert.ok(lines.includes('RECURRENCE-ID:20250113T080000Z'));
+        assert.ok(!lines.some(line => line.startsWith('RRULE')));
+    });
+});
+
+describe('parseVCalendar', () => {
+    it('reads back what buildVCalendar writes', () => {
+        const series = {
+            id: 'standup',
+            title: 'Standup, daily',
+            description: 'Line one\nLine two',
+            startDate: '2025-01-06T08:00:00.000Z',
+            endDate: '2025-01-06T08:30:00.000Z',
+            timeZone: 'Europe/Paris',
+            rrule: 'FREQ=DAILY;COUNT=5',
+            exdates: ['2025-01-08T08:00:00.000Z'],
+            priority: 'low',
+            createdAt: '2025-01-01T00:00:00.000Z'
+        };
+        const [parsed] = parseVCalendar(buildVCalendar([series], 'Team'));
+
+        assert.equal(parsed.uid, 'standup@calendar-ai');
+        assert.equal(parsed.title, 'Standup, daily');
+        assert.equal(parsed.description, 'Line one\nLine two');
+        assert.equal(parsed.startDate, series.startDate);
+        assert.equal(parsed.endDate, series.endDate);
+        assert.equal(parsed.timeZone, 'Europe/Paris');
+        assert.equal(parsed.rrule, 'FREQ=DAILY;COUNT=5');
+        assert.deepEqual(parsed.exdates, series.exdates);
+        assert.equal(parsed.priority, 'low');
+    });
+
+    it('handles folded lines, durations, nested alarms and cancelled events', () => {
+        const content = [
+            'BEGIN:VCALENDAR',
+            'BEGIN:VEVENT',
+            'UID:review@example.com',
+            'DTSTART:20250106T150000Z',
+            'DURATION:PT1H30M',
+            'SUMMARY:Quarterly',
+            '  review',
+            'STATUS:CANCELLED',
+            'BEGIN:VALARM',
+            'SUMMARY:Reminder',
+            'END:VALARM',
+            'END:VEVENT',
+            'END:VCALENDAR'
+        ].join('\r\n');
+        const [parsed] = parseVCalendar(content);
+
+        assert.equal(parsed.title, 'Quarterly review');
+        assert.equal(parsed.endDate, '2025-01-06T16:30:00.000Z');
+        assert.equal(parsed.timeZone, 'UTC');
+        assert.equal(parsed.isCancelled, true);
+    });
+
+    it('falls back to the declared standard offset for unknown TZIDs', () => {
+        const content = [
+            'BEGIN:VCALENDAR',
+            'BEGIN:VTIMEZONE',
+            'TZID:Custom Standard Time',
+            'BEGIN:STANDARD',
+            'TZOFFSETTO:+0530',
+            'END:STANDARD',
+            'END:VTIMEZONE',
+            'BEGIN:VEVENT',
+            'UID:custom@example.com',
+            'DTSTART;TZID="Custom Standard Time":20250106T090000',
+            'DTEND;TZID="Custom Standard Time":20250106T100000',
+            'END:VEVENT',
+            'END:VCALENDAR'
+        ].join('\r\n');
+        const [parsed] = parseVCalendar(content);
+
+        assert.equal(parsed.startDate, '2025-01-06T03:30:00.000Z');
+        assert.equal(parsed.endDate, '2025-01-06T04:30:00.000Z');
+        assert.equal(parsed.timeZone, undefined);
+    });
+
+    it('reports events without a UID or start, or with an unsupported rule', () => {
+        const invalid: Array<[string, string]> = [];
+        const content = [
+            'BEGIN:VCALENDAR',
+            'BEGIN:VEVENT',
+            'DTSTART:20250106T090000Z',
+            'END:VEVENT',
+            'BEGIN:VEVENT',
+            'UID:no-start@example.com',
+            'END:VEVENT',
+            'BEGIN:VEVENT',
+            'UID:hourly@example.com',
+            'DTSTART:20250106T090000Z',
+            'RRULE:FREQ=DAILY;BYHOUR=9,17',
+            'END:VEVENT',
+            'END:VCALENDAR'
+        ].join('\r\n');
+
+        assert.deepEqual(parseVCalendar(content, (uid, reason) => invalid.push([uid, reason])), []);
+        assert.deepEqual(invalid, [
+            ['(no UID)', 'Missing UID'],
+            ['no-start@example.com', 'Missing or invalid DTSTART'],
+            ['hourly@example.com', 'Unsupported RRULE: FREQ=DAILY;BYHOUR=9,17']
+        ]);
+    });
+});
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { cacheIntent, getCachedIntent } from '../intentCache';
+
+describe('intent cache', () => {
+    const referenceDate = new Date('2025-01-06T09:00:00Z');
+    const intent = { title: 'Design review', attendees: ['priya@example.com'] };
+
+    it('answers the same prompt regardless of case, spacing and trailing punctuation', () => {
+        const scope = { userId: 'user-normalize' };
+        cacheIntent(scope, 'Design review with Priya tomorrow', 'UTC', intent, referenceDate);
+
+        assert.deepEqual(getCachedIntent(scope, '  design review   with priya TOMORROW?! ', 'UTC', referenceDate), intent);
+        assert.equal(getCachedIntent(scope, 'Design review with Priya tomorrow', 'Asia/Tokyo', referenceDate), null);
+        assert.equal(getCachedIntent(scope, 'Design review with Priya tomorrow', 'UTC', new Date('2025-01-07T09:00:00Z')), null);
+    });
+
+    it('never serves one user or workspace the intent of another', () => {
+        cacheIntent({ userId: 'alice', workspaceId: 'team' }, 'Lunch with Sam', 'UTC', intent, referenceDate);
+
+        assert.deepEqual(getCachedIntent({ userId: 'alice', workspaceId: 'team' }, 'Lunch with Sam', 'UTC', referenceDate), intent);
+        assert.equal(getCachedIntent({ userId: 'bob', workspaceId: 'team' }, 'Lunch with Sam', 'UTC', referenceDate), null);
+        assert.equal(getCachedIntent({ userId: 'alice' }, 'Lunch with Sam', 'UTC', referenceDate), null);
+        assert.equal(getCachedIntent({ userId: 'alice', workspaceId: 'other' }, 'Lunch with Sam', 'UTC', referenceDate), null);
+    });
+
+    it('returns copies callers cannot change', () => {
+        const scope = { userId: 'user-copy' };
+        cacheIntent(scope, 'Standup', 'UTC', intent, referenceDate);
+
+        getCachedIntent(scope, 'Standup', 'UTC', referenceDate)!.attendees!.push('sam@example.com');
+
+        assert.deepEqual(getCachedIntent(scope, 'Standup', 'UTC', referenceDate)!.attendees, ['priya@example.com']);
+    });
+});
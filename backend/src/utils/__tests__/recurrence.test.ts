@@ -0,0 +1,372 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    continueRRule,
+    expandEvent,
+    expandEvents,
+    formatICalDateTime,
+    getEventRRule,
+    getNextOccurrence,
+    getOccurrenceStarts,
+    isRecurringEvent,
+    normalizeRecurrence,
+    parseICalDateTime,
+    parseRRule,
+    serializeRRule,
+    truncateRRule
+} from '../recurrence';
+
+const iso = (dates: Date[]) => dates.map(date => date.toISOString());
+
+describe('iCalendar date-times', () => {
+    it('parses UTC date-times and formats them back', () => {
+        const date = parseICalDateTime('20251231T090000Z');
+
+        assert.equal(date?.toISOString(), '2025-12-31T09:00:00.000Z');
+        assert.equal(formatICalDateTime(date!), '20251231T090000Z');
+    });
+
+    it('rejects malformed values', () => {
+        assert.equal(parseICalDateTime('2025-12-31'), null);
+        assert.equal(parseICalDateTime(''), null);
+    });
+});
+
+describe('parseRRule', () => {
+    it('parses the supported parts', () => {
+        assert.deepEqual(parseRRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;COUNT=6'), {
+            freq: 'MONTHLY',
+            interval: 2,
+            byDay: [{ weekday: 2, ordinal: 2 }, { weekday: 5, ordinal: -1 }],
+            count: 6
+        });
+        assert.deepEqual(parseRRule('FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=29;UNTIL=20301231T000000Z'), {
+            freq: 'YEARLY',
+            interval: 1,
+            byMonth: [2],
+            byMonthDay: [29],
+            until: '2030-12-31T00:00:00.000Z'
+        });
+    });
+
+    it('parses BYSETPOS and WKST', () => {
+        assert.deepEqual(parseRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;WKST=SU'), {
+            freq: 'MONTHLY',
+            interval: 1,
+            byDay: [1, 2, 3, 4, 5].map(weekday => ({ weekday })),
+            bySetPos: [-1],
+            weekStart: 0
+        });
+    });
+
+    it('ignores invalid values', () => {
+        assert.deepEqual(parseRRule('FREQ=WEEKLY;WKST=XX;INTERVAL=0;BYDAY=XX;BYSETPOS=0'), { freq: 'WEEKLY', interval: 1 });
+    });
+
+    it('rejects parts it cannot expand', () => {
+        assert.equal(parseRRule('FREQ=DAILY;BYHOUR=9,17'), null);
+        assert.equal(parseRRule('FREQ=YEARLY;BYWEEKNO=20;BYDAY=MO'), null);
+        assert.equal(normalizeRecurrence('FREQ=YEARLY;BYYEARDAY=100'), null);
+    });
+
+    it('needs a known frequency', () => {
+        assert.equal(parseRRule('INTERVAL=2'), null);
+        assert.equal(parseRRule('FREQ=HOURLY'), null);
+        assert.equal(parseRRule(''), null);
+    });
+
+    it('round-trips through serializeRRule', () => {
+        const value = 'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=10';
+        assert.equal(serializeRRule(parseRRule(value)!), value);
+
+        const setPos = 'FREQ=MONTHLY;BYDAY=SA,SU;BYSETPOS=1,-1;WKST=SU';
+        assert.equal(serializeRRule(parseRRule(setPos)!), setPos);
+        assert.equal(serializeRRule(parseRRule('FREQ=WEEKLY;WKST=MO')!), 'FREQ=WEEKLY');
+    });
+});
+
+describe('normalizeRecurrence', () => {
+    it('maps legacy form values to rules', () => {
+        assert.equal(normalizeRecurrence('weekly'), 'FREQ=WEEKLY');
+        assert.equal(normalizeRecurrence('Daily'), 'FREQ=DAILY');
+    });
+
+    it('treats empty, none and unknown values as non-recurring', () => {
+        assert.equal(normalizeRecurrence(undefined), null);
+        assert.equal(normalizeRecurrence('none'), null);
+        assert.equal(normalizeRecurrence('fortnightly'), null);
+    });
+
+    it('normalizes raw RRULEs', () => {
+        assert.equal(normalizeRecurrence('RRULE:freq=daily;interval=3'), 'FREQ=DAILY;INTERVAL=3');
+    });
+
+    it('builds rules from parsed intents', () => {
+        assert.equal(
+            normalizeRecurrence({ frequency: 'weekly', interval: 2, daysOfWeek: [1, 3], count: 4 }),
+            'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;COUNT=4'
+        );
+    });
+});
+
+describe('series detection', () => {
+    it('prefers rrule and falls back to the legacy recurrence field', () => {
+        const base = { startDate: '2025-01-06T09:00:00Z', endDate: '2025-01-06T10:00:00Z' };
+
+        assert.equal(getEventRRule({ ...base, rrule: 'FREQ=DAILY', recurrence: 'weekly' }), 'FREQ=DAILY');
+        assert.equal(getEventRRule({ ...base, recurrence: 'monthly' }), 'FREQ=MONTHLY');
+        assert.equal(isRecurringEvent({ ...base, recurrence: 'none' }), false);
+    });
+});
+
+describe('getOccurrenceStarts', () => {
+    const dtstart = new Date('2025-01-06T09:00:00Z'); // Monday
+
+    it('repeats weekly on the listed days', () => {
+        const starts = getOccurrenceStarts(
+            parseRRule('FREQ=WEEKLY;BYDAY=MO,WE')!,
+            dtstart,
+            new Date('2025-01-06T00:00:00Z'),
+            new Date('2025-01-16T00:00:00Z'),
+            'UTC'
+        );
+
+        assert.deepEqual(iso(starts), [
+            '2025-01-06T09:00:00.000Z',
+            '2025-01-08T09:00:00.000Z',
+            '2025-01-13T09:00:00.000Z',
+            '2025-01-15T09:00:00.000Z'
+        ]);
+    });
+
+    it('stops after COUNT occurrences, counted from the series start', () => {
+        const starts = getOccurrenceStarts(
+            parseRRule('FREQ=DAILY;COUNT=5')!,
+            dtstart,
+            new Date('2025-01-08T00:00:00Z'),
+            new Date('2025-02-01T00:00:00Z'),
+            'UTC'
+        );
+
+        assert.deepEqual(iso(starts), [
+            '2025-01-08T09:00:00.000Z',
+            '2025-01-09T09:00:00.000Z',
+            '2025-01-10T09:00:00.000Z'
+        ]);
+    });
+
+    it('stops after UNTIL', () => {
+        const starts = getOccurrenceStarts(
+            parseRRule('FREQ=DAILY;INTERVAL=2;UNTIL=20250110T090000Z')!,
+            dtstart,
+            dtstart,
+            new Date('2025-02-01T00:00:00Z'),
+            'UTC'
+        );
+
+        assert.equal(starts.length, 3);
+    });
+
+    it('finds ordinal weekdays of a month', () => {
+        const starts = getOccurrenceStarts(
+            parseRRule('FREQ=MONTHLY;BYDAY=-1FR')!,
+            dtstart,
+            dtstart,
+            new Date('2025-04-01T00:00:00Z'),
+            'UTC'
+        );
+
+        assert.deepEqual(iso(starts), [
+            '2025-01-31T09:00:00.000Z',
+            '2025-02-28T09:00:00.000Z',
+            '2025-03-28T09:00:00.000Z'
+        ]);
+    });
+
+    it('picks occurrences of each month by BYSETPOS', () => {
+        const lastFriday = getOccurrenceStarts(
+            parseRRule('FREQ=MONTHLY;BYDAY=FR;BYSETPOS=-1')!,
+            dtstart,
+            dtstart,
+            new Date('2025-04-01T00:00:00Z'),
+            'UTC'
+        );
+        const lastWorkday = getOccurrenceStarts(
+            parseRRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1')!,
+            dtstart,
+            dtstart,
+            new Date('2025-04-01T00:00:00Z'),
+            'UTC'
+        );
+
+        assert.deepEqual(iso(lastFriday), [
+            '2025-01-31T09:00:00.000Z',
+            '2025-02-28T09:00:00.000Z',
+            '2025-03-28T09:00:00.000Z'
+        ]);
+        assert.deepEqual(iso(lastWorkday), [
+            '2025-01-31T09:00:00.000Z',
+            '2025-02-28T09:00:00.000Z',
+            '2025-03-31T09:00:00.000Z'
+        ]);
+    });
+
+    it('groups weeks by WKST', () => {
+        // RFC 5545 example: the week start decides which Sunday shares a week with the Tuesday
+        const expand = (rrule: string) => iso(getOccurrenceStarts(
+            parseRRule(rrule)!,
+            new Date('1997-08-05T09:00:00Z'), // Tuesday
+            new Date('1997-08-01T00:00:00Z'),
+            new Date('1997-09-30T00:00:00Z'),
+            'UTC'
+        ));
+
+        assert.deepEqual(expand('FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=MO'), [
+            '1997-08-05T09:00:00.000Z',
+            '1997-08-10T09:00:00.000Z',
+            '1997-08-19T09:00:00.000Z',
+            '1997-08-24T09:00:00.000Z'
+        ]);
+        assert.deepEqual(expand('FREQ=WEEKLY;INTERVAL=2;COUNT=4;BYDAY=TU,SU;WKST=SU'), [
+            '1997-08-05T09:00:00.000Z',
+            '1997-08-17T09:00:00.000Z',
+            '1997-08-19T09:00:00.000Z',
+            '1997-08-31T09:00:00.000Z'
+        ]);
+    });
+
+    it('skips months without the start day', () => {
+        const starts = getOccurrenceStarts(
+            parseRRule('FREQ=MONTHLY')!,
+            new Date('2025-01-31T09:00:00Z'),
+            new Date('2025-01-01T00:00:00Z'),
+            new Date('2025-06-01T00:00:00Z'),
+            'UTC'
+        );
+
+        assert.deepEqual(iso(starts), [
+            '2025-01-31T09:00:00.000Z',
+            '2025-03-31T09:00:00.000Z',
+            '2025-05-31T09:00:00.000Z'
+        ]);
+    });
+
+    it('keeps the wall-clock time across daylight saving changes', () => {
+        // 09:00 in New York is 14:00 UTC in winter and 13:00 UTC in summer
+        const starts = getOccurrenceStarts(
+            parseRRule('FREQ=WEEKLY')!,
+            new Date('2025-03-03T14:00:00Z'),
+            new Date('2025-03-01T00:00:00Z'),
+            new Date('2025-03-15T00:00:00Z'),
+            'America/New_York'
+        );
+
+        assert.deepEqual(iso(starts), ['2025-03-03T14:00:00.000Z', '2025-03-10T13:00:00.000Z']);
+    });
+});
+
+describe('expandEvent', () => {
+    const series = {
+        id: 'standup',
+        title: 'Standup',
+        startDate: '2025-01-06T09:00:00.000Z',
+        endDate: '2025-01-06T09:30:00.000Z',
+        rrule: 'FREQ=DAILY;COUNT=5',
+        exdates: ['2025-01-08T09:00:00.000Z'],
+        timeZone: 'UTC'
+    };
+
+    it('expands a series into occurrences, leaving out excluded dates', () => {
+        const occurrences = expandEvent(series, new Date('2025-01-01T00:00:00Z'), new Date('2025-02-01T00:00:00Z'));
+
+        assert.deepEqual(occurrences.map(o => o.startDate), [
+            '2025-01-06T09:00:00.000Z',
+            '2025-01-07T09:00:00.000Z',
+            '2025-01-09T09:00:00.000Z',
+            '2025-01-10T09:00:00.000Z'
+        ]);
+        assert.deepEqual(
+            { ...occurrences[1], startDate: undefined },
+            {
+                ...series,
+                startDate: undefined,
+                endDate: '2025-01-07T09:30:00.000Z',
+                seriesId: 'standup',
+                occurrenceStart: '2025-01-07T09:00:00.000Z',
+                isOccurrence: true
+            }
+        );
+    });
+
+    it('includes an occurrence that started before the window but overlaps it', () => {
+        const occurrences = expandEvent(series, new Date('2025-01-07T09:15:00Z'), new Date('2025-01-07T12:00:00Z'));
+
+        assert.deepEqual(occurrences.map(o => o.startDate), ['2025-01-07T09:00:00.000Z']);
+    });
+
+    it('expands legacy recurring events', () => {
+        const legacy = { id: 'legacy', startDate: '2025-01-06T09:00:00.000Z', endDate: '2025-01-06T10:00:00.000Z', recurrence: 'weekly', timeZone: 'UTC' };
+
+        assert.equal(expandEvent(legacy, new Date('2025-01-01T00:00:00Z'), new Date('2025-02-01T00:00:00Z')).length, 4);
+    });
+
+    it('returns one-off events only when they overlap the window', () => {
+        const event = { id: 'once', startDate: '2025-01-06T09:00:00.000Z', endDate: '2025-01-06T10:00:00.000Z' };
+
+        assert.deepEqual(expandEvent(event, new Date('2025-01-06T09:30:00Z'), new Date('2025-01-07T00:00:00Z')), [event]);
+        assert.deepEqual(expandEvent(event, new Date('2025-01-06T10:00:00Z'), new Date('2025-01-07T00:00:00Z')), []);
+    });
+
+    it('sorts expanded events by start', () => {
+        const once = { id: 'once', startDate: '2025-01-07T08:00:00.000Z', endDate: '2025-01-07T08:30:00.000Z' };
+        const events = expandEvents([series, once], new Date('2025-01-06T00:00:00Z'), new Date('2025-01-08T00:00:00Z'));
+
+        assert.deepEqual(events.map(e => e.startDate), [
+            '2025-01-06T09:00:00.000Z',
+            '2025-01-07T08:00:00.000Z',
+            '2025-01-07T09:00:00.000Z'
+        ]);
+    });
+});
+
+describe('getNextOccurrence', () => {
+    it('skips excluded occurrences', () => {
+        const event = {
+            startDate: '2025-01-06T09:00:00.000Z',
+            endDate: '2025-01-06T10:00:00.000Z',
+            rrule: 'FREQ=WEEKLY',
+            exdates: ['2025-01-13T09:00:00.000Z'],
+            timeZone: 'UTC'
+        };
+
+        assert.equal(getNextOccurrence(event, new Date('2025-01-06T09:00:00Z'))?.toISOString(), '2025-01-20T09:00:00.000Z');
+    });
+
+    it('returns null once a series or one-off event is over', () => {
+        const base = { startDate: '2025-01-06T09:00:00.000Z', endDate: '2025-01-06T10:00:00.000Z', timeZone: 'UTC' };
+
+        assert.equal(getNextOccurrence({ ...base, rrule: 'FREQ=DAILY;COUNT=2' }, new Date('2025-01-07T09:00:00Z')), null);
+        assert.equal(getNextOccurrence(base, new Date('2025-01-06T09:00:00Z')), null);
+    });
+});
+
+describe('splitting a series', () => {
+    const dtstart = new Date('2025-01-06T09:00:00Z');
+
+    it('truncates a series before an occurrence', () => {
+        assert.equal(
+            truncateRRule('FREQ=DAILY;COUNT=10', dtstart, new Date('2025-01-09T09:00:00Z'), 'UTC'),
+            'FREQ=DAILY;UNTIL=20250108T090000Z'
+        );
+        assert.equal(truncateRRule('FREQ=DAILY', dtstart, dtstart, 'UTC'), null);
+    });
+
+    it('continues a series with the remaining count', () => {
+        assert.equal(
+            continueRRule('FREQ=DAILY;COUNT=10', dtstart, new Date('2025-01-09T09:00:00Z'), 'UTC'),
+            'FREQ=DAILY;COUNT=7'
+        );
+        assert.equal(continueRRule('FREQ=DAILY;COUNT=3', dtstart, new Date('2025-01-10T09:00:00Z'), 'UTC'), null);
+        assert.equal(continueRRule('FREQ=WEEKLY', dtstart, new Date('2025-02-03T09:00:00Z'), 'UTC'), 'FREQ=WEEKLY');
+    });
+});
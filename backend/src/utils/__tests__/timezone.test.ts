@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+    DEFAULT_TIME_ZONE,
+    getTimeZoneOffset,
+    getZonedMinutes,
+    getZonedParts,
+    isValidTimeZone,
+    resolveTimeZone,
+    startOfZonedDay,
+    zonedTimeToUtc
+} from '../timezone';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('isValidTimeZone', () => {
+    it('accepts IANA zones and rejects anything else', () => {
+        assert.equal(isValidTimeZone('Europe/Paris'), true);
+        assert.equal(isValidTimeZone('UTC'), true);
+        assert.equal(isValidTimeZone('Mars/Olympus_Mons'), false);
+        assert.equal(isValidTimeZone(''), false);
+    });
+});
+
+describe('resolveTimeZone', () => {
+    it('falls back for missing or unknown zones', () => {
+        assert.equal(resolveTimeZone('America/New_York'), 'America/New_York');
+        assert.equal(resolveTimeZone(undefined), DEFAULT_TIME_ZONE);
+        assert.equal(resolveTimeZone(null, 'UTC'), 'UTC');
+        assert.equal(resolveTimeZone('Not/AZone', 'UTC'), 'UTC');
+    });
+});
+
+describe('getTimeZoneOffset', () => {
+    it('returns the offset east of UTC in milliseconds', () => {
+        const instant = new Date('2025-01-15T12:00:00Z');
+
+        assert.equal(getTimeZoneOffset(instant, 'Asia/Kolkata'), 5.5 * HOUR_MS);
+        assert.equal(getTimeZoneOffset(instant, 'America/New_York'), -5 * HOUR_MS);
+        assert.equal(getTimeZoneOffset(instant, 'UTC'), 0);
+    });
+
+    it('follows daylight saving time', () => {
+        assert.equal(getTimeZoneOffset(new Date('2025-01-15T12:00:00Z'), 'Europe/Paris'), HOUR_MS);
+        assert.equal(getTimeZoneOffset(new Date('2025-07-15T12:00:00Z'), 'Europe/Paris'), 2 * HOUR_MS);
+    });
+});
+
+describe('getZonedParts', () => {
+    it('gives the wall-clock date of an instant, which may be another day than in UTC', () => {
+        const parts = getZonedParts(new Date('2025-03-09T23:30:00Z'), 'Asia/Tokyo');
+
+        assert.deepEqual(parts, { year: 2025, month: 2, day: 10, hours: 8, minutes: 30, seconds: 0, weekday: 1 });
+    });
+
+    it('gives minutes since midnight in the zone', () => {
+        assert.equal(getZonedMinutes(new Date('2025-01-15T09:15:00Z'), 'Asia/Kolkata'), 14 * 60 + 45);
+    });
+});
+
+describe('zonedTimeToUtc', () => {
+    it('converts a wall-clock time to its instant', () => {
+        assert.equal(
+            zonedTimeToUtc(2025, 0, 15, 9, 0, 0, 'America/New_York').toISOString(),
+            '2025-01-15T14:00:00.000Z'
+        );
+        assert.equal(
+            zonedTimeToUtc(2025, 6, 15, 9, 0, 0, 'Europe/Paris').toISOString(),
+            '2025-07-15T07:00:00.000Z'
+        );
+    });
+
+    it('rolls day values over like the Date constructor', () => {
+        assert.equal(
+            zonedTimeToUtc(2025, 0, 32, 9, 0, 0, 'UTC').toISOString(),
+            '2025-02-01T09:00:00.000Z'
+        );
+    });
+
+    it('resolves times in a DST gap forward', () => {
+        // 02:30 does not exist in New York on 2025-03-09; clocks jump from 02:00 to 03:00
+        const instant = zonedTimeToUtc(2025, 2, 9, 2, 30, 0, 'America/New_York');
+        assert.equal(getZonedParts(instant, 'America/New_York').hours, 3);
+    });
+
+    it('round-trips with getZonedParts', () => {
+        const instant = zonedTimeToUtc(2025, 9, 26, 1, 30, 0, 'Europe/London');
+        const parts = getZonedParts(instant, 'Europe/London');
+
+        assert.deepEqual([parts.year, parts.month, parts.day, parts.hours, parts.minutes], [2025, 9, 26, 1, 30]);
+    });
+});
+
+describe('startOfZonedDay', () => {
+    it('is midnight in the zone', () => {
+        assert.equal(startOfZonedDay(2025, 0, 15, 'Asia/Kolkata').toISOString(), '2025-01-14T18:30:00.000Z');
+    });
+});
@@ -11,6 +11,13 @@ export interface ParsedDate {
     date: Date;
     confidence: number; // 0-1
     text: string; // matched text
+    hasTime: boolean; // false when only a day was given and the time is implied
+}
+
+export interface ParsedDateRange {
+    start: Date;
+    end: Date;
+    text: string; // matched text
 }
 
 export interface ParsedTimeRange {
@@ -18,15 +25,19 @@ export interface ParsedTimeRange {
     end?: Date;
     duration?: number; // minutes
     confidence: number;
+    hasTime: boolean; // false when the time of day is implied
+    hasDay: boolean; // false when the calendar day is implied (e.g. only a weekday was given)
+    hasWeekday: boolean;
 }
 
 /**
  * Parse a date from natural language text
+ * With forwardDate, a bare weekday ("Friday") means the next one rather than the closest
  */
-export function parseDateFromText(text: string, referenceDate?: Date): ParsedDate | null {
+export function parseDateFromText(text: string, referenceDate?: Date, forwardDate: boolean = false): ParsedDate | null {
     try {
         const reference = referenceDate || new Date();
-        const results = chrono.parse(text, reference);
+        const results = chrono.parse(text, reference, { forwardDate });
 
         if (results.length === 0) {
             return null;
@@ -51,7 +62,8 @@ export function parseDateFromText(text: string, referenceDate?: Date): ParsedDat
         return {
             date,
             confidence,
-            text: result.text
+            text: result.text,
+            hasTime: result.start.isCertain('hour')
         };
     } catch (error) {
         logger.error('Error parsing date from text', error);
@@ -107,7 +119,10 @@ export function parseTimeRange(text: string, referenceDate?: Date): ParsedTimeRa
             start,
             end,
             duration,
-            confidence
+            confidence,
+            hasTime: result.start.isCertain('hour'),
+            hasDay: result.start.isCertain('day'),
+            hasWeekday: result.start.isCertain('weekday')
         };
     } catch (error) {
         logger.error('Error parsing time range', error);
@@ -170,6 +185,54 @@ export function parseRelativeDate(text: string, referenceDate?: Date): Date | nu
     return parseDateFromText(text, reference)?.date || null;
 }
 
+/**
+ * Extract the days a text refers to ("next week", "on Friday", "tomorrow")
+ * Weeks start on Monday; a single day runs from midnight to midnight
+ */
+export function extractDateRange(text: string, referenceDate?: Date): ParsedDateRange | null {
+    const reference = referenceDate || new Date();
+    const lowerText = text.toLowerCase();
+
+    const weekMatch = lowerText.match(/\b(this|next) week\b/);
+    if (weekMatch) {
+        const monday = new Date(reference);
+        monday.setHours(0, 0, 0, 0);
+        monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+
+        const nextMonday = new Date(monday);
+        nextMonday.setDate(nextMonday.getDate() + 7);
+
+        if (weekMatch[1] === 'this') {
+            return { start: reference, end: nextMonday, text: weekMatch[0] };
+        }
+
+        const followingMonday = new Date(nextMonday);
+        followingMonday.setDate(followingMonday.getDate() + 7);
+        return { start: nextMonday, end: followingMonday, text: weekMatch[0] };
+    }
+
+    try {
+        // Only results naming a day count, "at 3pm" alone is not a range
+        const result = chrono.parse(text, reference, { forwardDate: true })
+            .find(parsed => parsed.start.isCertain('day') || parsed.start.isCertain('weekday'));
+
+        if (!result) {
+            return null;
+        }
+
+        const start = result.start.date();
+        start.setHours(0, 0, 0, 0);
+        const end = new Date(result.end ? result.end.date() : start);
+        end.setHours(0, 0, 0, 0);
+        end.setDate(end.getDate() + 1);
+
+        return { start, end, text: result.text };
+    } catch (error) {
+        logger.error('Error parsing date range', error);
+        return null;
+    }
+}
+
 /**
  * Extract day of week preferences from text
  */
@@ -293,6 +356,18 @@ export function extractTimeConstraints(text: string): {
         }
     }
 
+    // "in the afternoon": latest start times, so an hour-long event ends in that part of the day
+    if (!constraints.notBefore && !constraints.notAfter) {
+        if (/\bmorning\b/.test(lowerText)) {
+            constraints.notAfter = '11:00';
+        } else if (/\bafternoon\b/.test(lowerText)) {
+            constraints.notBefore = '12:00';
+            constraints.notAfter = '16:00';
+        } else if (/\bevening\b/.test(lowerText)) {
+            constraints.notBefore = '17:00';
+        }
+    }
+
     // Preferred days
     const preferredDays = extractDaysOfWeek(text);
     if (preferredDays.length > 0) {
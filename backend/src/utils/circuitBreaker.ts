@@ -0,0 +1,96 @@
+/**
+ * Circuit Breaker
+ * Stops calling a failing dependency for a cool-down period, then lets a single
+ * trial call through to see whether it has recovered
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+    failureThreshold: number; // consecutive failures that open the circuit
+    cooldownMs: number; // how long an open circuit rejects calls
+}
+
+export interface CircuitHealth {
+    state: CircuitState;
+    consecutiveFailures: number;
+    totalFailures: number;
+    totalSuccesses: number;
+    lastError?: string;
+    lastFailureAt?: string; // ISO
+    lastSuccessAt?: string; // ISO
+    openUntil?: string; // ISO, while open
+}
+
+export class CircuitBreaker {
+    private state: CircuitState = 'closed';
+    private consecutiveFailures = 0;
+    private totalFailures = 0;
+    private totalSuccesses = 0;
+    private openedAt = 0;
+    private trialInFlight = false;
+    private lastError?: string;
+    private lastFailureAt?: string;
+    private lastSuccessAt?: string;
+
+    constructor(private readonly options: CircuitBreakerOptions) { }
+
+    /**
+     * Check whether a call may be made now
+     * After the cool-down only one trial call is allowed until it settles
+     */
+    canRequest(): boolean {
+        if (this.state === 'open' && Date.now() - this.openedAt >= this.options.cooldownMs) {
+            this.state = 'half-open';
+        }
+
+        if (this.state === 'closed') return true;
+        if (this.state === 'half-open' && !this.trialInFlight) {
+            this.trialInFlight = true;
+            return true;
+        }
+        return false;
+    }
+
+    recordSuccess(): void {
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+        this.trialInFlight = false;
+        this.totalSuccesses++;
+        this.lastSuccessAt = new Date().toISOString();
+    }
+
+    recordFailure(error: unknown): void {
+        this.consecutiveFailures++;
+        this.totalFailures++;
+        this.trialInFlight = false;
+        this.lastError = error instanceof Error ? error.message : String(error);
+        this.lastFailureAt = new Date().toISOString();
+
+        // A failed trial re-opens straight away
+        if (this.state === 'half-open' || this.consecutiveFailures >= this.options.failureThreshold) {
+            this.state = 'open';
+            this.openedAt = Date.now();
+        }
+    }
+
+    getHealth(): CircuitHealth {
+        // Report a circuit whose cool-down has passed as ready for a trial
+        const state = this.state === 'open' && Date.now() - this.openedAt >= this.options.cooldownMs
+            ? 'half-open'
+            : this.state;
+
+        return {
+            state,
+            consecutiveFailures: this.consecutiveFailures,
+            totalFailures: this.totalFailures,
+            totalSuccesses: this.totalSuccesses,
+            lastError: this.lastError,
+            lastFailureAt: this.lastFailureAt,
+            lastSuccessAt: this.lastSuccessAt,
+            openUntil: state === 'open'
+                ? new Date(this.openedAt + this.options.cooldownMs).toISOString()
+                : undefined
+        };
+    }
+}
@@ -0,0 +1,85 @@
+/**
+ * Custom Role Utilities
+ * Validation and normalization of workspace-defined roles
+ */
+
+import {
+    BUILT_IN_ROLES,
+    CustomRole,
+    OWNER_ONLY_PERMISSIONS,
+    PERMISSION_KEYS,
+    RolePermissions
+} from '../types/roles';
+
+export const MAX_CUSTOM_ROLES = 20;
+const MAX_NAME_LENGTH = 40;
+const MAX_DESCRIPTION_LENGTH = 200;
+
+/**
+ * Validate a custom role from a request body
+ * Names are unique within the workspace (ignoring case) and cannot reuse a built-in role's name;
+ * roleId is the role being updated, so it may keep its own name
+ */
+export const validateCustomRole = (
+    input: any,
+    existing: CustomRole[] = [],
+    roleId?: string
+): { valid: boolean; error?: string } => {
+    if (!input || typeof input !== 'object') {
+        return { valid: false, error: 'Role must be an object' };
+    }
+
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+        return { valid: false, error: `Role name must be between 1 and ${MAX_NAME_LENGTH} characters` };
+    }
+
+    const lowerName = name.toLowerCase();
+    if (BUILT_IN_ROLES.includes(lowerName as any)) {
+        return { valid: false, error: `"${name}" is a built-in role` };
+    }
+
+    if (existing.some(role => role.id !== roleId && role.name.toLowerCase() === lowerName)) {
+        return { valid: false, error: `A role named "${name}" already exists` };
+    }
+
+    if (input.description !== undefined &&
+        (typeof input.description !== 'string' || input.description.length > MAX_DESCRIPTION_LENGTH)) {
+        return { valid: false, error: `Description must be at most ${MAX_DESCRIPTION_LENGTH} characters` };
+    }
+
+    if (!input.permissions || typeof input.permissions !== 'object') {
+        return { valid: false, error: 'Permissions must be an object' };
+    }
+
+    for (const key of Object.keys(input.permissions)) {
+        if (!PERMISSION_KEYS.includes(key as keyof RolePermissions)) {
+            return { valid: false, error: `Unknown permission: ${key}` };
+        }
+        if (typeof input.permissions[key] !== 'boolean') {
+            return { valid: false, error: `Permission ${key} must be true or false` };
+        }
+        if (input.permissions[key] && OWNER_ONLY_PERMISSIONS.includes(key as keyof RolePermissions)) {
+            return { valid: false, error: `Only the workspace owner can have ${key}` };
+        }
+    }
+
+    return { valid: true };
+};
+
+/**
+ * Full permission set of a validated role; permissions not given are not granted
+ * Editing all events includes editing one's own
+ */
+export const buildRolePermissions = (input: Partial<RolePermissions>): RolePermissions => {
+    const permissions = {} as RolePermissions;
+    for (const key of PERMISSION_KEYS) {
+        permissions[key] = input[key] === true;
+    }
+
+    if (permissions.canEditAllEvents) {
+        permissions.canEditOwnEvents = true;
+    }
+
+    return permissions;
+};
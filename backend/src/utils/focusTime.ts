@@ -0,0 +1,121 @@
+/**
+ * Focus Time Utilities
+ * Focus-time detection, protected window validation and expansion into busy blocks
+ */
+
+import { EventType, FocusTimeSettings, ProtectedWindow } from '../types/event';
+import { getZonedParts, zonedTimeToUtc } from './timezone';
+
+export const EVENT_TYPES: EventType[] = ['default', 'focusTime'];
+
+export const DEFAULT_FOCUS_TIME_SETTINGS: FocusTimeSettings = {
+    protectedWindows: [],
+    weeklyFocusMinutes: 240,
+    focusBlockMinutes: 120
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Check whether a value is a known event type
+ */
+export const isEventType = (value: unknown): value is EventType => {
+    return EVENT_TYPES.includes(value as EventType);
+};
+
+/**
+ * Check whether an event (or expanded protected window) is focus time
+ */
+export const isFocusTime = (event: any): boolean => {
+    return event?.eventType === 'focusTime' || event?.isProtectedWindow === true;
+};
+
+/**
+ * Validate focus time settings from a request body (fields not given are not checked)
+ */
+export const validateFocusTimeSettings = (input: any): { valid: boolean; error?: string } => {
+    if (!input || typeof input !== 'object') {
+        return { valid: false, error: 'Focus time settings must be an object' };
+    }
+
+    if (input.protectedWindows !== undefined) {
+        if (!Array.isArray(input.protectedWindows)) {
+            return { valid: false, error: 'Protected windows must be a list' };
+        }
+
+        for (const window of input.protectedWindows as ProtectedWindow[]) {
+            if (!Array.isArray(window?.days) || window.days.length === 0 ||
+                !window.days.every(day => Number.isInteger(day) && day >= 0 && day <= 6)) {
+                return { valid: false, error: 'Protected window days must be weekdays 0-6' };
+            }
+
+            if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) {
+                return { valid: false, error: 'Protected window times must be HH:MM' };
+            }
+
+            // Windows may not span midnight
+            if (window.end <= window.start) {
+                return { valid: false, error: 'Protected window must end after it starts' };
+            }
+        }
+    }
+
+    if (input.weeklyFocusMinutes !== undefined &&
+        (!Number.isInteger(input.weeklyFocusMinutes) || input.weeklyFocusMinutes < 0 || input.weeklyFocusMinutes > 40 * 60)) {
+        return { valid: false, error: 'Weekly focus minutes must be between 0 and 2400' };
+    }
+
+    if (input.focusBlockMinutes !== undefined &&
+        (!Number.isInteger(input.focusBlockMinutes) || input.focusBlockMinutes < 15 || input.focusBlockMinutes > 8 * 60)) {
+        return { valid: false, error: 'Focus block minutes must be between 15 and 480' };
+    }
+
+    return { valid: true };
+};
+
+/**
+ * Expand weekly protected windows into focus blocks overlapping a time window
+ * The blocks look like events, so they flow through conflict detection and scoring
+ */
+export const expandProtectedWindows = (
+    windows: ProtectedWindow[],
+    windowStart: Date,
+    windowEnd: Date,
+    timeZone: string
+): any[] => {
+    const blocks: any[] = [];
+    if (windows.length === 0) return blocks;
+
+    const first = getZonedParts(windowStart, timeZone);
+
+    // Walk calendar days in the user's zone until a day starts after the window
+    for (let offset = 0; ; offset++) {
+        const dayStart = zonedTimeToUtc(first.year, first.month, first.day + offset, 0, 0, 0, timeZone);
+        if (dayStart >= windowEnd) break;
+
+        const { year, month, day, weekday } = getZonedParts(dayStart, timeZone);
+
+        windows.forEach((window, index) => {
+            if (!window.days.includes(weekday)) return;
+
+            const [startHour, startMinute] = window.start.split(':').map(Number);
+            const [endHour, endMinute] = window.end.split(':').map(Number);
+            const start = zonedTimeToUtc(year, month, day, startHour, startMinute, 0, timeZone);
+            const end = zonedTimeToUtc(year, month, day, endHour, endMinute, 0, timeZone);
+
+            if (start < windowEnd && end > windowStart) {
+                blocks.push({
+                    id: `protected-${index}-${start.toISOString()}`,
+                    title: window.label || 'Protected time',
+                    startDate: start.toISOString(),
+                    endDate: end.toISOString(),
+                    eventType: 'focusTime',
+                    isProtectedWindow: true,
+                    isImmutable: true
+                });
+            }
+        });
+    }
+
+    return blocks;
+};
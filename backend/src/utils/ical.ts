@@ -0,0 +1,442 @@
+/**
+ * iCalendar Utilities
+ * RFC 5545 VCALENDAR serialization for export feeds and parsing for imports
+ */
+
+import { formatICalDateTime, getEventRRule, normalizeRecurrence } from './recurrence';
+import { getZonedParts, isValidTimeZone, zonedTimeToUtc } from './timezone';
+import { ParsedVEvent } from '../types/event';
+
+const PRODUCT_ID = '-//Calendar AI//Calendar Export//EN';
+const UID_DOMAIN = 'calendar-ai';
+const MAX_LINE_OCTETS = 75;
+
+// RFC 5545 PRIORITY: 1 = highest, 9 = lowest
+const PRIORITY_VALUES: { [key: string]: number } = {
+    high: 1,
+    medium: 5,
+    low: 9
+};
+
+/**
+ * Escape a TEXT property value
+ */
+export function escapeICalText(value: string): string {
+    return value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets, continuing with a leading space
+ */
+export function foldLine(line: string): string {
+    if (Buffer.byteLength(line, 'utf8') <= MAX_LINE_OCTETS) {
+        return line;
+    }
+
+    const parts: string[] = [];
+    let current = '';
+
+    for (const char of line) {
+        // Continuation lines lose one octet to the leading space
+        const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+        if (Buffer.byteLength(current + char, 'utf8') > limit) {
+            parts.push(current);
+            current = '';
+        }
+        current += char;
+    }
+    parts.push(current);
+
+    return parts.join('\r\n ');
+}
+
+/**
+ * Format a date as an iCalendar DATE value ("20251231")
+ */
+function formatICalDate(date: Date): string {
+    return formatICalDateTime(date).substring(0, 8);
+}
+
+/**
+ * Format a date-time property in an event's zone ("DTSTART;TZID=Europe/Paris:20251231T090000")
+ * Series repeat in their zone, so clients must not expand them in UTC. IANA TZIDs are
+ * understood by the major clients without a VTIMEZONE component.
+ */
+function formatDateTimeProperty(name: string, dates: Date[], timeZone?: string): string {
+    if (!timeZone || timeZone === 'UTC' || !isValidTimeZone(timeZone)) {
+        return `${name}:${dates.map(formatICalDateTime).join(',')}`;
+    }
+
+    const values = dates.map(date => {
+        const p = getZonedParts(date, timeZone);
+        const pad = (n: number) => String(n).padStart(2, '0');
+        return `${p.year}${pad(p.month + 1)}${pad(p.day)}T${pad(p.hours)}${pad(p.minutes)}${pad(p.seconds)}`;
+    });
+    return `${name};TZID=${timeZone}:${values.join(',')}`;
+}
+
+/**
+ * Get the UID for an event; imported events keep their original UID
+ */
+export function getEventUid(event: any): string {
+    if (event.icalUid) {
+        return event.icalUid;
+    }
+    return `${event.seriesId || event.id || event._id}@${UID_DOMAIN}`;
+}
+
+/**
+ * Build the content lines of a VEVENT for a stored event (series master, override or one-off)
+ */
+export function buildVEvent(event: any, series?: any): string[] {
+    const start = new Date(event.startDate);
+    const end = new Date(event.endDate);
+    const lines = [
+        'BEGIN:VEVENT',
+        // Overrides share the UID of their series so clients can match RECURRENCE-ID
+        `UID:${getEventUid(series || event)}`,
+        `DTSTAMP:${formatICalDateTime(new Date(event.updatedAt || event.createdAt || Date.now()))}`
+    ];
+
+    if (event.isAllDay) {
+        lines.push(`DTSTART;VALUE=DATE:${formatICalDate(start)}`);
+        lines.push(`DTEND;VALUE=DATE:${formatICalDate(end > start ? end : new Date(start.getTime() + 24 * 60 * 60 * 1000))}`);
+    } else {
+        lines.push(formatDateTimeProperty('DTSTART', [start], event.timeZone));
+        lines.push(formatDateTimeProperty('DTEND', [end], event.timeZone));
+    }
+
+    if (event.recurrenceId) {
+        lines.push(formatDateTimeProperty('RECURRENCE-ID', [new Date(event.recurrenceId)], series?.timeZone));
+    }
+
+    lines.push(`SUMMARY:${escapeICalText(event.title || 'Untitled Event')}`);
+
+    if (event.description) {
+        lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+    }
+    if (event.location) {
+        lines.push(`LOCATION:${escapeICalText(event.location)}`);
+    }
+    if (event.priority && PRIORITY_VALUES[event.priority]) {
+        lines.push(`PRIORITY:${PRIORITY_VALUES[event.priority]}`);
+        lines.push(`CATEGORIES:${escapeICalText(`${event.priority.charAt(0).toUpperCase()}${event.priority.slice(1)} Priority`)}`);
+    }
+
+    const rrule = event.recurrenceId ? null : getEventRRule(event);
+    if (rrule) {
+        lines.push(`RRULE:${rrule}`);
+
+        if (event.exdates && event.exdates.length > 0) {
+            lines.push(formatDateTimeProperty('EXDATE', event.exdates.map((date: string) => new Date(date)), event.timeZone));
+        }
+    }
+
+    lines.push('END:VEVENT');
+    return lines;
+}
+
+/**
+ * Serialize stored events into a VCALENDAR document
+ * Override records are emitted with the UID of the series they belong to
+ */
+export function buildVCalendar(events: any[], calendarName: string): string {
+    const byId = new Map<string, any>(events.map(event => [event.id || event._id, event]));
+
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeICalText(calendarName)}`,
+        ...events.flatMap(event => buildVEvent(event, event.seriesId ? byId.get(event.seriesId) : undefined)),
+        'END:VCALENDAR'
+    ];
+
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+/**
+ * Unescape a TEXT property value
+ */
+export function unescapeICalText(value: string): string {
+    return value.replace(/\\([\\;,nN])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+}
+
+interface ContentLine {
+    name: string;
+    params: { [key: string]: string };
+    value: string;
+}
+
+/**
+ * Split a document into unfolded content lines
+ */
+function unfoldLines(content: string): string[] {
+    return content
+        .replace(/\r\n|\r/g, '\n')
+        .replace(/\n[ \t]/g, '')
+        .split('\n')
+        .filter(line => line.trim().length > 0);
+}
+
+/**
+ * Parse "NAME;PARAM=VALUE;PARAM2=\"quoted:value\":VALUE"
+ */
+function parseContentLine(line: string): ContentLine | null {
+    let inQuotes = false;
+    let separator = -1;
+
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        if (line[i] === ':' && !inQuotes) {
+            separator = i;
+            break;
+        }
+    }
+
+    if (separator === -1) {
+        return null;
+    }
+
+    const [name, ...rawParams] = line.substring(0, separator).split(';');
+    const params: { [key: string]: string } = {};
+
+    for (const param of rawParams) {
+        const [key, ...rest] = param.split('=');
+        params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+    }
+
+    return { name: name.toUpperCase(), params, value: line.substring(separator + 1) };
+}
+
+/**
+ * Resolve a DATE or DATE-TIME value to a UTC instant
+ * TZIDs are resolved through Intl; unknown zones fall back to the VTIMEZONE
+ * standard offset when one was declared, otherwise to floating (server-local) time
+ */
+function parseDateValue(
+    value: string,
+    params: { [key: string]: string },
+    zoneOffsets: Map<string, number>
+): { date: Date; isDate: boolean } | null {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/i);
+    if (!match) {
+        return null;
+    }
+
+    const [, year, month, day, hour, minute = '0', second = '0', utc] = match;
+    const isDate = params.VALUE === 'DATE' || hour === undefined;
+    const parts = [Number(year), Number(month) - 1, Number(day), Number(hour || 0), Number(minute), Number(second)] as const;
+
+    if (isDate) {
+        return { date: new Date(...parts), isDate };
+    }
+    if (utc) {
+        return { date: new Date(Date.UTC(...parts)), isDate };
+    }
+
+    const tzid = params.TZID;
+    if (tzid && isValidTimeZone(tzid)) {
+        return { date: zonedTimeToUtc(...parts, tzid), isDate };
+    }
+    if (tzid && zoneOffsets.has(tzid)) {
+        return { date: new Date(Date.UTC(...parts) - (zoneOffsets.get(tzid) as number)), isDate };
+    }
+
+    return { date: new Date(...parts), isDate };
+}
+
+/**
+ * Parse an ISO 8601 duration ("PT1H30M", "P1D", "P2W") into milliseconds
+ */
+function parseDuration(value: string): number | null {
+    const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/i);
+    if (!match) {
+        return null;
+    }
+
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const ms = ((Number(weeks || 0) * 7 + Number(days || 0)) * 24 * 3600
+        + Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + Number(seconds || 0)) * 1000;
+
+    return sign === '-' ? -ms : ms;
+}
+
+/**
+ * Parse a "+0530" / "-0800" UTC offset into milliseconds
+ */
+function parseUtcOffset(value: string): number | null {
+    const match = value.trim().match(/^([+-])(\d{2})(\d{2})(\d{2})?$/);
+    if (!match) {
+        return null;
+    }
+
+    const ms = (Number(match[2]) * 3600 + Number(match[3]) * 60 + Number(match[4] || 0)) * 1000;
+    return match[1] === '-' ? -ms : ms;
+}
+
+/**
+ * Map an RFC 5545 PRIORITY (1-9, 0 = undefined) to the app's priority levels
+ */
+function mapPriority(value: string): 'low' | 'medium' | 'high' | undefined {
+    const priority = parseInt(value, 10);
+    if (!priority) return undefined;
+    if (priority <= 4) return 'high';
+    if (priority === 5) return 'medium';
+    return 'low';
+}
+
+/**
+ * Parse the VEVENTs of a VCALENDAR document
+ * Events without a UID or a valid DTSTART, or with an RRULE that cannot be expanded,
+ * are skipped and reported through onInvalid
+ */
+export function parseVCalendar(
+    content: string,
+    onInvalid?: (uid: string, reason: string) => void
+): ParsedVEvent[] {
+    const lines = unfoldLines(content).map(parseContentLine).filter((l): l is ContentLine => l !== null);
+    const events: ParsedVEvent[] = [];
+
+    // First pass: standard offsets of declared VTIMEZONEs, for non-IANA TZIDs
+    const zoneOffsets = new Map<string, number>();
+    let currentZone: string | null = null;
+    let inStandard = false;
+
+    for (const line of lines) {
+        if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VTIMEZONE') currentZone = '';
+        else if (line.name === 'END' && line.value.toUpperCase() === 'VTIMEZONE') currentZone = null;
+        else if (currentZone !== null && line.name === 'TZID') currentZone = line.value;
+        else if (line.name === 'BEGIN' && line.value.toUpperCase() === 'STANDARD') inStandard = true;
+        else if (line.name === 'END' && line.value.toUpperCase() === 'STANDARD') inStandard = false;
+        else if (currentZone && inStandard && line.name === 'TZOFFSETTO') {
+            const offset = parseUtcOffset(line.value);
+            if (offset !== null) zoneOffsets.set(currentZone, offset);
+        }
+    }
+
+    // Second pass: events
+    let current: ContentLine[] | null = null;
+    let nestedDepth = 0;
+
+    for (const line of lines) {
+        if (line.name === 'BEGIN' && line.value.toUpperCase() === 'VEVENT') {
+            current = [];
+            nestedDepth = 0;
+            continue;
+        }
+
+        if (!current) continue;
+
+        // Ignore VALARMs and other components nested in the event
+        if (line.name === 'BEGIN') {
+            nestedDepth++;
+            continue;
+        }
+        if (line.name === 'END' && line.value.toUpperCase() !== 'VEVENT') {
+            nestedDepth--;
+            continue;
+        }
+        if (nestedDepth > 0) continue;
+
+        if (line.name === 'END') {
+            const event = buildParsedEvent(current, zoneOffsets);
+            if (typeof event !== 'string') {
+                events.push(event);
+            } else if (onInvalid) {
+                onInvalid(current.find(p => p.name === 'UID')?.value.trim() || '(no UID)', event);
+            }
+            current = null;
+            continue;
+        }
+
+        current.push(line);
+    }
+
+    return events;
+}
+
+/**
+ * Build a parsed event from the properties of one VEVENT
+ * Returns the reason instead when the event cannot be imported
+ */
+function buildParsedEvent(properties: ContentLine[], zoneOffsets: Map<string, number>): ParsedVEvent | string {
+    const get = (name: string) => properties.find(p => p.name === name);
+
+    const uid = get('UID')?.value.trim();
+    const dtstartLine = get('DTSTART');
+    const start = dtstartLine ? parseDateValue(dtstartLine.value, dtstartLine.params, zoneOffsets) : null;
+
+    if (!uid) {
+        return 'Missing UID';
+    }
+    if (!start) {
+        return 'Missing or invalid DTSTART';
+    }
+
+    // Importing an unsupported rule as a one-off event would silently drop its occurrences
+    const rruleLine = get('RRULE');
+    const rrule = rruleLine ? normalizeRecurrence(rruleLine.value) : null;
+    if (rruleLine && !rrule) {
+        return `Unsupported RRULE: ${rruleLine.value.trim()}`;
+    }
+
+    let end: Date | null = null;
+    const dtendLine = get('DTEND');
+    const durationLine = get('DURATION');
+
+    if (dtendLine) {
+        end = parseDateValue(dtendLine.value, dtendLine.params, zoneOffsets)?.date || null;
+    } else if (durationLine) {
+        const duration = parseDuration(durationLine.value);
+        end = duration !== null ? new Date(start.date.getTime() + duration) : null;
+    }
+
+    if (!end || end < start.date) {
+        // RFC 5545: all-day events default to one day, timed events to zero length
+        end = new Date(start.date.getTime() + (start.isDate ? 24 * 60 * 60 * 1000 : 0));
+    }
+
+    const exdates = properties
+        .filter(p => p.name === 'EXDATE')
+        .flatMap(p => p.value.split(',').map(value => parseDateValue(value, p.params, zoneOffsets)))
+        .filter((d): d is { date: Date; isDate: boolean } => d !== null)
+        .map(d => d.date.toISOString());
+
+    const recurrenceIdLine = get('RECURRENCE-ID');
+    const recurrenceId = recurrenceIdLine
+        ? parseDateValue(recurrenceIdLine.value, recurrenceIdLine.params, zoneOffsets)?.date.toISOString()
+        : undefined;
+
+    // Keep the zone of DTSTART so the series repeats in it; UTC start times repeat in UTC
+    const tzid = dtstartLine?.params.TZID;
+    const timeZone = tzid && isValidTimeZone(tzid)
+        ? tzid
+        : !start.isDate && /Z$/i.test(dtstartLine!.value.trim()) ? 'UTC' : undefined;
+
+    return {
+        uid,
+        title: unescapeICalText(get('SUMMARY')?.value || 'Untitled Event'),
+        description: get('DESCRIPTION') ? unescapeICalText(get('DESCRIPTION')!.value) : undefined,
+        location: get('LOCATION') ? unescapeICalText(get('LOCATION')!.value) : undefined,
+        startDate: start.date.toISOString(),
+        endDate: end.toISOString(),
+        timeZone,
+        isAllDay: start.isDate,
+        rrule,
+        exdates,
+        recurrenceId,
+        priority: get('PRIORITY') ? mapPriority(get('PRIORITY')!.value) : undefined,
+        sequence: parseInt(get('SEQUENCE')?.value || '0', 10) || 0,
+        lastModified: (get('LAST-MODIFIED') || get('DTSTAMP'))
+            ? parseDateValue((get('LAST-MODIFIED') || get('DTSTAMP'))!.value, {}, zoneOffsets)?.date.toISOString()
+            : undefined,
+        isCancelled: get('STATUS')?.value.toUpperCase() === 'CANCELLED'
+    };
+}
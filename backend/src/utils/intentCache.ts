@@ -0,0 +1,86 @@
+/**
+ * Intent Cache
+ * In-memory cache of parsed intents, so resubmitting the same prompt does not call the model again
+ */
+
+import { ParsedIntent } from '../types/ai';
+import { getZonedParts } from './timezone';
+
+interface CacheEntry {
+    intent: string; // JSON, so callers can't change the cached copy
+    expiresAt: number;
+}
+
+// Relative times ("in an hour") drift within a day, so entries are short-lived
+const CACHE_TTL_MINUTES = parseInt(process.env.AI_PARSE_CACHE_TTL_MINUTES || '10');
+const MAX_ENTRIES = parseInt(process.env.AI_PARSE_CACHE_MAX_ENTRIES || '500');
+
+const cache = new Map<string, CacheEntry>();
+
+/**
+ * Who a cached intent belongs to
+ * Intents can name attendees and event details, so they are never shared between users or workspaces
+ */
+export interface IntentCacheScope {
+    userId: string;
+    workspaceId?: string;
+}
+
+/**
+ * Cache key of a prompt
+ * Case, spacing and trailing punctuation don't change the meaning; the reference day and
+ * time zone do ("tomorrow" differs by day and by zone)
+ */
+const getCacheKey = (scope: IntentCacheScope, prompt: string, timeZone: string, referenceDate: Date): string => {
+    const normalized = prompt.toLowerCase().replace(/\s+/g, ' ').replace(/[.!?\s]+$/, '').trim();
+    const { year, month, day } = getZonedParts(referenceDate, timeZone);
+    return `${scope.userId}|${scope.workspaceId || ''}|${timeZone}|${year}-${month + 1}-${day}|${normalized}`;
+};
+
+/**
+ * Cached intent for a prompt of the same user in the same workspace, if any
+ */
+export const getCachedIntent = (
+    scope: IntentCacheScope,
+    prompt: string,
+    timeZone: string,
+    referenceDate: Date = new Date()
+): ParsedIntent | null => {
+    if (CACHE_TTL_MINUTES <= 0) return null;
+
+    const key = getCacheKey(scope, prompt, timeZone, referenceDate);
+    const entry = cache.get(key);
+
+    if (!entry) return null;
+    if (entry.expiresAt <= Date.now()) {
+        cache.delete(key);
+        return null;
+    }
+
+    return JSON.parse(entry.intent);
+};
+
+/**
+ * Cache the intent parsed from a prompt
+ * Maps keep insertion order, so the oldest entry is evicted first
+ */
+export const cacheIntent = (
+    scope: IntentCacheScope,
+    prompt: string,
+    timeZone: string,
+    intent: ParsedIntent,
+    referenceDate: Date = new Date()
+): void => {
+    if (CACHE_TTL_MINUTES <= 0) return;
+
+    const key = getCacheKey(scope, prompt, timeZone, referenceDate);
+    cache.delete(key);
+    cache.set(key, {
+        intent: JSON.stringify(intent),
+        expiresAt: Date.now() + CACHE_TTL_MINUTES * 60000
+    });
+
+    while (cache.size > MAX_ENTRIES) {
+        cache.delete(cache.keys().next().value!);
+    }
+};
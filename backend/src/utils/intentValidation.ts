@@ -0,0 +1,397 @@
+/**
+ * Intent Validation
+ * Checks parsed intents from every provider before they reach the scheduler, repairing
+ * fields that can be fixed and cross-checking dates against the chrono parser
+ */
+
+import { IntentAction, ParsedIntent } from '../types/ai';
+import { parseTimeRange, ParsedTimeRange } from './chronoWrapper';
+import { getZonedParts, resolveTimeZone } from './timezone';
+
+export interface IntentValidationOptions {
+    timezone?: string; // IANA zone the request was made in
+    referenceDate?: Date; // default now
+    crossCheck?: boolean; // compare dates with chrono (default true)
+}
+
+export interface IntentValidationResult {
+    valid: boolean;
+    error?: string;
+    intent?: ParsedIntent;
+    repairs: string[]; // fields that were dropped or corrected
+    conflicts: string[]; // fields where the provider and chrono disagree
+}
+
+const ACTIONS: IntentAction[] = ['create', 'move', 'cancel', 'update'];
+const PRIORITIES = ['low', 'medium', 'high'];
+const FREQUENCIES = ['daily', 'weekly', 'monthly'];
+const MAX_DURATION_MINUTES = 24 * 60;
+
+// Confidence of an intent without one, and the most an intent the chrono parser contradicts gets
+const DEFAULT_CONFIDENCE = 0.5;
+const CONFLICT_CONFIDENCE = 0.5;
+
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+const HAS_OFFSET = /(Z|[+-]\d{2}:?\d{2})$/i;
+
+const isNonEmptyString = (value: unknown): value is string =>
+    typeof value === 'string' && value.trim().length > 0;
+
+const isValidDate = (value: unknown): value is string =>
+    isNonEmptyString(value) && !isNaN(new Date(value).getTime());
+
+const isDay = (value: unknown): value is number =>
+    Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6;
+
+const isDuration = (value: unknown): value is number =>
+    typeof value === 'number' && Number.isFinite(value) && value > 0 && value <= MAX_DURATION_MINUTES;
+
+/**
+ * Validate a parsed intent, repairing what can be repaired
+ * Only output that is not an intent at all is rejected; invalid fields are dropped or
+ * corrected, and a dropped start time becomes an ambiguity so the user is asked for it
+ */
+export const validateParsedIntent = (
+    input: any,
+    prompt: string,
+    options: IntentValidationOptions = {}
+): IntentValidationResult => {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        return { valid: false, error: 'Parsed intent must be an object', repairs: [], conflicts: [] };
+    }
+
+    const repairs: string[] = [];
+    const repair = (field: string) => {
+        if (!repairs.includes(field)) repairs.push(field);
+    };
+
+    const action: IntentAction = ACTIONS.includes(input.action) ? input.action : 'create';
+    if (input.action !== undefined && input.action !== action) repair('action');
+
+    const intent: ParsedIntent = {
+        action: input.action !== undefined ? action : undefined,
+        ambiguities: Array.isArray(input.ambiguities)
+            ? input.ambiguities.filter((ambiguity: unknown) => isNonEmptyString(ambiguity))
+            : []
+    };
+
+    // Text fields
+    for (const field of ['title', 'description', 'location'] as const) {
+        if (isNonEmptyString(input[field])) {
+            intent[field] = input[field].trim();
+        } else if (input[field] !== undefined && input[field] !== null) {
+            repair(field);
+        }
+    }
+
+    // Dates: an end that is not after the start is dropped
+    if (isValidDate(input.startDate)) {
+        intent.startDate = input.startDate;
+    } else if (input.startDate !== undefined && input.startDate !== null) {
+        repair('startDate');
+    }
+
+    if (isDuration(input.duration)) {
+        intent.duration = Math.round(input.duration);
+    } else if (input.duration !== undefined && input.duration !== null) {
+        repair('duration');
+    }
+
+    if (isValidDate(input.endDate) && intent.startDate) {
+        const minutes = (new Date(input.endDate).getTime() - new Date(intent.startDate).getTime()) / 60000;
+
+        if (minutes > 0 && minutes <= MAX_DURATION_MINUTES) {
+            intent.endDate = input.endDate;
+            if (!intent.duration) intent.duration = Math.round(minutes);
+        } else {
+            repair('endDate');
+        }
+    } else if (input.endDate !== undefined && input.endDate !== null) {
+        repair('endDate');
+    }
+
+    if (intent.startDate && intent.endDate && intent.duration) {
+        const minutes = (new Date(intent.endDate).getTime() - new Date(intent.startDate).getTime()) / 60000;
+        if (Math.round(minutes) !== intent.duration) {
+            // The explicit duration wins over an end that contradicts it
+            intent.endDate = new Date(new Date(intent.startDate).getTime() + intent.duration * 60000).toISOString();
+            repair('endDate');
+        }
+    }
+
+    // Preferences
+    if (PRIORITIES.includes(input.priority)) {
+        intent.priority = input.priority;
+    } else if (input.priority !== undefined && input.priority !== null) {
+        intent.priority = 'medium';
+        repair('priority');
+    }
+
+    if (Array.isArray(input.attendees)) {
+        intent.attendees = input.attendees
+            .filter((attendee: unknown) => isNonEmptyString(attendee))
+            .map((attendee: string) => attendee.trim());
+        if (intent.attendees!.length !== input.attendees.length) repair('attendees');
+    } else if (input.attendees !== undefined && input.attendees !== null) {
+        intent.attendees = [];
+        repair('attendees');
+    }
+
+    if (typeof input.isFlexible === 'boolean') intent.isFlexible = input.isFlexible;
+    if (typeof input.isImmutable === 'boolean') intent.isImmutable = input.isImmutable;
+
+    if (input.recurrence !== undefined && input.recurrence !== null) {
+        const recurrence = validateRecurrence(input.recurrence, repair);
+        if (recurrence) intent.recurrence = recurrence;
+    }
+
+    if (input.constraints !== undefined && input.constraints !== null) {
+        const constraints = validateConstraints(input.constraints, repair);
+        if (constraints) intent.constraints = constraints;
+    }
+
+    // Commands
+    if (action !== 'create') {
+        intent.target = validateTarget(input.target, repair);
+    }
+    if (action === 'update') {
+        intent.changes = validateChanges(input.changes, repair);
+    }
+
+    intent.confidence = typeof input.confidence === 'number' && Number.isFinite(input.confidence)
+        ? Math.min(Math.max(input.confidence, 0), 1)
+        : DEFAULT_CONFIDENCE;
+
+    // A dropped start time has to be asked for
+    if (!intent.startDate && repairs.includes('startDate')) {
+        addAmbiguity(intent, action === 'move' ? 'move_time' : 'start_time');
+    }
+
+    const conflicts = options.crossCheck === false ? [] : crossCheckWithChrono(intent, prompt, options);
+    if (conflicts.length > 0) {
+        intent.confidence = Math.min(intent.confidence, CONFLICT_CONFIDENCE);
+        conflicts.forEach(field => addAmbiguity(intent, `${field}_conflict`));
+    }
+
+    return { valid: true, intent, repairs, conflicts };
+};
+
+const addAmbiguity = (intent: ParsedIntent, ambiguity: string) => {
+    if (!intent.ambiguities!.includes(ambiguity)) intent.ambiguities!.push(ambiguity);
+};
+
+const validateRecurrence = (input: any, repair: (field: string) => void): ParsedIntent['recurrence'] | undefined => {
+    if (typeof input !== 'object' || !FREQUENCIES.includes(input.frequency)) {
+        repair('recurrence');
+        return undefined;
+    }
+
+    const recurrence: NonNullable<ParsedIntent['recurrence']> = { frequency: input.frequency };
+
+    if (Number.isInteger(input.interval) && input.interval >= 1) {
+        recurrence.interval = input.interval;
+    } else if (input.interval !== undefined && input.interval !== null) {
+        repair('recurrence.interval');
+    }
+
+    if (Array.isArray(input.daysOfWeek)) {
+        const days = input.daysOfWeek.filter(isDay);
+        if (days.length !== input.daysOfWeek.length) repair('recurrence.daysOfWeek');
+        if (days.length > 0) recurrence.daysOfWeek = Array.from(new Set<number>(days));
+    }
+
+    if (isValidDate(input.endDate)) {
+        recurrence.endDate = input.endDate;
+    } else if (input.endDate !== undefined && input.endDate !== null) {
+        repair('recurrence.endDate');
+    }
+
+    if (Number.isInteger(input.count) && input.count >= 1) {
+        recurrence.count = input.count;
+    } else if (input.count !== undefined && input.count !== null) {
+        repair('recurrence.count');
+    }
+
+    return recurrence;
+};
+
+const validateConstraints = (input: any, repair: (field: string) => void): ParsedIntent['constraints'] | undefined => {
+    if (typeof input !== 'object') {
+        repair('constraints');
+        return undefined;
+    }
+
+    const constraints: NonNullable<ParsedIntent['constraints']> = {};
+
+    for (const field of ['notBefore', 'notAfter'] as const) {
+        if (typeof input[field] === 'string' && TIME_OF_DAY.test(input[field])) {
+            constraints[field] = input[field];
+        } else if (input[field] !== undefined && input[field] !== null) {
+            repair(`constraints.${field}`);
+        }
+    }
+
+    if (constraints.notBefore && constraints.notAfter && constraints.notBefore >= constraints.notAfter) {
+        delete constraints.notBefore;
+        delete constraints.notAfter;
+        repair('constraints.notAfter');
+    }
+
+    for (const field of ['preferredDays', 'avoidDays'] as const) {
+        if (Array.isArray(input[field])) {
+            const days = input[field].filter(isDay);
+            if (days.length !== input[field].length) repair(`constraints.${field}`);
+            if (days.length > 0) constraints[field] = Array.from(new Set<number>(days));
+        }
+    }
+
+    for (const field of ['mustBeBefore', 'mustBeAfter'] as const) {
+        if (isValidDate(input[field])) {
+            constraints[field] = input[field];
+        } else if (input[field] !== undefined && input[field] !== null) {
+            repair(`constraints.${field}`);
+        }
+    }
+
+    return Object.keys(constraints).length > 0 ? constraints : undefined;
+};
+
+const validateTarget = (input: any, repair: (field: string) => void): NonNullable<ParsedIntent['target']> => {
+    const target: NonNullable<ParsedIntent['target']> = {};
+
+    if (!input || typeof input !== 'object') {
+        if (input !== undefined && input !== null) repair('target');
+        return target;
+    }
+
+    if (isNonEmptyString(input.query)) target.query = input.query.trim();
+    if (Array.isArray(input.attendees)) {
+        target.attendees = input.attendees.filter((attendee: unknown) => isNonEmptyString(attendee));
+    }
+    if (typeof input.all === 'boolean') target.all = input.all;
+
+    for (const field of ['rangeStart', 'rangeEnd'] as const) {
+        if (isValidDate(input[field])) {
+            target[field] = input[field];
+        } else if (input[field] !== undefined && input[field] !== null) {
+            repair(`target.${field}`);
+        }
+    }
+
+    // A reversed range is most likely the two ends swapped
+    if (target.rangeStart && target.rangeEnd && new Date(target.rangeStart) > new Date(target.rangeEnd)) {
+        [target.rangeStart, target.rangeEnd] = [target.rangeEnd, target.rangeStart];
+        repair('target.rangeStart');
+    }
+
+    return target;
+};
+
+const validateChanges = (input: any, repair: (field: string) => void): NonNullable<ParsedIntent['changes']> => {
+    const changes: NonNullable<ParsedIntent['changes']> = {};
+
+    if (!input || typeof input !== 'object') {
+        if (input !== undefined && input !== null) repair('changes');
+        return changes;
+    }
+
+    for (const field of ['title', 'description', 'location'] as const) {
+        if (isNonEmptyString(input[field])) changes[field] = input[field].trim();
+    }
+
+    if (PRIORITIES.includes(input.priority)) {
+        changes.priority = input.priority;
+    } else if (input.priority !== undefined && input.priority !== null) {
+        repair('changes.priority');
+    }
+
+    if (isDuration(input.duration)) {
+        changes.duration = Math.round(input.duration);
+    } else if (input.duration !== undefined && input.duration !== null) {
+        repair('changes.duration');
+    }
+
+    return changes;
+};
+
+/**
+ * Compare the intent's start time and duration with what chrono reads from the prompt
+ * Only the parts chrono is certain of are compared (a bare "Friday" checks the weekday only),
+ * so an implied time is never reported as a disagreement
+ */
+const crossCheckWithChrono = (
+    intent: ParsedIntent,
+    prompt: string,
+    options: IntentValidationOptions
+): string[] => {
+    if (!intent.startDate || intent.action === 'cancel' || intent.action === 'update') {
+        return [];
+    }
+
+    const timeZone = resolveTimeZone(options.timezone);
+    const range = parsePromptTimeRange(prompt, intent.action, getWallClock(options.referenceDate || new Date(), timeZone));
+    if (!range) return [];
+
+    const conflicts: string[] = [];
+    const intentStart = getIntentWallClock(intent.startDate, timeZone);
+    const chronoStart = range.start;
+
+    const sameDay = intentStart.getFullYear() === chronoStart.getFullYear() &&
+        intentStart.getMonth() === chronoStart.getMonth() &&
+        intentStart.getDate() === chronoStart.getDate();
+    const sameTime = intentStart.getHours() === chronoStart.getHours() &&
+        intentStart.getMinutes() === chronoStart.getMinutes();
+
+    if ((range.hasDay && !sameDay) ||
+        (!range.hasDay && range.hasWeekday && intentStart.getDay() !== chronoStart.getDay()) ||
+        (range.hasTime && !sameTime)) {
+        conflicts.push('start_time');
+    }
+
+    if (range.duration && intent.duration && range.duration !== intent.duration) {
+        conflicts.push('duration');
+    }
+
+    return conflicts;
+};
+
+/**
+ * Time range stated in the prompt
+ * In a session the latest user turn that names a time wins; for a move the destination
+ * follows the last " to ", so the event's current day is not mistaken for the new one
+ */
+const parsePromptTimeRange = (prompt: string, action: IntentAction | undefined, reference: Date): ParsedTimeRange | null => {
+    const lines = prompt.split('\n').map(line => line.trim()).filter(Boolean);
+
+    for (let index = lines.length - 1; index >= 0; index--) {
+        let text = lines[index];
+
+        if (index === 0 && action === 'move') {
+            const to = text.toLowerCase().lastIndexOf(' to ');
+            if (to >= 0) text = text.slice(to + 4);
+        }
+
+        const range = parseTimeRange(text, reference);
+        if (range) return range;
+    }
+
+    return null;
+};
+
+/**
+ * A Date whose local fields are the wall-clock time of an instant in a time zone,
+ * matching how chrono reads dates relative to its reference
+ */
+const getWallClock = (date: Date, timeZone: string): Date => {
+    const parts = getZonedParts(date, timeZone);
+    return new Date(parts.year, parts.month, parts.day, parts.hours, parts.minutes, parts.seconds);
+};
+
+/**
+ * Wall-clock time of an intent date
+ * A date without an offset is already wall-clock time in the user's zone
+ */
+const getIntentWallClock = (value: string, timeZone: string): Date => {
+    const date = new Date(value);
+    return HAS_OFFSET.test(value.trim()) ? getWallClock(date, timeZone) : date;
+};
@@ -0,0 +1,601 @@
+/**
+ * Recurrence Utilities
+ * RFC 5545 RRULE parsing, serialization and occurrence expansion
+ */
+
+import { ParsedIntent } from '../types/ai';
+import {
+    RecurrenceFrequency,
+    RecurrenceRule,
+    RecurrenceWeekday,
+    OccurrenceFields
+} from '../types/event';
+import { logger } from './logger';
+import { getZonedParts, isValidTimeZone, zonedTimeToUtc } from './timezone';
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+// Parts that would change which occurrences a rule generates but are not expanded here
+const UNSUPPORTED_PARTS = ['BYSECOND', 'BYMINUTE', 'BYHOUR', 'BYYEARDAY', 'BYWEEKNO'];
+const MONDAY = 1;
+const LEGACY_FREQUENCIES: { [key: string]: RecurrenceFrequency } = {
+    daily: 'DAILY',
+    weekly: 'WEEKLY',
+    monthly: 'MONTHLY',
+    yearly: 'YEARLY'
+};
+// Values of the legacy recurrence field that make an event a series
+export const LEGACY_RECURRENCE_VALUES = Object.keys(LEGACY_FREQUENCIES);
+const MAX_ITERATIONS = 5000; // Safety limit on generated periods
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RecurringEventLike {
+    id?: string;
+    _id?: string;
+    startDate: string;
+    endDate: string;
+    rrule?: string | null;
+    recurrence?: any;
+    exdates?: string[];
+    timeZone?: string; // IANA zone the series repeats in; server-local when absent
+}
+
+/**
+ * Parse an iCalendar date or date-time ("20251231", "20251231T090000Z")
+ * Floating times are interpreted in server-local time
+ */
+export function parseICalDateTime(value: string): Date | null {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/i);
+    if (!match) {
+        return null;
+    }
+
+    const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match;
+    const parts = [Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)] as const;
+
+    return utc ? new Date(Date.UTC(...parts)) : new Date(...parts);
+}
+
+/**
+ * Format a date as a UTC iCalendar date-time ("20251231T090000Z")
+ */
+export function formatICalDateTime(date: Date): string {
+    return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Parse a weekday token such as "MO", "2TU" or "-1FR"
+ */
+function parseWeekday(token: string): RecurrenceWeekday | null {
+    const match = token.trim().toUpperCase().match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+    if (!match) {
+        return null;
+    }
+
+    const weekday: RecurrenceWeekday = { weekday: WEEKDAY_CODES.indexOf(match[2]) };
+    if (match[1]) {
+        weekday.ordinal = parseInt(match[1], 10);
+    }
+    return weekday;
+}
+
+/**
+ * Parse an RRULE string ("RRULE:FREQ=WEEKLY;BYDAY=MO,WE") into a structured rule
+ * Returns null for rules without a supported frequency or with parts that cannot be expanded
+ */
+export function parseRRule(value: string): RecurrenceRule | null {
+    const body = value.trim().replace(/^RRULE:/i, '');
+    if (!body) {
+        return null;
+    }
+
+    const rule: Partial<RecurrenceRule> = { interval: 1 };
+
+    for (const part of body.split(';')) {
+        const [rawKey, rawValue] = part.split('=');
+        if (!rawKey || rawValue === undefined) continue;
+
+        const key = rawKey.trim().toUpperCase();
+        const val = rawValue.trim().toUpperCase();
+
+        switch (key) {
+            case 'FREQ':
+                if (FREQUENCIES.includes(val as RecurrenceFrequency)) {
+                    rule.freq = val as RecurrenceFrequency;
+                }
+                break;
+            case 'INTERVAL': {
+                const interval = parseInt(val, 10);
+                if (interval > 0) rule.interval = interval;
+                break;
+            }
+            case 'COUNT': {
+                const count = parseInt(val, 10);
+                if (count > 0) rule.count = count;
+                break;
+            }
+            case 'UNTIL': {
+                const until = parseICalDateTime(val);
+                if (until) rule.until = until.toISOString();
+                break;
+            }
+            case 'BYDAY': {
+                const days = val.split(',').map(parseWeekday).filter((d): d is RecurrenceWeekday => d !== null);
+                if (days.length > 0) rule.byDay = days;
+                break;
+            }
+            case 'BYMONTHDAY': {
+                const days = val.split(',').map(Number).filter(d => Number.isInteger(d) && d !== 0 && Math.abs(d) <= 31);
+                if (days.length > 0) rule.byMonthDay = days;
+                break;
+            }
+            case 'BYMONTH': {
+                const months = val.split(',').map(Number).filter(m => Number.isInteger(m) && m >= 1 && m <= 12);
+                if (months.length > 0) rule.byMonth = months;
+                break;
+            }
+            case 'BYSETPOS': {
+                const positions = val.split(',').map(Number).filter(n => Number.isInteger(n) && n !== 0 && Math.abs(n) <= 366);
+                if (positions.length > 0) rule.bySetPos = positions;
+                break;
+            }
+            case 'WKST': {
+                const weekStart = WEEKDAY_CODES.indexOf(val);
+                if (weekStart >= 0) rule.weekStart = weekStart;
+                break;
+            }
+            default:
+                // Expanding without these parts would generate the wrong occurrences
+                if (UNSUPPORTED_PARTS.includes(key)) {
+                    return null;
+                }
+                break;
+        }
+    }
+
+    if (!rule.freq) {
+        return null;
+    }
+
+    return rule as RecurrenceRule;
+}
+
+/**
+ * Serialize a structured rule back to an RRULE value (without the "RRULE:" prefix)
+ */
+export function serializeRRule(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.freq}`];
+
+    if (rule.interval > 1) {
+        parts.push(`INTERVAL=${rule.interval}`);
+    }
+    if (rule.byDay && rule.byDay.length > 0) {
+        parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${WEEKDAY_CODES[d.weekday]}`).join(',')}`);
+    }
+    if (rule.byMonthDay && rule.byMonthDay.length > 0) {
+        parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    }
+    if (rule.byMonth && rule.byMonth.length > 0) {
+        parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+    }
+    if (rule.bySetPos && rule.bySetPos.length > 0) {
+        parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+    }
+    if (rule.weekStart !== undefined && rule.weekStart !== MONDAY) {
+        parts.push(`WKST=${WEEKDAY_CODES[rule.weekStart]}`);
+    }
+    if (rule.count) {
+        parts.push(`COUNT=${rule.count}`);
+    } else if (rule.until) {
+        parts.push(`UNTIL=${formatICalDateTime(new Date(rule.until))}`);
+    }
+
+    return parts.join(';');
+}
+
+/**
+ * Normalize any supported recurrence input into an RRULE string
+ * Accepts raw RRULEs, legacy form values ("daily", "weekly", ...) and ParsedIntent.recurrence
+ * Returns null for non-recurring events
+ */
+export function normalizeRecurrence(
+    recurrence: string | ParsedIntent['recurrence'] | null | undefined
+): string | null {
+    if (!recurrence) {
+        return null;
+    }
+
+    if (typeof recurrence === 'string') {
+        const value = recurrence.trim();
+        if (!value || value.toLowerCase() === 'none') {
+            return null;
+        }
+
+        const legacy = LEGACY_FREQUENCIES[value.toLowerCase()];
+        if (legacy) {
+            return serializeRRule({ freq: legacy, interval: 1 });
+        }
+
+        const parsed = parseRRule(value);
+        if (!parsed) {
+            logger.warn('Unrecognized recurrence value, treating event as non-recurring', { recurrence: value });
+            return null;
+        }
+        return serializeRRule(parsed);
+    }
+
+    const freq = LEGACY_FREQUENCIES[recurrence.frequency];
+    if (!freq) {
+        return null;
+    }
+
+    const rule: RecurrenceRule = {
+        freq,
+        interval: recurrence.interval && recurrence.interval > 0 ? recurrence.interval : 1
+    };
+
+    if (recurrence.daysOfWeek && recurrence.daysOfWeek.length > 0) {
+        rule.byDay = recurrence.daysOfWeek.map(weekday => ({ weekday }));
+    }
+    if (recurrence.count) {
+        rule.count = recurrence.count;
+    } else if (recurrence.endDate) {
+        rule.until = new Date(recurrence.endDate).toISOString();
+    }
+
+    return serializeRRule(rule);
+}
+
+/**
+ * Get the RRULE for an event, falling back to its legacy recurrence field
+ */
+export function getEventRRule(event: RecurringEventLike): string | null {
+    return event.rrule || normalizeRecurrence(event.recurrence);
+}
+
+/**
+ * Check whether an event is the master of a recurring series
+ */
+export function isRecurringEvent(event: RecurringEventLike): boolean {
+    return getEventRRule(event) !== null;
+}
+
+/**
+ * Occurrence starts excluded from a series, as epoch milliseconds
+ */
+function getExcludedTimes(event: RecurringEventLike): Set<number> {
+    return new Set((event.exdates || []).map(date => new Date(date).getTime()));
+}
+
+/**
+ * Build a local date with the time of day of the series start
+ * Day values outside the month roll over, which DAILY/WEEKLY iteration relies on
+ */
+function atTimeOf(dtstart: Date, year: number, month: number, day: number): Date {
+    return new Date(
+        year,
+        month,
+        day,
+        dtstart.getHours(),
+        dtstart.getMinutes(),
+        dtstart.getSeconds(),
+        dtstart.getMilliseconds()
+    );
+}
+
+/**
+ * All days in a month matching the rule's BYDAY / BYMONTHDAY parts
+ */
+function monthCandidates(rule: RecurrenceRule, dtstart: Date, year: number, month: number): Date[] {
+    const daysInMonth = new Date(year, month + 1, 0).getDate();
+    const days = new Set<number>();
+
+    if (rule.byMonthDay) {
+        for (const d of rule.byMonthDay) {
+            const day = d > 0 ? d : daysInMonth + d + 1;
+            if (day >= 1 && day <= daysInMonth) days.add(day);
+        }
+    }
+
+    if (rule.byDay) {
+        for (const { weekday, ordinal } of rule.byDay) {
+            const matching: number[] = [];
+            for (let day = 1; day <= daysInMonth; day++) {
+                if (new Date(year, month, day).getDay() === weekday) matching.push(day);
+            }
+
+            if (ordinal === undefined) {
+                matching.forEach(day => days.add(day));
+            } else {
+                const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+                if (day !== undefined) days.add(day);
+            }
+        }
+    }
+
+    // Without BY* parts, repeat on the start day; months lacking that day are skipped (e.g. Feb 30)
+    if (!rule.byMonthDay && !rule.byDay && dtstart.getDate() <= daysInMonth) {
+        days.add(dtstart.getDate());
+    }
+
+    return Array.from(days).map(day => atTimeOf(dtstart, year, month, day));
+}
+
+/**
+ * Candidate starts generated by one period (day, week, month or year) of the rule, in order
+ * BYSETPOS then picks from the period's candidates by position
+ */
+function periodCandidates(rule: RecurrenceRule, dtstart: Date, period: number): Date[] {
+    const candidates = periodSet(rule, dtstart, period).sort((a, b) => a.getTime() - b.getTime());
+    if (!rule.bySetPos) {
+        return candidates;
+    }
+
+    const picked = new Set<Date>();
+    for (const position of rule.bySetPos) {
+        const candidate = position > 0 ? candidates[position - 1] : candidates[candidates.length + position];
+        if (candidate) picked.add(candidate);
+    }
+    return candidates.filter(candidate => picked.has(candidate));
+}
+
+/**
+ * All starts matching the rule's BY* parts in one period, unordered
+ */
+function periodSet(rule: RecurrenceRule, dtstart: Date, period: number): Date[] {
+    const step = period * rule.interval;
+
+    switch (rule.freq) {
+        case 'DAILY': {
+            const date = atTimeOf(dtstart, dtstart.getFullYear(), dtstart.getMonth(), dtstart.getDate() + step);
+            if (rule.byDay && !rule.byDay.some(d => d.weekday === date.getDay())) return [];
+            if (rule.byMonth && !rule.byMonth.includes(date.getMonth() + 1)) return [];
+            return [date];
+        }
+
+        case 'WEEKLY': {
+            // Weeks start on WKST, Monday by default (RFC 5545)
+            const weekStart = rule.weekStart ?? MONDAY;
+            const offsetToWeekStart = (dtstart.getDay() - weekStart + 7) % 7;
+            const weekdays = rule.byDay ? rule.byDay.map(d => d.weekday) : [dtstart.getDay()];
+
+            return weekdays.map(weekday => atTimeOf(
+                dtstart,
+                dtstart.getFullYear(),
+                dtstart.getMonth(),
+                dtstart.getDate() - offsetToWeekStart + step * 7 + ((weekday - weekStart + 7) % 7)
+            ));
+        }
+
+        case 'MONTHLY': {
+            const monthIndex = dtstart.getMonth() + step;
+            const year = dtstart.getFullYear() + Math.floor(monthIndex / 12);
+            const month = ((monthIndex % 12) + 12) % 12;
+            if (rule.byMonth && !rule.byMonth.includes(month + 1)) return [];
+            return monthCandidates(rule, dtstart, year, month);
+        }
+
+        case 'YEARLY': {
+            const year = dtstart.getFullYear() + step;
+            const months = rule.byMonth ? rule.byMonth.map(m => m - 1) : [dtstart.getMonth()];
+
+            return months.flatMap(month => monthCandidates(rule, dtstart, year, month));
+        }
+    }
+}
+
+/**
+ * First period worth generating for a window, so long-running series don't
+ * iterate from their start. Only safe when COUNT doesn't need every occurrence.
+ */
+function firstPeriodFor(rule: RecurrenceRule, dtstart: Date, rangeStart: Date): number {
+    if (rule.count || rangeStart <= dtstart) {
+        return 0;
+    }
+
+    let periods: number;
+    switch (rule.freq) {
+        case 'DAILY':
+            periods = (rangeStart.getTime() - dtstart.getTime()) / DAY_MS;
+            break;
+        case 'WEEKLY':
+            periods = (rangeStart.getTime() - dtstart.getTime()) / (7 * DAY_MS);
+            break;
+        case 'MONTHLY':
+            periods = (rangeStart.getFullYear() - dtstart.getFullYear()) * 12 + rangeStart.getMonth() - dtstart.getMonth();
+            break;
+        case 'YEARLY':
+            periods = rangeStart.getFullYear() - dtstart.getFullYear();
+            break;
+    }
+
+    // Step back one period to absorb DST shifts and partial periods
+    return Math.max(0, Math.floor(periods / rule.interval) - 1);
+}
+
+/**
+ * Represent an instant's wall-clock time in a zone as a server-local Date
+ */
+function toWallClock(date: Date, timeZone: string): Date {
+    const p = getZonedParts(date, timeZone);
+    return new Date(p.year, p.month, p.day, p.hours, p.minutes, p.seconds, date.getMilliseconds());
+}
+
+/**
+ * Inverse of toWallClock
+ */
+function fromWallClock(date: Date, timeZone: string): Date {
+    const instant = zonedTimeToUtc(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate(),
+        date.getHours(),
+        date.getMinutes(),
+        date.getSeconds(),
+        timeZone
+    );
+    return new Date(instant.getTime() + date.getMilliseconds());
+}
+
+/**
+ * Generate occurrence start times of a rule within [rangeStart, rangeEnd)
+ * With a time zone, occurrences keep their wall-clock time across DST changes
+ */
+export function getOccurrenceStarts(
+    rule: RecurrenceRule,
+    dtstart: Date,
+    rangeStart: Date,
+    rangeEnd: Date,
+    timeZone?: string
+): Date[] {
+    if (timeZone && isValidTimeZone(timeZone)) {
+        // Expand on wall-clock times in the zone (padded a day for offset differences), then map back
+        const wallRule = rule.until
+            ? { ...rule, until: toWallClock(new Date(rule.until), timeZone).toISOString() }
+            : rule;
+
+        return getOccurrenceStarts(
+            wallRule,
+            toWallClock(dtstart, timeZone),
+            new Date(toWallClock(rangeStart, timeZone).getTime() - DAY_MS),
+            new Date(toWallClock(rangeEnd, timeZone).getTime() + DAY_MS)
+        )
+            .map(date => fromWallClock(date, timeZone))
+            .filter(date => date >= rangeStart && date < rangeEnd);
+    }
+
+    const starts: Date[] = [];
+    const until = rule.until ? new Date(rule.until) : null;
+    let emitted = 0;
+
+    for (
+        let period = firstPeriodFor(rule, dtstart, rangeStart), iterations = 0;
+        iterations < MAX_ITERATIONS;
+        period++, iterations++
+    ) {
+        const candidates = periodCandidates(rule, dtstart, period).filter(date => date >= dtstart);
+
+        for (const candidate of candidates) {
+            if ((until && candidate > until) || (rule.count && emitted >= rule.count) || candidate >= rangeEnd) {
+                return starts;
+            }
+
+            emitted++;
+            if (candidate >= rangeStart) {
+                starts.push(candidate);
+            }
+        }
+    }
+
+    logger.warn('Recurrence expansion hit iteration limit', { rule: serializeRRule(rule) });
+    return starts;
+}
+
+/**
+ * Expand a single event into the occurrences overlapping [windowStart, windowEnd)
+ * Non-recurring events are returned as-is when they overlap the window
+ */
+export function expandEvent<T extends RecurringEventLike>(
+    event: T,
+    windowStart: Date,
+    windowEnd: Date
+): Array<T | (T & OccurrenceFields)> {
+    const eventStart = new Date(event.startDate);
+    const eventEnd = new Date(event.endDate);
+    const duration = Math.max(0, eventEnd.getTime() - eventStart.getTime());
+
+    const rrule = getEventRRule(event);
+    const rule = rrule ? parseRRule(rrule) : null;
+
+    if (!rule) {
+        return eventStart < windowEnd && eventEnd > windowStart ? [event] : [];
+    }
+
+    const seriesId = (event.id || event._id) as string;
+    const excluded = getExcludedTimes(event);
+
+    // Occurrences starting up to one duration before the window can still overlap it
+    return getOccurrenceStarts(rule, eventStart, new Date(windowStart.getTime() - duration), windowEnd, event.timeZone)
+        .filter(start => start.getTime() + duration > windowStart.getTime() && !excluded.has(start.getTime()))
+        .map(start => ({
+            ...event,
+            startDate: start.toISOString(),
+            endDate: new Date(start.getTime() + duration).toISOString(),
+            seriesId,
+            occurrenceStart: start.toISOString(),
+            isOccurrence: true as const
+        }));
+}
+
+/**
+ * Expand a list of events (series masters and one-off events) over a window
+ */
+export function expandEvents<T extends RecurringEventLike>(
+    events: T[],
+    windowStart: Date,
+    windowEnd: Date
+): Array<T | (T & OccurrenceFields)> {
+    return events
+        .flatMap(event => expandEvent(event, windowStart, windowEnd))
+        .sort((a, b) => new Date(a.startDate).getTime() - new Date(b.startDate).getTime());
+}
+
+/**
+ * Get the first occurrence of an event starting strictly after a given time
+ */
+export function getNextOccurrence(event: RecurringEventLike, after: Date): Date | null {
+    const eventStart = new Date(event.startDate);
+    const rrule = getEventRRule(event);
+    const rule = rrule ? parseRRule(rrule) : null;
+
+    if (!rule) {
+        return eventStart > after ? eventStart : null;
+    }
+
+    // Look ahead far enough for the sparsest rule (yearly on Feb 29)
+    const horizon = new Date(Math.max(after.getTime(), eventStart.getTime()) + rule.interval * 4 * 366 * DAY_MS);
+    const excluded = getExcludedTimes(event);
+    const next = getOccurrenceStarts(rule, eventStart, new Date(after.getTime() + 1), horizon, event.timeZone)
+        .find(start => !excluded.has(start.getTime()));
+
+    return next || null;
+}
+
+/**
+ * End a series before a given occurrence ("this and following" edits)
+ * Returns null when no occurrence would remain before the cut
+ */
+export function truncateRRule(rrule: string, dtstart: Date, before: Date, timeZone?: string): string | null {
+    const rule = parseRRule(rrule);
+    if (!rule || before <= dtstart) {
+        return null;
+    }
+
+    const remaining = getOccurrenceStarts(rule, dtstart, dtstart, before, timeZone);
+    if (remaining.length === 0) {
+        return null;
+    }
+
+    const { count, ...rest } = rule;
+    return serializeRRule({ ...rest, until: remaining[remaining.length - 1].toISOString() });
+}
+
+/**
+ * Rule for the part of a series starting at a given occurrence
+ * A COUNT limit is reduced by the occurrences that came before it
+ */
+export function continueRRule(rrule: string, dtstart: Date, from: Date, timeZone?: string): string | null {
+    const rule = parseRRule(rrule);
+    if (!rule) {
+        return null;
+    }
+
+    if (!rule.count) {
+        return serializeRRule(rule);
+    }
+
+    const before = getOccurrenceStarts(rule, dtstart, dtstart, from, timeZone).length;
+    const count = rule.count - before;
+
+    return count > 0 ? serializeRRule({ ...rule, count }) : null;
+}
@@ -0,0 +1,235 @@
+/**
+ * Rescheduler
+ * Finds new times for events displaced by a new event, cascading moves where needed,
+ * and picks the plan with the lowest total disruption cost
+ */
+
+import { ConflictInfo, EventMove, ReschedulePlan } from '../types/ai';
+import { isFocusTime } from './focusTime';
+import { getZonedParts, resolveTimeZone, zonedTimeToUtc } from './timezone';
+
+export interface RescheduleOptions {
+    workingHours?: { start: string; end: string; timezone?: string };
+    bufferMinutes: number;
+    slotGranularityMinutes: number;
+    // Events are only moved within this range, where all events are known
+    horizonStart: Date;
+    horizonEnd: Date;
+    notBefore?: Date; // default now, events are never moved into the past
+    maxDepth?: number; // how many times a move may displace further events
+    maxExpansions?: number; // search budget (candidate placements tried)
+}
+
+// Base cost of moving an event, by priority
+const MOVE_COST: Record<string, number> = { low: 1, medium: 2, high: 4 };
+const HOURLY_SHIFT_COST = 0.1;
+const DAY_CHANGE_COST = 1;
+// Leaving a conflict in place is always worse than any realistic set of moves
+const UNRESOLVED_COST = 100;
+// Placements considered per event, cheapest first
+const MAX_PLACEMENTS_PER_EVENT = 100;
+
+interface Placement {
+    start: number;
+    end: number;
+    cost: number;
+}
+
+interface PendingMove {
+    event: any;
+    depth: number;
+    displacedBy?: string; // title of the event whose move displaced it
+    optional: boolean; // initial conflicts may stay unresolved, cascaded ones may not
+}
+
+interface PlannedMove {
+    event: any;
+    placement: Placement;
+    displacedBy?: string;
+}
+
+const eventId = (event: any): string => event.id || event._id;
+
+/**
+ * Check whether an event may be moved by the scheduler
+ * Occurrences share their series document, so moving one would shift the whole series;
+ * read-only events are ones the user's role does not let them edit
+ */
+export function isMovableEvent(event: any): boolean {
+    return !event.isImmutable &&
+        !event.readOnly &&
+        !isFocusTime(event) &&
+        !event.isOccurrence &&
+        (event.priority === 'low' || event.isFlexible === true);
+}
+
+/**
+ * Plan moves for the events conflicting with a new slot
+ * Moves may displace further movable events (up to maxDepth); conflicts that cannot
+ * be resolved are returned in `unresolved` instead of being dropped silently
+ */
+export function planReschedule(
+    slotStart: Date,
+    slotEnd: Date,
+    conflicts: ConflictInfo[],
+    allEvents: any[],
+    options: RescheduleOptions
+): ReschedulePlan {
+    const maxDepth = options.maxDepth ?? 3;
+    const maxExpansions = options.maxExpansions ?? 2000;
+    const buffer = options.bufferMinutes * 60000;
+    const notBefore = Math.max((options.notBefore || new Date()).getTime(), options.horizonStart.getTime());
+    const candidateCache = new Map<string, Placement[]>();
+
+    // Occurrences of a series share its id, so ids only identify the (movable) conflicts
+    const findEvent = (id: string) => allEvents.find(event => eventId(event) === id && !event.isOccurrence);
+
+    // The most important and longest events get the first pick of free time
+    const initial: PendingMove[] = conflicts
+        .filter(conflict => conflict.canMove)
+        .map(conflict => ({ event: findEvent(conflict.eventId), depth: 0, optional: true }))
+        .filter(pending => pending.event && isMovableEvent(pending.event))
+        .sort((a, b) =>
+            (MOVE_COST[b.event.priority] || MOVE_COST.medium) - (MOVE_COST[a.event.priority] || MOVE_COST.medium) ||
+            durationOf(b.event) - durationOf(a.event));
+
+    const getCandidates = (event: any): Placement[] => {
+        const id = eventId(event);
+        if (!candidateCache.has(id)) {
+            candidateCache.set(id, generatePlacements(event, notBefore, options));
+        }
+        return candidateCache.get(id)!;
+    };
+
+    let best: { moves: PlannedMove[]; cost: number } | null = null;
+    let expansions = 0;
+
+    const solve = (queue: PendingMove[], planned: PlannedMove[], cost: number) => {
+        if (best && cost + lowerBound(queue) >= best.cost) return;
+
+        if (queue.length === 0) {
+            best = { moves: [...planned], cost };
+            return;
+        }
+
+        const [current, ...rest] = queue;
+        const moving = new Set([...planned.map(move => move.event), ...queue.map(pending => pending.event)]);
+
+        for (const placement of getCandidates(current.event)) {
+            if (expansions >= maxExpansions) break;
+            if (best && cost + placement.cost + lowerBound(rest) >= best.cost) break; // candidates are sorted by cost
+            expansions++;
+
+            const padStart = placement.start - buffer;
+            const padEnd = placement.end + buffer;
+
+            // The new event and moves already planned are fixed
+            if (padStart < slotEnd.getTime() && padEnd > slotStart.getTime()) continue;
+            if (planned.some(move => padStart < move.placement.end && padEnd > move.placement.start)) continue;
+
+            // Events still in place may be displaced if they can move themselves
+            const displaced: PendingMove[] = [];
+            let blocked = false;
+
+            for (const other of allEvents) {
+                if (moving.has(other)) continue;
+
+                const otherStart = new Date(other.startDate).getTime();
+                const otherEnd = new Date(other.endDate).getTime();
+                if (!(padStart < otherEnd && padEnd > otherStart)) continue;
+
+                // Only true overlaps displace an event, never buffer spacing alone
+                const overlaps = placement.start < otherEnd && placement.end > otherStart;
+                if (!overlaps || current.depth >= maxDepth || !isMovableEvent(other)) {
+                    blocked = true;
+                    break;
+                }
+                displaced.push({ event: other, depth: current.depth + 1, displacedBy: current.event.title, optional: false });
+            }
+            if (blocked) continue;
+
+            planned.push({ event: current.event, placement, displacedBy: current.displacedBy });
+            solve([...rest, ...displaced], planned, cost + placement.cost);
+            planned.pop();
+        }
+
+        if (current.optional) {
+            solve(rest, planned, cost + UNRESOLVED_COST);
+        }
+    };
+
+    solve(initial, [], 0);
+
+    const plan = best as { moves: PlannedMove[]; cost: number } | null;
+    const moves: EventMove[] = (plan?.moves || []).map(move => ({
+        eventId: eventId(move.event),
+        eventTitle: move.event.title,
+        currentStart: move.event.startDate,
+        currentEnd: move.event.endDate,
+        proposedStart: new Date(move.placement.start).toISOString(),
+        proposedEnd: new Date(move.placement.end).toISOString(),
+        reason: move.displacedBy ? `To make room for "${move.displacedBy}"` : 'To accommodate new event',
+        cost: Math.round(move.placement.cost * 100) / 100
+    }));
+
+    return {
+        moves,
+        totalCost: Math.round(moves.reduce((total, move) => total + (move.cost || 0), 0) * 100) / 100,
+        unresolved: conflicts.filter(conflict => !moves.some(move => move.eventId === conflict.eventId))
+    };
+}
+
+/**
+ * Cheapest possible cost of the moves still to plan
+ */
+function lowerBound(queue: PendingMove[]): number {
+    return queue.reduce((total, pending) => total + (MOVE_COST[pending.event.priority] || MOVE_COST.medium), 0);
+}
+
+function durationOf(event: any): number {
+    return new Date(event.endDate).getTime() - new Date(event.startDate).getTime();
+}
+
+/**
+ * Candidate new times for an event within working hours of each day in the horizon,
+ * cheapest first: a small shift on the same day costs less than moving to another day
+ */
+function generatePlacements(event: any, notBefore: number, options: RescheduleOptions): Placement[] {
+    const placements: Placement[] = [];
+    const timeZone = resolveTimeZone(options.workingHours?.timezone);
+    const step = options.slotGranularityMinutes * 60000;
+    const duration = durationOf(event);
+    const originalStart = new Date(event.startDate).getTime();
+    const baseCost = MOVE_COST[event.priority] || MOVE_COST.medium;
+    const [startHour, startMinute] = (options.workingHours?.start || '00:00').split(':').map(Number);
+    const [endHour, endMinute] = (options.workingHours?.end || '24:00').split(':').map(Number);
+
+    const original = getZonedParts(new Date(originalStart), timeZone);
+    const originalDay = Date.UTC(original.year, original.month, original.day);
+    const first = getZonedParts(options.horizonStart, timeZone);
+
+    for (let offset = 0; ; offset++) {
+        const dayStart = zonedTimeToUtc(first.year, first.month, first.day + offset, 0, 0, 0, timeZone);
+        if (dayStart.getTime() >= options.horizonEnd.getTime()) break;
+
+        const { year, month, day } = getZonedParts(dayStart, timeZone);
+        const open = zonedTimeToUtc(year, month, day, startHour, startMinute || 0, 0, timeZone).getTime();
+        const close = zonedTimeToUtc(year, month, day, endHour, endMinute || 0, 0, timeZone).getTime();
+        const daysAway = Math.abs(Date.UTC(year, month, day) - originalDay) / (24 * 60 * 60 * 1000);
+
+        for (let start = open; start + duration <= close; start += step) {
+            if (start < notBefore || start + duration > options.horizonEnd.getTime() || start === originalStart) continue;
+
+            const shiftHours = Math.abs(start - originalStart) / (60 * 60 * 1000);
+            placements.push({
+                start,
+                end: start + duration,
+                cost: baseCost + shiftHours * HOURLY_SHIFT_COST + Math.min(daysAway, 1) * DAY_CHANGE_COST
+            });
+        }
+    }
+
+    return placements
+        .sort((a, b) => a.cost - b.cost)
+        .slice(0, MAX_PLACEMENTS_PER_EVENT);
+}
@@ -0,0 +1,114 @@
+/**
+ * Scheduling Profile Utilities
+ * Defaults, validation and merging of user and workspace scheduling profiles
+ */
+
+import { SchedulingProfile, ScoringWeights } from '../types/ai';
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+    availability: 0.35,
+    preference: 0.25,
+    attendee: 0.20,
+    disruption: 0.10,
+    buffer: 0.10
+};
+
+export const SLOT_GRANULARITIES = [5, 10, 15, 20, 30, 60];
+
+const WEIGHT_KEYS: Array<keyof ScoringWeights> = ['availability', 'preference', 'attendee', 'disruption', 'buffer'];
+
+/**
+ * Profile used when neither the user nor the workspace defines one
+ * The buffer still honours MIN_EVENT_BUFFER_MINUTES as the server-wide default
+ */
+export const getDefaultSchedulingProfile = (): SchedulingProfile => ({
+    weights: { ...DEFAULT_SCORING_WEIGHTS },
+    minScore: 40,
+    maxSuggestions: 10,
+    bufferMinutes: parseInt(process.env.MIN_EVENT_BUFFER_MINUTES || '15'),
+    slotGranularityMinutes: 30
+});
+
+/**
+ * Validate a (partial) scheduling profile from a request body
+ * Only the fields present are checked; weights are relative and need not sum to 1
+ */
+export const validateSchedulingProfile = (input: any): { valid: boolean; error?: string } => {
+    if (!input || typeof input !== 'object') {
+        return { valid: false, error: 'Scheduling profile must be an object' };
+    }
+
+    const isNumberIn = (value: unknown, min: number, max: number) =>
+        typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max;
+
+    if (input.weights !== undefined) {
+        if (!input.weights || typeof input.weights !== 'object') {
+            return { valid: false, error: 'Weights must be an object' };
+        }
+
+        for (const key of Object.keys(input.weights)) {
+            if (!WEIGHT_KEYS.includes(key as keyof ScoringWeights)) {
+                return { valid: false, error: `Unknown scoring weight: ${key}` };
+            }
+            if (!isNumberIn(input.weights[key], 0, 1)) {
+                return { valid: false, error: `Weight ${key} must be between 0 and 1` };
+            }
+        }
+    }
+
+    if (input.minScore !== undefined && !isNumberIn(input.minScore, 0, 100)) {
+        return { valid: false, error: 'Minimum score must be between 0 and 100' };
+    }
+
+    if (input.maxSuggestions !== undefined && (!Number.isInteger(input.maxSuggestions) || !isNumberIn(input.maxSuggestions, 1, 50))) {
+        return { valid: false, error: 'Maximum suggestions must be a whole number between 1 and 50' };
+    }
+
+    if (input.bufferMinutes !== undefined && !isNumberIn(input.bufferMinutes, 0, 240)) {
+        return { valid: false, error: 'Buffer minutes must be between 0 and 240' };
+    }
+
+    if (input.slotGranularityMinutes !== undefined && !SLOT_GRANULARITIES.includes(input.slotGranularityMinutes)) {
+        return { valid: false, error: `Slot granularity must be one of ${SLOT_GRANULARITIES.join(', ')} minutes` };
+    }
+
+    return { valid: true };
+};
+
+/**
+ * Keep only the known fields of a validated profile
+ */
+export const pickSchedulingProfile = (input: any): Partial<SchedulingProfile> => {
+    const profile: Partial<SchedulingProfile> = {};
+
+    if (input.weights) {
+        profile.weights = {} as ScoringWeights;
+        for (const key of WEIGHT_KEYS) {
+            if (input.weights[key] !== undefined) profile.weights[key] = input.weights[key];
+        }
+    }
+    if (input.minScore !== undefined) profile.minScore = input.minScore;
+    if (input.maxSuggestions !== undefined) profile.maxSuggestions = input.maxSuggestions;
+    if (input.bufferMinutes !== undefined) profile.bufferMinutes = input.bufferMinutes;
+    if (input.slotGranularityMinutes !== undefined) profile.slotGranularityMinutes = input.slotGranularityMinutes;
+
+    return profile;
+};
+
+/**
+ * Layer partial profiles over the defaults, later ones taking precedence
+ */
+export const mergeSchedulingProfiles = (
+    ...profiles: Array<Partial<SchedulingProfile> | undefined>
+): SchedulingProfile => {
+    const merged = getDefaultSchedulingProfile();
+
+    for (const profile of profiles) {
+        if (!profile) continue;
+        const { weights, ...rest } = profile;
+        Object.assign(merged, rest);
+        if (weights) merged.weights = { ...merged.weights, ...weights };
+    }
+
+    return merged;
+};
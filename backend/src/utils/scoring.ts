@@ -4,10 +4,14 @@
  */
 
 import { logger } from './logger';
+import { getZonedParts, resolveTimeZone } from './timezone';
+import { DEFAULT_SCORING_WEIGHTS } from './schedulingProfile';
+import { isFocusTime } from './focusTime';
+import { ScoringWeights } from '../types/ai';
 
 /**
  * Calculate availability score (0-100)
- * Higher score = fewer conflicts
+ * Higher score = fewer conflicts; overlapping focus time is penalized heavily
  */
 export function calculateAvailabilityScore(
     slotStart: Date,
@@ -16,6 +20,7 @@ export function calculateAvailabilityScore(
 ): number {
     let conflicts = 0;
     let partialOverlaps = 0;
+    let focusOverlaps = 0;
 
     for (const event of existingEvents) {
         const eventStart = new Date(event.startDate);
@@ -23,8 +28,12 @@ export function calculateAvailabilityScore(
 
         // Check for overlap
         if (slotStart < eventEnd && slotEnd > eventStart) {
+            // Focus time, however much of it is overlapped
+            if (isFocusTime(event)) {
+                focusOverlaps += 1;
+            }
             // Full overlap
-            if (slotStart >= eventStart && slotEnd <= eventEnd) {
+            else if (slotStart >= eventStart && slotEnd <= eventEnd) {
                 conflicts += 2; // Severe penalty
             }
             // Partial overlap
@@ -35,13 +44,14 @@ export function calculateAvailabilityScore(
     }
 
     // Calculate score
-    const totalConflicts = conflicts + (partialOverlaps * 0.5);
+    const totalConflicts = conflicts + (partialOverlaps * 0.5) + (focusOverlaps * 6);
     const maxPenalty = 10; // Max conflicts before score hits 0
     const score = Math.max(0, 100 - (totalConflicts / maxPenalty) * 100);
 
     logger.debug('Availability score calculated', {
         conflicts,
         partialOverlaps,
+        focusOverlaps,
         score
     });
 
@@ -51,18 +61,21 @@ export function calculateAvailabilityScore(
 /**
  * Calculate preference match score (0-100)
  * Higher score = better match with user preferences
+ * Times of day are taken in the working-hours time zone
  */
 export function calculatePreferenceScore(
     slotStart: Date,
-    workingHours?: { start: string; end: string },
+    workingHours?: { start: string; end: string; timezone?: string },
     preferredDays?: number[],
     avoidDays?: number[]
 ): number {
     let score = 50; // Base score
 
-    const slotHour = slotStart.getHours();
-    const slotMinute = slotStart.getMinutes();
-    const slotDay = slotStart.getDay();
+    const {
+        hours: slotHour,
+        minutes: slotMinute,
+        weekday: slotDay
+    } = getZonedParts(slotStart, resolveTimeZone(workingHours?.timezone));
 
     // Working hours check
     if (workingHours) {
@@ -215,30 +228,33 @@ export function calculateBufferScore(
 
 /**
  * Calculate final composite score
+ * Weights are relative: they are normalized so the result stays within 0-100
  */
 export function calculateCompositeScore(
     availabilityScore: number,
     preferenceScore: number,
     attendeeScore: number,
     disruptionScore: number,
-    bufferScore: number = 100
+    bufferScore: number = 100,
+    weights: ScoringWeights = DEFAULT_SCORING_WEIGHTS
 ): number {
-    // Weighted average
-    const weights = {
-        availability: 0.35,
-        preference: 0.25,
-        attendee: 0.20,
-        disruption: 0.10,
-        buffer: 0.10
-    };
+    let totalWeight = weights.availability + weights.preference + weights.attendee +
+        weights.disruption + weights.buffer;
 
+    // A profile that weighs nothing falls back to the defaults
+    if (totalWeight <= 0) {
+        weights = DEFAULT_SCORING_WEIGHTS;
+        totalWeight = 1;
+    }
+
+    // Weighted average
     const composite = (
         availabilityScore * weights.availability +
         preferenceScore * weights.preference +
         attendeeScore * weights.attendee +
         disruptionScore * weights.disruption +
         bufferScore * weights.buffer
-    );
+    ) / totalWeight;
 
     logger.debug('Composite score calculated', {
         availabilityScore,
@@ -0,0 +1,119 @@
+/**
+ * Time Zone Utilities
+ * IANA time zone offset lookups and wall-clock to UTC conversion using Intl
+ */
+
+// Matches the default of the user's notification settings
+export const DEFAULT_TIME_ZONE = 'Asia/Kolkata';
+
+export interface ZonedParts {
+    year: number;
+    month: number; // 0-11
+    day: number;
+    hours: number;
+    minutes: number;
+    seconds: number;
+    weekday: number; // 0-6, Sunday = 0
+}
+
+/**
+ * Check whether a string is an IANA time zone known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+}
+
+/**
+ * Use a time zone if valid, otherwise the fallback
+ */
+export function resolveTimeZone(timeZone: string | null | undefined, fallback: string = DEFAULT_TIME_ZONE): string {
+    return timeZone && isValidTimeZone(timeZone) ? timeZone : fallback;
+}
+
+/**
+ * Wall-clock date and time of an instant in a time zone
+ */
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+    const wallClock = new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+
+    return {
+        year: wallClock.getUTCFullYear(),
+        month: wallClock.getUTCMonth(),
+        day: wallClock.getUTCDate(),
+        hours: wallClock.getUTCHours(),
+        minutes: wallClock.getUTCMinutes(),
+        seconds: wallClock.getUTCSeconds(),
+        weekday: wallClock.getUTCDay()
+    };
+}
+
+/**
+ * Minutes since midnight of an instant in a time zone
+ */
+export function getZonedMinutes(date: Date, timeZone: string): number {
+    const { hours, minutes } = getZonedParts(date, timeZone);
+    return hours * 60 + minutes;
+}
+
+/**
+ * UTC instant of midnight on the given calendar day in a time zone
+ * Day values outside the month roll over, like the Date constructor
+ */
+export function startOfZonedDay(year: number, month: number, day: number, timeZone: string): Date {
+    return zonedTimeToUtc(year, month, day, 0, 0, 0, timeZone);
+}
+
+/**
+ * Get the UTC offset of a time zone at a given instant, in milliseconds
+ * (positive east of UTC, e.g. +19800000 for Asia/Kolkata)
+ */
+export function getTimeZoneOffset(date: Date, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+    }).formatToParts(date);
+
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a wall-clock time in a time zone to the UTC instant
+ * Nonexistent times (DST gaps) resolve forward, ambiguous times to the first instance
+ */
+export function zonedTimeToUtc(
+    year: number,
+    month: number, // 0-11
+    day: number,
+    hours: number,
+    minutes: number,
+    seconds: number,
+    timeZone: string
+): Date {
+    const wallClock = Date.UTC(year, month, day, hours, minutes, seconds);
+    const offset = getTimeZoneOffset(new Date(wallClock), timeZone);
+    const candidate = wallClock - offset;
+
+    // Re-check at the candidate instant in case it crossed a DST transition
+    const correctedOffset = getTimeZoneOffset(new Date(candidate), timeZone);
+    if (correctedOffset === offset) {
+        return new Date(candidate);
+    }
+
+    // In a DST gap neither offset gives back the wall-clock time; the earlier offset lands after the gap
+    const corrected = wallClock - correctedOffset;
+    return new Date(getTimeZoneOffset(new Date(corrected), timeZone) === correctedOffset ? corrected : candidate);
+}
@@ -4,6 +4,12 @@
  */
 
 import crypto from 'crypto';
+import { Workspace, WorkspaceStatus } from '../types/workspace';
+
+/**
+ * Days a deleted workspace can be restored before it is purged
+ */
+export const WORKSPACE_RETENTION_DAYS = parseInt(process.env.WORKSPACE_RETENTION_DAYS || '30');
 
 /**
  * Generate a URL-friendly slug from workspace name
@@ -64,3 +70,29 @@ export const validateInviteCode = (code: string): { valid: boolean; error?: stri
 
     return { valid: true };
 };
+
+/**
+ * Lifecycle status of a workspace
+ * @param workspace - Workspace to check
+ * @returns The workspace's status, active when it has none
+ */
+export const getWorkspaceStatus = (workspace: Pick<Workspace, 'status'>): WorkspaceStatus => {
+    return workspace.status || 'active';
+};
+
+/**
+ * Throw unless a workspace can be changed
+ * Deleted workspaces are treated as gone, archived ones are read-only
+ * @param workspace - Workspace about to be changed
+ */
+export const assertWorkspaceWritable = (workspace: Pick<Workspace, 'status'>): void => {
+    const status = getWorkspaceStatus(workspace);
+
+    if (status === 'deleted') {
+        throw new Error('Workspace not found');
+    }
+
+    if (status === 'archived') {
+        throw new Error('Access denied: This workspace is archived and read-only');
+    }
+};
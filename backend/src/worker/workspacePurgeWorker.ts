@@ -0,0 +1,76 @@
+import * as cron from 'node-cron';
+import { purgeExpiredWorkspaces } from '../services/workspaceLifecycleService';
+import { logger } from '../utils/logger';
+
+export class WorkspacePurgeWorker {
+    private task: ReturnType<typeof cron.schedule> | null = null;
+    private inFlight: Promise<void> | null = null;
+
+    /**
+     * Start the workspace purge worker
+     * Runs every hour to purge deleted workspaces past their retention window
+     */
+    start(): void {
+        if (this.task) {
+            logger.warn('Workspace purge worker already running');
+            return;
+        }
+
+        logger.section('🗑️ WORKSPACE PURGE WORKER');
+
+        // Run at the start of every hour
+        this.task = cron.schedule('0 * * * *', async () => {
+            if (this.inFlight) {
+                logger.warn('Previous workspace purge still running, skipping this run');
+                return;
+            }
+
+            this.inFlight = this.run();
+            await this.inFlight;
+            this.inFlight = null;
+        });
+
+        logger.success('✅ Workspace purge worker started (runs every hour)');
+    }
+
+    /**
+     * Purge expired workspaces once
+     */
+    private async run(): Promise<void> {
+        try {
+            const count = await purgeExpiredWorkspaces();
+
+            if (count > 0) {
+                logger.success(`✓ Purged ${count} deleted workspaces`);
+            }
+        } catch (error) {
+            logger.error('Error in workspace purge worker', error);
+        }
+    }
+
+    /**
+     * Stop the workspace purge worker
+     * Resolves once a purge in progress has finished, so shutdown does not cut one short
+     */
+    async stop(): Promise<void> {
+        if (this.task) {
+            this.task.stop();
+            this.task = null;
+            logger.info('Workspace purge worker stopped');
+        }
+
+        if (this.inFlight) {
+            logger.info('Waiting for the workspace purge in progress to finish');
+            await this.inFlight;
+        }
+    }
+
+    /**
+     * Check if worker is running
+     */
+    isRunning(): boolean {
+        return this.task !== null;
+    }
+}
+
+export const workspacePurgeWorker = new WorkspacePurgeWorker();
@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import type { ParsedIntent, AICommand } from '../types/ai';
+import { previewCommand, applyCommand, formatSlotTime } from '../utils/aiApi';
+import { logger } from '../utils/logger';
+
+interface AICommandModalProps {
+    isOpen: boolean;
+    onClose: () => void;
+    parsedIntent: ParsedIntent;
+    workspaceId?: string;
+    sessionId?: string;
+    onApplied: (message: string) => void;
+}
+
+/**
+ * Describe the changes of an update command ("title to Weekly sync, 30 minutes")
+ */
+const describeChanges = (changes: AICommand['changes']): string => {
+    const parts: string[] = [];
+    if (changes?.title) parts.push(`title to "${changes.title}"`);
+    if (changes?.location) parts.push(`location to ${changes.location}`);
+    if (changes?.description) parts.push('description');
+    if (changes?.priority) parts.push(`priority to ${changes.priority}`);
+    if (changes?.duration) parts.push(`length to ${changes.duration} minutes`);
+    return parts.join(', ');
+};
+
+const AICommandModal: React.FC<AICommandModalProps> = ({
+    isOpen,
+    onClose,
+    parsedIntent,
+    workspaceId,
+    sessionId,
+    onApplied
+}) => {
+    const [command, setCommand] = useState<AICommand | null>(null);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isApplying, setIsApplying] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    // Find the events the command applies to when the modal opens
+    useEffect(() => {
+        if (isOpen && parsedIntent) {
+            fetchPreview();
+        }
+    }, [isOpen, parsedIntent]);
+
+    const fetchPreview = async () => {
+        setIsLoading(true);
+        setError(null);
+        setCommand(null);
+        try {
+            setCommand(await previewCommand(parsedIntent, workspaceId, sessionId));
+        } catch (err) {
+            logger.error('Error previewing command', err);
+            setError(err instanceof Error ? err.message : 'Failed to find matching events.');
+        } finally {
+            setIsLoading(false);
+        }
+    };
+
+    const handleConfirm = async () => {
+        if (!command) return;
+
+        setIsApplying(true);
+        try {
+            const message = await applyCommand(command.id, sessionId);
+            onApplied(message);
+            onClose();
+        } catch (err) {
+            logger.error('Error applying command', err);
+            setError(err instanceof Error ? err.message : 'Failed to apply changes. Please try again.');
+        } finally {
+            setIsApplying(false);
+        }
+    };
+
+    if (!isOpen) return null;
+
+    const isCancel = parsedIntent.action === 'cancel';
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+            <div className="bg-white dark:bg-gray-900 rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] flex flex-col overflow-hidden animate-in zoom-in-95 duration-200">
+                {/* Header */}
+                <div className="px-6 py-4 border-b border-gray-100 dark:border-gray-800 flex justify-between items-center">
+                    <div>
+                        <h2 className="text-xl font-bold bg-clip-text text-transparent bg-gradient-to-r from-purple-600 to-blue-600">
+                            {isCancel ? 'Cancel Events' : 'Update Events'}
+                        </h2>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                            Review the matching events before confirming
+                        </p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
+                    >
+                        <svg className="w-5 h-5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                        </svg>
+                    </button>
+                </div>
+
+                {/* Content */}
+                <div className="flex-1 overflow-y-auto p-6 space-y-4">
+                    {isLoading ? (
+                        <div className="flex flex-col items-center justify-center py-12">
+                            <div className="w-12 h-12 border-4 border-purple-500 border-t-transparent rounded-full animate-spin mb-4" />
+                            <p className="text-gray-500 text-sm animate-pulse">
+                                Finding matching events...
+                            </p>
+                        </div>
+                    ) : command ? (
+                        <>
+                            <p className="text-sm text-gray-700 dark:text-gray-300">
+                                {isCancel
+                                    ? `${command.targets.length} event${command.targets.length > 1 ? 's' : ''} will be cancelled:`
+                                    : `Change ${describeChanges(command.changes)} for:`}
+                            </p>
+                            <div className="space-y-2">
+                                {command.targets.map((target) => (
+                                    <div
+                                        key={`${target.eventId}-${target.occurrenceStart || ''}`}
+                                        className="p-3 rounded-xl border border-gray-200 dark:border-gray-700"
+                                    >
+                                        <div className="font-medium text-gray-900 dark:text-white truncate">{target.title}</div>
+                                        <div className="text-sm text-gray-500 dark:text-gray-400">
+                                            {formatSlotTime({ startTime: target.startDate, endTime: target.endDate })}
+                                            {target.seriesId && ' (this occurrence only)'}
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+                            {error && (
+                                <p className="text-sm text-red-500">{error}</p>
+                            )}
+                        </>
+                    ) : (
+                        <div className="text-center py-12">
+                            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+                                No matching events
+                            </h3>
+                            <p className="text-gray-500 max-w-xs mx-auto mb-6">
+                                {error}
+                            </p>
+                            <button
+                                onClick={fetchPreview}
+                                className="text-purple-600 hover:text-purple-700 font-medium"
+                            >
+                                Try again
+                            </button>
+                        </div>
+                    )}
+                </div>
+
+                {/* Footer */}
+                <div className="p-6 border-t border-gray-100 dark:border-gray-800 bg-gray-50 dark:bg-gray-900/50 flex justify-end space-x-3">
+                    <button
+                        onClick={onClose}
+                        className="px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-xl transition-colors"
+                    >
+                        Keep Events
+                    </button>
+                    <button
+                        onClick={handleConfirm}
+                        disabled={!command || isApplying}
+                        className={`px-6 py-2.5 text-sm font-medium text-white disabled:opacity-50 disabled:cursor-not-allowed rounded-xl shadow-lg transition-all ${isCancel
+                            ? 'bg-red-600 hover:bg-red-700 shadow-red-500/20'
+                            : 'bg-purple-600 hover:bg-purple-700 shadow-purple-500/20'
+                            }`}
+                    >
+                        {isApplying ? 'Applying...' : isCancel ? 'Cancel Events' : 'Update Events'}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default AICommandModal;
@@ -1,6 +1,6 @@
 import React, { useState, useEffect } from 'react';
-import type { ParsedIntent, SuggestedSlot, ScheduleResult } from '../types/ai';
-import { getSuggestions, scheduleEvent } from '../utils/aiApi';
+import type { ParsedIntent, SuggestedSlot, ScheduleResult, CommandTarget } from '../types/ai';
+import { getSuggestions, scheduleEvent, undoScheduleOperation, formatSlotTime } from '../utils/aiApi';
 import SuggestionCard from './SuggestionCard';
 import { logger } from '../utils/logger';
 
@@ -9,6 +9,7 @@ interface AISuggestionsModalProps {
     onClose: () => void;
     parsedIntent: ParsedIntent;
     workspaceId?: string;
+    sessionId?: string;
     onScheduled: (result: ScheduleResult) => void;
 }
 
@@ -17,6 +18,7 @@ const AISuggestionsModal: React.FC<AISuggestionsModalProps> = ({
     onClose,
     parsedIntent,
     workspaceId,
+    sessionId,
     onScheduled
 }) => {
     const [suggestions, setSuggestions] = useState<SuggestedSlot[]>([]);
@@ -25,10 +27,16 @@ const AISuggestionsModal: React.FC<AISuggestionsModalProps> = ({
     const [selectedSlot, setSelectedSlot] = useState<SuggestedSlot | null>(null);
     const [error, setError] = useState<string | null>(null);
     const [autoResolve, setAutoResolve] = useState(false);
+    const [scheduledResult, setScheduledResult] = useState<ScheduleResult | null>(null);
+    const [isUndoing, setIsUndoing] = useState(false);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [targetEvent, setTargetEvent] = useState<CommandTarget | undefined>(undefined);
+    const isMove = parsedIntent.action === 'move';
 
     // Fetch suggestions when modal opens
     useEffect(() => {
         if (isOpen && parsedIntent) {
+            setScheduledResult(null);
             fetchSuggestions();
         }
     }, [isOpen, parsedIntent]);
@@ -36,9 +44,12 @@ const AISuggestionsModal: React.FC<AISuggestionsModalProps> = ({
     const fetchSuggestions = async () => {
         setIsLoading(true);
         setError(null);
+        setNotice(null);
         try {
-            const slots = await getSuggestions(parsedIntent, workspaceId);
+            const response = await getSuggestions(parsedIntent, workspaceId, undefined, sessionId);
+            const slots = response.suggestions || [];
             setSuggestions(slots);
+            setTargetEvent(response.targetEvent);
             if (slots.length > 0) {
                 setSelectedSlot(slots[0]); // Select top slot by default
             } else {
@@ -46,7 +57,7 @@ const AISuggestionsModal: React.FC<AISuggestionsModalProps> = ({
             }
         } catch (err) {
             logger.error('Error fetching suggestions', err);
-            setError('Failed to load suggestions. Please try again.');
+            setError(isMove && err instanceof Error ? err.message : 'Failed to load suggestions. Please try again.');
         } finally {
             setIsLoading(false);
         }
@@ -58,23 +69,56 @@ const AISuggestionsModal: React.FC<AISuggestionsModalProps> = ({
         setIsScheduling(true);
         try {
             const result = await scheduleEvent(
-                selectedSlot,
-                parsedIntent,
-                workspaceId,
+                selectedSlot.id,
                 autoResolve,
-                true // notify attendees
+                true, // notify attendees
+                sessionId
             );
 
-            onScheduled(result);
-            onClose();
+            if (result.stale) {
+                const fresh = result.suggestions || [];
+                setSuggestions(fresh);
+                setSelectedSlot(fresh[0] || null);
+                setNotice(result.message);
+                if (fresh.length === 0) {
+                    setError('No suitable time slots found. Try adjusting your request.');
+                }
+                return;
+            }
+
+            // Keep the modal open so the whole operation can still be undone
+            setScheduledResult(result);
         } catch (err) {
             logger.error('Error scheduling event', err);
-            setError('Failed to schedule event. Please try again.');
+            setError(err instanceof Error ? err.message : 'Failed to schedule event. Please try again.');
         } finally {
             setIsScheduling(false);
         }
     };
 
+    const handleUndo = async () => {
+        if (!scheduledResult?.operationId) return;
+
+        setIsUndoing(true);
+        try {
+            await undoScheduleOperation(scheduledResult.operationId);
+            setScheduledResult(null);
+            fetchSuggestions();
+        } catch (err) {
+            logger.error('Error undoing scheduling', err);
+            setError(err instanceof Error ? err.message : 'Failed to undo scheduling.');
+        } finally {
+            setIsUndoing(false);
+        }
+    };
+
+    const handleDone = () => {
+        if (scheduledResult) {
+            onScheduled(scheduledResult);
+        }
+        onClose();
+    };
+
     if (!isOpen) return null;
 
     return (
@@ -91,7 +135,7 @@ const AISuggestionsModal: React.FC<AISuggestionsModalProps> = ({
                         </p>
                     </div>
                     <button
-                        onClick={onClose}
+                        onClick={handleDone}
                         className="p-2 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-full transition-colors"
                     >
                         <svg className="w-5 h-5 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -108,11 +152,16 @@ const AISuggestionsModal: React.FC<AISuggestionsModalProps> = ({
                             <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
                             </svg>
-                            <span>Intent Preview</span>
+                            <span>{isMove ? 'Moving Event' : 'Intent Preview'}</span>
                         </div>
                         <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
-                            {parsedIntent.title || 'Untitled Event'}
+                            {isMove ? targetEvent?.title || 'Finding event...' : parsedIntent.title || 'Untitled Event'}
                         </h3>
+                        {isMove && targetEvent && (
+                            <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                                Currently {formatSlotTime({ startTime: targetEvent.startDate, endTime: targetEvent.endDate })}
+                            </p>
+                        )}
                         <div className="flex flex-wrap gap-4 mt-2 text-sm text-gray-600 dark:text-gray-300">
                             {parsedIntent.duration && (
                                 <div className="flex items-center">
@@ -133,7 +182,34 @@ const AISuggestionsModal: React.FC<AISuggestionsModalProps> = ({
                         </div>
                     </div>
 
-                    {isLoading ? (
+                    {scheduledResult ? (
+                        <div className="text-center py-8">
+                            <div className="bg-green-50 dark:bg-green-900/20 w-16 h-16 rounded-full flex items-center justify-center mx-auto mb-4">
+                                <svg className="w-8 h-8 text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+                                </svg>
+                            </div>
+                            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-2">
+                                {isMove ? 'Event moved' : 'Event scheduled'}
+                            </h3>
+                            {selectedSlot && (
+                                <p className="text-gray-500 mb-4">{formatSlotTime(selectedSlot)}</p>
+                            )}
+                            {scheduledResult.movedEvents && scheduledResult.movedEvents.length > 0 && (
+                                <div className="text-left max-w-sm mx-auto text-sm text-gray-600 dark:text-gray-300">
+                                    <div className="font-medium mb-1">Moved events</div>
+                                    {scheduledResult.movedEvents.map((move) => (
+                                        <div key={move.eventId} className="truncate">
+                                            {move.eventTitle} → {formatSlotTime({ startTime: move.proposedStart, endTime: move.proposedEnd })}
+                                        </div>
+                                    ))}
+                                </div>
+                            )}
+                            {error && (
+                                <p className="text-sm text-red-500 mt-4">{error}</p>
+                            )}
+                        </div>
+                    ) : isLoading ? (
                         <div className="flex flex-col items-center justify-center py-12">
                             <div className="w-12 h-12 border-4 border-purple-500 border-t-transparent rounded-full animate-spin mb-4" />
                             <p className="text-gray-500 text-sm animate-pulse">
@@ -162,6 +238,11 @@ const AISuggestionsModal: React.FC<AISuggestionsModalProps> = ({
                         </div>
                     ) : (
                         <div className="space-y-4">
+                            {notice && (
+                                <div className="p-3 rounded-xl text-sm bg-yellow-50 text-yellow-800 dark:bg-yellow-900/20 dark:text-yellow-200">
+                                    {notice}
+                                </div>
+                            )}
                             {suggestions.map((slot) => (
                                 <SuggestionCard
                                     key={slot.id}
@@ -176,7 +257,7 @@ const AISuggestionsModal: React.FC<AISuggestionsModalProps> = ({
 
                 {/* Footer */}
                 <div className="p-6 border-t border-gray-100 dark:border-gray-800 bg-gray-50 dark:bg-gray-900/50 flex flex-col sm:flex-row gap-4 justify-between items-center">
-                    {selectedSlot?.conflicts.length ? (
+                    {scheduledResult ? <div /> : selectedSlot?.conflicts.length ? (
                         <label className="flex items-center space-x-2 text-sm cursor-pointer select-none">
                             <input
                                 type="checkbox"
@@ -185,29 +266,51 @@ const AISuggestionsModal: React.FC<AISuggestionsModalProps> = ({
                                 className="w-4 h-4 text-purple-600 rounded border-gray-300 focus:ring-purple-500 transition-colors"
                             />
                             <span className="text-gray-700 dark:text-gray-300">
-                                Automatically resolve {selectedSlot.conflicts.length} conflicts
+                                {selectedSlot.requiredMoves?.length
+                                    ? `Automatically move ${selectedSlot.requiredMoves.length} event${selectedSlot.requiredMoves.length > 1 ? 's' : ''} to resolve conflicts`
+                                    : `Automatically resolve ${selectedSlot.conflicts.length} conflicts`}
                             </span>
                         </label>
                     ) : <div />}
 
-                    <div className="flex space-x-3 w-full sm:w-auto">
-                        <button
-                            onClick={onClose}
-                            className="flex-1 sm:flex-none px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-xl transition-colors"
-                        >
-                            Cancel
-                        </button>
-                        <button
-                            onClick={handleSchedule}
-                            disabled={!selectedSlot || isLoading || isScheduling}
-                            className="flex-1 sm:flex-none px-6 py-2.5 text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl shadow-lg shadow-purple-500/20 transition-all flex items-center justify-center min-w-[120px]"
-                        >
-                            {isScheduling ? (
-                                <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin mr-2" />
-                            ) : null}
-                            {isScheduling ? 'Scheduling...' : 'Schedule Event'}
-                        </button>
-                    </div>
+                    {scheduledResult ? (
+                        <div className="flex space-x-3 w-full sm:w-auto">
+                            {scheduledResult.operationId && (
+                                <button
+                                    onClick={handleUndo}
+                                    disabled={isUndoing}
+                                    className="flex-1 sm:flex-none px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 disabled:opacity-50 rounded-xl transition-colors"
+                                >
+                                    {isUndoing ? 'Undoing...' : 'Undo'}
+                                </button>
+                            )}
+                            <button
+                                onClick={handleDone}
+                                className="flex-1 sm:flex-none px-6 py-2.5 text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 rounded-xl shadow-lg shadow-purple-500/20 transition-all"
+                            >
+                                Done
+                            </button>
+                        </div>
+                    ) : (
+                        <div className="flex space-x-3 w-full sm:w-auto">
+                            <button
+                                onClick={onClose}
+                                className="flex-1 sm:flex-none px-4 py-2.5 text-sm font-medium text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-800 rounded-xl transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={handleSchedule}
+                                disabled={!selectedSlot || isLoading || isScheduling}
+                                className="flex-1 sm:flex-none px-6 py-2.5 text-sm font-medium text-white bg-purple-600 hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed rounded-xl shadow-lg shadow-purple-500/20 transition-all flex items-center justify-center min-w-[120px]"
+                            >
+                                {isScheduling ? (
+                                    <div className="w-4 h-4 border-2 border-white/30 border-t-white rounded-full animate-spin mr-2" />
+                                ) : null}
+                                {isScheduling ? 'Scheduling...' : isMove ? 'Move Event' : 'Schedule Event'}
+                            </button>
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
@@ -0,0 +1,165 @@
+/**
+ * AI Usage Settings Component
+ * Shows this month's AI requests and tokens against the quota,
+ * for the user or for workspaces they administer
+ */
+
+import React, { useState, useEffect } from 'react';
+import { auth } from '../config/firebase';
+import { getAIUsage } from '../utils/aiApi';
+import { getUserWorkspaces, getWorkspaceAIUsage } from '../utils/workspaceApi';
+import { logger } from '../utils/logger';
+import { getRolePermissions } from '../types/roles';
+import type { AIUsageReport } from '../types/ai';
+import type { Workspace } from '../types/workspace';
+
+/**
+ * One counter with a bar when a quota applies
+ */
+const UsageMeter: React.FC<{ label: string; used: number; limit?: number }> = ({ label, used, limit }) => {
+    const percent = limit ? Math.min(100, Math.round((used / limit) * 100)) : 0;
+
+    return (
+        <div>
+            <div className="flex justify-between text-sm text-gray-700 dark:text-gray-300 mb-1">
+                <span>{label}</span>
+                <span>
+                    {used.toLocaleString()}{limit ? ` / ${limit.toLocaleString()}` : ' (no limit)'}
+                </span>
+            </div>
+            {!!limit && (
+                <div className="w-full h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div
+                        className={`h-full ${percent >= 90 ? 'bg-red-500' : percent >= 70 ? 'bg-yellow-500' : 'bg-blue-600'}`}
+                        style={{ width: `${percent}%` }}
+                    />
+                </div>
+            )}
+        </div>
+    );
+};
+
+const AIUsageSettings: React.FC = () => {
+    const [signedIn, setSignedIn] = useState(false);
+    const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+    const [target, setTarget] = useState('');
+    const [report, setReport] = useState<AIUsageReport | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [message, setMessage] = useState('');
+
+    useEffect(() => {
+        const unsubscribe = auth.onAuthStateChanged(async (user) => {
+            if (!user) {
+                setLoading(false);
+                return;
+            }
+
+            setSignedIn(true);
+            try {
+                const userWorkspaces = await getUserWorkspaces();
+                // Workspace usage is visible to roles that manage settings
+                setWorkspaces(userWorkspaces.filter(w => {
+                    const member = w.members.find(m => m.uid === user.uid);
+                    return !!member && getRolePermissions(member.role, w.customRoles).canManageSettings;
+                }));
+            } catch (error) {
+                logger.error('Error loading workspaces', error);
+            }
+        });
+        return () => unsubscribe();
+    }, []);
+
+    useEffect(() => {
+        if (!signedIn) return;
+
+        setLoading(true);
+        setMessage('');
+        const request = target ? getWorkspaceAIUsage(target) : getAIUsage();
+
+        request
+            .then(setReport)
+            .catch(error => {
+                logger.error('Error loading AI usage', error);
+                setMessage('Failed to load AI usage.');
+            })
+            .finally(() => setLoading(false));
+    }, [target, signedIn]);
+
+    const usage = report?.usage;
+    const providers = Object.entries(usage?.byProvider || {});
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-8 rounded-xl shadow-lg transition-colors duration-300">
+            <h2 className="text-2xl font-bold mb-2 dark:text-white">AI Usage</h2>
+            <p className="text-gray-600 dark:text-gray-300 mb-6">
+                AI requests and model tokens used this month. Repeated prompts are answered from a cache and don't count against the quota.
+            </p>
+
+            {message && (
+                <div className="p-3 rounded mb-4 bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-100">
+                    {message}
+                </div>
+            )}
+
+            <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Usage of</label>
+                <select
+                    value={target}
+                    onChange={(e) => setTarget(e.target.value)}
+                    className="w-full border border-gray-300 dark:border-gray-600 rounded-md p-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                    <option value="">Me</option>
+                    {workspaces.map((w) => (
+                        <option key={w.id} value={w.id}>{w.name} (workspace)</option>
+                    ))}
+                </select>
+            </div>
+
+            {loading || !report || !usage ? (
+                <div className="p-8 text-center">Loading AI usage...</div>
+            ) : (
+                <div className="space-y-6">
+                    <div className="space-y-4">
+                        <UsageMeter label="AI requests" used={usage.requests} limit={report.quota.requests} />
+                        <UsageMeter
+                            label="Tokens"
+                            used={usage.inputTokens + usage.outputTokens}
+                            limit={report.quota.tokens}
+                        />
+                        <p className="text-sm text-gray-500 dark:text-gray-400">
+                            {usage.cachedRequests.toLocaleString()} request{usage.cachedRequests === 1 ? '' : 's'} answered from the cache in {report.period}
+                        </p>
+                    </div>
+
+                    {providers.length > 0 && (
+                        <div>
+                            <h3 className="text-lg font-semibold mb-3 dark:text-white">By provider</h3>
+                            <table className="w-full text-sm text-left text-gray-700 dark:text-gray-300">
+                                <thead>
+                                    <tr className="border-b border-gray-200 dark:border-gray-700">
+                                        <th className="py-2 font-medium">Provider</th>
+                                        <th className="py-2 font-medium text-right">Calls</th>
+                                        <th className="py-2 font-medium text-right">Input tokens</th>
+                                        <th className="py-2 font-medium text-right">Output tokens</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {providers.map(([provider, totals]) => (
+                                        <tr key={provider} className="border-b border-gray-100 dark:border-gray-700/50">
+                                            <td className="py-2 capitalize">{provider}</td>
+                                            <td className="py-2 text-right">{totals.calls.toLocaleString()}</td>
+                                            <td className="py-2 text-right">{totals.inputTokens.toLocaleString()}</td>
+                                            <td className="py-2 text-right">{totals.outputTokens.toLocaleString()}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default AIUsageSettings;
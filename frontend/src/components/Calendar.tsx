@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { db, auth } from '../config/firebase';
 import SmartComposeInput from './SmartComposeInput';
 import AISuggestionsModal from './AISuggestionsModal';
+import AICommandModal from './AICommandModal';
 import type { AIResponse, ParsedIntent, ScheduleResult } from '../types/ai';
 import { collection, query, where, onSnapshot, orderBy } from 'firebase/firestore';
 import { onAuthStateChanged } from 'firebase/auth';
@@ -9,19 +10,33 @@ import Holidays from 'date-holidays';
 import { logger } from '../utils/logger';
 import { getMonthAssignments } from '../utils/monthImages';
 import { listCalendarImages } from '../utils/calendarImageApi';
+import { getEventsInRange } from '../utils/eventApi';
+import { getUserWorkspaces, getWorkspaceFreeBusy } from '../utils/workspaceApi';
+import { getViewerTimeZone } from '../utils/timezone';
+import RecurrenceScopeDialog from './RecurrenceScopeDialog';
+import TeamBusyOverlay from './TeamBusyOverlay';
+import { getRolePermissions } from '../types/roles';
+import type { EditScope } from '../types/event';
+import type { MemberFreeBusy, Workspace } from '../types/workspace';
 import type { CalendarImage } from '../types/image';
 
-// Initialize holidays for India (matching user's timezone +05:30)
+// Initialize holidays for India, looked up for calendar days in the viewer's time zone
 const hd = new Holidays('IN');
+hd.setTimezone(getViewerTimeZone());
 logger.info('Calendar component loaded, holidays initialized for India');
 
 interface Event {
     _id: string;
     title: string;
+    eventType?: 'default' | 'focusTime';
     startDate: string;
     endDate: string;
     description?: string;
     recurrence: string;
+    rrule?: string | null;
+    isRecurring?: boolean;
+    isOccurrence?: boolean;
+    occurrenceStart?: string;
     color?: string;
 }
 
@@ -32,11 +47,19 @@ interface CalendarProps {
 const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
     const [currentDate, setCurrentDate] = useState(new Date());
     const [events, setEvents] = useState<Event[]>([]);
+    const [occurrences, setOccurrences] = useState<Event[] | null>(null);
+    const [pendingDelete, setPendingDelete] = useState<Event | null>(null);
     const [view, setView] = useState<'year' | 'month' | 'week' | 'day'>('month');
     const [loading, setLoading] = useState(true);
     const [synced, setSynced] = useState(false);
     const [isAIModalOpen, setIsAIModalOpen] = useState(false);
+    const [isAICommandOpen, setIsAICommandOpen] = useState(false);
     const [aiIntent, setAiIntent] = useState<ParsedIntent | null>(null);
+    const [aiSessionId, setAiSessionId] = useState<string | undefined>(undefined);
+    const [composeKey, setComposeKey] = useState(0);
+    const [teamWorkspaces, setTeamWorkspaces] = useState<Workspace[]>([]);
+    const [busyWorkspaceId, setBusyWorkspaceId] = useState('');
+    const [teamBusy, setTeamBusy] = useState<MemberFreeBusy[]>([]);
     const [monthImages, setMonthImages] = useState<{ [key: string]: string }>({});
     const [monthAssignments, setMonthAssignments] = useState<{ [month: number]: string }>({});
     const [imageDisplaySettings, setImageDisplaySettings] = useState({
@@ -74,6 +97,18 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
                         logger.error('Error loading settings', err);
                     });
 
+                // Workspaces whose teammates' busy time can be overlaid
+                getUserWorkspaces()
+                    .then(workspaces => {
+                        setTeamWorkspaces(workspaces.filter(w => {
+                            const member = w.members.find(m => m.uid === user.uid);
+                            return member && w.members.length > 1 && getRolePermissions(member.role, w.customRoles).canViewFreeBusy;
+                        }));
+                    })
+                    .catch(err => {
+                        logger.error('Error loading workspaces', err);
+                    });
+
                 // Realtime Events Subscription
                 logger.debug('Setting up realtime events subscription...');
                 const q = query(
@@ -116,6 +151,71 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
         };
     }, []);
 
+    // Expand recurring series for the visible range (the realtime listener only sees series masters)
+    useEffect(() => {
+        if (!events.some(e => e.isRecurring)) {
+            setOccurrences(null);
+            return;
+        }
+
+        const rangeStart = view === 'year'
+            ? new Date(currentDate.getFullYear(), 0, 1)
+            : new Date(currentDate.getFullYear(), currentDate.getMonth(), -6);
+        const rangeEnd = view === 'year'
+            ? new Date(currentDate.getFullYear() + 1, 0, 1)
+            : new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 8);
+
+        let cancelled = false;
+        getEventsInRange(rangeStart, rangeEnd)
+            .then(data => {
+                if (!cancelled) setOccurrences(data as Event[]);
+            })
+            .catch(error => {
+                logger.error('Error expanding recurring events', error);
+                if (!cancelled) setOccurrences(null);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [events, view, currentDate]);
+
+    // Teammates' busy time for the visible week or day
+    useEffect(() => {
+        const workspace = teamWorkspaces.find(w => w.id === busyWorkspaceId);
+        if (!workspace || (view !== 'week' && view !== 'day')) {
+            setTeamBusy([]);
+            return;
+        }
+
+        const uids = workspace.members
+            .map(m => m.uid)
+            .filter(uid => uid !== auth.currentUser?.uid);
+        const rangeStart = view === 'week'
+            ? getStartOfWeek(currentDate)
+            : new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate());
+        rangeStart.setHours(0, 0, 0, 0);
+        const rangeEnd = new Date(rangeStart);
+        rangeEnd.setDate(rangeStart.getDate() + (view === 'week' ? 7 : 1));
+
+        let cancelled = false;
+        getWorkspaceFreeBusy(workspace.id, uids, rangeStart, rangeEnd)
+            .then(freeBusy => {
+                if (!cancelled) setTeamBusy(freeBusy);
+            })
+            .catch(error => {
+                logger.error('Error loading team busy time', error);
+                if (!cancelled) setTeamBusy([]);
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [busyWorkspaceId, teamWorkspaces, view, currentDate]);
+
+    // Occurrences replace series masters once expanded
+    const displayEvents = occurrences || events;
+
     // Load month image assignments
     useEffect(() => {
         const loadMonthImages = async () => {
@@ -170,10 +270,18 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
     }, []); // Only run once on mount
 
 
-    const handleDelete = async (id: string) => {
-        logger.userAction('Delete event requested', { eventId: id });
+    const handleDelete = async (event: Event, scope?: EditScope) => {
+        const id = event._id;
+        logger.userAction('Delete event requested', { eventId: id, scope });
 
-        if (!confirm('Are you sure you want to delete this event?')) {
+        // Occurrences of a recurring series ask which part of the series to delete
+        if (event.isOccurrence && !scope) {
+            setPendingDelete(event);
+            return;
+        }
+        setPendingDelete(null);
+
+        if (!scope && !confirm('Are you sure you want to delete this event?')) {
             logger.debug('Delete cancelled by user');
             return;
         }
@@ -188,7 +296,11 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
             logger.debug(`Deleting event: ${id}`);
             const startTime = performance.now();
 
-            await fetch(`http://localhost:5000/api/events/${id}`, {
+            const scopeQuery = scope && event.occurrenceStart
+                ? `?scope=${scope}&occurrenceStart=${encodeURIComponent(event.occurrenceStart)}`
+                : '';
+
+            await fetch(`http://localhost:5000/api/events/${id}${scopeQuery}`, {
                 method: 'DELETE',
                 headers: { Authorization: `Bearer ${token}` },
             });
@@ -265,18 +377,33 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
     const handleIntentParsed = (response: AIResponse) => {
         if (response.parsedIntent) {
             setAiIntent(response.parsedIntent);
-            setIsAIModalOpen(true);
+            setAiSessionId(response.sessionId);
+
+            // Cancel and update are confirmed as they are, create and move pick a time
+            const { action } = response.parsedIntent;
+            if (action === 'cancel' || action === 'update') {
+                setIsAICommandOpen(true);
+            } else {
+                setIsAIModalOpen(true);
+            }
         }
     };
 
+    const handleCommandApplied = (message: string) => {
+        logger.success('AI command applied', { message });
+        setIsAICommandOpen(false);
+        setAiIntent(null);
+        setAiSessionId(undefined);
+        setComposeKey(key => key + 1);
+    };
+
     const handleScheduled = (result: ScheduleResult) => {
         logger.success('Event scheduled via AI', result);
         setIsAIModalOpen(false);
         setAiIntent(null);
-    };
-
-    const handleClarification = (question: string) => {
-        alert(`AI Clarification Needed: ${question}`);
+        setAiSessionId(undefined);
+        // The session ended in a booking, so start a fresh thread
+        setComposeKey(key => key + 1);
     };
 
     const daysInMonth = (date: Date) => {
@@ -344,7 +471,7 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
                                     const month = String(currentDayDate.getMonth() + 1).padStart(2, '0');
                                     const dayStr = String(currentDayDate.getDate()).padStart(2, '0');
                                     const dateStr = `${year}-${month}-${dayStr}`;
-                                    const hasEvents = events.some(e => e.startDate.substring(0, 10) === dateStr);
+                                    const hasEvents = displayEvents.some(e => e.startDate.substring(0, 10) === dateStr);
                                     const isHoliday = getHolidaysForDate(currentDayDate).length > 0;
                                     const isToday = new Date().toISOString().split('T')[0] === dateStr;
 
@@ -516,7 +643,7 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
                                 const month = String(currentDayDate.getMonth() + 1).padStart(2, '0');
                                 const dayStr = String(currentDayDate.getDate()).padStart(2, '0');
                                 const dateStr = `${year}-${month}-${dayStr}`;
-                                const dayEvents = events.filter((e) => {
+                                const dayEvents = displayEvents.filter((e) => {
                                     // Extract just the date part from the event's startDate
                                     const eventDateStr = e.startDate.substring(0, 10);
                                     return eventDateStr === dateStr;
@@ -546,12 +673,12 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
                                         <div className="space-y-1 overflow-y-auto max-h-[calc(100%-2rem)] custom-scrollbar mt-1">
                                             {dayEvents.map((e) => (
                                                 <div
-                                                    key={e._id}
+                                                    key={`${e._id}-${e.startDate}`}
                                                     onClick={(evt) => { evt.stopPropagation(); onEditEvent(e); }}
                                                     className={`text-xs px-2 py-1 rounded-md text-white border border-white/20 truncate cursor-pointer hover:opacity-90 transition flex justify-between items-center group/event shadow-sm`}
                                                     style={{ backgroundColor: e.color || '#3b82f6' }}
                                                 >
-                                                    <span className="truncate font-medium">{e.title}</span>
+                                                    <span className="truncate font-medium">{e.eventType === 'focusTime' && '🎯 '}{e.title}</span>
                                                 </div>
                                             ))}
                                         </div>
@@ -600,7 +727,7 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
                                 )}
 
                                 <div className="space-y-2 flex-1">
-                                    {events
+                                    {displayEvents
                                         .filter((e) => {
                                             const year = date.getFullYear();
                                             const month = String(date.getMonth() + 1).padStart(2, '0');
@@ -610,18 +737,20 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
                                         })
                                         .map((e) => (
                                             <div
-                                                key={e._id}
+                                                key={`${e._id}-${e.startDate}`}
                                                 onClick={() => onEditEvent(e)}
                                                 className="text-sm text-white p-2 rounded-lg shadow-sm cursor-pointer hover:opacity-90 transition"
                                                 style={{ backgroundColor: e.color || '#3b82f6' }}
                                             >
-                                                <div className="font-semibold truncate">{e.title}</div>
+                                                <div className="font-semibold truncate">{e.eventType === 'focusTime' && '🎯 '}{e.title}</div>
                                                 <div className="text-xs opacity-90">
                                                     {new Date(e.startDate).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
                                                 </div>
                                             </div>
                                         ))}
                                 </div>
+
+                                <TeamBusyOverlay date={date} freeBusy={teamBusy} className="mt-2" />
                             </div>
                         );
                     })}
@@ -636,7 +765,7 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
         const month = String(currentDate.getMonth() + 1).padStart(2, '0');
         const day = String(currentDate.getDate()).padStart(2, '0');
         const dateStr = `${year}-${month}-${day}`;
-        const dayEvents = events.filter((e) => e.startDate.substring(0, 10) === dateStr);
+        const dayEvents = displayEvents.filter((e) => e.startDate.substring(0, 10) === dateStr);
         const holidays = getHolidaysForDate(currentDate);
         const holidaysList = Array.isArray(holidays) ? holidays : [];
 
@@ -666,13 +795,13 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
                         ) : (
                             dayEvents.map((e) => (
                                 <div
-                                    key={e._id}
+                                    key={`${e._id}-${e.startDate}`}
                                     className="border-l-4 p-4 rounded-r-lg shadow-sm flex justify-between items-center bg-gray-50 dark:bg-gray-700/50 hover:bg-gray-100 dark:hover:bg-gray-700 transition cursor-pointer"
                                     style={{ borderLeftColor: e.color || '#3b82f6' }}
                                     onClick={() => onEditEvent(e)}
                                 >
                                     <div>
-                                        <h4 className="font-bold text-lg text-gray-800 dark:text-white">{e.title}</h4>
+                                        <h4 className="font-bold text-lg text-gray-800 dark:text-white">{e.eventType === 'focusTime' && '🎯 '}{e.title}</h4>
                                         <p className="text-gray-600 dark:text-gray-300 flex items-center mt-1">
                                             <svg className="w-4 h-4 mr-1" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"></path></svg>
                                             {new Date(e.startDate).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} -{' '}
@@ -682,7 +811,7 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
                                     </div>
                                     <div className="flex space-x-2">
                                         <button
-                                            onClick={(evt) => { evt.stopPropagation(); handleDelete(e._id); }}
+                                            onClick={(evt) => { evt.stopPropagation(); handleDelete(e); }}
                                             className="text-gray-400 hover:text-red-500 dark:hover:text-red-400 p-2 rounded-full hover:bg-red-50 dark:hover:bg-red-900/20 transition"
                                             title="Delete Event"
                                         >
@@ -695,6 +824,8 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
                             ))
                         )}
                     </div>
+
+                    <TeamBusyOverlay date={currentDate} freeBusy={teamBusy} showHourLabels className="mt-6" />
                 </div>
                 {renderHolidaysList(holidaysList, "Holidays Today")}
             </>
@@ -739,8 +870,8 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
 
             <div className="mb-6">
                 <SmartComposeInput
+                    key={composeKey}
                     onIntentParsed={handleIntentParsed}
-                    onClarificationNeeded={handleClarification}
                     className="max-w-2xl mx-auto"
                 />
             </div>
@@ -793,6 +924,20 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
                         </svg>
                     </button>
 
+                    {(view === 'week' || view === 'day') && teamWorkspaces.length > 0 && (
+                        <select
+                            value={busyWorkspaceId}
+                            onChange={(e) => setBusyWorkspaceId(e.target.value)}
+                            className="ml-4 border border-gray-300 dark:border-gray-600 rounded-lg px-3 py-2 text-sm dark:bg-gray-700 dark:text-white"
+                            title="Show teammates' busy time"
+                        >
+                            <option value="">No team overlay</option>
+                            {teamWorkspaces.map((w) => (
+                                <option key={w.id} value={w.id}>{w.name} busy time</option>
+                            ))}
+                        </select>
+                    )}
+
                     {/* Print/Export PDF Button */}
                     <button
                         onClick={exportToPDF}
@@ -818,9 +963,27 @@ const Calendar: React.FC<CalendarProps> = ({ onEditEvent }) => {
                     isOpen={isAIModalOpen}
                     onClose={() => setIsAIModalOpen(false)}
                     parsedIntent={aiIntent}
+                    sessionId={aiSessionId}
                     onScheduled={handleScheduled}
                 />
             )}
+
+            {aiIntent && (
+                <AICommandModal
+                    isOpen={isAICommandOpen}
+                    onClose={() => setIsAICommandOpen(false)}
+                    parsedIntent={aiIntent}
+                    sessionId={aiSessionId}
+                    onApplied={handleCommandApplied}
+                />
+            )}
+
+            <RecurrenceScopeDialog
+                isOpen={pendingDelete !== null}
+                action="delete"
+                onSelect={(scope) => pendingDelete && handleDelete(pendingDelete, scope)}
+                onCancel={() => setPendingDelete(null)}
+            />
         </div>
     );
 };
@@ -0,0 +1,235 @@
+/**
+ * Calendar Feed Settings Component
+ * Import and export events as .ics and manage revocable subscription URLs for other calendar clients
+ */
+
+import React, { useState, useEffect } from 'react';
+import { auth } from '../config/firebase';
+import {
+    importIcsFile,
+    exportEventsAsIcs,
+    listCalendarFeeds,
+    createCalendarFeed,
+    revokeCalendarFeed
+} from '../utils/eventApi';
+import { getUserWorkspaces } from '../utils/workspaceApi';
+import { logger } from '../utils/logger';
+import type { CalendarFeed, IcsImportReport } from '../types/event';
+import type { Workspace } from '../types/workspace';
+
+const CalendarFeedSettings: React.FC = () => {
+    const [feeds, setFeeds] = useState<CalendarFeed[]>([]);
+    const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+    const [source, setSource] = useState('');
+    const [loading, setLoading] = useState(true);
+    const [working, setWorking] = useState(false);
+    const [message, setMessage] = useState('');
+    const [importReport, setImportReport] = useState<IcsImportReport | null>(null);
+
+    useEffect(() => {
+        const unsubscribe = auth.onAuthStateChanged(async (user) => {
+            if (!user) {
+                setLoading(false);
+                return;
+            }
+
+            try {
+                const [userFeeds, userWorkspaces] = await Promise.all([
+                    listCalendarFeeds(),
+                    getUserWorkspaces()
+                ]);
+                setFeeds(userFeeds);
+                setWorkspaces(userWorkspaces);
+            } catch (error) {
+                logger.error('Error loading calendar feeds', error);
+            } finally {
+                setLoading(false);
+            }
+        });
+        return () => unsubscribe();
+    }, []);
+
+    const handleDownload = async () => {
+        setWorking(true);
+        setMessage('');
+        try {
+            const blob = await exportEventsAsIcs(source || undefined);
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = source ? `workspace_${source}.ics` : 'calendar.ics';
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            setMessage('Failed to export events.');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+
+        setWorking(true);
+        setMessage('');
+        setImportReport(null);
+        try {
+            const report = await importIcsFile(file, source || undefined);
+            setImportReport(report);
+            setMessage('Events imported successfully!');
+        } catch (error) {
+            setMessage(error instanceof Error ? error.message : 'Failed to import events.');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleCreateFeed = async () => {
+        setWorking(true);
+        setMessage('');
+        try {
+            const feed = await createCalendarFeed(source || undefined);
+            setFeeds([...feeds, feed]);
+            setMessage('Subscription URL created successfully!');
+        } catch (error) {
+            setMessage(error instanceof Error ? error.message : 'Failed to create subscription URL.');
+        } finally {
+            setWorking(false);
+        }
+    };
+
+    const handleRevoke = async (feedId: string) => {
+        if (!confirm('Revoke this subscription URL? Calendar clients using it will stop updating.')) {
+            return;
+        }
+
+        try {
+            await revokeCalendarFeed(feedId);
+            setFeeds(feeds.filter(f => f.id !== feedId));
+        } catch (error) {
+            setMessage('Failed to revoke subscription URL.');
+        }
+    };
+
+    const handleCopy = async (url: string) => {
+        await navigator.clipboard.writeText(url);
+        setMessage('Subscription URL copied successfully!');
+    };
+
+    if (loading) return <div className="p-8 text-center">Loading subscriptions...</div>;
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-8 rounded-xl shadow-lg transition-colors duration-300">
+            <h2 className="text-2xl font-bold mb-2 dark:text-white">Import, Export & Subscribe</h2>
+            <p className="text-gray-600 dark:text-gray-300 mb-6">
+                Import events from an .ics file, download your events as one, or create a subscription URL for Google Calendar, Outlook or Apple Calendar.
+            </p>
+
+            {message && (
+                <div className={`p-3 rounded mb-4 ${message.includes('success') ? 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-100' : 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-100'}`}>
+                    {message}
+                </div>
+            )}
+
+            {importReport && (
+                <div className="mb-6 text-sm text-gray-700 dark:text-gray-300">
+                    <p>
+                        {importReport.created} created, {importReport.updated} updated, {importReport.skipped} skipped
+                        (already imported or unchanged).
+                    </p>
+                    {importReport.errors.length > 0 && (
+                        <ul className="mt-2 list-disc list-inside text-red-600 dark:text-red-400">
+                            {importReport.errors.map((err, index) => (
+                                <li key={index}>{err.uid}: {err.reason}</li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
+            )}
+
+            <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Calendar</label>
+                <select
+                    value={source}
+                    onChange={(e) => setSource(e.target.value)}
+                    className="w-full border border-gray-300 dark:border-gray-600 rounded-md p-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                    <option value="">My events</option>
+                    {workspaces.map((w) => (
+                        <option key={w.id} value={w.id}>{w.name} (workspace)</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="flex space-x-3 mb-8">
+                <label className={`px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors ${working ? 'opacity-50 pointer-events-none' : 'cursor-pointer'}`}>
+                    Import .ics
+                    <input
+                        type="file"
+                        accept=".ics,text/calendar"
+                        onChange={handleImport}
+                        disabled={working}
+                        className="hidden"
+                    />
+                </label>
+                <button
+                    onClick={handleDownload}
+                    disabled={working}
+                    className="px-4 py-2 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+                >
+                    Download .ics
+                </button>
+                <button
+                    onClick={handleCreateFeed}
+                    disabled={working}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                >
+                    Create subscription URL
+                </button>
+            </div>
+
+
+            <h3 className="text-lg font-semibold mb-3 dark:text-white">Active subscription URLs</h3>
+            {feeds.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No subscription URLs yet.</p>
+            ) : (
+                <ul className="space-y-3">
+                    {feeds.map((feed) => (
+                        <li key={feed.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+                            <div className="flex justify-between items-center mb-2">
+                                <span className="font-medium dark:text-white">{feed.name}</span>
+                                <span className="text-xs text-gray-500 dark:text-gray-400">
+                                    Created {new Date(feed.createdAt).toLocaleDateString()}
+                                </span>
+                            </div>
+                            <div className="flex items-center space-x-2">
+                                <input
+                                    type="text"
+                                    readOnly
+                                    value={feed.url}
+                                    className="flex-1 text-xs font-mono border border-gray-300 dark:border-gray-600 rounded-md p-2 dark:bg-gray-700 dark:text-white"
+                                />
+                                <button
+                                    onClick={() => handleCopy(feed.url)}
+                                    className="px-3 py-2 text-sm text-blue-600 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded-md"
+                                >
+                                    Copy
+                                </button>
+                                <button
+                                    onClick={() => handleRevoke(feed.id)}
+                                    className="px-3 py-2 text-sm text-red-600 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-md"
+                                >
+                                    Revoke
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default CalendarFeedSettings;
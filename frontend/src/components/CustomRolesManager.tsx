@@ -0,0 +1,238 @@
+/**
+ * Custom Roles Manager Component
+ * Lets the workspace owner define roles with their own permission sets
+ */
+
+import React, { useState } from 'react';
+import type { CustomRole, RolePermissions } from '../types/roles';
+import { OWNER_ONLY_PERMISSIONS, PERMISSION_KEYS } from '../types/roles';
+import type { Workspace } from '../types/workspace';
+import { createCustomRole, updateCustomRole, deleteCustomRole } from '../utils/roleApi';
+import { logger } from '../utils/logger';
+
+interface CustomRolesManagerProps {
+    workspaceId: string;
+    customRoles: CustomRole[];
+    onRolesChange: (customRoles: CustomRole[], workspace?: Workspace) => void;
+    onError: (message: string | null) => void;
+}
+
+const PERMISSION_LABELS: Record<keyof RolePermissions, string> = {
+    canEditWorkspace: 'Edit workspace',
+    canDeleteWorkspace: 'Delete workspace',
+    canManageMembers: 'Manage members and invites',
+    canChangeRoles: 'Change roles',
+    canManageSettings: 'Manage scheduling profile and AI usage',
+    canEditAllEvents: 'Edit all events',
+    canEditOwnEvents: 'Edit own events',
+    canCreateEvents: 'Create events',
+    canViewEvents: 'View events',
+    canViewFreeBusy: "View teammates' free/busy"
+};
+
+// Owner-only permissions cannot be granted to custom roles
+const GRANTABLE_PERMISSIONS = PERMISSION_KEYS.filter(key => !OWNER_ONLY_PERMISSIONS.includes(key));
+
+const EMPTY_PERMISSIONS: Partial<RolePermissions> = { canViewEvents: true };
+
+const CustomRolesManager: React.FC<CustomRolesManagerProps> = ({
+    workspaceId,
+    customRoles,
+    onRolesChange,
+    onError
+}) => {
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [showForm, setShowForm] = useState(false);
+    const [name, setName] = useState('');
+    const [description, setDescription] = useState('');
+    const [permissions, setPermissions] = useState<Partial<RolePermissions>>(EMPTY_PERMISSIONS);
+    const [saving, setSaving] = useState(false);
+
+    const openForm = (role?: CustomRole) => {
+        setEditingId(role?.id || null);
+        setName(role?.name || '');
+        setDescription(role?.description || '');
+        setPermissions(role ? { ...role.permissions } : { ...EMPTY_PERMISSIONS });
+        setShowForm(true);
+        onError(null);
+    };
+
+    const closeForm = () => {
+        setShowForm(false);
+        setEditingId(null);
+    };
+
+    const togglePermission = (key: keyof RolePermissions) => {
+        setPermissions(prev => ({ ...prev, [key]: !prev[key] }));
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSaving(true);
+        onError(null);
+
+        try {
+            const input = { name: name.trim(), description: description.trim() || undefined, permissions };
+
+            if (editingId) {
+                const role = await updateCustomRole(workspaceId, editingId, input);
+                onRolesChange(customRoles.map(r => r.id === role.id ? role : r));
+            } else {
+                const role = await createCustomRole(workspaceId, input);
+                onRolesChange([...customRoles, role]);
+            }
+
+            logger.userAction(editingId ? 'Updated custom role' : 'Created custom role', { name: input.name });
+            closeForm();
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Failed to save role');
+            logger.error('Failed to save custom role', err);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleDelete = async (role: CustomRole) => {
+        if (!confirm(`Delete the "${role.name}" role? Members with this role will become members.`)) {
+            return;
+        }
+
+        setSaving(true);
+        onError(null);
+
+        try {
+            const workspace = await deleteCustomRole(workspaceId, role.id);
+            onRolesChange(workspace.customRoles || [], workspace);
+            logger.userAction('Deleted custom role', { roleId: role.id });
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Failed to delete role');
+            logger.error('Failed to delete custom role', err);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-center justify-between">
+                <h4 className="font-semibold text-gray-900 dark:text-white">Custom Roles</h4>
+                {!showForm && (
+                    <button
+                        onClick={() => openForm()}
+                        className="px-3 py-1.5 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors"
+                    >
+                        New Role
+                    </button>
+                )}
+            </div>
+
+            {customRoles.length === 0 && !showForm && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    No custom roles yet. Create one to give teammates a tailored set of permissions, like a scheduler who edits all events but does not manage members.
+                </p>
+            )}
+
+            {customRoles.map(role => (
+                <div
+                    key={role.id}
+                    className="rounded-lg border border-gray-200 dark:border-gray-700 p-4 flex items-start justify-between gap-4"
+                >
+                    <div>
+                        <div className="font-medium text-gray-900 dark:text-white">{role.name}</div>
+                        {role.description && (
+                            <div className="text-sm text-gray-500 dark:text-gray-400">{role.description}</div>
+                        )}
+                        <div className="flex flex-wrap gap-1 mt-2">
+                            {GRANTABLE_PERMISSIONS.filter(key => role.permissions[key]).map(key => (
+                                <span
+                                    key={key}
+                                    className="px-2 py-0.5 text-xs rounded-full bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300"
+                                >
+                                    {PERMISSION_LABELS[key]}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="flex gap-2 flex-shrink-0">
+                        <button
+                            onClick={() => openForm(role)}
+                            disabled={saving}
+                            className="px-3 py-1.5 text-sm text-purple-600 dark:text-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/20
+                                     rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Edit
+                        </button>
+                        <button
+                            onClick={() => handleDelete(role)}
+                            disabled={saving}
+                            className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20
+                                     rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Delete
+                        </button>
+                    </div>
+                </div>
+            ))}
+
+            {showForm && (
+                <form
+                    onSubmit={handleSave}
+                    className="rounded-lg border border-purple-200 dark:border-purple-800 p-4 space-y-4"
+                >
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Name</label>
+                        <input
+                            type="text"
+                            value={name}
+                            onChange={(e) => setName(e.target.value)}
+                            maxLength={40}
+                            required
+                            className="w-full border border-gray-300 dark:border-gray-600 rounded-md p-2 dark:bg-gray-700 dark:text-white"
+                        />
+                    </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Description</label>
+                        <input
+                            type="text"
+                            value={description}
+                            onChange={(e) => setDescription(e.target.value)}
+                            maxLength={200}
+                            className="w-full border border-gray-300 dark:border-gray-600 rounded-md p-2 dark:bg-gray-700 dark:text-white"
+                        />
+                    </div>
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                        {GRANTABLE_PERMISSIONS.map(key => (
+                            <label key={key} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                                <input
+                                    type="checkbox"
+                                    checked={!!permissions[key]}
+                                    onChange={() => togglePermission(key)}
+                                    className="rounded border-gray-300 text-purple-600 focus:ring-purple-500"
+                                />
+                                {PERMISSION_LABELS[key]}
+                            </label>
+                        ))}
+                    </div>
+                    <div className="flex justify-end gap-2">
+                        <button
+                            type="button"
+                            onClick={closeForm}
+                            className="px-4 py-2 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors"
+                        >
+                            Cancel
+                        </button>
+                        <button
+                            type="submit"
+                            disabled={saving || !name.trim()}
+                            className="px-4 py-2 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            {saving ? 'Saving...' : editingId ? 'Save Role' : 'Create Role'}
+                        </button>
+                    </div>
+                </form>
+            )}
+        </div>
+    );
+};
+
+export default CustomRolesManager;
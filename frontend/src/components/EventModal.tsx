@@ -1,7 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { auth } from '../config/firebase';
-import type { CalendarEvent } from '../types/event';
+import type { AttendeeResponseStatus, CalendarEvent, EditScope, EventAttendee } from '../types/event';
 import { logger } from '../utils/logger';
+import { respondToEvent } from '../utils/eventApi';
+import {
+    formatInTimeZone,
+    fromZonedInputValue,
+    getTimeZoneOptions,
+    getViewerTimeZone,
+    toZonedInputValue
+} from '../utils/timezone';
+import RecurrenceScopeDialog from './RecurrenceScopeDialog';
 
 interface EventModalProps {
     isOpen: boolean;
@@ -10,6 +19,25 @@ interface EventModalProps {
     event?: CalendarEvent | null;
 }
 
+// Map a stored event to the recurrence select value (AI-created series only carry an RRULE)
+const getRecurrenceValue = (event: CalendarEvent): string => {
+    if (event.recurrence) return event.recurrence;
+    const freq = event.rrule?.match(/FREQ=(\w+)/i);
+    return freq ? freq[1].toLowerCase() : 'none';
+};
+
+// Attendee emails as edited in the form
+const getAttendeeValue = (event: CalendarEvent): string => {
+    return (event.attendees || []).map(a => a.email).join(', ');
+};
+
+const RESPONSE_LABELS: Record<AttendeeResponseStatus, { label: string; className: string }> = {
+    'needs-action': { label: 'Awaiting', className: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300' },
+    accepted: { label: 'Accepted', className: 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-200' },
+    declined: { label: 'Declined', className: 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-200' },
+    tentative: { label: 'Maybe', className: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900 dark:text-yellow-200' },
+};
+
 const EventModal: React.FC<EventModalProps> = ({ isOpen, onClose, onEventAdded, event }) => {
     const [title, setTitle] = useState('');
     const [startDate, setStartDate] = useState('');
@@ -17,48 +45,82 @@ const EventModal: React.FC<EventModalProps> = ({ isOpen, onClose, onEventAdded,
     const [description, setDescription] = useState('');
     const [recurrence, setRecurrence] = useState('none');
     const [color, setColor] = useState('blue');
+    const [isFocusTime, setIsFocusTime] = useState(false);
+    const [timeZone, setTimeZone] = useState(getViewerTimeZone());
+    const [attendeeInput, setAttendeeInput] = useState('');
+    const [attendees, setAttendees] = useState<EventAttendee[]>([]);
     const [loading, setLoading] = useState(false);
+    const [isScopeDialogOpen, setIsScopeDialogOpen] = useState(false);
 
     useEffect(() => {
-        // Helper to convert ISO date to datetime-local format (YYYY-MM-DDTHH:mm)
-        const formatDateForInput = (isoString: string) => {
-            if (!isoString) return '';
-            const date = new Date(isoString);
-            // Format as YYYY-MM-DDTHH:mm for datetime-local input
-            const year = date.getFullYear();
-            const month = String(date.getMonth() + 1).padStart(2, '0');
-            const day = String(date.getDate()).padStart(2, '0');
-            const hours = String(date.getHours()).padStart(2, '0');
-            const minutes = String(date.getMinutes()).padStart(2, '0');
-            return `${year}-${month}-${day}T${hours}:${minutes}`;
-        };
-
         if (event) {
             logger.debug('EventModal opened for editing', { eventId: event._id, title: event.title });
+            // Times are edited as wall-clock times in the event's own zone
+            const eventTimeZone = event.timeZone || getViewerTimeZone();
             setTitle(event.title);
-            setStartDate(formatDateForInput(event.startDate));
-            setEndDate(formatDateForInput(event.endDate));
+            setTimeZone(eventTimeZone);
+            setStartDate(toZonedInputValue(event.startDate, eventTimeZone));
+            setEndDate(toZonedInputValue(event.endDate, eventTimeZone));
             setDescription(event.description || '');
-            setRecurrence(event.recurrence || 'none');
+            setRecurrence(getRecurrenceValue(event));
             setColor(event.color || 'blue');
+            setIsFocusTime(event.eventType === 'focusTime');
+            setAttendeeInput(getAttendeeValue(event));
+            setAttendees(event.attendees || []);
         } else if (isOpen) {
             logger.debug('EventModal opened for creating new event');
             // Reset form for new event
             setTitle('');
+            setTimeZone(getViewerTimeZone());
             setStartDate('');
             setEndDate('');
             setDescription('');
             setRecurrence('none');
             setColor('blue');
+            setIsFocusTime(false);
+            setAttendeeInput('');
+            setAttendees([]);
         }
     }, [event, isOpen]);
 
+    // Events organized by someone else are read-only apart from the RSVP
+    const currentUser = auth.currentUser;
+    const isInvitee = !!event && !!currentUser && !!event.userId && event.userId !== currentUser.uid;
+    const myAttendance = isInvitee
+        ? attendees.find(a => a.uid === currentUser?.uid || a.email === currentUser?.email?.toLowerCase())
+        : undefined;
+
+    const handleRespond = async (status: AttendeeResponseStatus) => {
+        if (!event) return;
+
+        logger.userAction('Event RSVP', { eventId: event._id, status });
+        try {
+            const updated = await respondToEvent(event._id, status);
+            setAttendees(updated);
+            onEventAdded();
+        } catch (error) {
+            alert(`Failed to respond: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+    };
+
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
+
+        // Occurrences of a recurring series need to know which part of the series to change
+        if (event?.isOccurrence) {
+            setIsScopeDialogOpen(true);
+            return;
+        }
+
+        await saveEvent();
+    };
+
+    const saveEvent = async (scope?: EditScope) => {
+        setIsScopeDialogOpen(false);
         setLoading(true);
 
         const operation = event ? 'update' : 'create';
-        logger.userAction(`Event form submitted (${operation})`, { title, startDate, endDate });
+        logger.userAction(`Event form submitted (${operation})`, { title, startDate, endDate, scope });
 
         // Get fresh token
         const user = auth.currentUser;
@@ -72,21 +134,21 @@ const EventModal: React.FC<EventModalProps> = ({ isOpen, onClose, onEventAdded,
         logger.debug('Getting fresh auth token...');
         const token = await user.getIdToken();
 
-        // Fix timezone issue: ensure dates are in ISO format with local timezone
-        const formatDateForBackend = (dateString: string) => {
-            if (!dateString) return dateString;
-            // datetime-local gives us YYYY-MM-DDTHH:mm, treat it as local time
-            const localDate = new Date(dateString);
-            return localDate.toISOString(); // Convert to ISO format for backend
-        };
-
         const eventData = {
             title,
-            startDate: formatDateForBackend(startDate),
-            endDate: formatDateForBackend(endDate),
+            startDate: fromZonedInputValue(startDate, timeZone),
+            endDate: fromZonedInputValue(endDate, timeZone),
+            timeZone,
             description,
-            recurrence,
-            color
+            eventType: isFocusTime ? 'focusTime' : 'default',
+            // Only resend recurrence when it changed, so custom RRULEs survive other edits
+            ...(!event || recurrence !== getRecurrenceValue(event) ? { recurrence } : {}),
+            color,
+            // Only resend attendees when edited, so RSVP state is not reset
+            ...(!event || attendeeInput !== getAttendeeValue(event)
+                ? { attendees: attendeeInput.split(',').map(a => a.trim()).filter(Boolean) }
+                : {}),
+            ...(scope ? { scope, occurrenceStart: event?.occurrenceStart } : {})
         };
         const url = event ? `http://localhost:5000/api/events/${event._id}` : 'http://localhost:5000/api/events';
         const method = event ? 'PUT' : 'POST';
@@ -164,6 +226,24 @@ const EventModal: React.FC<EventModalProps> = ({ isOpen, onClose, onEventAdded,
                             />
                         </div>
                     </div>
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">Time zone</label>
+                        <select
+                            value={timeZone}
+                            onChange={(e) => setTimeZone(e.target.value)}
+                            className="w-full border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white p-2.5 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                        >
+                            {getTimeZoneOptions(event?.timeZone).map((tz) => (
+                                <option key={tz} value={tz}>{tz}</option>
+                            ))}
+                        </select>
+                        {timeZone !== getViewerTimeZone() && startDate && (
+                            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                                Your time ({getViewerTimeZone()}): {formatInTimeZone(fromZonedInputValue(startDate, timeZone), getViewerTimeZone())}
+                                {endDate && ` – ${formatInTimeZone(fromZonedInputValue(endDate, timeZone), getViewerTimeZone())}`}
+                            </p>
+                        )}
+                    </div>
                     <div>
                         <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">Description</label>
                         <textarea
@@ -174,6 +254,63 @@ const EventModal: React.FC<EventModalProps> = ({ isOpen, onClose, onEventAdded,
                             placeholder="Add details..."
                         />
                     </div>
+                    {!isInvitee && (
+                        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-200">
+                            <input
+                                type="checkbox"
+                                checked={isFocusTime}
+                                onChange={(e) => setIsFocusTime(e.target.checked)}
+                                className="rounded border-gray-300 dark:border-gray-600"
+                            />
+                            <span>Focus time (AI scheduling won't book meetings over it)</span>
+                        </label>
+                    )}
+                    <div>
+                        <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">Attendees</label>
+                        {!isInvitee && (
+                            <input
+                                type="text"
+                                value={attendeeInput}
+                                onChange={(e) => setAttendeeInput(e.target.value)}
+                                className="w-full border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-400 dark:placeholder-gray-500 p-2.5 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+                                placeholder="Emails, separated by commas"
+                            />
+                        )}
+                        {attendees.length > 0 && (
+                            <ul className="mt-2 space-y-1">
+                                {attendees.map((attendee) => (
+                                    <li key={attendee.email} className="flex justify-between items-center text-sm">
+                                        <span className="text-gray-700 dark:text-gray-300 truncate">
+                                            {attendee.displayName || attendee.email}
+                                        </span>
+                                        <span className={`px-2 py-0.5 rounded-full text-xs ${RESPONSE_LABELS[attendee.responseStatus].className}`}>
+                                            {RESPONSE_LABELS[attendee.responseStatus].label}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </div>
+                    {myAttendance && (
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">Going?</label>
+                            <div className="flex space-x-2">
+                                {(['accepted', 'tentative', 'declined'] as AttendeeResponseStatus[]).map((status) => (
+                                    <button
+                                        key={status}
+                                        type="button"
+                                        onClick={() => handleRespond(status)}
+                                        className={`px-3 py-1.5 rounded-lg text-sm font-medium transition ${myAttendance.responseStatus === status
+                                            ? 'bg-blue-600 text-white'
+                                            : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600'
+                                            }`}
+                                    >
+                                        {status === 'accepted' ? 'Yes' : status === 'tentative' ? 'Maybe' : 'No'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                     <div className="grid grid-cols-2 gap-4">
                         <div>
                             <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">Recurrence</label>
@@ -186,6 +323,7 @@ const EventModal: React.FC<EventModalProps> = ({ isOpen, onClose, onEventAdded,
                                 <option value="daily">Daily</option>
                                 <option value="weekly">Weekly</option>
                                 <option value="monthly">Monthly</option>
+                                <option value="yearly">Yearly</option>
                             </select>
                         </div>
                         <div>
@@ -213,7 +351,7 @@ const EventModal: React.FC<EventModalProps> = ({ isOpen, onClose, onEventAdded,
                         </button>
                         <button
                             type="submit"
-                            disabled={loading}
+                            disabled={loading || isInvitee}
                             className="px-5 py-2.5 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium transition shadow-lg shadow-blue-200 dark:shadow-blue-900/30 disabled:opacity-70"
                         >
                             {loading ? 'Saving...' : 'Save Event'}
@@ -221,6 +359,12 @@ const EventModal: React.FC<EventModalProps> = ({ isOpen, onClose, onEventAdded,
                     </div>
                 </form>
             </div>
+            <RecurrenceScopeDialog
+                isOpen={isScopeDialogOpen}
+                action="edit"
+                onSelect={saveEvent}
+                onCancel={() => setIsScopeDialogOpen(false)}
+            />
         </div>
     );
 };
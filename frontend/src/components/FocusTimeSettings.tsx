@@ -0,0 +1,227 @@
+/**
+ * Focus Time Settings Component
+ * Edit recurring protected windows and weekly focus goals,
+ * and let AI place focus blocks into this week's free time
+ */
+
+import React, { useState, useEffect } from 'react';
+import { auth } from '../config/firebase';
+import { getFocusTimeSettings, updateFocusTimeSettings, placeFocusTime } from '../utils/aiApi';
+import { logger } from '../utils/logger';
+import type { FocusTimeSettings as FocusTimeSettingsData, ProtectedWindow } from '../types/event';
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const NEW_WINDOW: ProtectedWindow = { label: '', days: [1, 2, 3, 4, 5], start: '09:00', end: '11:00' };
+
+const FocusTimeSettings: React.FC = () => {
+    const [signedIn, setSignedIn] = useState(false);
+    const [settings, setSettings] = useState<FocusTimeSettingsData | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [placing, setPlacing] = useState(false);
+    const [message, setMessage] = useState('');
+
+    useEffect(() => {
+        const unsubscribe = auth.onAuthStateChanged((user) => {
+            if (user) {
+                setSignedIn(true);
+            } else {
+                setLoading(false);
+            }
+        });
+        return () => unsubscribe();
+    }, []);
+
+    useEffect(() => {
+        if (!signedIn) return;
+
+        getFocusTimeSettings()
+            .then(setSettings)
+            .catch(error => {
+                logger.error('Error loading focus time settings', error);
+                setMessage('Failed to load focus time settings.');
+            })
+            .finally(() => setLoading(false));
+    }, [signedIn]);
+
+    const handleSave = async () => {
+        if (!settings) return;
+
+        setSaving(true);
+        setMessage('');
+        try {
+            setSettings(await updateFocusTimeSettings(settings));
+            setMessage('Focus time settings saved successfully!');
+        } catch (error) {
+            setMessage(error instanceof Error ? error.message : 'Failed to save focus time settings.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handlePlace = async () => {
+        setPlacing(true);
+        setMessage('');
+        try {
+            const events = await placeFocusTime();
+            setMessage(events.length > 0
+                ? `Focus time placed successfully: ${events.length} block${events.length === 1 ? '' : 's'} added this week.`
+                : 'Your focus goal for this week is already met, or there is no free time left to place it.');
+        } catch (error) {
+            setMessage(error instanceof Error ? error.message : 'Failed to place focus time.');
+        } finally {
+            setPlacing(false);
+        }
+    };
+
+    const updateWindow = (index: number, changes: Partial<ProtectedWindow>) => {
+        if (!settings) return;
+        setSettings({
+            ...settings,
+            protectedWindows: settings.protectedWindows.map((w, i) => i === index ? { ...w, ...changes } : w)
+        });
+    };
+
+    const toggleDay = (index: number, day: number) => {
+        if (!settings) return;
+        const days = settings.protectedWindows[index].days;
+        updateWindow(index, {
+            days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort()
+        });
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-8 rounded-xl shadow-lg transition-colors duration-300">
+            <h2 className="text-2xl font-bold mb-2 dark:text-white">Focus Time</h2>
+            <p className="text-gray-600 dark:text-gray-300 mb-6">
+                Protected windows repeat every week. AI scheduling never books meetings over them or over focus time events.
+            </p>
+
+            {message && (
+                <div className={`p-3 rounded mb-4 ${message.includes('success') || message.includes('already met') ? 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-100' : 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-100'}`}>
+                    {message}
+                </div>
+            )}
+
+            {loading || !settings ? (
+                <div className="p-8 text-center">Loading focus time settings...</div>
+            ) : (
+                <div className="space-y-6">
+                    <div>
+                        <h3 className="text-lg font-semibold mb-3 dark:text-white">Protected windows</h3>
+                        {settings.protectedWindows.length === 0 && (
+                            <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">No protected windows yet.</p>
+                        )}
+                        <div className="space-y-3">
+                            {settings.protectedWindows.map((window, index) => (
+                                <div key={index} className="border border-gray-200 dark:border-gray-700 rounded-md p-3 space-y-2">
+                                    <div className="flex gap-2">
+                                        <input
+                                            type="text"
+                                            placeholder="Label (e.g. Deep work)"
+                                            value={window.label || ''}
+                                            onChange={(e) => updateWindow(index, { label: e.target.value })}
+                                            className="flex-1 border border-gray-300 dark:border-gray-600 rounded-md p-2 dark:bg-gray-700 dark:text-white"
+                                        />
+                                        <input
+                                            type="time"
+                                            value={window.start}
+                                            onChange={(e) => updateWindow(index, { start: e.target.value })}
+                                            className="border border-gray-300 dark:border-gray-600 rounded-md p-2 dark:bg-gray-700 dark:text-white"
+                                        />
+                                        <input
+                                            type="time"
+                                            value={window.end}
+                                            onChange={(e) => updateWindow(index, { end: e.target.value })}
+                                            className="border border-gray-300 dark:border-gray-600 rounded-md p-2 dark:bg-gray-700 dark:text-white"
+                                        />
+                                        <button
+                                            onClick={() => setSettings({
+                                                ...settings,
+                                                protectedWindows: settings.protectedWindows.filter((_, i) => i !== index)
+                                            })}
+                                            className="px-3 text-red-600 hover:text-red-800 dark:text-red-400"
+                                            title="Remove window"
+                                        >
+                                            ✕
+                                        </button>
+                                    </div>
+                                    <div className="flex gap-1">
+                                        {WEEKDAYS.map((name, day) => (
+                                            <button
+                                                key={name}
+                                                onClick={() => toggleDay(index, day)}
+                                                className={`px-2 py-1 text-xs rounded ${window.days.includes(day)
+                                                    ? 'bg-blue-600 text-white'
+                                                    : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'
+                                                    }`}
+                                            >
+                                                {name}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                        <button
+                            onClick={() => setSettings({
+                                ...settings,
+                                protectedWindows: [...settings.protectedWindows, { ...NEW_WINDOW }]
+                            })}
+                            className="mt-3 text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                        >
+                            + Add protected window
+                        </button>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Weekly focus goal (minutes)</label>
+                            <input
+                                type="number"
+                                min={0}
+                                max={2400}
+                                step={30}
+                                value={settings.weeklyFocusMinutes}
+                                onChange={(e) => setSettings({ ...settings, weeklyFocusMinutes: Number(e.target.value) })}
+                                className="w-full border border-gray-300 dark:border-gray-600 rounded-md p-2 dark:bg-gray-700 dark:text-white"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Focus block length (minutes)</label>
+                            <input
+                                type="number"
+                                min={15}
+                                max={480}
+                                step={15}
+                                value={settings.focusBlockMinutes}
+                                onChange={(e) => setSettings({ ...settings, focusBlockMinutes: Number(e.target.value) })}
+                                className="w-full border border-gray-300 dark:border-gray-600 rounded-md p-2 dark:bg-gray-700 dark:text-white"
+                            />
+                        </div>
+                    </div>
+
+                    <div className="flex justify-end gap-2">
+                        <button
+                            onClick={handlePlace}
+                            disabled={placing}
+                            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-md hover:bg-gray-300 dark:bg-gray-700 dark:text-gray-200 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+                        >
+                            {placing ? 'Placing...' : 'Place focus time this week'}
+                        </button>
+                        <button
+                            onClick={handleSave}
+                            disabled={saving}
+                            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                        >
+                            {saving ? 'Saving...' : 'Save Focus Time'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default FocusTimeSettings;
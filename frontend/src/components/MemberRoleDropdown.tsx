@@ -4,8 +4,8 @@
  */
 
 import React, { useState } from 'react';
-import type { WorkspaceRole } from '../types/roles';
-import { canModifyRole } from '../types/roles';
+import type { CustomRole, WorkspaceRole } from '../types/roles';
+import { BUILT_IN_ROLES, canModifyRole, getRoleName, isBuiltInRole, isCustomRoleId } from '../types/roles';
 import { logger } from '../utils/logger';
 
 interface MemberRoleDropdownProps {
@@ -14,6 +14,7 @@ interface MemberRoleDropdownProps {
     targetMemberId: string;
     targetMemberName: string;
     onRoleChange: (newRole: WorkspaceRole) => Promise<void>;
+    customRoles?: CustomRole[];
     disabled?: boolean;
 }
 
@@ -23,18 +24,20 @@ const MemberRoleDropdown: React.FC<MemberRoleDropdownProps> = ({
     targetMemberId,
     targetMemberName,
     onRoleChange,
+    customRoles = [],
     disabled = false
 }) => {
     const [isChanging, setIsChanging] = useState(false);
     const [selectedRole, setSelectedRole] = useState<WorkspaceRole>(targetMemberRole);
 
-    const roles: WorkspaceRole[] = ['owner', 'admin', 'member', 'viewer'];
+    const roles: WorkspaceRole[] = [...BUILT_IN_ROLES, ...customRoles.map(r => r.id)];
 
     const handleRoleChange = async (e: React.ChangeEvent<HTMLSelectElement>) => {
-        const newRole = e.target.value as WorkspaceRole;
+        const newRole = e.target.value;
+        if (!isBuiltInRole(newRole) && !isCustomRoleId(newRole, customRoles)) return;
 
         // Check if user can modify this role
-        if (!canModifyRole(currentUserRole, targetMemberRole, newRole)) {
+        if (!canModifyRole(currentUserRole, targetMemberRole, newRole, customRoles)) {
             logger.warn('Insufficient permissions to change role');
             return;
         }
@@ -70,7 +73,7 @@ const MemberRoleDropdown: React.FC<MemberRoleDropdownProps> = ({
         if (role === 'owner') return false;
 
         // Check if current user can set this role
-        return canModifyRole(currentUserRole, targetMemberRole, role);
+        return canModifyRole(currentUserRole, targetMemberRole, role, customRoles);
     });
 
     // If no roles can be changed, don't show dropdown
@@ -96,7 +99,7 @@ const MemberRoleDropdown: React.FC<MemberRoleDropdownProps> = ({
             >
                 {/* Current role always shown */}
                 <option value={targetMemberRole}>
-                    {targetMemberRole.charAt(0).toUpperCase() + targetMemberRole.slice(1)}
+                    {getRoleName(targetMemberRole, customRoles)}
                 </option>
 
                 {/* Other available roles */}
@@ -104,7 +107,7 @@ const MemberRoleDropdown: React.FC<MemberRoleDropdownProps> = ({
                     .filter(role => role !== targetMemberRole)
                     .map(role => (
                         <option key={role} value={role}>
-                            {role.charAt(0).toUpperCase() + role.slice(1)}
+                            {getRoleName(role, customRoles)}
                         </option>
                     ))}
             </select>
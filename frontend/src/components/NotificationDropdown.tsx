@@ -128,10 +128,17 @@ const NotificationDropdown: React.FC<NotificationDropdownProps> = ({ isOpen, onC
                 return '✏️';
             case 'eventDeleted':
                 return '🗑️';
+            case 'eventInvitation':
+                return '📨';
+            case 'eventResponse':
+                return '✅';
             case 'workspaceInvite':
                 return '✉️';
             case 'workspaceRoleUpdate':
                 return '👤';
+            case 'ownershipTransfer':
+            case 'ownershipTransferUpdate':
+                return '👑';
             case 'aiSuggestion':
                 return '🤖';
             default:
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { auth } from '../config/firebase';
 import { logger } from '../utils/logger';
+import { getTimeZoneOptions } from '../utils/timezone';
 
 interface NotificationSettings {
     allowEmail: boolean;
@@ -89,16 +90,7 @@ const NotificationSettingsComponent: React.FC = () => {
         { value: 1440, label: '1 day before' },
     ];
 
-    const timezones = [
-        'Asia/Kolkata',
-        'America/New_York',
-        'America/Los_Angeles',
-        'Europe/London',
-        'Europe/Paris',
-        'Asia/Tokyo',
-        'Australia/Sydney',
-        'Pacific/Auckland',
-    ];
+    const timezones = getTimeZoneOptions(settings.timezone);
 
     if (loading) {
         return (
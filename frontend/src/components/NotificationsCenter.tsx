@@ -57,7 +57,7 @@ const NotificationsCenter: React.FC = () => {
                 // Apply client-side filter for 'system'
                 if (filter === 'system') {
                     notifs = notifs.filter((n: Notification) =>
-                        ['workspaceInvite', 'workspaceRoleUpdate', 'general'].includes(n.type)
+                        ['workspaceInvite', 'workspaceRoleUpdate', 'ownershipTransfer', 'ownershipTransferUpdate', 'general'].includes(n.type)
                     );
                 }
 
@@ -129,8 +129,12 @@ const NotificationsCenter: React.FC = () => {
             case 'eventCreated': return '📅';
             case 'eventUpdate': return '✏️';
             case 'eventDeleted': return '🗑️';
+            case 'eventInvitation': return '📨';
+            case 'eventResponse': return '✅';
             case 'workspaceInvite': return '✉️';
             case 'workspaceRoleUpdate': return '👤';
+            case 'ownershipTransfer':
+            case 'ownershipTransferUpdate': return '👑';
             case 'aiSuggestion': return '🤖';
             default: return '📢';
         }
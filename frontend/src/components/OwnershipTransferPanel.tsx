@@ -0,0 +1,147 @@
+/**
+ * Ownership Transfer Panel Component
+ * Lets the owner offer the workspace to another member, and that member accept or decline it
+ */
+
+import React, { useState } from 'react';
+import type { Workspace, WorkspaceMember } from '../types/workspace';
+import { proposeOwnershipTransfer, acceptOwnershipTransfer, cancelOwnershipTransfer } from '../utils/roleApi';
+import { logger } from '../utils/logger';
+
+interface OwnershipTransferPanelProps {
+    workspace: Workspace;
+    members: WorkspaceMember[];
+    currentUserId?: string;
+    onWorkspaceUpdate: (workspace: Workspace) => void;
+    onError: (message: string | null) => void;
+}
+
+const OwnershipTransferPanel: React.FC<OwnershipTransferPanelProps> = ({
+    workspace,
+    members,
+    currentUserId,
+    onWorkspaceUpdate,
+    onError
+}) => {
+    const [targetUserId, setTargetUserId] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const transfer = workspace.pendingTransfer;
+    const isOwner = !!currentUserId && workspace.owner === currentUserId;
+    const isOffered = !!transfer && transfer.to === currentUserId;
+    const candidates = members.filter(member => member.uid !== workspace.owner);
+
+    const getMemberName = (uid: string) => {
+        const member = members.find(m => m.uid === uid);
+        return member?.displayName || member?.email || 'Unknown user';
+    };
+
+    const runAction = async (action: () => Promise<Workspace>, description: string) => {
+        setSaving(true);
+        onError(null);
+
+        try {
+            const updatedWorkspace = await action();
+            onWorkspaceUpdate(updatedWorkspace);
+            setTargetUserId('');
+            logger.userAction(description, { workspaceId: workspace.id });
+        } catch (err) {
+            onError(err instanceof Error ? err.message : `Failed to ${description.toLowerCase()}`);
+            logger.error(`Failed to ${description.toLowerCase()}`, err);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handlePropose = () => {
+        if (!confirm(`Offer ownership of "${workspace.name}" to ${getMemberName(targetUserId)}? Once they accept, you will become an admin.`)) {
+            return;
+        }
+        runAction(() => proposeOwnershipTransfer(workspace.id, targetUserId), 'Propose ownership transfer');
+    };
+
+    if (isOffered && transfer) {
+        return (
+            <div className="rounded-lg border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20 p-4 flex items-center justify-between gap-4">
+                <div className="text-sm text-amber-900 dark:text-amber-200">
+                    <strong>{getMemberName(transfer.from)}</strong> wants to make you the owner of this workspace.
+                    <div className="text-xs mt-1">Expires {new Date(transfer.expiresAt).toLocaleDateString()}</div>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                    <button
+                        onClick={() => runAction(() => cancelOwnershipTransfer(workspace.id), 'Decline ownership transfer')}
+                        disabled={saving}
+                        className="px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700
+                                 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Decline
+                    </button>
+                    <button
+                        onClick={() => runAction(() => acceptOwnershipTransfer(workspace.id), 'Accept ownership transfer')}
+                        disabled={saving}
+                        className="px-3 py-1.5 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors
+                                 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Accept
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    if (!isOwner) {
+        return null;
+    }
+
+    return (
+        <div className="rounded-lg border border-gray-200 dark:border-gray-700 p-4 space-y-3">
+            <h4 className="font-semibold text-gray-900 dark:text-white">Transfer Ownership</h4>
+
+            {transfer ? (
+                <div className="flex items-center justify-between gap-4">
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                        Waiting for <strong>{transfer.toName || getMemberName(transfer.to)}</strong> to accept
+                        (expires {new Date(transfer.expiresAt).toLocaleDateString()}).
+                    </p>
+                    <button
+                        onClick={() => runAction(() => cancelOwnershipTransfer(workspace.id), 'Cancel ownership transfer')}
+                        disabled={saving}
+                        className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20
+                                 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex-shrink-0"
+                    >
+                        Cancel Transfer
+                    </button>
+                </div>
+            ) : candidates.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                    Invite someone to this workspace before handing it over.
+                </p>
+            ) : (
+                <div className="flex flex-wrap items-center gap-3">
+                    <select
+                        value={targetUserId}
+                        onChange={(e) => setTargetUserId(e.target.value)}
+                        className="border border-gray-300 dark:border-gray-600 rounded-md p-2 text-sm dark:bg-gray-700 dark:text-white"
+                    >
+                        <option value="">Choose a member</option>
+                        {candidates.map(member => (
+                            <option key={member.uid} value={member.uid}>
+                                {member.displayName || member.email}
+                            </option>
+                        ))}
+                    </select>
+                    <button
+                        onClick={handlePropose}
+                        disabled={saving || !targetUserId}
+                        className="px-3 py-1.5 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors
+                                 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Transfer Ownership
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default OwnershipTransferPanel;
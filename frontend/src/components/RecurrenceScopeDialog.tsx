@@ -0,0 +1,76 @@
+/**
+ * Recurrence Scope Dialog Component
+ * Asks which part of a recurring series an edit or delete applies to
+ */
+
+import React, { useState } from 'react';
+import type { EditScope } from '../types/event';
+
+interface RecurrenceScopeDialogProps {
+    isOpen: boolean;
+    action: 'edit' | 'delete';
+    onSelect: (scope: EditScope) => void;
+    onCancel: () => void;
+}
+
+const SCOPE_OPTIONS: { value: EditScope; label: string }[] = [
+    { value: 'this', label: 'This event' },
+    { value: 'following', label: 'This and following events' },
+    { value: 'all', label: 'All events' },
+];
+
+const RecurrenceScopeDialog: React.FC<RecurrenceScopeDialogProps> = ({
+    isOpen,
+    action,
+    onSelect,
+    onCancel
+}) => {
+    const [scope, setScope] = useState<EditScope>('this');
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 backdrop-blur-sm">
+            <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-2xl w-full max-w-sm mx-4 p-6">
+                <h2 className="text-lg font-bold text-gray-800 dark:text-white mb-4">
+                    {action === 'edit' ? 'Edit recurring event' : 'Delete recurring event'}
+                </h2>
+
+                <div className="space-y-3 mb-6">
+                    {SCOPE_OPTIONS.map((option) => (
+                        <label key={option.value} className="flex items-center space-x-3 cursor-pointer text-gray-700 dark:text-gray-200">
+                            <input
+                                type="radio"
+                                name="recurrence-scope"
+                                value={option.value}
+                                checked={scope === option.value}
+                                onChange={() => setScope(option.value)}
+                                className="text-blue-600 focus:ring-blue-500"
+                            />
+                            <span>{option.label}</span>
+                        </label>
+                    ))}
+                </div>
+
+                <div className="flex justify-end space-x-3">
+                    <button
+                        type="button"
+                        onClick={onCancel}
+                        className="px-4 py-2 text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition"
+                    >
+                        Cancel
+                    </button>
+                    <button
+                        type="button"
+                        onClick={() => onSelect(scope)}
+                        className={`px-4 py-2 text-white rounded-lg transition ${action === 'delete' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'}`}
+                    >
+                        OK
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default RecurrenceScopeDialog;
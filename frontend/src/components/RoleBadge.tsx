@@ -4,14 +4,16 @@
  */
 
 import React from 'react';
-import type { WorkspaceRole } from '../types/roles';
+import type { CustomRole, WorkspaceRole } from '../types/roles';
+import { getRoleName } from '../types/roles';
 
 interface RoleBadgeProps {
     role: WorkspaceRole;
+    customRoles?: CustomRole[];
     className?: string;
 }
 
-const RoleBadge: React.FC<RoleBadgeProps> = ({ role, className = '' }) => {
+const RoleBadge: React.FC<RoleBadgeProps> = ({ role, customRoles, className = '' }) => {
     const getRoleConfig = (role: WorkspaceRole) => {
         switch (role) {
             case 'owner':
@@ -59,6 +61,18 @@ const RoleBadge: React.FC<RoleBadgeProps> = ({ role, className = '' }) => {
                         </svg>
                     )
                 };
+            default:
+                // Custom role defined by the workspace
+                return {
+                    label: getRoleName(role, customRoles).toUpperCase(),
+                    bgColor: 'bg-gradient-to-r from-amber-500 to-orange-600',
+                    textColor: 'text-white',
+                    icon: (
+                        <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 20 20">
+                            <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                        </svg>
+                    )
+                };
         }
     };
 
@@ -0,0 +1,223 @@
+/**
+ * Scheduling Profile Settings Component
+ * Edit the scoring weights and thresholds used for AI slot suggestions,
+ * for the user or for workspaces they administer
+ */
+
+import React, { useState, useEffect } from 'react';
+import { auth } from '../config/firebase';
+import { getSchedulingProfile, updateSchedulingProfile } from '../utils/aiApi';
+import {
+    getUserWorkspaces,
+    getWorkspaceSchedulingProfile,
+    updateWorkspaceSchedulingProfile
+} from '../utils/workspaceApi';
+import { logger } from '../utils/logger';
+import { getRolePermissions } from '../types/roles';
+import type { SchedulingProfile, ScoringWeights } from '../types/ai';
+import type { Workspace } from '../types/workspace';
+
+const WEIGHT_LABELS: Array<{ key: keyof ScoringWeights; label: string }> = [
+    { key: 'availability', label: 'Availability (no conflicts)' },
+    { key: 'preference', label: 'Preferred hours and days' },
+    { key: 'attendee', label: 'Attendee availability' },
+    { key: 'disruption', label: 'Minimal disruption' },
+    { key: 'buffer', label: 'Buffer between events' }
+];
+
+const SLOT_GRANULARITIES = [5, 10, 15, 20, 30, 60];
+
+const SchedulingProfileSettings: React.FC = () => {
+    const [signedIn, setSignedIn] = useState(false);
+    const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+    const [target, setTarget] = useState('');
+    const [profile, setProfile] = useState<SchedulingProfile | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [saving, setSaving] = useState(false);
+    const [message, setMessage] = useState('');
+
+    useEffect(() => {
+        const unsubscribe = auth.onAuthStateChanged(async (user) => {
+            if (!user) {
+                setLoading(false);
+                return;
+            }
+
+            setSignedIn(true);
+            try {
+                const userWorkspaces = await getUserWorkspaces();
+                // Workspace profiles can be changed by roles that manage settings
+                setWorkspaces(userWorkspaces.filter(w => {
+                    const member = w.members.find(m => m.uid === user.uid);
+                    return !!member && getRolePermissions(member.role, w.customRoles).canManageSettings;
+                }));
+            } catch (error) {
+                logger.error('Error loading workspaces', error);
+            }
+        });
+        return () => unsubscribe();
+    }, []);
+
+    useEffect(() => {
+        if (!signedIn) return;
+
+        setLoading(true);
+        setMessage('');
+        const request = target ? getWorkspaceSchedulingProfile(target) : getSchedulingProfile();
+
+        request
+            .then(setProfile)
+            .catch(error => {
+                logger.error('Error loading scheduling profile', error);
+                setMessage('Failed to load scheduling profile.');
+            })
+            .finally(() => setLoading(false));
+    }, [target, signedIn]);
+
+    const handleSave = async () => {
+        if (!profile) return;
+
+        setSaving(true);
+        setMessage('');
+        try {
+            const saved = target
+                ? await updateWorkspaceSchedulingProfile(target, profile)
+                : await updateSchedulingProfile(profile);
+            setProfile(saved);
+            setMessage('Scheduling profile saved successfully!');
+        } catch (error) {
+            setMessage(error instanceof Error ? error.message : 'Failed to save scheduling profile.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const updateWeight = (key: keyof ScoringWeights, value: number) => {
+        if (!profile) return;
+        setProfile({ ...profile, weights: { ...profile.weights, [key]: value } });
+    };
+
+    const totalWeight = profile
+        ? WEIGHT_LABELS.reduce((sum, { key }) => sum + profile.weights[key], 0)
+        : 0;
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-8 rounded-xl shadow-lg transition-colors duration-300">
+            <h2 className="text-2xl font-bold mb-2 dark:text-white">Scheduling Profile</h2>
+            <p className="text-gray-600 dark:text-gray-300 mb-6">
+                Choose what matters most when AI suggests time slots. A workspace profile applies to scheduling in that workspace.
+            </p>
+
+            {message && (
+                <div className={`p-3 rounded mb-4 ${message.includes('success') ? 'bg-green-100 text-green-700 dark:bg-green-900 dark:text-green-100' : 'bg-red-100 text-red-700 dark:bg-red-900 dark:text-red-100'}`}>
+                    {message}
+                </div>
+            )}
+
+            <div className="mb-6">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Profile</label>
+                <select
+                    value={target}
+                    onChange={(e) => setTarget(e.target.value)}
+                    className="w-full border border-gray-300 dark:border-gray-600 rounded-md p-2 focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                    <option value="">My profile</option>
+                    {workspaces.map((w) => (
+                        <option key={w.id} value={w.id}>{w.name} (workspace)</option>
+                    ))}
+                </select>
+            </div>
+
+            {loading || !profile ? (
+                <div className="p-8 text-center">Loading scheduling profile...</div>
+            ) : (
+                <div className="space-y-6">
+                    <div>
+                        <h3 className="text-lg font-semibold mb-3 dark:text-white">Weights</h3>
+                        <div className="space-y-3">
+                            {WEIGHT_LABELS.map(({ key, label }) => (
+                                <div key={key}>
+                                    <div className="flex justify-between text-sm text-gray-700 dark:text-gray-300 mb-1">
+                                        <span>{label}</span>
+                                        <span>
+                                            {totalWeight > 0 ? Math.round((profile.weights[key] / totalWeight) * 100) : 0}%
+                                        </span>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        min={0}
+                                        max={1}
+                                        step={0.05}
+                                        value={profile.weights[key]}
+                                        onChange={(e) => updateWeight(key, Number(e.target.value))}
+                                        className="w-full"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Minimum score</label>
+                            <input
+                                type="number"
+                                min={0}
+                                max={100}
+                                value={profile.minScore}
+                                onChange={(e) => setProfile({ ...profile, minScore: Number(e.target.value) })}
+                                className="w-full border border-gray-300 dark:border-gray-600 rounded-md p-2 dark:bg-gray-700 dark:text-white"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Suggestions shown</label>
+                            <input
+                                type="number"
+                                min={1}
+                                max={50}
+                                value={profile.maxSuggestions}
+                                onChange={(e) => setProfile({ ...profile, maxSuggestions: Number(e.target.value) })}
+                                className="w-full border border-gray-300 dark:border-gray-600 rounded-md p-2 dark:bg-gray-700 dark:text-white"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Buffer between events (minutes)</label>
+                            <input
+                                type="number"
+                                min={0}
+                                max={240}
+                                value={profile.bufferMinutes}
+                                onChange={(e) => setProfile({ ...profile, bufferMinutes: Number(e.target.value) })}
+                                className="w-full border border-gray-300 dark:border-gray-600 rounded-md p-2 dark:bg-gray-700 dark:text-white"
+                            />
+                        </div>
+                        <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Slot granularity</label>
+                            <select
+                                value={profile.slotGranularityMinutes}
+                                onChange={(e) => setProfile({ ...profile, slotGranularityMinutes: Number(e.target.value) })}
+                                className="w-full border border-gray-300 dark:border-gray-600 rounded-md p-2 dark:bg-gray-700 dark:text-white"
+                            >
+                                {SLOT_GRANULARITIES.map((minutes) => (
+                                    <option key={minutes} value={minutes}>Every {minutes} minutes</option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+
+                    <div className="flex justify-end">
+                        <button
+                            onClick={handleSave}
+                            disabled={saving}
+                            className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 transition-colors"
+                        >
+                            {saving ? 'Saving...' : 'Save Profile'}
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default SchedulingProfileSettings;
@@ -1,6 +1,10 @@
 import React, { useState, useEffect } from 'react';
 import { auth } from '../config/firebase';
 import CalendarImageSettings from './CalendarImageSettings';
+import CalendarFeedSettings from './CalendarFeedSettings';
+import SchedulingProfileSettings from './SchedulingProfileSettings';
+import FocusTimeSettings from './FocusTimeSettings';
+import AIUsageSettings from './AIUsageSettings';
 
 interface SettingsData {
     defaultView: 'month' | 'week' | 'day';
@@ -8,7 +12,7 @@ interface SettingsData {
     defaultColor: string;
 }
 
-type SettingsTab = 'general' | 'calendar-images' | 'notifications';
+type SettingsTab = 'general' | 'calendar-images' | 'notifications' | 'subscriptions' | 'scheduling' | 'ai-usage';
 
 const Settings: React.FC = () => {
     const [activeTab, setActiveTab] = useState<SettingsTab>('general');
@@ -133,6 +137,33 @@ const Settings: React.FC = () => {
                     >
                         Notifications
                     </button>
+                    <button
+                        onClick={() => setActiveTab('subscriptions')}
+                        className={`py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'subscriptions'
+                            ? 'border-blue-600 text-blue-600'
+                            : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+                            }`}
+                    >
+                        Import & Export
+                    </button>
+                    <button
+                        onClick={() => setActiveTab('scheduling')}
+                        className={`py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'scheduling'
+                            ? 'border-blue-600 text-blue-600'
+                            : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+                            }`}
+                    >
+                        Scheduling
+                    </button>
+                    <button
+                        onClick={() => setActiveTab('ai-usage')}
+                        className={`py-4 px-1 border-b-2 font-medium text-sm ${activeTab === 'ai-usage'
+                            ? 'border-blue-600 text-blue-600'
+                            : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300 dark:text-gray-400 dark:hover:text-gray-300'
+                            }`}
+                    >
+                        AI Usage
+                    </button>
                 </nav>
             </div>
 
@@ -205,6 +236,17 @@ const Settings: React.FC = () => {
 
             {activeTab === 'calendar-images' && <CalendarImageSettings />}
 
+            {activeTab === 'subscriptions' && <CalendarFeedSettings />}
+
+            {activeTab === 'scheduling' && (
+                <div className="space-y-6">
+                    <SchedulingProfileSettings />
+                    <FocusTimeSettings />
+                </div>
+            )}
+
+            {activeTab === 'ai-usage' && <AIUsageSettings />}
+
             {activeTab === 'notifications' && (
                 <div className="bg-white dark:bg-gray-800 p-8 rounded-xl shadow-lg transition-colors duration-300">
                     <h2 className="text-2xl font-bold mb-6 dark:text-white">Notification Settings</h2>
@@ -1,15 +1,20 @@
 import React, { useState, type KeyboardEvent } from 'react';
 import { parseIntent } from '../utils/aiApi';
 import { logger } from '../utils/logger';
-import type { AIResponse } from '../types/ai';
+import type { AIResponse, SessionTurn } from '../types/ai';
 
 interface SmartComposeInputProps {
     onIntentParsed: (response: AIResponse) => void;
-    onClarificationNeeded: (question: string) => void;
+    onClarificationNeeded?: (question: string) => void;
     className?: string;
     placeholder?: string;
 }
 
+/**
+ * Chat-style input for AI scheduling
+ * Clarifying questions and answers form a thread in one scheduling session,
+ * so the user only answers what is missing instead of retyping the request
+ */
 const SmartComposeInput: React.FC<SmartComposeInputProps> = ({
     onIntentParsed,
     onClarificationNeeded,
@@ -19,6 +24,14 @@ const SmartComposeInput: React.FC<SmartComposeInputProps> = ({
     const [input, setInput] = useState('');
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const [sessionId, setSessionId] = useState<string | undefined>(undefined);
+    const [turns, setTurns] = useState<SessionTurn[]>([]);
+
+    const handleStartOver = () => {
+        setSessionId(undefined);
+        setTurns([]);
+        setError(null);
+    };
 
     const handleSubmit = async () => {
         if (!input.trim()) return;
@@ -28,11 +41,15 @@ const SmartComposeInput: React.FC<SmartComposeInputProps> = ({
 
         try {
             logger.info('Submitting smart compose input', { length: input.length });
-            const response = await parseIntent(input);
+            const response = await parseIntent(input, sessionId);
 
             if (response.success) {
+                setSessionId(response.sessionId);
+                setTurns(response.session?.turns || []);
+
                 if (response.clarificationNeeded && response.clarificationQuestion) {
-                    onClarificationNeeded(response.clarificationQuestion);
+                    setInput('');
+                    onClarificationNeeded?.(response.clarificationQuestion);
                 } else {
                     onIntentParsed(response);
                     setInput(''); // Clear input on success
@@ -70,8 +87,33 @@ const SmartComposeInput: React.FC<SmartComposeInputProps> = ({
         }
     };
 
+    const isAnswering = turns.length > 0 && turns[turns.length - 1].role === 'assistant';
+
     return (
         <div className={`relative w-full ${className}`}>
+            {turns.length > 0 && (
+                <div className="mb-2 p-3 bg-white/70 dark:bg-gray-800/70 rounded-xl shadow-sm space-y-2 max-h-48 overflow-y-auto">
+                    {turns.map((turn, index) => (
+                        <div key={index} className={`flex ${turn.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                            <div className={`px-3 py-1.5 rounded-lg text-sm max-w-[80%] ${turn.role === 'user'
+                                ? 'bg-purple-600 text-white'
+                                : 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-100'
+                                }`}>
+                                {turn.text}
+                            </div>
+                        </div>
+                    ))}
+                    <div className="text-right">
+                        <button
+                            onClick={handleStartOver}
+                            className="text-xs text-gray-500 hover:text-purple-600 dark:text-gray-400"
+                        >
+                            Start over
+                        </button>
+                    </div>
+                </div>
+            )}
+
             <div className="relative flex items-center">
                 <div className="absolute left-4 text-purple-500 animate-pulse">
                     <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
@@ -85,7 +127,7 @@ const SmartComposeInput: React.FC<SmartComposeInputProps> = ({
                     onKeyDown={handleKeyDown}
                     disabled={isLoading}
                     className="w-full h-12 pl-12 pr-12 text-base bg-white dark:bg-gray-800 border-2 border-transparent focus:border-purple-500 rounded-xl shadow-sm focus:outline-none focus:ring-2 focus:ring-purple-200 dark:focus:ring-purple-900 transition-all placeholder-gray-400 dark:placeholder-gray-500 text-gray-900 dark:text-white"
-                    placeholder={placeholder}
+                    placeholder={isAnswering ? 'Type your answer...' : placeholder}
                 />
                 <button
                     onClick={handleSubmit}
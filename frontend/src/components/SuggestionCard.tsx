@@ -15,6 +15,23 @@ const SuggestionCard: React.FC<SuggestionCardProps> = ({
 }) => {
     const quality = getSlotQuality(slot.score);
     const qualityColor = getQualityColor(quality);
+    const { scoreBreakdown } = slot;
+    const weights = scoreBreakdown.weights;
+    const totalWeight = weights
+        ? weights.availability + weights.preference + weights.attendee + weights.disruption + weights.buffer
+        : 0;
+    const share = (weight?: number) => (weight !== undefined && totalWeight > 0 ? weight / totalWeight : undefined);
+
+    // Bars follow the weights of the scheduling profile the slot was scored with
+    const breakdown = [
+        { label: 'Availability', value: scoreBreakdown.availability, weight: share(weights?.availability), color: 'bg-green-500 dark:bg-green-400' },
+        { label: 'Preferences', value: scoreBreakdown.preferenceMatch, weight: share(weights?.preference), color: 'bg-blue-500 dark:bg-blue-400' },
+        { label: 'Attendees', value: scoreBreakdown.attendeeAvailability, weight: share(weights?.attendee), color: 'bg-yellow-500 dark:bg-yellow-400' },
+        { label: 'Disruption', value: scoreBreakdown.minimalDisruption, weight: share(weights?.disruption), color: 'bg-purple-500 dark:bg-purple-400' },
+        ...(scoreBreakdown.bufferSpacing !== undefined
+            ? [{ label: 'Buffer', value: scoreBreakdown.bufferSpacing, weight: share(weights?.buffer), color: 'bg-pink-500 dark:bg-pink-400' }]
+            : [])
+    ];
 
     return (
         <div
@@ -47,27 +64,15 @@ const SuggestionCard: React.FC<SuggestionCardProps> = ({
             </div>
 
             {/* Score Breakdown visualization */}
-            <div className="mt-3 grid grid-cols-4 gap-1 h-1.5 w-full rounded-full overflow-hidden bg-gray-100 dark:bg-gray-700">
-                <div
-                    className="bg-green-500 dark:bg-green-400"
-                    style={{ width: `${slot.scoreBreakdown.availability}%`, opacity: 0.8 }}
-                    title="Availability"
-                />
-                <div
-                    className="bg-blue-500 dark:bg-blue-400"
-                    style={{ width: `${slot.scoreBreakdown.preferenceMatch}%`, opacity: 0.8 }}
-                    title="Preferences"
-                />
-                <div
-                    className="bg-yellow-500 dark:bg-yellow-400"
-                    style={{ width: `${slot.scoreBreakdown.attendeeAvailability}%`, opacity: 0.8 }}
-                    title="Attendees"
-                />
-                <div
-                    className="bg-purple-500 dark:bg-purple-400"
-                    style={{ width: `${slot.scoreBreakdown.minimalDisruption}%`, opacity: 0.8 }}
-                    title="Disruption"
-                />
+            <div className={`mt-3 grid ${breakdown.length > 4 ? 'grid-cols-5' : 'grid-cols-4'} gap-1 h-1.5 w-full rounded-full overflow-hidden bg-gray-100 dark:bg-gray-700`}>
+                {breakdown.map((part) => (
+                    <div
+                        key={part.label}
+                        className={part.color}
+                        style={{ width: `${part.value}%`, opacity: 0.8 }}
+                        title={part.weight !== undefined ? `${part.label} (weight ${Math.round(part.weight * 100)}%)` : part.label}
+                    />
+                ))}
             </div>
 
             {/* Warnings/Conflicts */}
@@ -83,6 +88,19 @@ const SuggestionCard: React.FC<SuggestionCardProps> = ({
                             </span>
                         </div>
                     )}
+                    {slot.requiredMoves && slot.requiredMoves.length > 0 && (
+                        <div className="text-xs text-gray-600 dark:text-gray-300 mb-1">
+                            <div className="font-medium">
+                                Reschedules {slot.requiredMoves.length} event{slot.requiredMoves.length > 1 ? 's' : ''}
+                                {slot.moveCost !== undefined && ` (disruption cost ${slot.moveCost})`}
+                            </div>
+                            {slot.requiredMoves.map((move) => (
+                                <div key={move.eventId} className="ml-2 truncate" title={move.reason}>
+                                    {move.eventTitle} → {formatSlotTime({ startTime: move.proposedStart, endTime: move.proposedEnd })}
+                                </div>
+                            ))}
+                        </div>
+                    )}
                     {slot.warnings.map((warning, index) => (
                         <div key={index} className="flex items-center text-xs text-gray-500 dark:text-gray-400">
                             <span className="w-1.5 h-1.5 rounded-full bg-yellow-400 mr-2" />
@@ -0,0 +1,83 @@
+/**
+ * Team Busy Overlay Component
+ * Shows teammates' busy blocks for one day on a 24-hour grid (times only, no event details)
+ */
+
+import React from 'react';
+import type { MemberFreeBusy } from '../types/workspace';
+
+interface TeamBusyOverlayProps {
+    date: Date;
+    freeBusy: MemberFreeBusy[];
+    showHourLabels?: boolean;
+    className?: string;
+}
+
+const GRID_HOURS = [6, 12, 18];
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const TeamBusyOverlay: React.FC<TeamBusyOverlayProps> = ({ date, freeBusy, showHourLabels = false, className = '' }) => {
+    if (freeBusy.length === 0) return null;
+
+    const dayStart = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    const dayEnd = new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1);
+    const dayLength = dayEnd.getTime() - dayStart.getTime();
+
+    return (
+        <div className={`border-t border-gray-200 dark:border-gray-700 pt-2 ${className}`}>
+            <div className="text-xs font-semibold text-gray-500 dark:text-gray-400 mb-1">Team busy</div>
+
+            {showHourLabels && (
+                <div className="relative h-4 text-[10px] text-gray-400 dark:text-gray-500">
+                    {GRID_HOURS.map((hour) => (
+                        <span key={hour} className="absolute -translate-x-1/2" style={{ left: `${(hour / 24) * 100}%` }}>
+                            {formatTime(new Date(dayStart.getFullYear(), dayStart.getMonth(), dayStart.getDate(), hour))}
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            <div className="space-y-1">
+                {freeBusy.map((member) => {
+                    const blocks = member.busy
+                        .map((interval) => ({
+                            start: Math.max(new Date(interval.start).getTime(), dayStart.getTime()),
+                            end: Math.min(new Date(interval.end).getTime(), dayEnd.getTime())
+                        }))
+                        .filter((block) => block.end > block.start);
+
+                    return (
+                        <div key={member.uid}>
+                            <div className="text-[11px] text-gray-600 dark:text-gray-300 truncate">
+                                {member.displayName || 'Teammate'}
+                            </div>
+                            <div className="relative h-3 bg-gray-100 dark:bg-gray-700 rounded overflow-hidden">
+                                {GRID_HOURS.map((hour) => (
+                                    <div
+                                        key={hour}
+                                        className="absolute top-0 bottom-0 w-px bg-gray-300 dark:bg-gray-600"
+                                        style={{ left: `${(hour / 24) * 100}%` }}
+                                    />
+                                ))}
+                                {blocks.map((block) => (
+                                    <div
+                                        key={block.start}
+                                        className="absolute top-0 bottom-0 bg-gray-500/60 dark:bg-gray-400/60"
+                                        style={{
+                                            left: `${((block.start - dayStart.getTime()) / dayLength) * 100}%`,
+                                            width: `${((block.end - block.start) / dayLength) * 100}%`
+                                        }}
+                                        title={`Busy ${formatTime(new Date(block.start))} - ${formatTime(new Date(block.end))}`}
+                                    />
+                                ))}
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        </div>
+    );
+};
+
+export default TeamBusyOverlay;
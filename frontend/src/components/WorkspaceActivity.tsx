@@ -0,0 +1,180 @@
+/**
+ * Workspace Activity Component
+ * Audit trail of who changed what in a workspace, for admins and the owner
+ */
+
+import React, { useState, useEffect } from 'react';
+import type { AuditAction, AuditEntry } from '../types/audit';
+import type { WorkspaceMember } from '../types/workspace';
+import { getWorkspaceAuditLog } from '../utils/workspaceApi';
+import { logger } from '../utils/logger';
+
+interface WorkspaceActivityProps {
+    workspaceId: string;
+    members: WorkspaceMember[];
+    onError: (message: string | null) => void;
+}
+
+const PAGE_SIZE = 50;
+
+const ACTION_LABELS: Record<AuditAction, string> = {
+    'workspace.create': 'created the workspace',
+    'workspace.update': 'updated the workspace',
+    'workspace.delete': 'deleted the workspace',
+    'workspace.settings': 'updated the scheduling profile',
+    'workspace.archive': 'archived the workspace',
+    'workspace.restore': 'restored the workspace',
+    'workspace.purge': 'permanently removed the workspace',
+    'member.join': 'joined',
+    'member.leave': 'left',
+    'member.remove': 'removed a member',
+    'member.role': 'changed a role',
+    'ownership.propose': 'offered ownership to',
+    'ownership.accept': 'accepted ownership of',
+    'ownership.decline': 'declined ownership of',
+    'ownership.cancel': 'withdrew the ownership offer to',
+    'role.create': 'created a custom role',
+    'role.update': 'updated a custom role',
+    'role.delete': 'deleted a custom role',
+    'invite.send': 'sent an invite',
+    'invite.accept': 'accepted an invite',
+    'invite.cancel': 'cancelled an invite',
+    'inviteCode.generate': 'generated an invite code',
+    'inviteCode.accept': 'joined with an invite code',
+    'inviteCode.deactivate': 'deactivated an invite code',
+    'event.create': 'created an event',
+    'event.update': 'updated an event',
+    'event.delete': 'deleted an event',
+    'event.schedule': 'scheduled with AI'
+};
+
+const formatValue = (value: unknown): string => {
+    if (value === null || value === undefined || value === '') return '—';
+    if (typeof value === 'string') {
+        // ISO timestamps read better in the user's locale
+        return /^\d{4}-\d{2}-\d{2}T/.test(value) ? new Date(value).toLocaleString() : value;
+    }
+    if (Array.isArray(value)) return value.map(formatValue).join(', ') || '—';
+    return JSON.stringify(value);
+};
+
+const WorkspaceActivity: React.FC<WorkspaceActivityProps> = ({ workspaceId, members, onError }) => {
+    const [entries, setEntries] = useState<AuditEntry[]>([]);
+    const [action, setAction] = useState<AuditAction | ''>('');
+    const [actorId, setActorId] = useState('');
+    const [loading, setLoading] = useState(false);
+    const [hasMore, setHasMore] = useState(false);
+
+    const loadEntries = async (until?: string) => {
+        setLoading(true);
+        onError(null);
+
+        try {
+            const page = await getWorkspaceAuditLog(workspaceId, {
+                action: action || undefined,
+                actorId: actorId || undefined,
+                until,
+                limit: PAGE_SIZE
+            });
+            setEntries(prev => until ? [...prev, ...page] : page);
+            setHasMore(page.length === PAGE_SIZE);
+        } catch (err) {
+            onError(err instanceof Error ? err.message : 'Failed to load activity');
+            logger.error('Failed to load workspace activity', err);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    useEffect(() => {
+        loadEntries();
+    }, [workspaceId, action, actorId]);
+
+    // Names are recorded with each entry, but current member names are preferred
+    const getActorName = (entry: AuditEntry): string => {
+        const member = members.find(m => m.uid === entry.actorId);
+        return member?.displayName || member?.email || entry.actorName || 'Unknown user';
+    };
+
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-wrap gap-3">
+                <select
+                    value={action}
+                    onChange={(e) => setAction(e.target.value as AuditAction | '')}
+                    className="border border-gray-300 dark:border-gray-600 rounded-md p-2 text-sm dark:bg-gray-700 dark:text-white"
+                >
+                    <option value="">All actions</option>
+                    {(Object.keys(ACTION_LABELS) as AuditAction[]).map(key => (
+                        <option key={key} value={key}>{key}</option>
+                    ))}
+                </select>
+                <select
+                    value={actorId}
+                    onChange={(e) => setActorId(e.target.value)}
+                    className="border border-gray-300 dark:border-gray-600 rounded-md p-2 text-sm dark:bg-gray-700 dark:text-white"
+                >
+                    <option value="">All members</option>
+                    {members.map(member => (
+                        <option key={member.uid} value={member.uid}>
+                            {member.displayName || member.email}
+                        </option>
+                    ))}
+                </select>
+            </div>
+
+            {!loading && entries.length === 0 && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No activity recorded yet.</p>
+            )}
+
+            <ul className="space-y-2">
+                {entries.map(entry => (
+                    <li
+                        key={entry.id || `${entry.timestamp}-${entry.action}`}
+                        className="rounded-lg border border-gray-200 dark:border-gray-700 p-3"
+                    >
+                        <div className="flex items-start justify-between gap-4">
+                            <div className="text-sm text-gray-900 dark:text-white">
+                                <span className="font-medium">{getActorName(entry)}</span>{' '}
+                                {ACTION_LABELS[entry.action] || entry.action}
+                                {entry.target.name && (
+                                    <span className="font-medium"> {entry.target.name}</span>
+                                )}
+                            </div>
+                            <div className="text-xs text-gray-500 dark:text-gray-400 flex-shrink-0">
+                                {new Date(entry.timestamp).toLocaleString()}
+                            </div>
+                        </div>
+                        {entry.changes && (
+                            <div className="mt-2 space-y-1">
+                                {Object.entries(entry.changes).map(([field, change]) => (
+                                    <div key={field} className="text-xs text-gray-600 dark:text-gray-400">
+                                        <span className="font-medium">{field}:</span>{' '}
+                                        <span className="line-through">{formatValue(change.before)}</span>
+                                        {' → '}
+                                        <span>{formatValue(change.after)}</span>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </li>
+                ))}
+            </ul>
+
+            {loading && (
+                <p className="text-sm text-gray-500 dark:text-gray-400">Loading activity...</p>
+            )}
+
+            {hasMore && !loading && (
+                <button
+                    onClick={() => loadEntries(entries[entries.length - 1]?.timestamp)}
+                    className="w-full py-2 text-sm text-purple-600 dark:text-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/20 rounded-lg transition-colors"
+                >
+                    Load more
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default WorkspaceActivity;
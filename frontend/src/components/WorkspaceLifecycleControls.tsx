@@ -0,0 +1,105 @@
+/**
+ * Workspace Lifecycle Controls Component
+ * Lets the owner archive, delete and restore a workspace
+ */
+
+import React, { useState } from 'react';
+import type { Workspace } from '../types/workspace';
+import { archiveWorkspace, deleteWorkspace, restoreWorkspace } from '../utils/workspaceApi';
+import { logger } from '../utils/logger';
+
+interface WorkspaceLifecycleControlsProps {
+    workspace: Workspace;
+    onWorkspaceUpdate: (workspace: Workspace) => void;
+    onError: (message: string | null) => void;
+}
+
+const WorkspaceLifecycleControls: React.FC<WorkspaceLifecycleControlsProps> = ({
+    workspace,
+    onWorkspaceUpdate,
+    onError
+}) => {
+    const [saving, setSaving] = useState(false);
+    const status = workspace.status || 'active';
+
+    const runAction = async (action: () => Promise<Workspace>, description: string) => {
+        setSaving(true);
+        onError(null);
+
+        try {
+            const updatedWorkspace = await action();
+            onWorkspaceUpdate(updatedWorkspace);
+            logger.userAction(description, { workspaceId: workspace.id });
+        } catch (err) {
+            onError(err instanceof Error ? err.message : `Failed to ${description.toLowerCase()}`);
+            logger.error(`Failed to ${description.toLowerCase()}`, err);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const handleArchive = () => {
+        if (!confirm(`Archive "${workspace.name}"? Members can still view it, but nobody can change anything until it is restored.`)) {
+            return;
+        }
+        runAction(() => archiveWorkspace(workspace.id), 'Archive workspace');
+    };
+
+    const handleDelete = () => {
+        if (!confirm(`Delete "${workspace.name}"? You can restore it for a limited time, after which its events, images and invites are removed for good.`)) {
+            return;
+        }
+        runAction(() => deleteWorkspace(workspace.id), 'Delete workspace');
+    };
+
+    return (
+        <div className="rounded-lg border border-red-200 dark:border-red-800 p-4 space-y-3">
+            <h4 className="font-semibold text-gray-900 dark:text-white">Archive or Delete</h4>
+
+            {status === 'deleted' && workspace.purgeAt && (
+                <p className="text-sm text-red-700 dark:text-red-300">
+                    This workspace was deleted and will be removed permanently on {new Date(workspace.purgeAt).toLocaleDateString()}.
+                </p>
+            )}
+            {status === 'archived' && (
+                <p className="text-sm text-gray-600 dark:text-gray-400">
+                    This workspace is archived and read-only.
+                </p>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+                {status === 'active' ? (
+                    <button
+                        onClick={handleArchive}
+                        disabled={saving}
+                        className="px-3 py-1.5 text-sm text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600
+                                 hover:bg-gray-100 dark:hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Archive Workspace
+                    </button>
+                ) : (
+                    <button
+                        onClick={() => runAction(() => restoreWorkspace(workspace.id), 'Restore workspace')}
+                        disabled={saving}
+                        className="px-3 py-1.5 text-sm bg-purple-600 hover:bg-purple-700 text-white rounded-lg transition-colors
+                                 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Restore Workspace
+                    </button>
+                )}
+                {status !== 'deleted' && (
+                    <button
+                        onClick={handleDelete}
+                        disabled={saving}
+                        className="px-3 py-1.5 text-sm text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20
+                                 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                        Delete Workspace
+                    </button>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default WorkspaceLifecycleControls;
@@ -1,17 +1,21 @@
 /**
  * Workspace Settings Component
- * Comprehensive settings interface for workspace management with tabs for members, roles, and invite code
+ * Comprehensive settings interface for workspace management with tabs for members, roles, invite code, and activity
  */
 
 import React, { useState, useEffect } from 'react';
 import { auth } from '../config/firebase';
 import type { Workspace, WorkspaceMember } from '../types/workspace';
-import type { WorkspaceRole } from '../types/roles';
-import { getRolePermissions } from '../types/roles';
+import type { CustomRole, WorkspaceRole } from '../types/roles';
+import { getRolePermissions, outranks } from '../types/roles';
 import { updateMemberRole, removeMember } from '../utils/roleApi';
 import { logger } from '../utils/logger';
 import RoleBadge from './RoleBadge';
 import MemberRoleDropdown from './MemberRoleDropdown';
+import CustomRolesManager from './CustomRolesManager';
+import WorkspaceActivity from './WorkspaceActivity';
+import OwnershipTransferPanel from './OwnershipTransferPanel';
+import WorkspaceLifecycleControls from './WorkspaceLifecycleControls';
 
 interface WorkspaceSettingsProps {
     workspace: Workspace;
@@ -19,7 +23,7 @@ interface WorkspaceSettingsProps {
     onClose: () => void;
 }
 
-type TabType = 'members' | 'roles' | 'invite';
+type TabType = 'members' | 'roles' | 'invite' | 'activity';
 
 const WorkspaceSettings: React.FC<WorkspaceSettingsProps> = ({
     workspace,
@@ -28,6 +32,7 @@ const WorkspaceSettings: React.FC<WorkspaceSettingsProps> = ({
 }) => {
     const [activeTab, setActiveTab] = useState<TabType>('members');
     const [members, setMembers] = useState<WorkspaceMember[]>(workspace.members);
+    const [customRoles, setCustomRoles] = useState<CustomRole[]>(workspace.customRoles || []);
     const [currentUser, setCurrentUser] = useState<any>(null);
     const [currentUserRole, setCurrentUserRole] = useState<WorkspaceRole>('viewer');
     const [isLoading, setIsLoading] = useState(false);
@@ -50,7 +55,19 @@ const WorkspaceSettings: React.FC<WorkspaceSettingsProps> = ({
         setMembers(workspace.members);
     }, [workspace.members]);
 
-    const permissions = getRolePermissions(currentUserRole);
+    useEffect(() => {
+        setCustomRoles(workspace.customRoles || []);
+    }, [workspace.customRoles]);
+
+    const permissions = getRolePermissions(currentUserRole, customRoles);
+
+    const handleCustomRolesChange = (updatedRoles: CustomRole[], updatedWorkspace?: Workspace) => {
+        setCustomRoles(updatedRoles);
+        if (updatedWorkspace) {
+            setMembers(updatedWorkspace.members);
+        }
+        onWorkspaceUpdate(updatedWorkspace || { ...workspace, members, customRoles: updatedRoles });
+    };
 
     const handleRoleChange = async (targetUserId: string, newRole: WorkspaceRole) => {
         setIsLoading(true);
@@ -92,6 +109,11 @@ const WorkspaceSettings: React.FC<WorkspaceSettingsProps> = ({
         }
     };
 
+    const handleTransferChange = (updatedWorkspace: Workspace) => {
+        setMembers(updatedWorkspace.members);
+        onWorkspaceUpdate(updatedWorkspace);
+    };
+
     const copyInviteCode = () => {
         navigator.clipboard.writeText(workspace.inviteCode);
         setCopiedCode(true);
@@ -101,6 +123,15 @@ const WorkspaceSettings: React.FC<WorkspaceSettingsProps> = ({
 
     const renderMembersTab = () => (
         <div className="space-y-4">
+            {/* Ownership offers, shown to the owner and the member offered the workspace */}
+            <OwnershipTransferPanel
+                workspace={workspace}
+                members={members}
+                currentUserId={currentUser?.uid}
+                onWorkspaceUpdate={handleTransferChange}
+                onError={setError}
+            />
+
             {/* Members Table */}
             <div className="overflow-x-auto">
                 <table className="w-full">
@@ -126,7 +157,7 @@ const WorkspaceSettings: React.FC<WorkspaceSettingsProps> = ({
                         {members.map((member) => {
                             const isCurrentUser = currentUser && member.uid === currentUser.uid;
                             const canRemove = permissions.canManageMembers &&
-                                member.role !== 'owner' &&
+                                outranks(permissions, getRolePermissions(member.role, customRoles)) &&
                                 !isCurrentUser;
 
                             return (
@@ -156,7 +187,7 @@ const WorkspaceSettings: React.FC<WorkspaceSettingsProps> = ({
                                         </div>
                                     </td>
                                     <td className="py-3 px-4">
-                                        <RoleBadge role={member.role} />
+                                        <RoleBadge role={member.role} customRoles={customRoles} />
                                     </td>
                                     <td className="py-3 px-4 text-sm text-gray-600 dark:text-gray-400">
                                         {new Date(member.joinedAt).toLocaleDateString()}
@@ -186,6 +217,15 @@ const WorkspaceSettings: React.FC<WorkspaceSettingsProps> = ({
             <div className="text-sm text-gray-500 dark:text-gray-400">
                 Total members: {members.length}
             </div>
+
+            {/* Archiving, deleting and restoring are left to the owner */}
+            {currentUser && workspace.owner === currentUser.uid && (
+                <WorkspaceLifecycleControls
+                    workspace={workspace}
+                    onWorkspaceUpdate={onWorkspaceUpdate}
+                    onError={setError}
+                />
+            )}
         </div>
     );
 
@@ -232,7 +272,7 @@ const WorkspaceSettings: React.FC<WorkspaceSettingsProps> = ({
                                         </div>
                                     </td>
                                     <td className="py-3 px-4">
-                                        <RoleBadge role={member.role} />
+                                        <RoleBadge role={member.role} customRoles={customRoles} />
                                     </td>
                                     {permissions.canChangeRoles && (
                                         <td className="py-3 px-4">
@@ -242,6 +282,7 @@ const WorkspaceSettings: React.FC<WorkspaceSettingsProps> = ({
                                                 targetMemberId={member.uid}
                                                 targetMemberName={member.displayName || 'Unknown'}
                                                 onRoleChange={(newRole) => handleRoleChange(member.uid, newRole)}
+                                                customRoles={customRoles}
                                                 disabled={isLoading}
                                             />
                                         </td>
@@ -266,8 +307,23 @@ const WorkspaceSettings: React.FC<WorkspaceSettingsProps> = ({
                     <div><strong>Admin:</strong> Can manage members, change roles (except owner), edit all events</div>
                     <div><strong>Member:</strong> Can create and edit own events</div>
                     <div><strong>Viewer:</strong> Can only view events, no editing permissions</div>
+                    {customRoles.map(role => (
+                        <div key={role.id}>
+                            <strong>{role.name}:</strong> {role.description || 'Custom role'}
+                        </div>
+                    ))}
                 </div>
             </div>
+
+            {/* Custom roles are defined by the owner */}
+            {permissions.canEditWorkspace && (
+                <CustomRolesManager
+                    workspaceId={workspace.id}
+                    customRoles={customRoles}
+                    onRolesChange={handleCustomRolesChange}
+                    onError={setError}
+                />
+            )}
         </div>
     );
 
@@ -400,11 +456,29 @@ const WorkspaceSettings: React.FC<WorkspaceSettingsProps> = ({
                         >
                             Invite Code
                         </button>
+                        {permissions.canManageSettings && (
+                            <button
+                                onClick={() => setActiveTab('activity')}
+                                className={`py-3 px-4 font-medium text-sm border-b-2 transition-colors
+                                          ${activeTab === 'activity'
+                                        ? 'border-purple-600 text-purple-600 dark:text-purple-400'
+                                        : 'border-transparent text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-200'
+                                    }`}
+                            >
+                                Activity
+                            </button>
+                        )}
                     </div>
                 </div>
 
                 {/* Content */}
                 <div className="flex-1 overflow-y-auto p-6">
+                    {workspace.status === 'archived' && (
+                        <div className="mb-4 p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-200 dark:border-amber-800 rounded-lg text-sm text-amber-800 dark:text-amber-300">
+                            This workspace is archived. Everything is read-only until the owner restores it.
+                        </div>
+                    )}
+
                     {error && (
                         <div className="mb-4 p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
                             <div className="flex items-center gap-2 text-red-800 dark:text-red-300">
@@ -419,6 +493,9 @@ const WorkspaceSettings: React.FC<WorkspaceSettingsProps> = ({
                     {activeTab === 'members' && renderMembersTab()}
                     {activeTab === 'roles' && renderRolesTab()}
                     {activeTab === 'invite' && renderInviteTab()}
+                    {activeTab === 'activity' && permissions.canManageSettings && (
+                        <WorkspaceActivity workspaceId={workspace.id} members={members} onError={setError} />
+                    )}
                 </div>
             </div>
         </div>
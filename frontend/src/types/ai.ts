@@ -3,7 +3,28 @@
  * TypeScript interfaces for AI-powered scheduling (mirrors backend types)
  */
 
+export type IntentAction = 'create' | 'move' | 'cancel' | 'update';
+
+export interface EventTarget {
+    query?: string;
+    attendees?: string[];
+    rangeStart?: string; // ISO
+    rangeEnd?: string; // ISO
+    all?: boolean;
+}
+
 export interface ParsedIntent {
+    // What to do: create a new event (default) or change existing ones
+    action?: IntentAction;
+    target?: EventTarget;
+    changes?: {
+        title?: string;
+        description?: string;
+        location?: string;
+        priority?: 'low' | 'medium' | 'high';
+        duration?: number; // minutes
+    };
+
     // Event details
     title?: string;
     description?: string;
@@ -42,6 +63,22 @@ export interface ParsedIntent {
     ambiguities?: string[];
 }
 
+export interface ScoringWeights {
+    availability: number;
+    preference: number;
+    attendee: number;
+    disruption: number;
+    buffer: number;
+}
+
+export interface SchedulingProfile {
+    weights: ScoringWeights;
+    minScore: number; // 0-100
+    maxSuggestions: number;
+    bufferMinutes: number;
+    slotGranularityMinutes: number;
+}
+
 export interface SuggestedSlot {
     id: string;
     startTime: string; // ISO
@@ -54,6 +91,8 @@ export interface SuggestedSlot {
         preferenceMatch: number;
         attendeeAvailability: number;
         minimalDisruption: number;
+        bufferSpacing?: number;
+        weights?: ScoringWeights;
     };
 
     // Conflicts and issues
@@ -65,6 +104,7 @@ export interface SuggestedSlot {
 
     // Potential changes needed
     requiredMoves?: EventMove[];
+    moveCost?: number;
 }
 
 export interface ConflictInfo {
@@ -85,33 +125,117 @@ export interface EventMove {
     proposedStart: string;
     proposedEnd: string;
     reason: string;
+    cost?: number;
 }
 
 export interface AIResponse {
     success: boolean;
     parsedIntent?: ParsedIntent;
     suggestions?: SuggestedSlot[];
+    suggestionSetId?: string;
+    sessionId?: string;
+    session?: SchedulingSession;
+    targetEvent?: CommandTarget;
+    command?: AICommand;
     clarificationNeeded?: boolean;
     clarificationQuestion?: string;
     error?: string;
 }
 
+export interface CommandTarget {
+    eventId: string;
+    title: string;
+    startDate: string;
+    endDate: string;
+    seriesId?: string;
+    occurrenceStart?: string;
+}
+
+export interface AICommand {
+    id: string;
+    workspaceId: string | null;
+    action: 'cancel' | 'update';
+    targets: CommandTarget[];
+    changes?: ParsedIntent['changes'];
+    status: 'pending' | 'applied';
+    createdAt: string;
+    expiresAt: string;
+}
+
 export interface ScheduleResult {
     success: boolean;
     eventId?: string;
+    operationId?: string;
     movedEvents?: EventMove[];
+    stale?: boolean;
+    suggestions?: SuggestedSlot[];
+    suggestionSetId?: string;
     message: string;
 }
 
+export interface SessionTurn {
+    role: 'user' | 'assistant';
+    text: string;
+    createdAt: string;
+}
+
+export interface SchedulingSession {
+    id: string;
+    workspaceId: string | null;
+    status: 'clarifying' | 'ready' | 'suggested' | 'booked' | 'applied';
+    turns: SessionTurn[];
+    parsedIntent: ParsedIntent;
+    ambiguities: string[];
+    suggestionSetId?: string;
+    eventId?: string;
+    createdAt: string;
+    updatedAt: string;
+}
+
 export type SlotQuality = 'excellent' | 'good' | 'fair' | 'poor';
 
+export interface AIProviderHealth {
+    provider: string;
+    initialized: boolean;
+    state: 'closed' | 'open' | 'half-open';
+    consecutiveFailures: number;
+    totalFailures: number;
+    totalSuccesses: number;
+    lastError?: string;
+    lastFailureAt?: string;
+    lastSuccessAt?: string;
+    openUntil?: string;
+}
+
 export interface AIStatus {
     success: boolean;
     enabled: boolean;
     provider: string;
+    chain: string[];
+    providers: AIProviderHealth[];
+    degraded: boolean;
     features: {
         parsing: boolean;
         suggestions: boolean;
         autoSchedule: boolean;
     };
 }
+
+export interface AIUsageCounters {
+    requests: number;
+    cachedRequests: number;
+    inputTokens: number;
+    outputTokens: number;
+    byProvider?: Record<string, { calls: number; inputTokens: number; outputTokens: number }>;
+}
+
+export interface AIQuota {
+    requests?: number;
+    tokens?: number;
+}
+
+export interface AIUsageReport {
+    period: string; // YYYY-MM
+    usage: AIUsageCounters;
+    quota: AIQuota;
+}
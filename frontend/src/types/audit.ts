@@ -0,0 +1,72 @@
+/**
+ * Frontend Audit Type Definitions
+ * TypeScript interfaces for the workspace activity log
+ */
+
+export type AuditAction =
+    | 'workspace.create'
+    | 'workspace.update'
+    | 'workspace.delete'
+    | 'workspace.settings'
+    | 'workspace.archive'
+    | 'workspace.restore'
+    | 'workspace.purge'
+    | 'member.join'
+    | 'member.leave'
+    | 'member.remove'
+    | 'member.role'
+    | 'ownership.propose'
+    | 'ownership.accept'
+    | 'ownership.decline'
+    | 'ownership.cancel'
+    | 'role.create'
+    | 'role.update'
+    | 'role.delete'
+    | 'invite.send'
+    | 'invite.accept'
+    | 'invite.cancel'
+    | 'inviteCode.generate'
+    | 'inviteCode.accept'
+    | 'inviteCode.deactivate'
+    | 'event.create'
+    | 'event.update'
+    | 'event.delete'
+    | 'event.schedule';
+
+export type AuditTargetType = 'workspace' | 'member' | 'role' | 'invite' | 'inviteCode' | 'event';
+
+export interface AuditTarget {
+    type: AuditTargetType;
+    id: string;
+    name?: string; // Display name at the time of the change
+}
+
+/**
+ * A changed field's value before and after the change
+ */
+export interface AuditChange {
+    before: unknown;
+    after: unknown;
+}
+
+export interface AuditEntry {
+    id?: string;
+    workspaceId: string | null; // null for personal events
+    actorId: string;
+    actorName?: string;
+    action: AuditAction;
+    target: AuditTarget;
+    changes?: Record<string, AuditChange>;
+    metadata?: Record<string, unknown>;
+    timestamp: string;
+}
+
+export interface AuditQuery {
+    action?: AuditAction;
+    actorId?: string;
+    targetType?: AuditTargetType;
+    targetId?: string;
+    since?: string;
+    until?: string;
+    limit?: number;
+}
@@ -1,14 +1,73 @@
+// Which part of a recurring series an edit or delete applies to
+export type EditScope = 'this' | 'following' | 'all';
+
+// RSVP state of an invited attendee
+export type AttendeeResponseStatus = 'needs-action' | 'accepted' | 'declined' | 'tentative';
+
+export interface EventAttendee {
+    email: string;
+    uid?: string;
+    displayName?: string;
+    responseStatus: AttendeeResponseStatus;
+    respondedAt?: string;
+}
+
 // Shared Event type for calendar events
 // Using a different name from the DOM Event interface to avoid conflicts
+// Focus time is kept free of meetings by the AI scheduler
+export type EventType = 'default' | 'focusTime';
+
 export interface CalendarEvent {
     _id: string;
     title: string;
+    eventType?: EventType;
     startDate: string;
     endDate: string;
+    timeZone?: string; // IANA zone the event is planned in
     description?: string;
     recurrence: string;
+    rrule?: string | null; // RFC 5545 RRULE stored by the backend
+    isRecurring?: boolean;
+    seriesId?: string; // Set on expanded occurrences of a recurring series
+    occurrenceStart?: string;
+    isOccurrence?: boolean;
     color?: string;
     location?: string;
     priority?: 'low' | 'medium' | 'high';
+    attendees?: EventAttendee[];
+    userId?: string;
     createdBy?: string;
 }
+
+// Tokenized iCalendar subscription feed for a user or workspace
+export interface CalendarFeed {
+    id: string;
+    token: string;
+    userId: string;
+    workspaceId: string | null;
+    name: string;
+    isActive: boolean;
+    createdAt: string;
+    url: string;
+}
+
+export interface IcsImportReport {
+    created: number;
+    updated: number;
+    skipped: number;
+    errors: { uid: string; reason: string }[];
+}
+
+// Weekly window the AI scheduler keeps free, in the user's time zone
+export interface ProtectedWindow {
+    label?: string;
+    days: number[]; // 0-6, Sunday = 0
+    start: string; // "09:00"
+    end: string; // "11:00"
+}
+
+export interface FocusTimeSettings {
+    protectedWindows: ProtectedWindow[];
+    weeklyFocusMinutes: number;
+    focusBlockMinutes: number;
+}
@@ -3,25 +3,55 @@
  * TypeScript interfaces for workspace-related data structures
  */
 
+import type { CustomRole, WorkspaceRole } from './roles';
+
 export interface WorkspaceMember {
     uid: string;
-    role: 'owner' | 'admin' | 'member' | 'viewer';
+    role: WorkspaceRole;
     joinedAt: string;
     displayName?: string;
     email?: string;
 }
 
+export type WorkspaceStatus = 'active' | 'archived' | 'deleted';
+
+export interface OwnershipTransfer {
+    from: string;
+    to: string;
+    toName?: string;
+    proposedAt: string;
+    expiresAt: string;
+}
+
 export interface Workspace {
     id: string;
     name: string;
     slug: string;
     owner: string;
     members: WorkspaceMember[];
+    customRoles?: CustomRole[];
+    pendingTransfer?: OwnershipTransfer | null;
+    status?: WorkspaceStatus; // Missing means active
+    archivedAt?: string | null;
+    deletedAt?: string | null;
+    deletedBy?: string | null;
+    purgeAt?: string | null;
     inviteCode: string;
     createdAt: string;
     updatedAt: string;
 }
 
+export interface BusyInterval {
+    start: string;
+    end: string;
+}
+
+export interface MemberFreeBusy {
+    uid: string;
+    displayName?: string;
+    busy: BusyInterval[];
+}
+
 export interface WorkspaceResponse {
     success: boolean;
     workspace?: Workspace;
@@ -8,9 +8,13 @@ import type {
     ParsedIntent,
     SuggestedSlot,
     AIResponse,
+    AICommand,
     ScheduleResult,
-    AIStatus
+    AIStatus,
+    AIUsageReport,
+    SchedulingProfile
 } from '../types/ai';
+import type { CalendarEvent, FocusTimeSettings } from '../types/event';
 import { logger } from './logger';
 
 const API_URL = 'http://localhost:5000/api';
@@ -28,11 +32,13 @@ const getAuthToken = async (): Promise<string> => {
 
 /**
  * Parse natural language into structured intent
+ * Pass the sessionId of a previous response to answer its clarification question
  */
-export const parseIntent = async (prompt: string): Promise<AIResponse> => {
+export const parseIntent = async (prompt: string, sessionId?: string): Promise<AIResponse> => {
     try {
         logger.api('POST', '/api/ai/parse', undefined, undefined, {
-            promptLength: prompt.length
+            promptLength: prompt.length,
+            sessionId
         });
 
         const token = await getAuthToken();
@@ -42,7 +48,7 @@ export const parseIntent = async (prompt: string): Promise<AIResponse> => {
                 'Authorization': `Bearer ${token}`,
                 'Content-Type': 'application/json'
             },
-            body: JSON.stringify({ prompt })
+            body: JSON.stringify({ prompt, sessionId })
         });
 
         if (!response.ok) {
@@ -65,17 +71,20 @@ export const parseIntent = async (prompt: string): Promise<AIResponse> => {
 
 /**
  * Get time slot suggestions based on parsed intent
+ * For a move, the response also names the event the suggestions would move
  */
 export const getSuggestions = async (
     parsedIntent: ParsedIntent,
     workspaceId?: string,
-    searchWindowDays: number = 7
-): Promise<SuggestedSlot[]> => {
+    searchWindowDays: number = 7,
+    sessionId?: string
+): Promise<AIResponse> => {
     try {
         logger.api('POST', '/api/ai/suggest', undefined, undefined, {
             hasIntent: !!parsedIntent,
             workspaceId,
-            searchWindowDays
+            searchWindowDays,
+            sessionId
         });
 
         const token = await getAuthToken();
@@ -88,7 +97,8 @@ export const getSuggestions = async (
             body: JSON.stringify({
                 parsedIntent,
                 workspaceId,
-                searchWindowDays
+                searchWindowDays,
+                sessionId
             })
         });
 
@@ -99,10 +109,11 @@ export const getSuggestions = async (
 
         const data: AIResponse = await response.json();
         logger.success('Suggestions received', {
-            count: data.suggestions?.length || 0
+            count: data.suggestions?.length || 0,
+            targetEventId: data.targetEvent?.eventId
         });
 
-        return data.suggestions || [];
+        return data;
     } catch (error) {
         logger.error('Error getting suggestions', error);
         throw error;
@@ -110,18 +121,18 @@ export const getSuggestions = async (
 };
 
 /**
- * Schedule event using selected slot
+ * Schedule event using a suggested slot (the server keeps the suggestion details)
+ * A stale slot resolves with `stale` set and fresh suggestions instead of throwing
  */
 export const scheduleEvent = async (
-    selectedSlot: SuggestedSlot,
-    parsedIntent: ParsedIntent,
-    workspaceId?: string,
+    slotId: string,
     autoResolveConflicts: boolean = false,
-    notifyAttendees: boolean = false
+    notifyAttendees: boolean = false,
+    sessionId?: string
 ): Promise<ScheduleResult> => {
     try {
         logger.api('POST', '/api/ai/schedule', undefined, undefined, {
-            slotId: selectedSlot.id,
+            slotId,
             autoResolve: autoResolveConflicts
         });
 
@@ -133,10 +144,8 @@ export const scheduleEvent = async (
                 'Content-Type': 'application/json'
             },
             body: JSON.stringify({
-                slotId: selectedSlot.id,
-                selectedSlot,
-                parsedIntent,
-                workspaceId,
+                slotId,
+                sessionId,
                 autoResolveConflicts,
                 notifyAttendees
             })
@@ -144,6 +153,10 @@ export const scheduleEvent = async (
 
         if (!response.ok) {
             const errorData = await response.json();
+            if (errorData.stale) {
+                logger.warn('Selected slot is no longer available', { slotId });
+                return errorData as ScheduleResult;
+            }
             throw new Error(errorData.message || 'Failed to schedule event');
         }
 
@@ -160,6 +173,115 @@ export const scheduleEvent = async (
     }
 };
 
+/**
+ * Undo an AI schedule operation (moved events go back, the new event is deleted)
+ */
+export const undoScheduleOperation = async (operationId: string): Promise<void> => {
+    try {
+        logger.api('POST', `/api/ai/schedule/${operationId}/undo`);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/ai/schedule/${operationId}/undo`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to undo scheduling');
+        }
+
+        const data = await response.json();
+        logger.success('Schedule operation undone', { operationId, restoredEvents: data.restoredEvents });
+    } catch (error) {
+        logger.error('Error undoing schedule operation', error);
+        throw error;
+    }
+};
+
+/**
+ * Preview a cancel or update command: the server finds the events it applies to
+ * and keeps the command until it is confirmed
+ */
+export const previewCommand = async (
+    parsedIntent: ParsedIntent,
+    workspaceId?: string,
+    sessionId?: string
+): Promise<AICommand> => {
+    try {
+        logger.api('POST', '/api/ai/commands', undefined, undefined, {
+            action: parsedIntent.action,
+            workspaceId,
+            sessionId
+        });
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/ai/commands`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ parsedIntent, workspaceId, sessionId })
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'Failed to preview command');
+        }
+
+        const data: AIResponse = await response.json();
+        if (!data.command) {
+            throw new Error('Failed to preview command');
+        }
+
+        logger.success('Command previewed', {
+            commandId: data.command.id,
+            targets: data.command.targets.length
+        });
+
+        return data.command;
+    } catch (error) {
+        logger.error('Error previewing command', error);
+        throw error;
+    }
+};
+
+/**
+ * Apply a previewed command, returns the server's summary of what changed
+ */
+export const applyCommand = async (commandId: string, sessionId?: string): Promise<string> => {
+    try {
+        logger.api('POST', `/api/ai/commands/${commandId}/apply`);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/ai/commands/${commandId}/apply`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ sessionId })
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to apply command');
+        }
+
+        const data = await response.json();
+        logger.success('Command applied', { commandId, applied: data.applied });
+
+        return data.message;
+    } catch (error) {
+        logger.error('Error applying command', error);
+        throw error;
+    }
+};
+
 /**
  * Get clarifying question for ambiguous input
  */
@@ -232,10 +354,203 @@ export const getAIStatus = async (): Promise<AIStatus> => {
     }
 };
 
+/**
+ * Get the user's AI usage and quota for the current month
+ */
+export const getAIUsage = async (): Promise<AIUsageReport> => {
+    try {
+        logger.api('GET', '/api/ai/usage');
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/ai/usage`, {
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || 'Failed to get AI usage');
+        }
+
+        const { period, usage, quota } = await response.json();
+        logger.success('AI usage retrieved', { period });
+
+        return { period, usage, quota };
+    } catch (error) {
+        logger.error('Error getting AI usage', error);
+        throw error;
+    }
+};
+
+/**
+ * Get the user's scheduling profile (defaults filled in)
+ */
+export const getSchedulingProfile = async (): Promise<SchedulingProfile> => {
+    try {
+        logger.api('GET', '/api/settings/scheduling');
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/settings/scheduling`, {
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to get scheduling profile');
+        }
+
+        const data: SchedulingProfile = await response.json();
+        logger.success('Scheduling profile retrieved');
+
+        return data;
+    } catch (error) {
+        logger.error('Error getting scheduling profile', error);
+        throw error;
+    }
+};
+
+/**
+ * Update the user's scheduling profile
+ */
+export const updateSchedulingProfile = async (
+    profile: Partial<SchedulingProfile>
+): Promise<SchedulingProfile> => {
+    try {
+        logger.api('PUT', '/api/settings/scheduling', undefined, undefined, profile);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/settings/scheduling`, {
+            method: 'PUT',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(profile)
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to update scheduling profile');
+        }
+
+        const data: SchedulingProfile = await response.json();
+        logger.success('Scheduling profile updated');
+
+        return data;
+    } catch (error) {
+        logger.error('Error updating scheduling profile', error);
+        throw error;
+    }
+};
+
+/**
+ * Get the user's focus time settings
+ */
+export const getFocusTimeSettings = async (): Promise<FocusTimeSettings> => {
+    try {
+        logger.api('GET', '/api/settings/focus-time');
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/settings/focus-time`, {
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to get focus time settings');
+        }
+
+        const data: FocusTimeSettings = await response.json();
+        logger.success('Focus time settings retrieved', { windows: data.protectedWindows.length });
+
+        return data;
+    } catch (error) {
+        logger.error('Error getting focus time settings', error);
+        throw error;
+    }
+};
+
+/**
+ * Update the user's focus time settings
+ */
+export const updateFocusTimeSettings = async (
+    settings: Partial<FocusTimeSettings>
+): Promise<FocusTimeSettings> => {
+    try {
+        logger.api('PUT', '/api/settings/focus-time', undefined, undefined, settings);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/settings/focus-time`, {
+            method: 'PUT',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(settings)
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to update focus time settings');
+        }
+
+        const data: FocusTimeSettings = await response.json();
+        logger.success('Focus time settings updated');
+
+        return data;
+    } catch (error) {
+        logger.error('Error updating focus time settings', error);
+        throw error;
+    }
+};
+
+/**
+ * Place focus blocks into free time of the week starting at weekStart (default: now)
+ */
+export const placeFocusTime = async (weekStart?: Date): Promise<CalendarEvent[]> => {
+    try {
+        logger.api('POST', '/api/ai/focus-time', undefined, undefined, { weekStart });
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/ai/focus-time`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ weekStart: weekStart?.toISOString() })
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to place focus time');
+        }
+
+        const data = await response.json();
+        logger.success('Focus time placed', { count: data.events?.length });
+
+        return data.events || [];
+    } catch (error) {
+        logger.error('Error placing focus time', error);
+        throw error;
+    }
+};
+
 /**
  * Helper: Format slot time for display
  */
-export const formatSlotTime = (slot: SuggestedSlot): string => {
+export const formatSlotTime = (slot: Pick<SuggestedSlot, 'startTime' | 'endTime'>): string => {
     const start = new Date(slot.startTime);
     const end = new Date(slot.endTime);
 
@@ -0,0 +1,255 @@
+/**
+ * Event API Service
+ * Handles HTTP requests to event endpoints
+ */
+
+import { auth } from '../config/firebase';
+import type { AttendeeResponseStatus, CalendarEvent, CalendarFeed, EventAttendee, IcsImportReport } from '../types/event';
+import { logger } from './logger';
+
+const API_URL = 'http://localhost:5000/api';
+
+/**
+ * Get authentication token from Firebase
+ */
+const getAuthToken = async (): Promise<string> => {
+    const user = auth.currentUser;
+    if (!user) {
+        throw new Error('User not authenticated');
+    }
+    return await user.getIdToken();
+};
+
+/**
+ * Get events in a time window, with recurring series expanded into occurrences
+ */
+export const getEventsInRange = async (
+    start: Date,
+    end: Date,
+    workspaceId?: string
+): Promise<CalendarEvent[]> => {
+    try {
+        const params = new URLSearchParams({
+            start: start.toISOString(),
+            end: end.toISOString()
+        });
+        if (workspaceId) {
+            params.append('workspaceId', workspaceId);
+        }
+
+        logger.api('GET', `/api/events?${params.toString()}`);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/events?${params.toString()}`, {
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch events: ${response.statusText}`);
+        }
+
+        const data: CalendarEvent[] = await response.json();
+
+        logger.success('Events in range fetched successfully', { count: data.length });
+        return data;
+    } catch (error) {
+        logger.error('Error fetching events in range', error);
+        throw error;
+    }
+};
+
+/**
+ * RSVP to an event the current user is invited to
+ */
+export const respondToEvent = async (
+    eventId: string,
+    status: AttendeeResponseStatus
+): Promise<EventAttendee[]> => {
+    try {
+        logger.api('POST', `/api/events/${eventId}/rsvp`, undefined, undefined, { status });
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/events/${eventId}/rsvp`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ status })
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to respond to event');
+        }
+
+        const data = await response.json();
+
+        logger.success('Event response recorded', { eventId, status });
+        return data.attendees;
+    } catch (error) {
+        logger.error('Error responding to event', error);
+        throw error;
+    }
+};
+
+/**
+ * Download events as an .ics file (the user's own, or a workspace's)
+ */
+export const exportEventsAsIcs = async (workspaceId?: string): Promise<Blob> => {
+    try {
+        const query = workspaceId ? `?workspaceId=${encodeURIComponent(workspaceId)}` : '';
+        logger.api('GET', `/api/events/export.ics${query}`);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/events/export.ics${query}`, {
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${token}`
+            }
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to export events: ${response.statusText}`);
+        }
+
+        const blob = await response.blob();
+
+        logger.success('Events exported successfully', { size: blob.size });
+        return blob;
+    } catch (error) {
+        logger.error('Error exporting events', error);
+        throw error;
+    }
+};
+
+/**
+ * Import events from an .ics file (into the user's calendar, or a workspace)
+ */
+export const importIcsFile = async (file: File, workspaceId?: string): Promise<IcsImportReport> => {
+    try {
+        logger.api('POST', '/api/events/import', undefined, undefined, { filename: file.name, workspaceId });
+
+        const formData = new FormData();
+        formData.append('file', file);
+        if (workspaceId) {
+            formData.append('workspaceId', workspaceId);
+        }
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/events/import`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${token}`
+            },
+            body: formData
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to import events');
+        }
+
+        const data = await response.json();
+
+        logger.success('Events imported successfully', data.report);
+        return data.report;
+    } catch (error) {
+        logger.error('Error importing events', error);
+        throw error;
+    }
+};
+
+/**
+ * List the current user's active subscription feeds
+ */
+export const listCalendarFeeds = async (): Promise<CalendarFeed[]> => {
+    try {
+        logger.api('GET', '/api/events/feeds');
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/events/feeds`, {
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            throw new Error(`Failed to fetch calendar feeds: ${response.statusText}`);
+        }
+
+        const data = await response.json();
+
+        logger.success('Calendar feeds fetched successfully', { count: data.feeds?.length });
+        return data.feeds || [];
+    } catch (error) {
+        logger.error('Error fetching calendar feeds', error);
+        throw error;
+    }
+};
+
+/**
+ * Create a subscription feed (the user's own events, or a workspace's)
+ */
+export const createCalendarFeed = async (workspaceId?: string): Promise<CalendarFeed> => {
+    try {
+        logger.api('POST', '/api/events/feeds', undefined, undefined, { workspaceId });
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/events/feeds`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ workspaceId })
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to create calendar feed');
+        }
+
+        const data = await response.json();
+
+        logger.success('Calendar feed created successfully', { feedId: data.feed?.id });
+        return data.feed;
+    } catch (error) {
+        logger.error('Error creating calendar feed', error);
+        throw error;
+    }
+};
+
+/**
+ * Revoke a subscription feed
+ */
+export const revokeCalendarFeed = async (feedId: string): Promise<void> => {
+    try {
+        logger.api('DELETE', `/api/events/feeds/${feedId}`);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/events/feeds/${feedId}`, {
+            method: 'DELETE',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to revoke calendar feed');
+        }
+
+        logger.success('Calendar feed revoked successfully', { feedId });
+    } catch (error) {
+        logger.error('Error revoking calendar feed', error);
+        throw error;
+    }
+};
@@ -4,7 +4,7 @@
  */
 
 import { auth } from '../config/firebase';
-import type { WorkspaceRole, MemberInfo } from '../types/roles';
+import type { WorkspaceRole, MemberInfo, CustomRole, CustomRoleRequest } from '../types/roles';
 import type { Workspace } from '../types/workspace';
 import { logger } from './logger';
 
@@ -137,3 +137,202 @@ export const getWorkspaceMembers = async (workspaceId: string): Promise<MemberIn
         throw error;
     }
 };
+
+/**
+ * Create a custom role in a workspace (owner only)
+ */
+export const createCustomRole = async (
+    workspaceId: string,
+    input: CustomRoleRequest
+): Promise<CustomRole> => {
+    try {
+        logger.api('POST', `/api/workspaces/roles/${workspaceId}/custom`, undefined, undefined, input);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/workspaces/roles/${workspaceId}/custom`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(input)
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to create role');
+        }
+
+        const data = await response.json();
+
+        logger.success('Custom role created successfully', { roleId: data.role?.id });
+        return data.role;
+    } catch (error) {
+        logger.error('Error creating custom role', error);
+        throw error;
+    }
+};
+
+/**
+ * Update a custom role's name and permissions (owner only)
+ */
+export const updateCustomRole = async (
+    workspaceId: string,
+    roleId: string,
+    input: CustomRoleRequest
+): Promise<CustomRole> => {
+    try {
+        logger.api('PUT', `/api/workspaces/roles/${workspaceId}/custom/${roleId}`, undefined, undefined, input);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/workspaces/roles/${workspaceId}/custom/${roleId}`, {
+            method: 'PUT',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(input)
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to update role');
+        }
+
+        const data = await response.json();
+
+        logger.success('Custom role updated successfully', { roleId });
+        return data.role;
+    } catch (error) {
+        logger.error('Error updating custom role', error);
+        throw error;
+    }
+};
+
+/**
+ * Delete a custom role; members holding it become members (owner only)
+ */
+export const deleteCustomRole = async (
+    workspaceId: string,
+    roleId: string
+): Promise<Workspace> => {
+    try {
+        logger.api('DELETE', `/api/workspaces/roles/${workspaceId}/custom/${roleId}`);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/workspaces/roles/${workspaceId}/custom/${roleId}`, {
+            method: 'DELETE',
+            headers: {
+                'Authorization': `Bearer ${token}`
+            }
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to delete role');
+        }
+
+        const data = await response.json();
+
+        logger.success('Custom role deleted successfully', { roleId });
+        return data.workspace;
+    } catch (error) {
+        logger.error('Error deleting custom role', error);
+        throw error;
+    }
+};
+
+/**
+ * Offer workspace ownership to another member (owner only)
+ */
+export const proposeOwnershipTransfer = async (
+    workspaceId: string,
+    targetUserId: string
+): Promise<Workspace> => {
+    try {
+        logger.api('POST', `/api/workspaces/roles/${workspaceId}/transfer`, undefined, undefined, { targetUserId });
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/workspaces/roles/${workspaceId}/transfer`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify({ targetUserId })
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to transfer ownership');
+        }
+
+        const data = await response.json();
+
+        logger.success('Ownership transfer proposed', { targetUserId });
+        return data.workspace;
+    } catch (error) {
+        logger.error('Error proposing ownership transfer', error);
+        throw error;
+    }
+};
+
+/**
+ * Accept ownership offered to the current user
+ */
+export const acceptOwnershipTransfer = async (workspaceId: string): Promise<Workspace> => {
+    try {
+        logger.api('POST', `/api/workspaces/roles/${workspaceId}/transfer/accept`);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/workspaces/roles/${workspaceId}/transfer/accept`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${token}`
+            }
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to accept ownership');
+        }
+
+        const data = await response.json();
+
+        logger.success('Ownership transfer accepted', { workspaceId });
+        return data.workspace;
+    } catch (error) {
+        logger.error('Error accepting ownership transfer', error);
+        throw error;
+    }
+};
+
+/**
+ * Withdraw (owner) or decline (offered member) a pending ownership transfer
+ */
+export const cancelOwnershipTransfer = async (workspaceId: string): Promise<Workspace> => {
+    try {
+        logger.api('DELETE', `/api/workspaces/roles/${workspaceId}/transfer`);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/workspaces/roles/${workspaceId}/transfer`, {
+            method: 'DELETE',
+            headers: {
+                'Authorization': `Bearer ${token}`
+            }
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to cancel ownership transfer');
+        }
+
+        const data = await response.json();
+
+        logger.success('Ownership transfer cancelled', { workspaceId });
+        return data.workspace;
+    } catch (error) {
+        logger.error('Error cancelling ownership transfer', error);
+        throw error;
+    }
+};
@@ -0,0 +1,102 @@
+/**
+ * Time Zone Utilities
+ * Convert between instants and wall-clock times in IANA time zones using Intl
+ */
+
+// Zones offered in pickers; the viewer's own zone is added when missing
+export const COMMON_TIME_ZONES = [
+    'Asia/Kolkata',
+    'America/New_York',
+    'America/Los_Angeles',
+    'Europe/London',
+    'Europe/Paris',
+    'Asia/Tokyo',
+    'Australia/Sydney',
+    'Pacific/Auckland',
+];
+
+/**
+ * The browser's time zone, in which the calendar is rendered
+ */
+export const getViewerTimeZone = (): string => {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone;
+};
+
+/**
+ * Zones for a picker, including the viewer's and any extra ones (e.g. an event's)
+ */
+export const getTimeZoneOptions = (...extra: Array<string | undefined>): string[] => {
+    const zones = [getViewerTimeZone(), ...COMMON_TIME_ZONES, ...extra];
+    return Array.from(new Set(zones.filter((z): z is string => !!z)));
+};
+
+/**
+ * Wall-clock parts of an instant in a time zone
+ */
+const getZonedParts = (date: Date, timeZone: string) => {
+    const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+    }).formatToParts(date);
+
+    const get = (type: string) => Number(parts.find(p => p.type === type)?.value);
+    return {
+        year: get('year'),
+        month: get('month'),
+        day: get('day'),
+        hour: get('hour'),
+        minute: get('minute'),
+        second: get('second')
+    };
+};
+
+/**
+ * Format an ISO instant for a datetime-local input (YYYY-MM-DDTHH:mm) in a time zone
+ */
+export const toZonedInputValue = (isoString: string, timeZone: string): string => {
+    if (!isoString) return '';
+    const p = getZonedParts(new Date(isoString), timeZone);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${p.year}-${pad(p.month)}-${pad(p.day)}T${pad(p.hour)}:${pad(p.minute)}`;
+};
+
+/**
+ * Convert a datetime-local input value, read as wall-clock time in a time zone, to an ISO instant
+ */
+export const fromZonedInputValue = (value: string, timeZone: string): string => {
+    if (!value) return value;
+    const [datePart, timePart = '00:00'] = value.split('T');
+    const [year, month, day] = datePart.split('-').map(Number);
+    const [hour, minute] = timePart.split(':').map(Number);
+
+    const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+    const offsetAt = (instant: number) => {
+        const p = getZonedParts(new Date(instant), timeZone);
+        return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - instant;
+    };
+
+    // Re-check the offset at the candidate in case it crossed a DST transition
+    const offset = offsetAt(wallClock);
+    const corrected = offsetAt(wallClock - offset);
+    return new Date(wallClock - corrected).toISOString();
+};
+
+/**
+ * Format an ISO instant as date and time in a time zone, e.g. "Mon, Mar 10, 9:00 AM"
+ */
+export const formatInTimeZone = (isoString: string, timeZone: string): string => {
+    return new Date(isoString).toLocaleString('en-US', {
+        timeZone,
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: '2-digit'
+    });
+};
@@ -4,7 +4,9 @@
  */
 
 import { auth } from '../config/firebase';
-import type { Workspace, WorkspaceResponse } from '../types/workspace';
+import type { MemberFreeBusy, Workspace, WorkspaceResponse } from '../types/workspace';
+import type { AIUsageReport, SchedulingProfile } from '../types/ai';
+import type { AuditEntry, AuditQuery } from '../types/audit';
 import { logger } from './logger';
 
 const API_URL = 'http://localhost:5000/api';
@@ -22,13 +24,15 @@ const getAuthToken = async (): Promise<string> => {
 
 /**
  * Get all workspaces for the current user
+ * Deleted workspaces the user owns are included only when asked for, so they can be restored
  */
-export const getUserWorkspaces = async (): Promise<Workspace[]> => {
+export const getUserWorkspaces = async (includeDeleted: boolean = false): Promise<Workspace[]> => {
     try {
-        logger.api('GET', '/api/workspaces');
+        const query = includeDeleted ? '?includeDeleted=true' : '';
+        logger.api('GET', `/api/workspaces${query}`);
 
         const token = await getAuthToken();
-        const response = await fetch(`${API_URL}/workspaces`, {
+        const response = await fetch(`${API_URL}/workspaces${query}`, {
             method: 'GET',
             headers: {
                 'Authorization': `Bearer ${token}`,
@@ -193,9 +197,10 @@ export const updateWorkspace = async (workspaceId: string, name: string): Promis
 };
 
 /**
- * Delete a workspace
+ * Delete a workspace (owner only)
+ * It can be restored until its purgeAt date, after which it is removed with all its data
  */
-export const deleteWorkspace = async (workspaceId: string): Promise<void> => {
+export const deleteWorkspace = async (workspaceId: string): Promise<Workspace> => {
     try {
         logger.api('DELETE', `/api/workspaces/${workspaceId}`);
 
@@ -210,16 +215,93 @@ export const deleteWorkspace = async (workspaceId: string): Promise<void> => {
 
         if (!response.ok) {
             const errorData = await response.json();
-            throw new Error(errorData.message || 'Failed to delete workspace');
+            throw new Error(errorData.error || errorData.message || 'Failed to delete workspace');
+        }
+
+        const data: WorkspaceResponse = await response.json();
+
+        if (!data.workspace) {
+            throw new Error('Failed to delete workspace');
         }
 
         logger.success('Workspace deleted successfully', { workspaceId });
+        return data.workspace;
     } catch (error) {
         logger.error('Error deleting workspace', error);
         throw error;
     }
 };
 
+/**
+ * Archive a workspace, making it read-only (owner only)
+ */
+export const archiveWorkspace = async (workspaceId: string): Promise<Workspace> => {
+    try {
+        logger.api('POST', `/api/workspaces/${workspaceId}/archive`);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/workspaces/${workspaceId}/archive`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || errorData.message || 'Failed to archive workspace');
+        }
+
+        const data: WorkspaceResponse = await response.json();
+
+        if (!data.workspace) {
+            throw new Error('Failed to archive workspace');
+        }
+
+        logger.success('Workspace archived successfully', { workspaceId });
+        return data.workspace;
+    } catch (error) {
+        logger.error('Error archiving workspace', error);
+        throw error;
+    }
+};
+
+/**
+ * Restore an archived or deleted workspace (owner only)
+ */
+export const restoreWorkspace = async (workspaceId: string): Promise<Workspace> => {
+    try {
+        logger.api('POST', `/api/workspaces/${workspaceId}/restore`);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/workspaces/${workspaceId}/restore`, {
+            method: 'POST',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.error || errorData.message || 'Failed to restore workspace');
+        }
+
+        const data: WorkspaceResponse = await response.json();
+
+        if (!data.workspace) {
+            throw new Error('Failed to restore workspace');
+        }
+
+        logger.success('Workspace restored successfully', { workspaceId });
+        return data.workspace;
+    } catch (error) {
+        logger.error('Error restoring workspace', error);
+        throw error;
+    }
+};
+
 /**
  * Leave a workspace
  */
@@ -247,3 +329,185 @@ export const leaveWorkspace = async (workspaceId: string): Promise<void> => {
         throw error;
     }
 };
+
+/**
+ * Get merged busy intervals of workspace members (no event details)
+ */
+export const getWorkspaceFreeBusy = async (
+    workspaceId: string,
+    uids: string[],
+    start: Date,
+    end: Date
+): Promise<MemberFreeBusy[]> => {
+    try {
+        const params = new URLSearchParams({
+            uids: uids.join(','),
+            start: start.toISOString(),
+            end: end.toISOString()
+        });
+
+        logger.api('GET', `/api/workspaces/${workspaceId}/freebusy`);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/workspaces/${workspaceId}/freebusy?${params}`, {
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to fetch free/busy time');
+        }
+
+        const data = await response.json();
+
+        logger.success('Free/busy fetched successfully', { workspaceId, members: data.freeBusy?.length });
+        return data.freeBusy || [];
+    } catch (error) {
+        logger.error('Error fetching free/busy time', error);
+        throw error;
+    }
+};
+
+/**
+ * Get a workspace's scheduling profile (defaults filled in)
+ */
+export const getWorkspaceSchedulingProfile = async (workspaceId: string): Promise<SchedulingProfile> => {
+    try {
+        logger.api('GET', `/api/workspaces/${workspaceId}/scheduling-profile`);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/workspaces/${workspaceId}/scheduling-profile`, {
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to fetch scheduling profile');
+        }
+
+        const data = await response.json();
+
+        logger.success('Workspace scheduling profile fetched successfully', { workspaceId });
+        return data.profile;
+    } catch (error) {
+        logger.error('Error fetching workspace scheduling profile', error);
+        throw error;
+    }
+};
+
+/**
+ * Get a workspace's AI usage and quota for the current month (admins and owner)
+ */
+export const getWorkspaceAIUsage = async (workspaceId: string): Promise<AIUsageReport> => {
+    try {
+        logger.api('GET', `/api/workspaces/${workspaceId}/ai-usage`);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/workspaces/${workspaceId}/ai-usage`, {
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to fetch AI usage');
+        }
+
+        const { period, usage, quota } = await response.json();
+
+        logger.success('Workspace AI usage fetched successfully', { workspaceId });
+        return { period, usage, quota };
+    } catch (error) {
+        logger.error('Error fetching workspace AI usage', error);
+        throw error;
+    }
+};
+
+/**
+ * Get a page of a workspace's audit trail, newest first (admins and owner)
+ * Pass the oldest timestamp of a page as `until` to get the next page
+ */
+export const getWorkspaceAuditLog = async (
+    workspaceId: string,
+    filters: AuditQuery = {}
+): Promise<AuditEntry[]> => {
+    try {
+        const params = new URLSearchParams();
+        for (const [key, value] of Object.entries(filters)) {
+            if (value !== undefined && value !== '') {
+                params.append(key, String(value));
+            }
+        }
+        const query = params.toString() ? `?${params.toString()}` : '';
+
+        logger.api('GET', `/api/workspaces/${workspaceId}/audit-log${query}`);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/workspaces/${workspaceId}/audit-log${query}`, {
+            method: 'GET',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            }
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to fetch activity');
+        }
+
+        const data = await response.json();
+
+        logger.success('Workspace audit log fetched successfully', { workspaceId, count: data.entries?.length });
+        return data.entries || [];
+    } catch (error) {
+        logger.error('Error fetching workspace audit log', error);
+        throw error;
+    }
+};
+
+/**
+ * Update a workspace's scheduling profile (admins and owner)
+ */
+export const updateWorkspaceSchedulingProfile = async (
+    workspaceId: string,
+    profile: Partial<SchedulingProfile>
+): Promise<SchedulingProfile> => {
+    try {
+        logger.api('PUT', `/api/workspaces/${workspaceId}/scheduling-profile`, undefined, undefined, profile);
+
+        const token = await getAuthToken();
+        const response = await fetch(`${API_URL}/workspaces/${workspaceId}/scheduling-profile`, {
+            method: 'PUT',
+            headers: {
+                'Authorization': `Bearer ${token}`,
+                'Content-Type': 'application/json'
+            },
+            body: JSON.stringify(profile)
+        });
+
+        if (!response.ok) {
+            const errorData = await response.json();
+            throw new Error(errorData.message || 'Failed to update scheduling profile');
+        }
+
+        const data = await response.json();
+
+        logger.success('Workspace scheduling profile updated successfully', { workspaceId });
+        return data.profile;
+    } catch (error) {
+        logger.error('Error updating workspace scheduling profile', error);
+        throw error;
+    }
+};